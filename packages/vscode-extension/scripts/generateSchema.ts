@@ -0,0 +1,12 @@
+/**
+ * Writes schemas/diagram.schema.json from src/lib/diagramSchema.ts.
+ * Run with `npm run generate:schema` after changing the diagram types.
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { buildDiagramSchema } from '../src/lib/diagramSchema';
+
+const target = join(__dirname, '..', 'schemas', 'diagram.schema.json');
+writeFileSync(target, JSON.stringify(buildDiagramSchema(), null, 2) + '\n');
+console.log(`Wrote ${target}`);
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('vscode', () => import('./__mocks__/vscode'));
+
+import { DiagramCodeLensProvider } from './DiagramCodeLensProvider';
+import type { DiagramIndex, EntrypointReference } from './DiagramIndex';
+import * as vscode from 'vscode';
+
+const SOURCE = vscode.Uri.file('/workspace/src/api/main.ts');
+
+function ref(file: string, title: string): EntrypointReference {
+  return { uri: vscode.Uri.file(file), title, nodeId: 'api', label: 'API' };
+}
+
+function register(refs: EntrypointReference[]) {
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+  const index = {
+    findEntrypointReferences: vi.fn().mockResolvedValue(refs),
+    onDidChange: vi.fn(),
+  } as unknown as DiagramIndex;
+  const provider = DiagramCodeLensProvider.register(context, index);
+  const reveal = vi.mocked(vscode.commands.registerCommand).mock.calls
+    .find(([id]) => id === 'diagramflow.revealInDiagram')?.[1] as (uri?: vscode.Uri) => Promise<void>;
+  return { context, index, provider, reveal };
+}
+
+describe('DiagramCodeLensProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('registers the CodeLens provider and the Reveal in Diagram command', () => {
+    const { context, index, provider, reveal } = register([]);
+    expect(vscode.languages.registerCodeLensProvider).toHaveBeenCalledWith({ scheme: 'file' }, provider);
+    expect(reveal).toBeTypeOf('function');
+    expect(context.subscriptions).toHaveLength(2);
+    expect(provider.onDidChangeCodeLenses).toBe(index.onDidChange);
+  });
+
+  it('shows a lens per node that names the file as its entrypoint', async () => {
+    const shop = ref('/workspace/shop.diagram', 'Shop');
+    const { provider, index } = register([shop]);
+
+    const lenses = await provider.provideCodeLenses({ uri: SOURCE } as vscode.TextDocument);
+
+    expect(index.findEntrypointReferences).toHaveBeenCalledWith(SOURCE);
+    expect(lenses).toHaveLength(1);
+    expect(lenses[0].command).toEqual({
+      command: 'diagramflow.revealNode',
+      title: 'Part of Shop › API',
+      arguments: [shop.uri, 'api'],
+    });
+  });
+
+  it('reveals the node for the active editor, asking which one when there are several', async () => {
+    const shop = ref('/workspace/shop.diagram', 'Shop');
+    const context = ref('/workspace/context.diagram', 'Context');
+    const { reveal } = register([shop, context]);
+    vi.mocked(vscode.window.showQuickPick).mockImplementationOnce(async (items) => (await items)[1]);
+    Object.assign(vscode.window, { activeTextEditor: { document: { uri: SOURCE } } });
+    try {
+      await reveal();
+    } finally {
+      Object.assign(vscode.window, { activeTextEditor: undefined });
+    }
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('diagramflow.revealNode', context.uri, 'api');
+  });
+
+  it('says so when no node names the file', async () => {
+    const { reveal } = register([]);
+
+    await reveal(SOURCE);
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'DiagramFlow: no diagram node has src/api/main.ts as its entrypoint.',
+    );
+    expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import type { DiagramIndex, EntrypointReference } from './DiagramIndex';
+import { DiagramEditorProvider } from './DiagramEditorProvider';
+
+function revealCommand(ref: EntrypointReference, title: string): vscode.Command {
+  return { command: DiagramEditorProvider.revealNodeCommand, title, arguments: [ref.uri, ref.nodeId] };
+}
+
+/**
+ * Links source files back to the diagram nodes that name them as their
+ * `properties.entrypoint`: a "Part of <diagram> › <node>" CodeLens at the top
+ * of the file, and the Reveal in Diagram command. Both open the diagram with
+ * the node selected and centred.
+ */
+export class DiagramCodeLensProvider implements vscode.CodeLensProvider {
+  /** Reveals the node whose entrypoint is a file: `(uri?)`, defaulting to the active editor. */
+  public static readonly revealInDiagramCommand = 'diagramflow.revealInDiagram';
+
+  public readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+  private constructor(private readonly index: DiagramIndex) {
+    this.onDidChangeCodeLenses = index.onDidChange;
+  }
+
+  public static register(context: vscode.ExtensionContext, index: DiagramIndex): DiagramCodeLensProvider {
+    const provider = new DiagramCodeLensProvider(index);
+    context.subscriptions.push(
+      vscode.languages.registerCodeLensProvider({ scheme: 'file' }, provider),
+      vscode.commands.registerCommand(DiagramCodeLensProvider.revealInDiagramCommand, (uri?: vscode.Uri) =>
+        provider.revealInDiagram(uri),
+      ),
+    );
+    return provider;
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    const refs = await this.index.findEntrypointReferences(document.uri);
+    const top = new vscode.Range(0, 0, 0, 0);
+    return refs.map((ref) => new vscode.CodeLens(top, revealCommand(ref, `Part of ${ref.title} › ${ref.label}`)));
+  }
+
+  /** Asks which node to reveal when several diagrams name the file. */
+  async revealInDiagram(uri = vscode.window.activeTextEditor?.document.uri): Promise<void> {
+    if (!uri) return;
+    const refs = await this.index.findEntrypointReferences(uri);
+    if (refs.length === 0) {
+      void vscode.window.showInformationMessage(
+        `DiagramFlow: no diagram node has ${vscode.workspace.asRelativePath(uri)} as its entrypoint.`,
+      );
+      return;
+    }
+
+    let [ref] = refs;
+    if (refs.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        refs.map((r) => ({ label: r.label, description: r.title, detail: vscode.workspace.asRelativePath(r.uri), ref: r })),
+        { placeHolder: 'Reveal in which diagram?' },
+      );
+      if (!picked) return;
+      ref = picked.ref;
+    }
+    await vscode.commands.executeCommand(DiagramEditorProvider.revealNodeCommand, ref.uri, ref.nodeId);
+  }
+}
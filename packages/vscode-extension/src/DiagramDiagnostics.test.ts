@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('vscode', () => import('./__mocks__/vscode'));
+
+import { DiagramDiagnostics } from './DiagramDiagnostics';
+import type { DiagramService } from './DiagramService';
+import type { DiagramDocument } from './types/DiagramDocument';
+import { findDriftAsync } from './lib/drift';
+import * as vscode from 'vscode';
+
+function makeTextDocument(fsPath: string, text: string): vscode.TextDocument {
+  return {
+    uri: vscode.Uri.file(fsPath),
+    getText: () => text,
+    positionAt: (offset: number) => {
+      const before = text.slice(0, offset).split('\n');
+      return new vscode.Position(before.length - 1, before[before.length - 1].length);
+    },
+  } as unknown as vscode.TextDocument;
+}
+
+/** Paths the fake DiagramService treats as existing files. */
+const existingFiles = new Set<string>();
+
+function register() {
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+  const service = {
+    applySemanticOps: vi.fn().mockResolvedValue({ success: true }),
+    findDrift: vi.fn((doc: DiagramDocument) => findDriftAsync(doc, async (target) => existingFiles.has(target))),
+  } as unknown as DiagramService;
+  const diagnostics = DiagramDiagnostics.register(context, service);
+  const collection = vi.mocked(vscode.languages.createDiagnosticCollection).mock.results[0].value as {
+    set: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+  };
+  return { context, diagnostics, collection, service };
+}
+
+function lastDiagnostics(collection: { set: ReturnType<typeof vi.fn> }): vscode.Diagnostic[] {
+  return collection.set.mock.calls[collection.set.mock.calls.length - 1][1] as vscode.Diagnostic[];
+}
+
+const INVALID = `{
+  "meta": { "title": "T", "created": "2025-01-01", "modified": "2025-01-01" },
+  "nodes": [{ "id": "n1", "label": "A", "shape": "blob" }, { "id": "n2", "label": "B" }],
+  "edges": [{ "id": "e1", "source": "n1", "target": "n2", "label": "calls", "protocol": "REST" }]
+}`;
+
+/** Valid, but with an empty group and an edge without a protocol. */
+const UNHEALTHY = JSON.stringify({
+  meta: { title: 'T', created: '2025-01-01', modified: '2025-01-01' },
+  nodes: [{ id: 'n1', label: 'A' }, { id: 'n2', label: 'B' }],
+  edges: [{ id: 'e1', source: 'n1', target: 'n2', label: 'calls' }],
+  groups: [{ id: 'g1', label: 'Empty' }],
+}, null, 2);
+
+describe('DiagramDiagnostics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports problems on the field they refer to, with its JSON path', async () => {
+    const { diagnostics, collection } = register();
+    const doc = makeTextDocument('/work/broken.diagram', INVALID);
+
+    await diagnostics.update(doc);
+
+    const [uri, reported] = collection.set.mock.calls[0] as [vscode.Uri, vscode.Diagnostic[]];
+    expect(uri).toBe(doc.uri);
+    expect(reported).toHaveLength(1);
+    expect(reported[0].code).toBe('nodes[0].shape');
+    expect(reported[0].source).toBe('diagramflow');
+    const column = INVALID.split('\n')[2].indexOf('"shape"');
+    expect(reported[0].range).toEqual(new vscode.Range(2, column, 2, column + '"shape": "blob"'.length));
+  });
+
+  it('clears problems once the file is valid', async () => {
+    const { diagnostics, collection } = register();
+
+    await diagnostics.update(makeTextDocument('/work/ok.diagram', INVALID.replace('blob', 'rectangle')));
+
+    expect(collection.set).toHaveBeenCalledWith(expect.anything(), []);
+  });
+
+  it('reports lint findings with their severity and rule', async () => {
+    const { diagnostics, collection } = register();
+
+    await diagnostics.update(makeTextDocument('/work/unhealthy.diagram', UNHEALTHY));
+
+    expect(lastDiagnostics(collection).map((d) => [d.code, d.severity])).toEqual([
+      ['edge-missing-protocol', vscode.DiagnosticSeverity.Information],
+      ['empty-group', vscode.DiagnosticSeverity.Warning],
+    ]);
+  });
+
+  it('leaves out rules turned off in settings', async () => {
+    vi.mocked(vscode.workspace.getConfiguration).mockReturnValueOnce({
+      get: () => ({ 'empty-group': false }),
+    } as unknown as vscode.WorkspaceConfiguration);
+    const { diagnostics, collection } = register();
+
+    await diagnostics.update(makeTextDocument('/work/unhealthy.diagram', UNHEALTHY));
+
+    expect(lastDiagnostics(collection).map((d) => d.code)).toEqual(['edge-missing-protocol']);
+  });
+
+  it('reports node properties that point at missing files, and rechecks when files change', async () => {
+    vi.useFakeTimers();
+    existingFiles.add('src/api.ts');
+    const { diagnostics, collection } = register();
+    const text = JSON.stringify({
+      meta: { title: 'T', created: '2025-01-01', modified: '2025-01-01' },
+      nodes: [
+        { id: 'n1', label: 'A', properties: { entrypoint: 'src/api.ts', adr: 'docs/adr/missing.md' } },
+        { id: 'n2', label: 'B' },
+      ],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2', label: 'calls', protocol: 'REST' }],
+    }, null, 2);
+    const doc = makeTextDocument('/workspace/arch.diagram', text);
+    (vscode.workspace.textDocuments as vscode.TextDocument[]).push(doc);
+    const changed = vi.fn();
+    diagnostics.onDidChangeDrift(changed);
+    try {
+      await diagnostics.update(doc);
+      expect(lastDiagnostics(collection).map((d) => [d.code, d.message])).toEqual([
+        ['stale-reference', '"A" ADR not found: docs/adr/missing.md'],
+      ]);
+      expect(changed).toHaveBeenCalledWith(doc.uri);
+
+      // One watcher, and only after the events have settled.
+      expect(vscode.workspace.createFileSystemWatcher).toHaveBeenCalledTimes(1);
+      expect(vscode.workspace.createFileSystemWatcher).toHaveBeenCalledWith('**/*', false, true, false);
+      const watcher = vi.mocked(vscode.workspace.createFileSystemWatcher).mock.results[0].value as {
+        onDidDelete: ReturnType<typeof vi.fn>;
+      };
+      const onDelete = watcher.onDidDelete.mock.calls[0][0] as (uri: vscode.Uri) => void;
+      existingFiles.delete('src/api.ts');
+      collection.set.mockClear();
+      changed.mockClear();
+      onDelete(vscode.Uri.file('/workspace/src/api.ts'));
+      onDelete(vscode.Uri.file('/workspace/src'));
+      expect(collection.set).not.toHaveBeenCalled();
+      await vi.runAllTimersAsync();
+
+      expect(collection.set).toHaveBeenCalledTimes(1);
+      expect(lastDiagnostics(collection).map((d) => d.message)).toEqual([
+        '"A" entrypoint not found: src/api.ts',
+        '"A" ADR not found: docs/adr/missing.md',
+      ]);
+      expect(diagnostics.driftOf(doc.uri)).toHaveLength(2);
+      expect(changed).toHaveBeenCalledWith(doc.uri);
+    } finally {
+      vi.useRealTimers();
+      existingFiles.clear();
+      (vscode.workspace.textDocuments as vscode.TextDocument[]).length = 0;
+    }
+  });
+
+  it('does not recheck drift for files in node_modules, .git or files.watcherExclude', async () => {
+    vi.useFakeTimers();
+    vi.mocked(vscode.workspace.getConfiguration).mockImplementation(
+      (section?: string) =>
+        ({
+          get: (_key: string, defaultValue?: unknown) =>
+            section === 'files' ? { '**/dist/**': true, '**/build/**': false } : defaultValue,
+        }) as unknown as vscode.WorkspaceConfiguration,
+    );
+    const { collection } = register();
+    const doc = makeTextDocument('/workspace/arch.diagram', UNHEALTHY);
+    (vscode.workspace.textDocuments as vscode.TextDocument[]).push(doc);
+    try {
+      const watcher = vi.mocked(vscode.workspace.createFileSystemWatcher).mock.results[0].value as {
+        onDidCreate: ReturnType<typeof vi.fn>;
+      };
+      const onCreate = watcher.onDidCreate.mock.calls[0][0] as (uri: vscode.Uri) => void;
+      onCreate(vscode.Uri.file('/workspace/node_modules/react/index.js'));
+      onCreate(vscode.Uri.file('/workspace/.git/index.lock'));
+      onCreate(vscode.Uri.file('/workspace/packages/web/dist/main.js'));
+      await vi.runAllTimersAsync();
+      expect(collection.set).not.toHaveBeenCalled();
+
+      onCreate(vscode.Uri.file('/workspace/build/main.js'));
+      await vi.runAllTimersAsync();
+      expect(collection.set).toHaveBeenCalledWith(doc.uri, expect.any(Array));
+    } finally {
+      vi.useRealTimers();
+      vi.mocked(vscode.workspace.getConfiguration).mockReset();
+      (vscode.workspace.textDocuments as vscode.TextDocument[]).length = 0;
+    }
+  });
+
+  it('offers quick fixes for findings that have one and applies them', async () => {
+    const { diagnostics, collection, service } = register();
+    const doc = makeTextDocument('/work/unhealthy.diagram', UNHEALTHY);
+    await diagnostics.update(doc);
+
+    const actions = diagnostics.provideCodeActions(doc, new vscode.Range(0, 0, 0, 0), {
+      diagnostics: lastDiagnostics(collection),
+    } as unknown as vscode.CodeActionContext);
+    expect(actions.map((a) => a.title)).toEqual(['Add missing protocol', 'Remove empty group']);
+
+    const apply = vi.mocked(vscode.commands.registerCommand).mock.calls
+      .find(([name]) => name === 'diagramflow.applyLintFix')![1];
+    vi.mocked(vscode.workspace.openTextDocument).mockResolvedValueOnce(doc);
+    await apply(...actions[1].command!.arguments!);
+    expect(service.applySemanticOps).toHaveBeenCalledWith([{ op: 'remove_group', id: 'g1' }], doc, {
+      change: { label: 'Remove empty group' },
+    });
+
+    vi.mocked(vscode.window.showInputBox).mockResolvedValueOnce(' gRPC ');
+    vi.mocked(vscode.workspace.openTextDocument).mockResolvedValueOnce(doc);
+    await apply(...actions[0].command!.arguments!);
+    expect(service.applySemanticOps).toHaveBeenLastCalledWith(
+      [{ op: 'update_edge', id: 'e1', changes: { protocol: 'gRPC' } }],
+      doc,
+      { change: { label: 'Add missing protocol' } },
+    );
+  });
+
+  it('does nothing when the value prompt is cancelled', async () => {
+    const { diagnostics, collection, service } = register();
+    const doc = makeTextDocument('/work/unhealthy.diagram', UNHEALTHY);
+    await diagnostics.update(doc);
+    const [action] = diagnostics.provideCodeActions(doc, new vscode.Range(0, 0, 0, 0), {
+      diagnostics: lastDiagnostics(collection),
+    } as unknown as vscode.CodeActionContext);
+
+    const apply = vi.mocked(vscode.commands.registerCommand).mock.calls
+      .find(([name]) => name === 'diagramflow.applyLintFix')![1];
+    vi.mocked(vscode.window.showInputBox).mockResolvedValueOnce(undefined);
+    await apply(...action.command!.arguments!);
+
+    expect(service.applySemanticOps).not.toHaveBeenCalled();
+  });
+
+  it('ignores files that are not diagrams', async () => {
+    const { diagnostics, collection } = register();
+
+    await diagnostics.update(makeTextDocument('/work/package.json', '{'));
+
+    expect(collection.set).not.toHaveBeenCalled();
+  });
+
+  it('checks documents that are already open and forgets closed ones', () => {
+    const open = makeTextDocument('/work/open.diagram', '{');
+    const openDocuments = vscode.workspace.textDocuments as vscode.TextDocument[];
+    openDocuments.push(open);
+    try {
+      const { collection } = register();
+      expect(collection.set).toHaveBeenCalledWith(open.uri, [
+        expect.objectContaining({ message: expect.stringMatching(/^Invalid JSON/) }),
+      ]);
+
+      const onClose = vi.mocked(vscode.workspace.onDidCloseTextDocument).mock.calls[0][0];
+      onClose(open);
+      expect(collection.delete).toHaveBeenCalledWith(open.uri);
+    } finally {
+      openDocuments.length = 0;
+    }
+  });
+
+  it('is disposed with the extension', () => {
+    const { context, diagnostics } = register();
+    expect(context.subscriptions).toContain(diagnostics);
+  });
+});
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import type { DiagramService } from './DiagramService';
+import type { DiagramDocument } from './types/DiagramDocument';
+import { findDiagramProblems } from './lib/diagramProblems';
+import { parseDiagramText } from './lib/diagramIndex';
+import { validateDiagram } from './lib/SchemaValidator';
+import { lintDiagram, resolveLintFix, type LintFinding, type LintFix, type LintSettings, type LintSeverity } from './lib/lint';
+import { isDiagramPath } from './tools/toolHelpers';
+
+const SEVERITIES: Record<LintSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+/** Quiet time after the last created or deleted file before drift is rechecked. */
+const RECHECK_DELAY_MS = 500;
+
+/**
+ * Turns a `files.watcherExclude` glob into a regular expression over
+ * workspace-relative paths. Supports `**`, `*`, `?` and `{a,b}`.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no folder at all.
+      const folder = glob[i + 2] === '/';
+      source += folder ? '(?:.*/)?' : '.*';
+      i += folder ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** Files under node_modules or .git, or matched by `files.watcherExclude`, never clear or cause drift. */
+function isWatcherExcluded(uri: vscode.Uri): boolean {
+  const relative = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/');
+  if (relative.split('/').some((segment) => segment === 'node_modules' || segment === '.git')) return true;
+  const excludes = vscode.workspace.getConfiguration('files').get<Record<string, boolean>>('watcherExclude', {});
+  return Object.entries(excludes).some(([glob, excluded]) => excluded && globToRegExp(glob).test(relative));
+}
+
+/**
+ * Publishes problems in open .diagram and .diagram.svg files to the Problems
+ * panel: schema and JSON errors, each placed on the offending field and named
+ * by its JSON path, and for valid files the findings of the enabled
+ * architecture lint rules and node properties pointing at files that no longer
+ * exist (drift). Lint findings with a fix are offered as quick fixes. Open
+ * editors show the same drift findings and are told when they change.
+ */
+export class DiagramDiagnostics implements vscode.Disposable, vscode.CodeActionProvider {
+  public static readonly source = 'diagramflow';
+  public static readonly applyFixCommand = 'diagramflow.applyLintFix';
+
+  private readonly collection = vscode.languages.createDiagnosticCollection(DiagramDiagnostics.source);
+  /** Lint findings behind the current diagnostics, by document URI. */
+  private readonly findings = new Map<string, LintFinding[]>();
+  /** Drift findings of each open diagram, by document URI. */
+  private readonly drift = new Map<string, LintFinding[]>();
+  private readonly driftEmitter = new vscode.EventEmitter<vscode.Uri>();
+  /** Fires with a diagram's URI when its drift findings changed. */
+  public readonly onDidChangeDrift = this.driftEmitter.event;
+  /**
+   * Created and deleted files (renames are both) can cause or clear drift
+   * without touching the diagram. Unlike workspace events, the watcher also
+   * sees changes made outside VS Code, such as a git checkout.
+   */
+  private readonly watcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+  private recheckTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly subscriptions: vscode.Disposable[];
+
+  private constructor(private readonly diagramService: DiagramService) {
+    this.subscriptions = [
+      this.watcher,
+      this.driftEmitter,
+      vscode.workspace.onDidOpenTextDocument((doc) => {
+        void this.update(doc);
+      }),
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        void this.update(e.document);
+      }),
+      vscode.workspace.onDidCloseTextDocument((doc) => {
+        this.collection.delete(doc.uri);
+        this.findings.delete(doc.uri.toString());
+        this.drift.delete(doc.uri.toString());
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('diagramflow.lint')) void this.updateAll();
+      }),
+      this.watcher.onDidCreate((uri) => this.scheduleRecheck(uri)),
+      this.watcher.onDidDelete((uri) => this.scheduleRecheck(uri)),
+      vscode.languages.registerCodeActionsProvider(
+        [{ pattern: '**/*.diagram' }, { pattern: '**/*.diagram.svg' }],
+        this,
+        { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] },
+      ),
+      vscode.commands.registerCommand(DiagramDiagnostics.applyFixCommand, (uri: vscode.Uri, fix: LintFix) =>
+        this.applyFix(uri, fix),
+      ),
+    ];
+    void this.updateAll();
+  }
+
+  public static register(context: vscode.ExtensionContext, diagramService: DiagramService): DiagramDiagnostics {
+    const diagnostics = new DiagramDiagnostics(diagramService);
+    context.subscriptions.push(diagnostics);
+    return diagnostics;
+  }
+
+  /** Rule toggles from the `diagramflow.lint.rules` setting. */
+  static lintSettings(): LintSettings {
+    return vscode.workspace.getConfiguration('diagramflow').get<LintSettings>('lint.rules', {});
+  }
+
+  /** Findings of the enabled lint rules; none while the document fails validation. */
+  static lint(doc: DiagramDocument): LintFinding[] {
+    return validateDiagram(doc).valid ? lintDiagram(doc, DiagramDiagnostics.lintSettings()) : [];
+  }
+
+  /** Drift findings of an open diagram as of its last check; empty until the first one. */
+  driftOf(uri: vscode.Uri): LintFinding[] {
+    return this.drift.get(uri.toString()) ?? [];
+  }
+
+  async update(doc: vscode.TextDocument): Promise<void> {
+    if (!isDiagramPath(doc.uri.fsPath)) return;
+    const key = doc.uri.toString();
+    const text = doc.getText();
+    const isSvg = doc.uri.fsPath.endsWith('.svg');
+    const parsed = parseDiagramText(text, isSvg);
+    const drift =
+      parsed && validateDiagram(parsed).valid ? await this.diagramService.findDrift(parsed, doc.uri) : [];
+    // The check of a later edit or of a closed file would publish stale problems.
+    if (doc.isClosed || doc.getText() !== text) return;
+
+    const problems = findDiagramProblems(text, isSvg, DiagramDiagnostics.lintSettings(), () => drift);
+    const diagnostics = problems.map((problem) => {
+      const start = doc.positionAt(problem.start);
+      const end = doc.positionAt(problem.end);
+      const range = new vscode.Range(start.line, start.character, end.line, end.character);
+      const diagnostic = new vscode.Diagnostic(range, problem.message, SEVERITIES[problem.severity]);
+      diagnostic.source = DiagramDiagnostics.source;
+      // Lint findings are named by rule so they can be looked up for quick fixes.
+      const code = problem.finding?.rule ?? problem.path;
+      if (code) diagnostic.code = code;
+      return diagnostic;
+    });
+    this.collection.set(doc.uri, diagnostics);
+    this.findings.set(key, problems.flatMap((p) => (p.finding ? [p.finding] : [])));
+    const previous = this.drift.get(key);
+    this.drift.set(key, drift);
+    if (JSON.stringify(previous) !== JSON.stringify(drift)) this.driftEmitter.fire(doc.uri);
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    const findings = this.findings.get(document.uri.toString()) ?? [];
+    return context.diagnostics.flatMap((diagnostic) => {
+      const finding = findings.find((f) => f.rule === diagnostic.code && f.message === diagnostic.message);
+      if (!finding?.fix) return [];
+      const action = new vscode.CodeAction(finding.fix.title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.command = {
+        command: DiagramDiagnostics.applyFixCommand,
+        title: finding.fix.title,
+        arguments: [document.uri, finding.fix],
+      };
+      return [action];
+    });
+  }
+
+  /** Applies a quick fix, asking for its value first when it needs one. */
+  private async applyFix(uri: vscode.Uri, fix: LintFix): Promise<void> {
+    let value: string | undefined;
+    if (fix.input) {
+      value = await vscode.window.showInputBox({ prompt: fix.input.prompt, placeHolder: fix.input.placeholder });
+      if (!value?.trim()) return;
+      value = value.trim();
+    }
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const result = await this.diagramService.applySemanticOps(resolveLintFix(fix, value), doc, {
+      change: { label: fix.title },
+    });
+    if (!result.success) {
+      void vscode.window.showErrorMessage(`DiagramFlow: ${fix.title} failed: ${result.error}`);
+    }
+  }
+
+  private async updateAll(): Promise<void> {
+    await Promise.all(vscode.workspace.textDocuments.map((doc) => this.update(doc)));
+  }
+
+  /** A git checkout creates and deletes many files at once, so drift is rechecked once they settle. */
+  private scheduleRecheck(uri: vscode.Uri): void {
+    if (isWatcherExcluded(uri)) return;
+    clearTimeout(this.recheckTimer);
+    this.recheckTimer = setTimeout(() => {
+      void this.updateAll();
+    }, RECHECK_DELAY_MS);
+  }
+
+  dispose(): void {
+    clearTimeout(this.recheckTimer);
+    for (const subscription of this.subscriptions) subscription.dispose();
+    this.collection.dispose();
+  }
+}
@@ -4,6 +4,7 @@ vi.mock('vscode', () => import('./__mocks__/vscode'));
 
 import { DiagramEditorProvider } from './DiagramEditorProvider';
 import type { DiagramService } from './DiagramService';
+import type { DiagramDiagnostics } from './DiagramDiagnostics';
 import type { DiagramDocument } from './types/DiagramDocument';
 import * as vscode from 'vscode';
 
@@ -42,16 +43,27 @@ function makeMockDiagramService(): DiagramService {
     applySemanticOps: vi.fn().mockResolvedValue({ success: true }),
     autoLayoutAll: vi.fn().mockResolvedValue(undefined),
     autoLayoutForce: vi.fn().mockResolvedValue(undefined),
-    moveNode: vi.fn().mockResolvedValue(undefined),
-    moveNodes: vi.fn().mockResolvedValue(undefined),
-    moveGroup: vi.fn().mockResolvedValue(undefined),
-    reconnectEdge: vi.fn().mockResolvedValue(undefined),
+    moveNode: vi.fn().mockResolvedValue({ success: true }),
+    moveNodes: vi.fn().mockResolvedValue({ success: true }),
+    moveGroup: vi.fn().mockResolvedValue({ success: true }),
+    reconnectEdge: vi.fn().mockResolvedValue({ success: true }),
     emptyDocument: vi.fn(),
     undo: vi.fn().mockResolvedValue(undefined),
     redo: vi.fn().mockResolvedValue(undefined),
+    jumpToHistory: vi.fn().mockResolvedValue(undefined),
+    getHistory: vi.fn().mockReturnValue({ past: [], future: [] }),
+    getRevision: vi.fn().mockReturnValue('rev1'),
+    isReadOnly: vi.fn().mockReturnValue(false),
   } as unknown as DiagramService;
 }
 
+function makeMockDiagnostics(): DiagramDiagnostics {
+  return {
+    driftOf: vi.fn().mockReturnValue([]),
+    onDidChangeDrift: new vscode.EventEmitter<vscode.Uri>().event,
+  } as unknown as DiagramDiagnostics;
+}
+
 function makeMockContext(): vscode.ExtensionContext {
   return {
     subscriptions: [],
@@ -96,17 +108,19 @@ function makeMockWebviewPanel(): vscode.WebviewPanel & {
 
 describe('DiagramEditorProvider', () => {
   let service: DiagramService;
+  let diagnostics: DiagramDiagnostics;
   let context: vscode.ExtensionContext;
 
   beforeEach(() => {
     vi.clearAllMocks();
     service = makeMockDiagramService();
+    diagnostics = makeMockDiagnostics();
     context = makeMockContext();
   });
 
   describe('register', () => {
     it('registers a custom editor provider', () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
 
       expect(vscode.window.registerCustomEditorProvider).toHaveBeenCalledTimes(
         1,
@@ -124,7 +138,7 @@ describe('DiagramEditorProvider', () => {
 
   describe('resolveCustomTextEditor', () => {
     it('sets active document on resolve', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
 
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
@@ -146,7 +160,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('sets webview options with scripts enabled', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
 
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
@@ -168,7 +182,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('sets up message handler on webview', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
 
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
@@ -190,7 +204,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('handles NODE_DRAGGED message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -220,11 +234,73 @@ describe('DiagramEditorProvider', () => {
         'n1',
         { x: 50.7, y: 100.3 },
         textDoc,
+        undefined,
       );
     });
 
+    it('passes the revision of drags on and warns when they conflict', async () => {
+      vi.mocked(service.moveGroup).mockResolvedValueOnce({
+        success: false,
+        error: 'Conflict: group g1 was deleted',
+        conflict: true,
+      });
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+        .calls[0][0] as (msg: any) => void;
+
+      const moves = [{ id: 'n1', position: { x: 10, y: 20 } }];
+      await handler({ type: 'NODES_DRAGGED', moves, revision: 'rev0' });
+      expect(service.moveNodes).toHaveBeenCalledWith(moves, textDoc, 'rev0');
+      expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+
+      await handler({ type: 'GROUP_DRAGGED', id: 'g1', position: { x: 0, y: 0 }, revision: 'rev0' });
+      expect(service.moveGroup).toHaveBeenCalledWith('g1', { x: 0, y: 0 }, textDoc, 'rev0');
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('DiagramFlow: Conflict: group g1 was deleted');
+    });
+
+    it('handles HISTORY_JUMP message', async () => {
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+        .calls[0][0] as (msg: any) => void;
+
+      await handler({ type: 'HISTORY_JUMP', index: 2 });
+
+      expect(service.jumpToHistory).toHaveBeenCalledWith(2, textDoc);
+    });
+
     it('handles NODE_RESIZED message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -259,11 +335,12 @@ describe('DiagramEditorProvider', () => {
           },
         ],
         textDoc,
+        { change: { merge: { action: 'Resize', items: { n1: 'node' } } } },
       );
     });
 
     it('handles DELETE_NODES message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -291,11 +368,12 @@ describe('DiagramEditorProvider', () => {
           { op: 'remove_node', id: 'n2' },
         ],
         textDoc,
+        {},
       );
     });
 
     it('handles ADD_EDGE message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -328,11 +406,12 @@ describe('DiagramEditorProvider', () => {
           },
         ],
         textDoc,
+        {},
       );
     });
 
     it('handles REQUEST_LAYOUT message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -358,7 +437,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('handles UPDATE_NODE_PROPS message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -393,11 +472,12 @@ describe('DiagramEditorProvider', () => {
           },
         ],
         textDoc,
+        {},
       );
     });
 
     it('handles UPDATE_NODE_PROPS with group null (eject from group)', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
       const textDoc = {
@@ -415,11 +495,40 @@ describe('DiagramEditorProvider', () => {
       expect(service.applySemanticOps).toHaveBeenCalledWith(
         [{ op: 'update_node', id: 'n1', changes: { group: undefined } }],
         textDoc,
+        {},
       );
     });
 
+    it('handles layer messages and layer null on edges', async () => {
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = { isCancellationRequested: false, onCancellationRequested: vi.fn() } as unknown as vscode.CancellationToken;
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock.calls[0][0] as (msg: any) => void;
+
+      await handler({ type: 'ADD_LAYER', label: 'Annotations' });
+      await handler({ type: 'UPDATE_LAYER_PROPS', id: 'l1', changes: { hidden: true } });
+      await handler({ type: 'DELETE_LAYER', id: 'l1' });
+      await handler({ type: 'UPDATE_EDGE_PROPS', id: 'e1', changes: { layer: null } });
+
+      const calls = vi.mocked(service.applySemanticOps).mock.calls.map((c) => c[0]);
+      expect(calls).toEqual([
+        [{ op: 'add_layer', layer: { label: 'Annotations' } }],
+        [{ op: 'update_layer', id: 'l1', changes: { hidden: true } }],
+        [{ op: 'remove_layer', id: 'l1' }],
+        [{ op: 'update_edge', id: 'e1', changes: { layer: undefined } }],
+      ]);
+    });
+
     it('handles UPDATE_EDGE_PROPS message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -454,11 +563,12 @@ describe('DiagramEditorProvider', () => {
           },
         ],
         textDoc,
+        {},
       );
     });
 
     it('handles ADD_NODE message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -491,11 +601,12 @@ describe('DiagramEditorProvider', () => {
           },
         ],
         textDoc,
+        {},
       );
     });
 
     it('handles DELETE_EDGES message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -523,11 +634,12 @@ describe('DiagramEditorProvider', () => {
           { op: 'remove_edge', id: 'e2' },
         ],
         textDoc,
+        {},
       );
     });
 
     it('handles UPDATE_NODE_LABEL message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -552,11 +664,12 @@ describe('DiagramEditorProvider', () => {
       expect(service.applySemanticOps).toHaveBeenCalledWith(
         [{ op: 'update_node', id: 'n1', changes: { label: 'Updated Label' } }],
         textDoc,
+        {},
       );
     });
 
     it('handles EXPORT message with SVG format', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -587,7 +700,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('handles EXPORT message cancelled by user', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -616,7 +729,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('handles OPEN_SVG_REQUEST message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -644,7 +757,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('sends document on WEBVIEW_READY message', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -672,8 +785,75 @@ describe('DiagramEditorProvider', () => {
       );
     });
 
+    it('opens newer-schema files read-only and ignores edits', async () => {
+      vi.mocked(service.isReadOnly).mockReturnValue(true);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('read-only'));
+
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+        .calls[0][0] as (msg: any) => void;
+      vi.mocked(panel.webview.postMessage).mockClear();
+      await handler({ type: 'DELETE_NODES', nodeIds: ['n1'] });
+
+      expect(service.applySemanticOps).not.toHaveBeenCalled();
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'DOCUMENT_UPDATED', readOnly: true }),
+      );
+    });
+
+    it('shows the problems of files that cannot be loaded', async () => {
+      vi.mocked(service.parseDocument).mockReturnValue(null);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+
+      const text = '{\n  "meta": {},\n  "nodes": [,]\n}';
+      const textDoc = {
+        getText: () => text,
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 4,
+        positionAt: (offset: number) => new vscode.Position(text.slice(0, offset).split('\n').length - 1, 0),
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+        .calls[0][0] as (msg: any) => void;
+      await handler({ type: 'WEBVIEW_READY' });
+
+      expect(panel.webview.postMessage).toHaveBeenCalledWith({
+        type: 'DOCUMENT_INVALID',
+        problems: [{ message: expect.stringMatching(/^Invalid JSON/), line: 3 }],
+      });
+
+      await handler({ type: 'SHOW_PROBLEMS' });
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('workbench.actions.view.problems');
+
+      await handler({ type: 'OPEN_AS_TEXT' });
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.openWith', textDoc.uri, 'default');
+    });
+
     it('sends document on text document change', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -700,10 +880,205 @@ describe('DiagramEditorProvider', () => {
       expect(panel.webview.postMessage).toHaveBeenCalledWith(
         expect.objectContaining({ type: 'DOCUMENT_UPDATED' }),
       );
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        { type: 'HISTORY_UPDATED', history: { past: [], future: [] } },
+      );
+    });
+
+    it('sends lint findings with the document and resends them when rules are toggled', async () => {
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+        .calls[0][0] as (msg: any) => void;
+      await handler({ type: 'WEBVIEW_READY' });
+
+      // The single node has no edges.
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'DOCUMENT_UPDATED',
+          lint: [expect.objectContaining({ rule: 'orphan-node', elementId: 'n1' })],
+        }),
+      );
+
+      const configHandler = vi.mocked(vscode.workspace.onDidChangeConfiguration)
+        .mock.calls[0][0] as (e: any) => void;
+      vi.mocked(panel.webview.postMessage).mockClear();
+      configHandler({ affectsConfiguration: (section: string) => section === 'diagramflow.lint' });
+
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'DOCUMENT_UPDATED' }),
+      );
+    });
+
+    it('sends drift findings and resends them when the diagnostics recheck drift', async () => {
+      const driftChanged = new vscode.EventEmitter<vscode.Uri>();
+      const missing = { rule: 'stale-reference', severity: 'warning', message: 'gone', elementId: 'n1' };
+      diagnostics = { driftOf: vi.fn().mockReturnValue([]), onDidChangeDrift: driftChanged.event } as any;
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      vi.mocked(diagnostics.driftOf).mockReturnValue([missing as any]);
+
+      driftChanged.fire(vscode.Uri.file('/other.diagram'));
+      expect(panel.webview.postMessage).not.toHaveBeenCalled();
+
+      driftChanged.fire(vscode.Uri.file('/test.diagram'));
+      expect(diagnostics.driftOf).toHaveBeenCalledWith(textDoc.uri);
+      expect(panel.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'DOCUMENT_UPDATED', lint: expect.arrayContaining([missing]) }),
+      );
+    });
+
+    it('drills down into linked diagrams and leads back through breadcrumbs', async () => {
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+
+      const open = async (file: string) => {
+        const textDoc = {
+          getText: () => JSON.stringify(makeValidDoc()),
+          uri: vscode.Uri.file(file),
+          lineCount: 1,
+        } as unknown as vscode.TextDocument;
+        const panel = makeMockWebviewPanel();
+        await provider.resolveCustomTextEditor(textDoc, panel, token);
+        const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+          .calls[0][0] as (msg: any) => Promise<void>;
+        await handler({ type: 'WEBVIEW_READY' });
+        return { textDoc, panel, handler };
+      };
+
+      const system = await open('/arch/system.diagram');
+      const openDocuments = vscode.workspace.textDocuments as vscode.TextDocument[];
+      openDocuments.push(system.textDoc);
+      await system.handler({ type: 'OPEN_LINK', link: { file: 'detail/api.diagram', node: 'node a' } });
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.openWith',
+        vscode.Uri.file('/arch/detail/api.diagram'),
+        'diagramflow.editor',
+      );
+
+      const api = await open('/arch/detail/api.diagram');
+      expect(api.panel.webview.postMessage).toHaveBeenCalledWith({
+        type: 'BREADCRUMBS_UPDATED',
+        crumbs: [{ title: 'Test', file: 'system.diagram' }],
+      });
+      expect(api.panel.webview.postMessage).toHaveBeenCalledWith({ type: 'FOCUS_NODE', id: 'n1' });
+
+      vi.mocked(system.panel.webview.postMessage).mockClear();
+      try {
+        await api.handler({ type: 'OPEN_BREADCRUMB', index: 0 });
+      } finally {
+        openDocuments.length = 0;
+      }
+      expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith(
+        'vscode.openWith',
+        system.textDoc.uri,
+        'diagramflow.editor',
+      );
+      expect(system.panel.webview.postMessage).toHaveBeenCalledWith({ type: 'BREADCRUMBS_UPDATED', crumbs: [] });
+
+      vi.mocked(vscode.workspace.fs.stat).mockRejectedValueOnce(new Error('ENOENT'));
+      await system.handler({ type: 'OPEN_LINK', link: { file: 'missing.diagram' } });
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringContaining('linked diagram not found'),
+      );
+    });
+
+    it('reveals a node of an open diagram through the revealNode command', async () => {
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+      const reveal = vi.mocked(vscode.commands.registerCommand).mock.calls
+        .find(([id]) => id === 'diagramflow.revealNode')?.[1] as (uri: vscode.Uri, node: string) => Promise<void>;
+
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+        .calls[0][0] as (msg: any) => Promise<void>;
+      await handler({ type: 'WEBVIEW_READY' });
+
+      const openDocuments = vscode.workspace.textDocuments as vscode.TextDocument[];
+      openDocuments.push(textDoc);
+      try {
+        await reveal(textDoc.uri, 'n1');
+      } finally {
+        openDocuments.length = 0;
+      }
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.openWith', textDoc.uri, 'diagramflow.editor');
+      expect(panel.webview.postMessage).toHaveBeenCalledWith({ type: 'FOCUS_NODE', id: 'n1' });
+    });
+
+    it('opens a node entrypoint relative to the workspace folder', async () => {
+      DiagramEditorProvider.register(context, service as any, diagnostics);
+      const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
+        .mock.calls[0][1] as any;
+      const textDoc = {
+        getText: () => JSON.stringify(makeValidDoc()),
+        uri: vscode.Uri.file('/repo/docs/test.diagram'),
+        lineCount: 1,
+      } as unknown as vscode.TextDocument;
+      const panel = makeMockWebviewPanel();
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: vi.fn(),
+      } as unknown as vscode.CancellationToken;
+      await provider.resolveCustomTextEditor(textDoc, panel, token);
+      const handler = vi.mocked(panel.webview.onDidReceiveMessage).mock
+        .calls[0][0] as (msg: any) => Promise<void>;
+      vi.mocked(vscode.workspace.getWorkspaceFolder).mockReturnValue({ uri: vscode.Uri.file('/repo') } as any);
+
+      await handler({ type: 'OPEN_ENTRYPOINT', entrypoint: 'src/main.ts' });
+      expect(vscode.window.showTextDocument).toHaveBeenCalledWith(vscode.Uri.file('/repo/src/main.ts'), { preview: false });
+
+      vi.mocked(vscode.window.showTextDocument).mockRejectedValueOnce(new Error('ENOENT'));
+      await handler({ type: 'OPEN_ENTRYPOINT', entrypoint: 'src/gone.ts' });
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('DiagramFlow: entrypoint not found: src/gone.ts');
     });
 
     it('ignores text changes for different document URIs', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -731,7 +1106,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('clears active document on dispose', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
@@ -762,7 +1137,7 @@ describe('DiagramEditorProvider', () => {
     });
 
     it('does not clear active document if different doc is active on dispose', async () => {
-      DiagramEditorProvider.register(context, service as any);
+      DiagramEditorProvider.register(context, service as any, diagnostics);
       const provider = vi.mocked(vscode.window.registerCustomEditorProvider)
         .mock.calls[0][1] as any;
 
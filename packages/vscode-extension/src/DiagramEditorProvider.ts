@@ -1,23 +1,83 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { DiagramService } from './DiagramService';
+import { DiagramService, type WriteResult } from './DiagramService';
+import { DiagramDiagnostics } from './DiagramDiagnostics';
+import { resolveWorkspacePath } from './DiagramIndex';
 import { getWebviewContent } from './getWebviewContent';
 import { extractDiagramFromSvg } from './lib/svgMetadata';
-import type { WebviewMessage } from './messages/protocol';
+import { findDiagramProblems } from './lib/diagramProblems';
+import type { Breadcrumb, DocumentProblem, WebviewMessage } from './messages/protocol';
+import type { DiagramDocument, DiagramLink } from './types/DiagramDocument';
+import type { SemanticOp } from './types/operations';
+import type { HistoryChange } from './lib/history';
+
+/**
+ * JSON cannot carry `undefined`, so the webview sends `layer: null` to take an
+ * element off its layer. Converts that back to an unset field.
+ */
+function resolveLayerChange<T extends { layer?: string | null }>(
+  changes: T,
+): Omit<T, 'layer'> & { layer?: string } {
+  const { layer, ...rest } = changes;
+  return layer === undefined ? rest : { ...rest, layer: layer ?? undefined };
+}
+
+/** Webview messages that do not modify the diagram and so work on read-only files. */
+const READ_ONLY_MESSAGES = new Set<WebviewMessage['type']>([
+  'EXPORT',
+  'OPEN_SVG_REQUEST',
+  'VIEW_METADATA',
+  'SHOW_PROBLEMS',
+  'OPEN_AS_TEXT',
+  'OPEN_LINK',
+  'OPEN_BREADCRUMB',
+  'OPEN_ENTRYPOINT',
+]);
+
+/** A diagram on a drill-down trail. */
+interface TrailEntry extends Breadcrumb {
+  uri: vscode.Uri;
+}
+
+/**
+ * Id of the node a link's `node` or a reveal request names, matched by id or
+ * case-insensitive label. Groups are matched too, after nodes.
+ */
+function findFocusTarget(doc: DiagramDocument, ref: string): string | undefined {
+  const wanted = ref.trim().toLowerCase();
+  const elements = [...doc.nodes, ...(doc.groups ?? [])];
+  return (elements.find((e) => e.id === ref) ?? elements.find((e) => e.label.trim().toLowerCase() === wanted))?.id;
+}
 
 export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
   public static readonly viewType = 'diagramflow.editor';
+  /** Opens a diagram and selects a node in it: `(uri, nodeIdOrLabel)`. */
+  public static readonly revealNodeCommand = 'diagramflow.revealNode';
+
+  /** Open editors by document URI, so drill-down can update a diagram that is already open. */
+  private readonly panels = new Map<string, vscode.WebviewPanel>();
+  /** How the user drilled down to each open diagram, outermost first. */
+  private readonly trails = new Map<string, TrailEntry[]>();
+  /** Node to focus once a diagram opened by drill-down has loaded, by document URI. */
+  private readonly pendingFocus = new Map<string, string>();
 
   private constructor(
     private readonly context: vscode.ExtensionContext,
     private readonly diagramService: DiagramService,
+    private readonly diagnostics: DiagramDiagnostics,
   ) {}
 
   public static register(
     context: vscode.ExtensionContext,
     diagramService: DiagramService,
+    diagnostics: DiagramDiagnostics,
   ): vscode.Disposable {
-    const provider = new DiagramEditorProvider(context, diagramService);
+    const provider = new DiagramEditorProvider(context, diagramService, diagnostics);
+    context.subscriptions.push(
+      vscode.commands.registerCommand(DiagramEditorProvider.revealNodeCommand, (uri: vscode.Uri, node: string) =>
+        provider.openDiagram(uri, node),
+      ),
+    );
     return vscode.window.registerCustomEditorProvider(
       DiagramEditorProvider.viewType,
       provider,
@@ -49,18 +109,59 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
     const sendDocument = () => {
       const doc = this.diagramService.parseDocument(document);
       if (doc) {
-        webviewPanel.webview.postMessage({ type: 'DOCUMENT_UPDATED', doc });
+        webviewPanel.webview.postMessage({
+          type: 'DOCUMENT_UPDATED',
+          doc,
+          revision: this.diagramService.getRevision(document),
+          readOnly: this.diagramService.isReadOnly(document),
+          lint: [...DiagramDiagnostics.lint(doc), ...this.diagnostics.driftOf(document.uri)],
+        });
+      } else {
+        webviewPanel.webview.postMessage({
+          type: 'DOCUMENT_INVALID',
+          problems: DiagramEditorProvider.describeProblems(document),
+        });
       }
+      // Every recorded change is followed by a write, so the history is current here.
+      webviewPanel.webview.postMessage({
+        type: 'HISTORY_UPDATED',
+        history: this.diagramService.getHistory(document),
+      });
     };
 
+    const key = document.uri.toString();
+
     const changeSubscription = vscode.workspace.onDidChangeTextDocument((e) => {
       if (e.document.uri.toString() === document.uri.toString()) {
         sendDocument();
       }
     });
+    // Rule toggles change the canvas badges without changing the document.
+    const configSubscription = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('diagramflow.lint')) sendDocument();
+    });
+    // Drift is checked on the file system after each edit and when files appear or disappear.
+    const driftSubscription = this.diagnostics.onDidChangeDrift((uri) => {
+      if (uri.toString() === key) sendDocument();
+    });
+
+    if (this.diagramService.isReadOnly(document)) {
+      void vscode.window.showWarningMessage(
+        `DiagramFlow: ${path.basename(document.uri.fsPath)} was saved by a newer version of DiagramFlow ` +
+          'and is open read-only. Update the extension to edit it.',
+      );
+    }
 
     webviewPanel.webview.onDidReceiveMessage(async (msg: WebviewMessage) => {
       if (msg.type === 'WEBVIEW_READY') {
+        sendDocument();
+        // Only a ready webview receives messages, so drill-down reaches it from here on.
+        this.panels.set(key, webviewPanel);
+        this.sendNavigation(document, webviewPanel);
+        return;
+      }
+      if (!READ_ONLY_MESSAGES.has(msg.type) && this.diagramService.isReadOnly(document)) {
+        // Nothing is written, so undo the webview's optimistic change.
         sendDocument();
         return;
       }
@@ -69,6 +170,11 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
 
     webviewPanel.onDidDispose(() => {
       changeSubscription.dispose();
+      configSubscription.dispose();
+      driftSubscription.dispose();
+      this.panels.delete(key);
+      this.trails.delete(key);
+      this.pendingFocus.delete(key);
       if (this.diagramService.getActiveDocument() === document) {
         this.diagramService.setActiveDocument(null);
       }
@@ -82,6 +188,31 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
     });
   }
 
+  /**
+   * Applies ops sent by the webview. When the webview edited a stale view and
+   * the change clashes with a newer one, nothing is written and the user is told;
+   * the webview resyncs from the DOCUMENT_UPDATED that the newer write triggered.
+   */
+  private async applyWebviewOps(
+    msg: WebviewMessage,
+    ops: SemanticOp[],
+    document: vscode.TextDocument,
+    change?: HistoryChange,
+  ): Promise<void> {
+    const result = await this.diagramService.applySemanticOps(ops, document, {
+      ...(msg.revision !== undefined && { revision: msg.revision }),
+      ...(change && { change }),
+    });
+    DiagramEditorProvider.reportConflict(result);
+  }
+
+  /** Tells the user when a webview change was dropped because it clashed with a newer one. */
+  private static reportConflict(result: WriteResult): void {
+    if (result.conflict) {
+      void vscode.window.showWarningMessage(`DiagramFlow: ${result.error}`);
+    }
+  }
+
   private async handleWebviewMessage(
     msg: WebviewMessage,
     document: vscode.TextDocument,
@@ -93,19 +224,26 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
       case 'NODE_DRAGGED':
         // Use moveNode to always update position regardless of pinned status
         // (pinned means layout engine won't move it, not that the user can't).
-        await this.diagramService.moveNode(msg.id, msg.position, document);
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.moveNode(msg.id, msg.position, document, msg.revision),
+        );
         break;
 
       case 'NODES_DRAGGED':
-        await this.diagramService.moveNodes(msg.moves, document);
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.moveNodes(msg.moves, document, msg.revision),
+        );
         break;
 
       case 'GROUP_DRAGGED':
-        await this.diagramService.moveGroup(msg.id, msg.position, document);
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.moveGroup(msg.id, msg.position, document, msg.revision),
+        );
         break;
 
       case 'NODE_RESIZED':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           [
             {
               op: 'update_node',
@@ -117,11 +255,13 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
             },
           ],
           document,
+          { merge: { action: 'Resize', items: { [msg.id]: 'node' } } },
         );
         break;
 
       case 'ADD_NODE':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           [{ op: 'add_node', node: msg.node as any }],
           document,
         );
@@ -135,71 +275,119 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
         break;
 
       case 'ADD_NODES':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           msg.nodes.map((n) => ({ op: 'add_node' as const, node: n as any })),
           document,
         );
         break;
 
       case 'DELETE_NODES':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           msg.nodeIds.map((id) => ({ op: 'remove_node' as const, id })),
           document,
         );
         break;
 
       case 'ADD_GROUP':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           [{ op: 'add_group', group: { label: msg.label } }],
           document,
         );
         break;
 
       case 'DELETE_GROUPS':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           msg.groupIds.map((id) => ({ op: 'remove_group' as const, id })),
           document,
         );
         break;
 
-      case 'UPDATE_GROUP_PROPS':
-        await this.diagramService.applySemanticOps(
-          [{ op: 'update_group', id: msg.id, changes: msg.changes }],
+      case 'UPDATE_GROUP_PROPS': {
+        // JSON cannot carry `undefined`, so the webview sends `parent: null` to un-nest
+        // and `link: null` to remove the link.
+        const { parent, link, ...rest } = msg.changes;
+        const changes = {
+          ...rest,
+          ...(parent !== undefined && { parent: parent ?? undefined }),
+          ...(link !== undefined && { link: link ?? undefined }),
+        };
+        await this.applyWebviewOps(
+          msg,
+          [{ op: 'update_group', id: msg.id, changes }],
+          document,
+        );
+        break;
+      }
+
+      case 'ADD_LAYER':
+        await this.applyWebviewOps(
+          msg,
+          [{ op: 'add_layer', layer: { label: msg.label } }],
+          document,
+        );
+        break;
+
+      case 'DELETE_LAYER':
+        await this.applyWebviewOps(
+          msg,
+          [{ op: 'remove_layer', id: msg.id }],
+          document,
+        );
+        break;
+
+      case 'UPDATE_LAYER_PROPS':
+        await this.applyWebviewOps(
+          msg,
+          [{ op: 'update_layer', id: msg.id, changes: msg.changes }],
           document,
         );
         break;
 
       case 'ADD_EDGE':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           [{ op: 'add_edge', edge: msg.edge }],
           document,
         );
         break;
 
       case 'DELETE_EDGES':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           msg.edgeIds.map((id) => ({ op: 'remove_edge' as const, id })),
           document,
         );
         break;
 
       case 'UPDATE_NODE_LABEL':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           [{ op: 'update_node', id: msg.id, changes: { label: msg.label } }],
           document,
         );
         break;
 
       case 'UPDATE_NODE_PROPS': {
-        const { group, pinned, ...rest } = msg.changes;
+        const { group, pinned, icon, link, ...rest } = resolveLayerChange(msg.changes);
         const changes: any = { ...rest };
         if (group !== undefined) {
           changes.group = group === null ? undefined : group;
         }
+        if (icon !== undefined) {
+          changes.icon = icon === null ? undefined : icon;
+        }
+        if (link !== undefined) {
+          changes.link = link === null ? undefined : link;
+        }
         if (pinned !== undefined) {
           changes.pinned = pinned;
         }
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           [{ op: 'update_node', id: msg.id, changes }],
           document,
         );
@@ -207,21 +395,32 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
       }
 
       case 'UPDATE_EDGE_PROPS':
-        await this.diagramService.applySemanticOps(
-          [{ op: 'update_edge', id: msg.id, changes: msg.changes }],
+        await this.applyWebviewOps(
+          msg,
+          [{ op: 'update_edge', id: msg.id, changes: resolveLayerChange(msg.changes) }],
           document,
         );
         break;
 
       case 'SORT_NODES':
-        await this.diagramService.applySemanticOps(
+        await this.applyWebviewOps(
+          msg,
           [{ op: 'sort_nodes', direction: msg.direction, groupId: msg.groupId }],
           document,
         );
         break;
 
       case 'EDGE_RECONNECTED':
-        await this.diagramService.reconnectEdge(msg.id, msg.newSource, msg.newTarget, document);
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.reconnectEdge(
+            msg.id,
+            msg.newSource,
+            msg.newTarget,
+            document,
+            { sourcePort: msg.sourcePort, targetPort: msg.targetPort },
+            msg.revision,
+          ),
+        );
         break;
 
       case 'REQUEST_LAYOUT':
@@ -240,6 +439,10 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
         await this.diagramService.redo(document);
         break;
 
+      case 'HISTORY_JUMP':
+        await this.diagramService.jumpToHistory(msg.index, document);
+        break;
+
       case 'EXPORT':
         await this.handleExport(msg.format, msg.data, document);
         break;
@@ -252,6 +455,35 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
         await this.viewMetadata(document);
         break;
 
+      case 'SHOW_PROBLEMS':
+        await vscode.commands.executeCommand('workbench.actions.view.problems');
+        break;
+
+      case 'OPEN_AS_TEXT':
+        await vscode.commands.executeCommand('vscode.openWith', document.uri, 'default');
+        break;
+
+      case 'OPEN_LINK':
+        await this.openLink(msg.link, document);
+        break;
+
+      case 'OPEN_BREADCRUMB': {
+        const trail = this.trails.get(document.uri.toString()) ?? [];
+        const crumb = trail[msg.index] as TrailEntry | undefined;
+        if (crumb) await this.navigate(crumb.uri, trail.slice(0, msg.index));
+        break;
+      }
+
+      case 'OPEN_ENTRYPOINT': {
+        const target = resolveWorkspacePath(document.uri, msg.entrypoint);
+        try {
+          await vscode.window.showTextDocument(target, { preview: false });
+        } catch {
+          void vscode.window.showErrorMessage(`DiagramFlow: entrypoint not found: ${msg.entrypoint}`);
+        }
+        break;
+      }
+
       // -----------------------------------------------------------------------
       // Text elements
       // -----------------------------------------------------------------------
@@ -275,7 +507,15 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
         break;
 
       case 'UPDATE_TEXT_ELEMENT':
-        await this.diagramService.updateTextElement(msg.id, msg.changes, document);
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.updateTextElement(
+            msg.id,
+            resolveLayerChange(msg.changes),
+            document,
+            undefined,
+            msg.revision,
+          ),
+        );
         break;
 
       case 'DELETE_TEXT_ELEMENTS':
@@ -283,18 +523,26 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
         break;
 
       case 'TEXT_ELEMENT_MOVED':
-        await this.diagramService.updateTextElement(
-          msg.id,
-          { x: Math.round(msg.position.x), y: Math.round(msg.position.y), pinned: true },
-          document,
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.updateTextElement(
+            msg.id,
+            { x: Math.round(msg.position.x), y: Math.round(msg.position.y), pinned: true },
+            document,
+            { merge: { action: 'Move', items: { [msg.id]: 'text' } } },
+            msg.revision,
+          ),
         );
         break;
 
       case 'TEXT_ELEMENT_RESIZED':
-        await this.diagramService.updateTextElement(
-          msg.id,
-          { width: Math.round(msg.dimensions.width), height: Math.round(msg.dimensions.height) },
-          document,
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.updateTextElement(
+            msg.id,
+            { width: Math.round(msg.dimensions.width), height: Math.round(msg.dimensions.height) },
+            document,
+            { merge: { action: 'Resize', items: { [msg.id]: 'text' } } },
+            msg.revision,
+          ),
         );
         break;
 
@@ -318,7 +566,15 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
         break;
 
       case 'UPDATE_IMAGE_ELEMENT':
-        await this.diagramService.updateImageElement(msg.id, msg.changes, document);
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.updateImageElement(
+            msg.id,
+            resolveLayerChange(msg.changes),
+            document,
+            undefined,
+            msg.revision,
+          ),
+        );
         break;
 
       case 'DELETE_IMAGE_ELEMENTS':
@@ -326,23 +582,101 @@ export class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
         break;
 
       case 'IMAGE_ELEMENT_MOVED':
-        await this.diagramService.updateImageElement(
-          msg.id,
-          { x: Math.round(msg.position.x), y: Math.round(msg.position.y), pinned: true },
-          document,
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.updateImageElement(
+            msg.id,
+            { x: Math.round(msg.position.x), y: Math.round(msg.position.y), pinned: true },
+            document,
+            { merge: { action: 'Move', items: { [msg.id]: 'image' } } },
+            msg.revision,
+          ),
         );
         break;
 
       case 'IMAGE_ELEMENT_RESIZED':
-        await this.diagramService.updateImageElement(
-          msg.id,
-          { width: Math.round(msg.dimensions.width), height: Math.round(msg.dimensions.height) },
-          document,
+        DiagramEditorProvider.reportConflict(
+          await this.diagramService.updateImageElement(
+            msg.id,
+            { width: Math.round(msg.dimensions.width), height: Math.round(msg.dimensions.height) },
+            document,
+            { merge: { action: 'Resize', items: { [msg.id]: 'image' } } },
+            msg.revision,
+          ),
         );
         break;
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Drill-down: open linked diagrams and lead back through breadcrumbs
+  // ---------------------------------------------------------------------------
+
+  /** Opens the diagram a node or group links to, extending the breadcrumb trail. */
+  private async openLink(link: DiagramLink, document: vscode.TextDocument): Promise<void> {
+    const target = vscode.Uri.file(path.resolve(path.dirname(document.uri.fsPath), link.file));
+    try {
+      await vscode.workspace.fs.stat(target);
+    } catch {
+      void vscode.window.showErrorMessage(`DiagramFlow: linked diagram not found: ${link.file}`);
+      return;
+    }
+
+    const file = path.basename(document.uri.fsPath);
+    const here: TrailEntry = {
+      uri: document.uri,
+      title: this.diagramService.parseDocument(document)?.meta.title || file,
+      file,
+    };
+    const trail = [...(this.trails.get(document.uri.toString()) ?? []), here];
+    // Drilling into a diagram already on the trail goes back to it instead of looping.
+    const seen = trail.findIndex((t) => t.uri.toString() === target.toString());
+    await this.navigate(target, seen === -1 ? trail : trail.slice(0, seen), link.node);
+  }
+
+  private async navigate(target: vscode.Uri, trail: TrailEntry[], focusNode?: string): Promise<void> {
+    this.trails.set(target.toString(), trail);
+    await this.openDiagram(target, focusNode);
+  }
+
+  /** Opens a diagram in this editor and, when given, selects and centres a node. */
+  private async openDiagram(target: vscode.Uri, focusNode?: string): Promise<void> {
+    const key = target.toString();
+    if (focusNode) this.pendingFocus.set(key, focusNode);
+    else this.pendingFocus.delete(key);
+
+    await vscode.commands.executeCommand('vscode.openWith', target, DiagramEditorProvider.viewType);
+    // A new editor sends the trail and focus once its webview is ready; an open one is updated here.
+    const panel = this.panels.get(key);
+    const document = vscode.workspace.textDocuments.find((d) => d.uri.toString() === key);
+    if (panel && document) this.sendNavigation(document, panel);
+  }
+
+  /** Sends the breadcrumb trail and any node the drill-down should focus. */
+  private sendNavigation(document: vscode.TextDocument, panel: vscode.WebviewPanel): void {
+    const key = document.uri.toString();
+    const crumbs: Breadcrumb[] = (this.trails.get(key) ?? []).map(({ title, file }) => ({ title, file }));
+    void panel.webview.postMessage({ type: 'BREADCRUMBS_UPDATED', crumbs });
+
+    const ref = this.pendingFocus.get(key);
+    if (ref === undefined) return;
+    this.pendingFocus.delete(key);
+    const doc = this.diagramService.parseDocument(document);
+    const id = doc && findFocusTarget(doc, ref);
+    if (id) void panel.webview.postMessage({ type: 'FOCUS_NODE', id });
+  }
+
+  /**
+   * Problems listed in the canvas when a file cannot be loaded. They match the
+   * diagnostics in the Problems panel.
+   */
+  private static describeProblems(document: vscode.TextDocument): DocumentProblem[] {
+    const problems = findDiagramProblems(document.getText(), document.uri.fsPath.endsWith('.svg'));
+    if (problems.length === 0) {
+      return [{ message: 'The diagram could not be read.', line: 1 }];
+    }
+    return problems.map((p) => ({ message: p.message, line: document.positionAt(p.start).line + 1 }));
+  }
+
   // ---------------------------------------------------------------------------
   // View Metadata: show the full diagram data as a formatted read-only document
   // ---------------------------------------------------------------------------
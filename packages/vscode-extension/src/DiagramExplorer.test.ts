@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('vscode', () => import('./__mocks__/vscode'));
+
+import { DiagramExplorer, type ExplorerElement } from './DiagramExplorer';
+import type { DiagramIndex, IndexedDiagram } from './DiagramIndex';
+import type { DiagramDocument } from './types/DiagramDocument';
+import * as vscode from 'vscode';
+
+function makeDoc(): DiagramDocument {
+  const node = { x: 0, y: 0, width: 160, height: 48, shape: 'rectangle' as const, color: 'default', pinned: false };
+  return {
+    meta: { title: 'Checkout', created: '', modified: '' },
+    nodes: [
+      { ...node, id: 'api', label: 'API', type: 'Service', group: 'g1' },
+      { ...node, id: 'web', label: 'Web' },
+    ],
+    edges: [],
+    groups: [{ id: 'g1', label: 'Backend' }],
+  };
+}
+
+function register(diagrams: IndexedDiagram[]) {
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+  const index = {
+    getDiagrams: vi.fn().mockResolvedValue(diagrams),
+    onDidChange: vi.fn(),
+  } as unknown as DiagramIndex;
+  return { context, index, explorer: DiagramExplorer.register(context, index) };
+}
+
+describe('DiagramExplorer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('registers a tree view that refreshes with the index', () => {
+    const { context, index, explorer } = register([]);
+    expect(vscode.window.createTreeView).toHaveBeenCalledWith('diagramflow.explorer', {
+      treeDataProvider: explorer,
+      showCollapseAll: true,
+    });
+    expect(context.subscriptions).toHaveLength(1);
+    expect(explorer.onDidChangeTreeData).toBe(index.onDidChange);
+  });
+
+  it('lists diagrams by title with their groups and nodes', async () => {
+    const uri = vscode.Uri.file('/workspace/docs/checkout.diagram.svg');
+    const broken = vscode.Uri.file('/workspace/broken.diagram');
+    const { explorer } = register([{ uri, doc: makeDoc() }, { uri: broken, doc: null }]);
+
+    const [diagram, unreadable] = await explorer.getChildren();
+    const diagramItem = explorer.getTreeItem(diagram);
+    expect(diagramItem).toMatchObject({
+      label: 'Checkout',
+      description: 'docs/checkout.diagram.svg',
+      contextValue: 'diagram',
+      collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+      command: { command: 'vscode.openWith', arguments: [uri, 'diagramflow.editor'] },
+    });
+    expect(explorer.getTreeItem(unreadable)).toMatchObject({
+      label: 'broken.diagram',
+      description: 'broken.diagram (cannot be read)',
+      collapsibleState: vscode.TreeItemCollapsibleState.None,
+    });
+    expect(await explorer.getChildren(unreadable)).toEqual([]);
+
+    const [group, web] = await explorer.getChildren(diagram);
+    expect(explorer.getTreeItem(group)).toMatchObject({
+      label: 'Backend',
+      contextValue: 'diagramGroup',
+      collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+    });
+    expect(explorer.getTreeItem(web).label).toBe('Web');
+
+    const [api] = (await explorer.getChildren(group)) as Extract<ExplorerElement, { kind: 'node' }>[];
+    expect(explorer.getTreeItem(api)).toMatchObject({
+      label: 'API',
+      description: 'Service',
+      contextValue: 'diagramNode',
+      command: { command: 'diagramflow.revealNode', arguments: [uri, 'api'] },
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import type { DiagramDocument } from './types/DiagramDocument';
+import type { DiagramIndex } from './DiagramIndex';
+import { DiagramEditorProvider } from './DiagramEditorProvider';
+import { buildDiagramOutline, type OutlineItem } from './lib/diagramIndex';
+
+/** Every element carries its diagram's URI, so context-menu commands can use it. */
+export type ExplorerElement =
+  | { kind: 'diagram'; uri: vscode.Uri; doc: DiagramDocument | null }
+  | { kind: 'group' | 'node'; uri: vscode.Uri; item: OutlineItem };
+
+const ICONS: Record<ExplorerElement['kind'], string> = {
+  diagram: 'type-hierarchy',
+  group: 'symbol-namespace',
+  node: 'symbol-class',
+};
+
+function outlineElements(uri: vscode.Uri, items: OutlineItem[]): ExplorerElement[] {
+  return items.map((item) => ({ kind: item.kind, uri, item }));
+}
+
+/**
+ * The "DiagramFlow" view in the Explorer: every diagram in the workspace with
+ * its groups and nodes. Selecting a node opens its diagram with the node
+ * selected and centred.
+ */
+export class DiagramExplorer implements vscode.TreeDataProvider<ExplorerElement> {
+  public static readonly viewId = 'diagramflow.explorer';
+
+  public readonly onDidChangeTreeData: vscode.Event<void>;
+
+  private constructor(private readonly index: DiagramIndex) {
+    this.onDidChangeTreeData = index.onDidChange;
+  }
+
+  public static register(context: vscode.ExtensionContext, index: DiagramIndex): DiagramExplorer {
+    const explorer = new DiagramExplorer(index);
+    context.subscriptions.push(
+      vscode.window.createTreeView(DiagramExplorer.viewId, { treeDataProvider: explorer, showCollapseAll: true }),
+    );
+    return explorer;
+  }
+
+  async getChildren(element?: ExplorerElement): Promise<ExplorerElement[]> {
+    if (!element) {
+      const diagrams = await this.index.getDiagrams();
+      return diagrams.map(({ uri, doc }) => ({ kind: 'diagram', uri, doc }));
+    }
+    if (element.kind === 'diagram') {
+      return element.doc ? outlineElements(element.uri, buildDiagramOutline(element.doc)) : [];
+    }
+    return outlineElements(element.uri, element.item.children);
+  }
+
+  getTreeItem(element: ExplorerElement): vscode.TreeItem {
+    const { None, Collapsed, Expanded } = vscode.TreeItemCollapsibleState;
+    if (element.kind === 'diagram') {
+      const { uri, doc } = element;
+      const path = vscode.workspace.asRelativePath(uri);
+      const item = new vscode.TreeItem(doc?.meta.title || path, doc ? Collapsed : None);
+      item.id = uri.toString();
+      item.description = doc ? path : `${path} (cannot be read)`;
+      item.tooltip = uri.fsPath;
+      item.iconPath = new vscode.ThemeIcon(doc ? ICONS.diagram : 'warning');
+      item.contextValue = 'diagram';
+      item.command = {
+        command: 'vscode.openWith',
+        title: 'Open Diagram',
+        arguments: [uri, DiagramEditorProvider.viewType],
+      };
+      return item;
+    }
+
+    const { uri, item: outline } = element;
+    const item = new vscode.TreeItem(outline.label, outline.children.length > 0 ? Expanded : None);
+    item.id = `${uri.toString()}#${outline.id}`;
+    if (outline.detail) item.description = outline.detail;
+    item.iconPath = new vscode.ThemeIcon(ICONS[element.kind]);
+    item.contextValue = element.kind === 'group' ? 'diagramGroup' : 'diagramNode';
+    item.command = {
+      command: DiagramEditorProvider.revealNodeCommand,
+      title: element.kind === 'group' ? 'Show Group' : 'Show Node',
+      arguments: [uri, outline.id],
+    };
+    return item;
+  }
+}
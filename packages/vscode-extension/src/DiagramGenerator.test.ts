@@ -0,0 +1,460 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('vscode', () => import('./__mocks__/vscode'));
+
+import { DiagramGenerator } from './DiagramGenerator';
+import type { DiagramService } from './DiagramService';
+import { parseDiagramText } from './lib/diagramIndex';
+import { createEmptyDocument } from './lib/operations';
+import type { DiagramDocument } from './types/DiagramDocument';
+import * as vscode from 'vscode';
+
+const ROOT = vscode.Uri.file('/workspace/services/shop');
+const TARGET = vscode.Uri.file('/workspace/docs/shop-modules.diagram.svg');
+
+const FILES: Record<string, string> = {
+  '/workspace/services/shop/package.json': JSON.stringify({ name: '@acme/shop' }),
+  '/workspace/services/shop/src/index.ts': "import { db } from './db/client';",
+  '/workspace/services/shop/src/db/client.ts': '',
+  '/workspace/services/shop/src/types.d.ts': '',
+};
+
+function register(current: DiagramDocument | null = null) {
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+  const diagramService = {
+    getRevision: vi.fn().mockReturnValue(current && 'rev1'),
+    parseDocument: vi.fn().mockReturnValue(current),
+    applySemanticOps: vi.fn().mockResolvedValue({ success: true }),
+  };
+  DiagramGenerator.register(context, diagramService as unknown as DiagramService);
+  const command = (name: string) => vi.mocked(vscode.commands.registerCommand).mock.calls
+    .find(([id]) => id === name)?.[1] as (folder?: vscode.Uri) => Promise<void>;
+  return {
+    context,
+    diagramService,
+    generate: command('diagramflow.generateFromCode'),
+    importPackages: command('diagramflow.importWorkspacePackages'),
+    importCompose: command('diagramflow.importCompose'),
+    importKubernetes: command('diagramflow.importKubernetes'),
+  };
+}
+
+function mockWorkspace(files: Record<string, string>) {
+  vi.mocked(vscode.workspace.findFiles).mockImplementation(async (include) => {
+    const manifests = (include as unknown as vscode.RelativePattern).pattern === '**/package.json';
+    return Object.keys(files)
+      .filter((file) => file.endsWith('package.json') === manifests)
+      .map((file) => vscode.Uri.file(file));
+  });
+  vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri) =>
+    new TextEncoder().encode(files[uri.fsPath] ?? ''),
+  );
+}
+
+function writtenDiagram() {
+  const [uri, bytes] = vi.mocked(vscode.workspace.fs.writeFile).mock.calls[0];
+  return { uri, doc: parseDiagramText(new TextDecoder().decode(bytes), true) };
+}
+
+describe('DiagramGenerator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(vscode.workspace.getWorkspaceFolder).mockReturnValue({
+      uri: vscode.Uri.file('/workspace'),
+      name: 'workspace',
+      index: 0,
+    });
+    vi.mocked(vscode.window.showSaveDialog).mockResolvedValue(TARGET);
+  });
+
+  it('registers the generate and import commands', () => {
+    const { context, generate, importPackages, importCompose, importKubernetes } = register();
+    expect(generate).toBeTypeOf('function');
+    expect(importPackages).toBeTypeOf('function');
+    expect(importCompose).toBeTypeOf('function');
+    expect(importKubernetes).toBeTypeOf('function');
+    expect(context.subscriptions).toHaveLength(4);
+  });
+
+  it('saves and opens the module diagram of a folder', async () => {
+    mockWorkspace(FILES);
+    const { generate } = register();
+
+    await generate(ROOT);
+
+    expect(vscode.window.showSaveDialog).toHaveBeenCalledWith(
+      expect.objectContaining({ defaultUri: vscode.Uri.joinPath(ROOT, 'shop-modules.diagram.svg') }),
+    );
+    const { uri, doc } = writtenDiagram();
+    expect(uri).toBe(TARGET);
+    expect(doc?.meta.title).toBe('shop modules');
+    expect(doc?.groups?.map((g) => g.label)).toEqual(['@acme/shop']);
+    expect(doc?.nodes.map((n) => [n.label, n.properties?.entrypoint])).toEqual([
+      ['src', 'services/shop/src/index.ts'],
+    ]);
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.openWith', TARGET, 'diagramflow.editor');
+  });
+
+  it('reads the folder depth from the settings', async () => {
+    mockWorkspace(FILES);
+    vi.mocked(vscode.workspace.getConfiguration).mockReturnValueOnce({
+      get: vi.fn(() => 0),
+    } as unknown as vscode.WorkspaceConfiguration);
+    const { generate } = register();
+
+    await generate(ROOT);
+
+    const { doc } = writtenDiagram();
+    expect(doc?.nodes.map((n) => n.label)).toEqual(['src/db/client.ts', 'src/index.ts']);
+    expect(doc?.edges).toHaveLength(1);
+  });
+
+  it('asks for the folder when none is given', async () => {
+    mockWorkspace(FILES);
+    vi.mocked(vscode.window.showOpenDialog).mockResolvedValueOnce([ROOT]);
+    const { generate } = register();
+
+    await generate();
+
+    expect(vscode.window.showOpenDialog).toHaveBeenCalledWith(expect.objectContaining({ canSelectFolders: true }));
+    expect(vscode.workspace.fs.writeFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a folder without source files and writes nothing', async () => {
+    mockWorkspace({});
+    const { generate } = register();
+
+    await generate(ROOT);
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'DiagramFlow: no TypeScript or JavaScript files in services/shop.',
+    );
+    expect(vscode.window.showSaveDialog).not.toHaveBeenCalled();
+    expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('skips source files that cannot be read and names them', async () => {
+    mockWorkspace({ ...FILES, '/workspace/services/shop/src/locked.ts': '' });
+    const readFile = vi.mocked(vscode.workspace.fs.readFile).getMockImplementation();
+    vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri) => {
+      if (uri.fsPath.endsWith('locked.ts')) throw new Error('EACCES');
+      if (uri.fsPath.endsWith('db/client.ts')) return new Uint8Array([0xff, 0xfe]);
+      return readFile?.(uri) ?? new Uint8Array();
+    });
+    const { generate } = register();
+
+    await generate(ROOT);
+
+    expect(writtenDiagram().doc?.nodes.map((n) => n.label)).toEqual(['src']);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'DiagramFlow: skipped 2 file(s) that could not be read: services/shop/src/db/client.ts, services/shop/src/locked.ts.',
+    );
+  });
+
+  it('warns when the folder has more source files than are read', async () => {
+    vi.mocked(vscode.workspace.findFiles).mockImplementation(async (include, _exclude, maxResults) =>
+      (include as unknown as vscode.RelativePattern).pattern === '**/package.json'
+        ? []
+        : Array.from({ length: maxResults ?? 0 }, (_, i) => vscode.Uri.file(`/workspace/services/shop/src/m${i}.ts`)),
+    );
+    const { generate } = register();
+
+    await generate(ROOT);
+
+    expect(vscode.workspace.fs.writeFile).toHaveBeenCalledTimes(1);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'DiagramFlow: only the first 5000 source files in services/shop were read, so the diagram leaves some ' +
+        'modules out. Generate it from a subfolder for a complete diagram.',
+    );
+  });
+
+  it('writes nothing when the save dialog is cancelled', async () => {
+    mockWorkspace(FILES);
+    vi.mocked(vscode.window.showSaveDialog).mockResolvedValueOnce(undefined);
+    const { generate } = register();
+
+    await generate(ROOT);
+
+    expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  describe('importWorkspacePackages', () => {
+    const MONOREPO = vscode.Uri.file('/workspace');
+    const PACKAGES_TARGET = vscode.Uri.file('/workspace/packages.diagram.svg');
+    const WORKSPACE: Record<string, string> = {
+      '/workspace/package.json': JSON.stringify({ workspaces: ['packages/*', '!packages/legacy'] }),
+      '/workspace/packages/core/package.json': JSON.stringify({ name: '@acme/core', dependencies: { zod: '^3' } }),
+      '/workspace/packages/web/package.json': JSON.stringify({
+        name: '@acme/web',
+        dependencies: { '@acme/core': '*', react: '^19' },
+      }),
+      '/workspace/packages/legacy/package.json': JSON.stringify({ name: '@acme/legacy' }),
+    };
+
+    function mockPackages(files: Record<string, string>) {
+      vi.mocked(vscode.workspace.findFiles).mockImplementation(async (include) => {
+        const prefix = `/workspace/${(include as unknown as vscode.RelativePattern).pattern.replace('*/package.json', '')}`;
+        return Object.keys(files)
+          .filter((file) => file !== '/workspace/package.json' && file.startsWith(prefix))
+          .map((file) => vscode.Uri.file(file));
+      });
+      vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri) => {
+        if (!(uri.fsPath in files)) throw new Error('ENOENT');
+        return new TextEncoder().encode(files[uri.fsPath]);
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(vscode.window.showSaveDialog).mockResolvedValue(PACKAGES_TARGET);
+    });
+
+    it('saves a new diagram with a Container per workspace package', async () => {
+      mockPackages(WORKSPACE);
+      vi.mocked(vscode.workspace.fs.stat).mockRejectedValueOnce(new Error('ENOENT'));
+      const { importPackages } = register();
+
+      await importPackages(MONOREPO);
+
+      const { uri, doc } = writtenDiagram();
+      expect(uri).toBe(PACKAGES_TARGET);
+      expect(doc?.nodes.map((n) => [n.label, n.type, n.properties?.entrypoint])).toEqual([
+        ['@acme/core', 'Container', 'packages/core/package.json'],
+        ['@acme/web', 'Container', 'packages/web/package.json'],
+      ]);
+      expect(doc?.edges).toHaveLength(1);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.openWith', PACKAGES_TARGET, 'diagramflow.editor');
+    });
+
+    it('updates an existing diagram in place through DiagramService', async () => {
+      mockPackages(WORKSPACE);
+      const current = {
+        ...createEmptyDocument('packages'),
+        nodes: [
+          {
+            id: 'n1', label: 'Core', x: 40, y: 40, width: 160, height: 48, shape: 'rectangle' as const,
+            color: 'green', pinned: true, type: 'Container' as const,
+            properties: { package: '@acme/core', entrypoint: 'packages/core/package.json' },
+          },
+        ],
+      };
+      const { importPackages, diagramService } = register(current);
+
+      await importPackages(MONOREPO);
+
+      expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith(PACKAGES_TARGET);
+      expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+      const [ops, , options] = diagramService.applySemanticOps.mock.calls[0];
+      expect(ops).toEqual([
+        { op: 'add_node', key: 'package:@acme/web', node: { label: '@acme/web' } },
+        {
+          op: 'update_node',
+          id: 'package:@acme/web',
+          changes: { type: 'Container', properties: { entrypoint: 'packages/web/package.json', package: '@acme/web' } },
+        },
+        { op: 'add_edge', edge: { source: 'package:@acme/web', target: 'n1', label: 'depends on', style: 'solid' } },
+      ]);
+      expect(options).toEqual({ change: { label: 'Import workspace packages' }, revision: 'rev1' });
+    });
+
+    it('adds external dependencies when the setting is on', async () => {
+      mockPackages(WORKSPACE);
+      vi.mocked(vscode.workspace.fs.stat).mockRejectedValueOnce(new Error('ENOENT'));
+      vi.mocked(vscode.workspace.getConfiguration).mockReturnValueOnce({
+        get: vi.fn(() => true),
+      } as unknown as vscode.WorkspaceConfiguration);
+      const { importPackages } = register();
+
+      await importPackages(MONOREPO);
+
+      const { doc } = writtenDiagram();
+      expect(doc?.nodes.filter((n) => n.type === 'ExternalSystem').map((n) => n.label)).toEqual(['react', 'zod']);
+    });
+
+    it('reads the packages of pnpm-workspace.yaml', async () => {
+      mockPackages({
+        '/workspace/pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n",
+        '/workspace/packages/core/package.json': JSON.stringify({ name: '@acme/core' }),
+      });
+      vi.mocked(vscode.workspace.fs.stat).mockRejectedValueOnce(new Error('ENOENT'));
+      const { importPackages } = register();
+
+      await importPackages(MONOREPO);
+
+      expect(writtenDiagram().doc?.nodes.map((n) => n.label)).toEqual(['@acme/core']);
+    });
+
+    it('reports a folder without workspaces', async () => {
+      mockPackages({ '/workspace/package.json': JSON.stringify({ name: 'app' }) });
+      const { importPackages } = register();
+
+      await importPackages(MONOREPO);
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'DiagramFlow: /workspace has no npm, yarn or pnpm workspaces.',
+      );
+      expect(vscode.window.showSaveDialog).not.toHaveBeenCalled();
+    });
+
+    it('refuses to update a file that is not a diagram', async () => {
+      mockPackages(WORKSPACE);
+      const { importPackages, diagramService } = register(null);
+
+      await importPackages(MONOREPO);
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('DiagramFlow: packages.diagram.svg is not a diagram.');
+      expect(diagramService.applySemanticOps).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importCompose', () => {
+    const COMPOSE = vscode.Uri.file('/workspace/deploy/docker-compose.yml');
+    const STACK = vscode.Uri.file('/workspace/deploy/docker-compose.diagram.svg');
+
+    beforeEach(() => {
+      vi.mocked(vscode.window.showSaveDialog).mockResolvedValue(STACK);
+    });
+
+    it('saves and opens the service diagram of a compose file', async () => {
+      vi.mocked(vscode.workspace.fs.readFile).mockResolvedValueOnce(
+        new TextEncoder().encode('services:\n  api:\n    build: ./api\n    depends_on: [db]\n  db:\n    image: postgres\n'),
+      );
+      const { importCompose } = register();
+
+      await importCompose(COMPOSE);
+
+      expect(vscode.window.showSaveDialog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaultUri: vscode.Uri.joinPath(vscode.Uri.file('/workspace/deploy'), 'docker-compose.diagram.svg'),
+        }),
+      );
+      const { uri, doc } = writtenDiagram();
+      expect(uri).toBe(STACK);
+      expect(doc?.meta.title).toBe('deploy services');
+      expect(doc?.nodes.map((n) => [n.label, n.type, n.properties?.entrypoint])).toEqual([
+        ['api', 'Container', 'deploy/api/Dockerfile'],
+        ['db', 'Database', undefined],
+      ]);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.openWith', STACK, 'diagramflow.editor');
+    });
+
+    it('asks for the compose file when none is given', async () => {
+      vi.mocked(vscode.window.showOpenDialog).mockResolvedValueOnce([COMPOSE]);
+      vi.mocked(vscode.workspace.fs.readFile).mockResolvedValueOnce(new TextEncoder().encode('services:\n  api: {}\n'));
+      const { importCompose } = register();
+
+      await importCompose();
+
+      expect(vscode.window.showOpenDialog).toHaveBeenCalledWith(expect.objectContaining({ canSelectFiles: true }));
+      expect(vscode.workspace.fs.writeFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows why a compose file could not be imported', async () => {
+      vi.mocked(vscode.workspace.fs.readFile).mockResolvedValueOnce(new TextEncoder().encode('version: "3"\n'));
+      const { importCompose } = register();
+
+      await importCompose(COMPOSE);
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'DiagramFlow: could not import deploy/docker-compose.yml: ' +
+          'No services found: a compose file needs a top-level "services" map.',
+      );
+      expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importKubernetes', () => {
+    const MANIFESTS = vscode.Uri.file('/workspace/deploy/k8s');
+    const DEPLOYMENT = vscode.Uri.file('/workspace/deploy/k8s/deploy-k8s.diagram.svg');
+    const API = [
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'metadata: { name: api }',
+      'spec:',
+      '  template:',
+      '    metadata: { labels: { app: api } }',
+      '    spec:',
+      '      containers: [{ name: api, image: ghcr.io/acme/api, env: [{ name: DB_HOST, value: db }] }]',
+    ].join('\n');
+    const DB = [
+      'apiVersion: apps/v1',
+      'kind: StatefulSet',
+      'metadata: { name: db }',
+      'spec:',
+      '  template:',
+      '    metadata: { labels: { app: db } }',
+      '    spec: { containers: [{ name: db, image: postgres:16 }] }',
+      '---',
+      'apiVersion: v1',
+      'kind: Service',
+      'metadata: { name: db }',
+      'spec: { selector: { app: db }, ports: [{ port: 5432 }] }',
+    ].join('\n');
+
+    beforeEach(() => {
+      vi.mocked(vscode.window.showSaveDialog).mockResolvedValue(DEPLOYMENT);
+    });
+
+    it('saves and opens the deployment diagram of a manifest folder', async () => {
+      mockWorkspace({
+        '/workspace/deploy/k8s/api.yaml': API,
+        '/workspace/deploy/k8s/db.yml': DB,
+        '/workspace/deploy/k8s/kustomization.yaml': 'resources: [api.yaml, db.yml]',
+      });
+      const { importKubernetes } = register();
+
+      await importKubernetes(MANIFESTS);
+
+      expect(vscode.window.showSaveDialog).toHaveBeenCalledWith(
+        expect.objectContaining({ defaultUri: vscode.Uri.joinPath(MANIFESTS, 'k8s-k8s.diagram.svg') }),
+      );
+      const { uri, doc } = writtenDiagram();
+      expect(uri).toBe(DEPLOYMENT);
+      expect(doc?.meta.title).toBe('k8s deployment');
+      expect(doc?.groups?.map((g) => g.label)).toEqual(['default']);
+      expect(doc?.nodes.map((n) => [n.label, n.type, n.properties?.entrypoint])).toEqual([
+        ['api', 'Container', 'deploy/k8s/api.yaml'],
+        ['db', 'Database', 'deploy/k8s/db.yml'],
+      ]);
+      expect(doc?.edges.map((e) => [e.label, e.protocol])).toEqual([['via db', 'TCP']]);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.openWith', DEPLOYMENT, 'diagramflow.editor');
+    });
+
+    it('skips manifests that cannot be read and names them', async () => {
+      mockWorkspace({
+        '/workspace/deploy/k8s/api.yaml': API,
+        '/workspace/deploy/k8s/secret.yaml': '',
+      });
+      const readFile = vi.mocked(vscode.workspace.fs.readFile).getMockImplementation();
+      vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri) => {
+        if (uri.fsPath.endsWith('secret.yaml')) throw new Error('EACCES');
+        return readFile?.(uri) ?? new Uint8Array();
+      });
+      const { importKubernetes } = register();
+
+      await importKubernetes(MANIFESTS);
+
+      expect(vscode.workspace.findFiles).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('node_modules,dist,out,build,coverage,.git,.github,.gitlab,.circleci,templates'),
+      );
+      expect(writtenDiagram().doc?.nodes.map((n) => n.label)).toEqual(['api']);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'DiagramFlow: skipped 1 file(s) that could not be read: deploy/k8s/secret.yaml.',
+      );
+    });
+
+    it('reports a folder without workloads and writes nothing', async () => {
+      mockWorkspace({ '/workspace/deploy/k8s/db.yml': DB.split('---\n')[1] });
+      const { importKubernetes } = register();
+
+      await importKubernetes(MANIFESTS);
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'DiagramFlow: no Deployments, StatefulSets or CronJobs in deploy/k8s.',
+      );
+      expect(vscode.window.showSaveDialog).not.toHaveBeenCalled();
+      expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,404 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { nanoid } from 'nanoid';
+import { DiagramEditorProvider } from './DiagramEditorProvider';
+import { resolveWorkspacePath } from './DiagramIndex';
+import type { DiagramService } from './DiagramService';
+import type { OpResult, SemanticOp } from './types/operations';
+import { buildDiagram, type BuildDiagramOptions } from './lib/diagramBuilder';
+import { buildImportGraphOps, SOURCE_EXTENSIONS, type PackageInfo, type SourceFile } from './lib/importGraph';
+import {
+  buildPackageGraphOps,
+  parsePnpmWorkspaceGlobs,
+  parseWorkspaceGlobs,
+  type PackageManifest,
+  type WorkspacePackage,
+} from './lib/packageGraph';
+import { buildComposeOps } from './lib/composeGraph';
+import { buildKubernetesOps, isWorkload, parseManifests } from './lib/kubernetesGraph';
+import { buildDocumentSvg } from './lib/exporters';
+
+const SOURCE_GLOB = `**/*.{${SOURCE_EXTENSIONS.map((ext) => ext.slice(1)).join(',')}}`;
+const EXCLUDE_GLOB = '**/{node_modules,dist,out,build,coverage,.git}/**';
+const MANIFEST_GLOB = '**/*.{yaml,yml}';
+/** EXCLUDE_GLOB plus CI configuration and Helm chart templates, which are YAML but not manifests. */
+const MANIFEST_EXCLUDE_GLOB = '**/{node_modules,dist,out,build,coverage,.git,.github,.gitlab,.circleci,templates}/**';
+/** Keeps very large folders from loading every file into memory. */
+const MAX_SOURCE_FILES = 5000;
+
+/** `file` relative to `dir`, with forward slashes. */
+function relativePath(dir: string, file: string): string {
+  return path.relative(dir, file).split(path.sep).join('/');
+}
+
+async function readText(uri: vscode.Uri): Promise<string> {
+  return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+}
+
+/**
+ * Reads each file as UTF-8 text. Files that cannot be read or are not valid
+ * UTF-8 are listed in `skipped` instead of failing the whole batch.
+ */
+async function readTexts(
+  uris: readonly vscode.Uri[],
+): Promise<{ read: { uri: vscode.Uri; text: string }[]; skipped: vscode.Uri[] }> {
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const results = await Promise.all(
+    uris.map(async (uri) => {
+      try {
+        return { uri, text: decoder.decode(await vscode.workspace.fs.readFile(uri)) };
+      } catch {
+        return { uri };
+      }
+    }),
+  );
+  return {
+    read: results.flatMap((r) => (r.text === undefined ? [] : [{ uri: r.uri, text: r.text }])),
+    skipped: results.flatMap((r) => (r.text === undefined ? [r.uri] : [])),
+  };
+}
+
+/** Names the files an import left out, so a partial diagram is not mistaken for a complete one. */
+function reportSkipped(skipped: readonly vscode.Uri[]): void {
+  if (skipped.length === 0) return;
+  const shown = skipped.slice(0, 5).map((uri) => vscode.workspace.asRelativePath(uri));
+  const more = skipped.length > shown.length ? ` and ${skipped.length - shown.length} more` : '';
+  void vscode.window.showWarningMessage(
+    `DiagramFlow: skipped ${skipped.length} file(s) that could not be read: ${shown.join(', ')}${more}.`,
+  );
+}
+
+/** A package.json, or undefined when it is missing or not valid JSON. */
+async function readManifest(uri: vscode.Uri): Promise<PackageManifest | undefined> {
+  try {
+    const manifest: unknown = JSON.parse(await readText(uri));
+    return manifest && typeof manifest === 'object' ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The manifest's `name`, else the name of its folder. */
+function packageName(manifest: PackageManifest | undefined, uri: vscode.Uri): string {
+  const name = manifest?.name;
+  return typeof name === 'string' && name ? name : path.basename(path.dirname(uri.fsPath));
+}
+
+/** Builds a diagram from `ops` and writes it to `target` as .diagram.svg. */
+export async function writeGeneratedDiagram(
+  target: vscode.Uri,
+  title: string,
+  ops: SemanticOp[],
+  options: Omit<BuildDiagramOptions, 'generateId'>,
+): Promise<OpResult> {
+  const result = buildDiagram(title, ops, { ...options, generateId: () => nanoid(8) });
+  if (result.success && result.document) {
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(buildDocumentSvg(result.document)));
+  }
+  return result;
+}
+
+/**
+ * Writes the service diagram of a docker-compose file to `target`. Shared by
+ * the Import docker-compose command and the diagramflow_importCompose tool.
+ */
+export async function importComposeFile(compose: vscode.Uri, target: vscode.Uri): Promise<OpResult> {
+  let text: string;
+  try {
+    text = await readText(compose);
+  } catch {
+    return { success: false, error: `Cannot read ${compose.fsPath}.` };
+  }
+  const built = buildComposeOps(text, {
+    // Entrypoints resolve from the folder resolveWorkspacePath uses for the new diagram.
+    composeDir: relativePath(resolveWorkspacePath(target, '.').fsPath, path.dirname(compose.fsPath)),
+  });
+  if ('error' in built) return { success: false, error: built.error };
+  return writeGeneratedDiagram(target, `${path.basename(path.dirname(compose.fsPath))} services`, built.ops, {});
+}
+
+/**
+ * Commands that generate an editable diagram from the workspace: the module
+ * dependency diagram of a folder's TypeScript / JavaScript imports, the
+ * package diagram of an npm, yarn or pnpm workspace, the service diagram of a
+ * docker-compose file, and the deployment diagram of a folder of Kubernetes
+ * manifests. Generated diagrams are saved as .diagram.svg and opened in the
+ * editor; importing packages into an existing diagram updates it in place
+ * through DiagramService.
+ */
+export class DiagramGenerator {
+  /** Generates the module dependency diagram of a folder: `(folder?)`, asking when omitted. */
+  public static readonly generateFromCodeCommand = 'diagramflow.generateFromCode';
+  /** Imports the packages of a workspace root: `(folder?)`, asking when omitted. */
+  public static readonly importWorkspacePackagesCommand = 'diagramflow.importWorkspacePackages';
+  /** Imports the services of a docker-compose file: `(file?)`, asking when omitted. */
+  public static readonly importComposeCommand = 'diagramflow.importCompose';
+  /** Imports the workloads of a folder of Kubernetes manifests: `(folder?)`, asking when omitted. */
+  public static readonly importKubernetesCommand = 'diagramflow.importKubernetes';
+
+  private constructor(private readonly diagramService: DiagramService) {}
+
+  public static register(context: vscode.ExtensionContext, diagramService: DiagramService): DiagramGenerator {
+    const generator = new DiagramGenerator(diagramService);
+    context.subscriptions.push(
+      vscode.commands.registerCommand(DiagramGenerator.generateFromCodeCommand, (folder?: vscode.Uri) =>
+        generator.generateFromCode(folder),
+      ),
+      vscode.commands.registerCommand(DiagramGenerator.importWorkspacePackagesCommand, (folder?: vscode.Uri) =>
+        generator.importWorkspacePackages(folder),
+      ),
+      vscode.commands.registerCommand(DiagramGenerator.importComposeCommand, (file?: vscode.Uri) =>
+        generator.importCompose(file),
+      ),
+      vscode.commands.registerCommand(DiagramGenerator.importKubernetesCommand, (folder?: vscode.Uri) =>
+        generator.importKubernetes(folder),
+      ),
+    );
+    return generator;
+  }
+
+  async generateFromCode(folder?: vscode.Uri): Promise<void> {
+    const root = folder ?? (await this.pickFolder('Generate Diagram'));
+    if (!root) return;
+
+    const found = await vscode.workspace.findFiles(new vscode.RelativePattern(root, SOURCE_GLOB), EXCLUDE_GLOB, MAX_SOURCE_FILES);
+    const sources = found.filter((uri) => !/\.d\.[cm]?ts$/.test(uri.fsPath));
+    if (sources.length === 0) {
+      void vscode.window.showInformationMessage(
+        `DiagramFlow: no TypeScript or JavaScript files in ${vscode.workspace.asRelativePath(root)}.`,
+      );
+      return;
+    }
+
+    const name = path.basename(root.fsPath);
+    const target = await this.pickTarget(root, `${name}-modules.diagram.svg`);
+    if (!target) return;
+
+    const { read, skipped } = await readTexts(sources);
+    const files: SourceFile[] = read.map(({ uri, text }) => ({ path: relativePath(root.fsPath, uri.fsPath), text }));
+    const depth = vscode.workspace.getConfiguration('diagramflow').get<number>('generateFromCode.depth', 1);
+    const ops = buildImportGraphOps(files, {
+      depth: Math.max(0, Math.floor(depth)),
+      packages: await this.readPackages(root),
+      rootName: name,
+      // Entrypoints resolve from the folder resolveWorkspacePath uses for the new diagram.
+      rootPath: relativePath(resolveWorkspacePath(target, '.').fsPath, root.fsPath),
+    });
+    await this.save(target, `${name} modules`, ops, { direction: 'LR' });
+    reportSkipped(skipped);
+    if (found.length >= MAX_SOURCE_FILES) {
+      void vscode.window.showWarningMessage(
+        `DiagramFlow: only the first ${MAX_SOURCE_FILES} source files in ${vscode.workspace.asRelativePath(root)} ` +
+          'were read, so the diagram leaves some modules out. Generate it from a subfolder for a complete diagram.',
+      );
+    }
+  }
+
+  /** package.json folders under `root`, named by their `name` field or folder. */
+  private async readPackages(root: vscode.Uri): Promise<PackageInfo[]> {
+    const manifests = await vscode.workspace.findFiles(new vscode.RelativePattern(root, '**/package.json'), EXCLUDE_GLOB);
+    return Promise.all(
+      manifests.map(async (uri) => ({
+        dir: relativePath(root.fsPath, path.dirname(uri.fsPath)),
+        // An unreadable manifest still marks a package folder.
+        name: packageName(await readManifest(uri), uri),
+      })),
+    );
+  }
+
+  /**
+   * Imports the workspace packages under `folder` into a diagram. Picking an
+   * existing diagram updates it in place, keyed on package name, so manual
+   * positions, colours and notes survive the next import.
+   */
+  async importWorkspacePackages(folder?: vscode.Uri): Promise<void> {
+    const root = folder ?? (await this.pickFolder('Import Packages'));
+    if (!root) return;
+
+    const globs = await this.readWorkspaceGlobs(root);
+    if (globs.length === 0) {
+      void vscode.window.showInformationMessage(
+        `DiagramFlow: ${vscode.workspace.asRelativePath(root)} has no npm, yarn or pnpm workspaces.`,
+      );
+      return;
+    }
+
+    const name = path.basename(root.fsPath);
+    const target = await this.pickTarget(root, `${name}-packages.diagram.svg`);
+    if (!target) return;
+
+    // Entrypoints resolve from the folder resolveWorkspacePath uses for the diagram.
+    const packages = await this.readWorkspacePackages(root, globs, resolveWorkspacePath(target, '.').fsPath);
+    const options = {
+      externalDependencies: vscode.workspace
+        .getConfiguration('diagramflow')
+        .get<boolean>('importWorkspacePackages.externalDependencies', false),
+    };
+
+    const document = await this.openExisting(target);
+    if (!document) {
+      await this.save(target, `${name} packages`, buildPackageGraphOps(packages, undefined, options), {});
+      return;
+    }
+    const revision = this.diagramService.getRevision(document);
+    const current = this.diagramService.parseDocument(document);
+    if (!revision || !current) {
+      void vscode.window.showErrorMessage(`DiagramFlow: ${vscode.workspace.asRelativePath(target)} is not a diagram.`);
+      return;
+    }
+    const ops = buildPackageGraphOps(packages, current, options);
+    if (ops.length > 0) {
+      const result = await this.diagramService.applySemanticOps(ops, document, {
+        change: { label: 'Import workspace packages' },
+        revision,
+      });
+      if (!result.success) {
+        void vscode.window.showErrorMessage(`DiagramFlow: could not update the diagram: ${result.error}`);
+        return;
+      }
+    }
+    await vscode.commands.executeCommand('vscode.openWith', target, DiagramEditorProvider.viewType);
+  }
+
+  /** The root package.json `workspaces` globs, else those of pnpm-workspace.yaml. */
+  private async readWorkspaceGlobs(root: vscode.Uri): Promise<string[]> {
+    const manifest = await readManifest(vscode.Uri.joinPath(root, 'package.json'));
+    const globs = manifest ? parseWorkspaceGlobs(manifest) : [];
+    if (globs.length > 0) return globs;
+    try {
+      return parsePnpmWorkspaceGlobs(await readText(vscode.Uri.joinPath(root, 'pnpm-workspace.yaml')));
+    } catch {
+      return [];
+    }
+  }
+
+  /** The package.json files matched by `globs`; `!` globs exclude packages. `base` is the repo root. */
+  private async readWorkspacePackages(root: vscode.Uri, globs: string[], base: string): Promise<WorkspacePackage[]> {
+    const find = async (glob: string) => {
+      const pattern = `${glob.replace(/^\.\/|\/+$/g, '')}/package.json`;
+      return vscode.workspace.findFiles(new vscode.RelativePattern(root, pattern), EXCLUDE_GLOB);
+    };
+    const excluded = new Set(
+      (await Promise.all(globs.filter((g) => g.startsWith('!')).map((g) => find(g.slice(1)))))
+        .flat()
+        .map((uri) => uri.toString()),
+    );
+    const manifests = new Map<string, vscode.Uri>();
+    for (const uri of (await Promise.all(globs.filter((g) => !g.startsWith('!')).map(find))).flat()) {
+      if (!excluded.has(uri.toString())) manifests.set(uri.toString(), uri);
+    }
+
+    return Promise.all(
+      [...manifests.values()].map(async (uri) => {
+        const manifest = await readManifest(uri);
+        return {
+          name: packageName(manifest, uri),
+          dir: relativePath(base, path.dirname(uri.fsPath)),
+          manifest: manifest ?? {},
+        };
+      }),
+    );
+  }
+
+  /** The diagram at `target`, or undefined when there is no file yet. */
+  private async openExisting(target: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+    try {
+      await vscode.workspace.fs.stat(target);
+    } catch {
+      return undefined;
+    }
+    return vscode.workspace.openTextDocument(target);
+  }
+
+  async importCompose(file?: vscode.Uri): Promise<void> {
+    const compose = file ?? (await this.pickComposeFile());
+    if (!compose) return;
+
+    const name = path.basename(compose.fsPath).replace(/\.ya?ml$/i, '');
+    const target = await this.pickTarget(vscode.Uri.file(path.dirname(compose.fsPath)), `${name}.diagram.svg`);
+    if (!target) return;
+
+    const result = await importComposeFile(compose, target);
+    if (!result.success) {
+      void vscode.window.showErrorMessage(
+        `DiagramFlow: could not import ${vscode.workspace.asRelativePath(compose)}: ${result.error}`,
+      );
+      return;
+    }
+    await vscode.commands.executeCommand('vscode.openWith', target, DiagramEditorProvider.viewType);
+  }
+
+  async importKubernetes(folder?: vscode.Uri): Promise<void> {
+    const root = folder ?? (await this.pickFolder('Import Manifests'));
+    if (!root) return;
+
+    const manifests = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(root, MANIFEST_GLOB),
+      MANIFEST_EXCLUDE_GLOB,
+    );
+    const { read, skipped } = await readTexts(manifests);
+    const resources = parseManifests(read.map(({ uri, text }) => ({ path: uri.fsPath, text })));
+    if (!resources.some(isWorkload)) {
+      void vscode.window.showInformationMessage(
+        `DiagramFlow: no Deployments, StatefulSets or CronJobs in ${vscode.workspace.asRelativePath(root)}.`,
+      );
+      reportSkipped(skipped);
+      return;
+    }
+
+    const name = path.basename(root.fsPath);
+    const target = await this.pickTarget(root, `${name}-k8s.diagram.svg`);
+    if (!target) return;
+
+    // Entrypoints resolve from the folder resolveWorkspacePath uses for the new diagram.
+    const base = resolveWorkspacePath(target, '.').fsPath;
+    const ops = buildKubernetesOps(resources.map((r) => ({ ...r, file: relativePath(base, r.file) })));
+    await this.save(target, `${name} deployment`, ops, { direction: 'LR' });
+    reportSkipped(skipped);
+  }
+
+  private async pickComposeFile(): Promise<vscode.Uri | undefined> {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      openLabel: 'Import',
+      filters: { 'Compose files': ['yml', 'yaml'] },
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    });
+    return picked?.[0];
+  }
+
+  private async pickFolder(openLabel: string): Promise<vscode.Uri | undefined> {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    });
+    return picked?.[0];
+  }
+
+  private pickTarget(dir: vscode.Uri, fileName: string): Thenable<vscode.Uri | undefined> {
+    return vscode.window.showSaveDialog({
+      filters: { 'DiagramFlow (SVG with embedded data)': ['diagram.svg'] },
+      defaultUri: vscode.Uri.joinPath(dir, fileName),
+    });
+  }
+
+  /** Builds the diagram from `ops`, writes it to `target` and opens it. */
+  private async save(
+    target: vscode.Uri,
+    title: string,
+    ops: SemanticOp[],
+    options: Omit<BuildDiagramOptions, 'generateId'>,
+  ): Promise<void> {
+    const result = await writeGeneratedDiagram(target, title, ops, options);
+    if (!result.success) {
+      void vscode.window.showErrorMessage(`DiagramFlow: could not generate the diagram: ${result.error}`);
+      return;
+    }
+    await vscode.commands.executeCommand('vscode.openWith', target, DiagramEditorProvider.viewType);
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('vscode', () => import('./__mocks__/vscode'));
+
+import { DiagramIndex, resolveWorkspacePath } from './DiagramIndex';
+import * as vscode from 'vscode';
+
+const FILES: Record<string, string> = {
+  '/workspace/b.diagram': JSON.stringify({ meta: { title: 'B' }, nodes: [], edges: [] }),
+  '/workspace/a.diagram': JSON.stringify({ meta: { title: 'A' }, nodes: [], edges: [] }),
+  '/workspace/broken.diagram': '{',
+  '/workspace/docs/shop.diagram': JSON.stringify({
+    meta: { title: '' },
+    nodes: [
+      { id: 'api', label: 'API', properties: { entrypoint: 'src/api/main.ts' } },
+      { id: 'web', label: 'Web', properties: { entrypoint: './src/web/index.ts' } },
+    ],
+    edges: [],
+  }),
+};
+
+type Watcher = Record<'onDidCreate' | 'onDidChange' | 'onDidDelete', ReturnType<typeof vi.fn>>;
+
+function register() {
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+  const index = DiagramIndex.register(context);
+  const watcher = vi.mocked(vscode.workspace.createFileSystemWatcher).mock.results[0].value as Watcher;
+  const on = (event: keyof Watcher) => watcher[event].mock.calls[0][0] as (uri: vscode.Uri) => Promise<void> | void;
+  return { context, index, on };
+}
+
+describe('DiagramIndex', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(vscode.workspace.findFiles).mockResolvedValue(Object.keys(FILES).map((f) => vscode.Uri.file(f)));
+    vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri: vscode.Uri) => {
+      if (!(uri.fsPath in FILES)) throw new Error('ENOENT');
+      return new TextEncoder().encode(FILES[uri.fsPath]);
+    });
+  });
+
+  it('indexes every diagram in the workspace, sorted by path', async () => {
+    const { index, context } = register();
+    expect(vscode.workspace.findFiles).toHaveBeenCalledWith(DiagramIndex.glob, DiagramIndex.exclude);
+
+    const diagrams = await index.getDiagrams();
+    expect(diagrams.map((d) => [d.uri.fsPath, d.doc?.meta.title ?? null])).toEqual([
+      ['/workspace/a.diagram', 'A'],
+      ['/workspace/b.diagram', 'B'],
+      ['/workspace/broken.diagram', null],
+      ['/workspace/docs/shop.diagram', ''],
+    ]);
+    expect(context.subscriptions).toContain(index);
+  });
+
+  it('follows files created, changed and deleted in the workspace', async () => {
+    const { index, on } = register();
+    await index.getDiagrams();
+    const changed = vi.fn();
+    index.onDidChange(changed);
+
+    FILES['/workspace/new.diagram'] = JSON.stringify({ meta: { title: 'New' }, nodes: [], edges: [] });
+    try {
+      await on('onDidCreate')(vscode.Uri.file('/workspace/new.diagram'));
+      expect((await index.getDiagram(vscode.Uri.file('/workspace/new.diagram')))?.doc?.meta.title).toBe('New');
+
+      await on('onDidChange')(vscode.Uri.file('/workspace/node_modules/pkg/x.diagram'));
+      on('onDidDelete')(vscode.Uri.file('/workspace/a.diagram'));
+    } finally {
+      delete FILES['/workspace/new.diagram'];
+    }
+
+    expect((await index.getDiagrams()).map((d) => d.uri.fsPath)).toEqual([
+      '/workspace/b.diagram',
+      '/workspace/broken.diagram',
+      '/workspace/docs/shop.diagram',
+      '/workspace/new.diagram',
+    ]);
+    expect(changed).toHaveBeenCalledTimes(2);
+  });
+
+  it('finds the nodes whose entrypoint is a file', async () => {
+    const { index } = register();
+    const root = { uri: vscode.Uri.file('/workspace') } as vscode.WorkspaceFolder;
+    vi.mocked(vscode.workspace.getWorkspaceFolder).mockReturnValue(root);
+
+    expect(await index.findEntrypointReferences(vscode.Uri.file('/workspace/src/api/main.ts'))).toEqual([
+      { uri: vscode.Uri.file('/workspace/docs/shop.diagram'), title: 'shop.diagram', nodeId: 'api', label: 'API' },
+    ]);
+    expect(await index.findEntrypointReferences(vscode.Uri.file('/workspace/src/web/index.ts'))).toHaveLength(1);
+    expect(await index.findEntrypointReferences(vscode.Uri.file('/workspace/src/other.ts'))).toEqual([]);
+  });
+
+  it('publishes the entrypoint files for menu when clauses', async () => {
+    vi.mocked(vscode.workspace.getWorkspaceFolder).mockReturnValue({ uri: vscode.Uri.file('/workspace') } as vscode.WorkspaceFolder);
+    const { index, on } = register();
+    await index.getDiagrams();
+
+    expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('setContext', 'diagramflow.entrypoints', [
+      '/workspace/src/api/main.ts',
+      '/workspace/src/web/index.ts',
+    ]);
+
+    on('onDidDelete')(vscode.Uri.file('/workspace/docs/shop.diagram'));
+    expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('setContext', 'diagramflow.entrypoints', []);
+  });
+
+  it('resolves entrypoints outside a workspace against the diagram folder', () => {
+    vi.mocked(vscode.workspace.getWorkspaceFolder).mockReturnValue(undefined);
+    expect(resolveWorkspacePath(vscode.Uri.file('/repo/docs/a.diagram'), 'src/main.ts').fsPath).toBe('/repo/docs/src/main.ts');
+  });
+});
@@ -0,0 +1,148 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { DiagramDocument } from './types/DiagramDocument';
+import { parseDiagramText } from './lib/diagramIndex';
+
+export interface IndexedDiagram {
+  uri: vscode.Uri;
+  /** Null when the file holds no readable diagram. */
+  doc: DiagramDocument | null;
+}
+
+/** A node whose `properties.entrypoint` is a given source file. */
+export interface EntrypointReference {
+  /** The diagram holding the node. */
+  uri: vscode.Uri;
+  /** Diagram title, or its file name when untitled. */
+  title: string;
+  nodeId: string;
+  label: string;
+}
+
+/**
+ * Resolves a path from node properties (`entrypoint`, `openapi`, `adr`),
+ * which is relative to the repo root: against the workspace folder holding
+ * the diagram, or against the diagram's own folder when it is outside the
+ * workspace.
+ */
+export function resolveWorkspacePath(diagramUri: vscode.Uri, relativePath: string): vscode.Uri {
+  const root = vscode.workspace.getWorkspaceFolder(diagramUri)?.uri.fsPath ?? path.dirname(diagramUri.fsPath);
+  return vscode.Uri.file(path.resolve(root, relativePath));
+}
+
+/** Whether a path from node properties resolves to an existing file or folder (see resolveWorkspacePath). */
+export async function workspacePathExists(diagramUri: vscode.Uri, relativePath: string): Promise<boolean> {
+  return vscode.workspace.fs.stat(resolveWorkspacePath(diagramUri, relativePath)).then(() => true, () => false);
+}
+
+/**
+ * Every .diagram and .diagram.svg file in the workspace, parsed once and kept
+ * current by a file watcher. Diagrams are read from disk; DiagramService saves
+ * after each write, so edits show up as soon as they are made.
+ *
+ * The paths of all files named as a node entrypoint are published in the
+ * `diagramflow.entrypoints` context key, so menus can test
+ * `resourcePath in diagramflow.entrypoints`.
+ */
+export class DiagramIndex implements vscode.Disposable {
+  public static readonly glob = '**/*.{diagram,diagram.svg}';
+  public static readonly exclude = '**/node_modules/**';
+  public static readonly entrypointsContextKey = 'diagramflow.entrypoints';
+
+  private readonly entries = new Map<string, IndexedDiagram>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  /** Fires after the initial scan and whenever a diagram is added, changed or deleted. */
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly watcher = vscode.workspace.createFileSystemWatcher(DiagramIndex.glob);
+  private readonly subscriptions: vscode.Disposable[];
+  private readonly scanned: Promise<void>;
+
+  private constructor() {
+    this.subscriptions = [
+      this.watcher,
+      this.changeEmitter,
+      this.watcher.onDidCreate((uri) => {
+        void this.update(uri);
+      }),
+      this.watcher.onDidChange((uri) => {
+        void this.update(uri);
+      }),
+      this.watcher.onDidDelete((uri) => {
+        if (this.entries.delete(uri.toString())) this.changeEmitter.fire();
+      }),
+      this.onDidChange(() => this.publishEntrypoints()),
+    ];
+    this.scanned = this.scan();
+  }
+
+  public static register(context: vscode.ExtensionContext): DiagramIndex {
+    const index = new DiagramIndex();
+    context.subscriptions.push(index);
+    return index;
+  }
+
+  /** All indexed diagrams, sorted by path. Waits for the initial scan. */
+  async getDiagrams(): Promise<IndexedDiagram[]> {
+    await this.scanned;
+    return [...this.entries.values()].sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+  }
+
+  async getDiagram(uri: vscode.Uri): Promise<IndexedDiagram | undefined> {
+    await this.scanned;
+    return this.entries.get(uri.toString());
+  }
+
+  /** Nodes in any indexed diagram whose entrypoint is `file`. */
+  async findEntrypointReferences(file: vscode.Uri): Promise<EntrypointReference[]> {
+    const diagrams = await this.getDiagrams();
+    return diagrams.flatMap(({ uri, doc }) => {
+      if (!doc) return [];
+      const title = doc.meta.title || path.basename(uri.fsPath);
+      return doc.nodes
+        .filter((n) => {
+          const entrypoint = n.properties?.entrypoint;
+          return !!entrypoint && resolveWorkspacePath(uri, entrypoint).fsPath === file.fsPath;
+        })
+        .map((n) => ({ uri, title, nodeId: n.id, label: n.label }));
+    });
+  }
+
+  private publishEntrypoints(): void {
+    const files = new Set<string>();
+    for (const { uri, doc } of this.entries.values()) {
+      for (const node of doc?.nodes ?? []) {
+        const entrypoint = node.properties?.entrypoint;
+        if (entrypoint) files.add(resolveWorkspacePath(uri, entrypoint).fsPath);
+      }
+    }
+    void vscode.commands.executeCommand('setContext', DiagramIndex.entrypointsContextKey, [...files].sort());
+  }
+
+  private async scan(): Promise<void> {
+    const uris = await vscode.workspace.findFiles(DiagramIndex.glob, DiagramIndex.exclude);
+    await Promise.all(uris.map((uri) => this.read(uri)));
+    this.changeEmitter.fire();
+  }
+
+  private async update(uri: vscode.Uri): Promise<void> {
+    // The watcher cannot exclude folders, so skip what the scan skipped.
+    if (uri.path.includes('/node_modules/')) return;
+    await this.read(uri);
+    this.changeEmitter.fire();
+  }
+
+  private async read(uri: vscode.Uri): Promise<void> {
+    let text: string;
+    try {
+      text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+      // Deleted between the event and the read; the delete event follows.
+      return;
+    }
+    this.entries.set(uri.toString(), { uri, doc: parseDiagramText(text, uri.fsPath.endsWith('.svg')) });
+  }
+
+  dispose(): void {
+    for (const subscription of this.subscriptions) subscription.dispose();
+  }
+}
@@ -7,6 +7,7 @@ vi.mock('fs', () => ({
 }));
 
 import { DiagramService } from './DiagramService';
+import { CURRENT_SCHEMA_VERSION } from './lib/migrations';
 import type { DiagramDocument } from './types/DiagramDocument';
 import * as vscode from 'vscode';
 import * as nodeFs from 'fs';
@@ -23,7 +24,7 @@ function makeMockTextDocument(content: string): vscode.TextDocument {
 function makeValidDoc(): DiagramDocument {
   return {
     meta: {
-      version: '1.0',
+      version: CURRENT_SCHEMA_VERSION,
       title: 'Test',
       created: '2025-01-01T00:00:00Z',
       modified: '2025-01-01T00:00:00Z',
@@ -90,6 +91,39 @@ describe('DiagramService', () => {
 
       expect(service.parseDocument()).toBeNull();
     });
+
+    it('returns null when nodes or edges are not lists', () => {
+      const doc = { ...makeValidDoc(), nodes: 'n1' };
+      expect(service.parseDocument(makeMockTextDocument(JSON.stringify(doc)))).toBeNull();
+    });
+
+    it('upgrades documents from older schema versions', () => {
+      const oldDoc = makeValidDoc();
+      delete oldDoc.meta.version;
+      (oldDoc as { nodes: unknown[] }).nodes = [{ id: 'n1', label: 'A', x: 10, y: 20 }];
+
+      const result = service.parseDocument(makeMockTextDocument(JSON.stringify(oldDoc)));
+
+      expect(result!.meta.version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(result!.nodes[0]).toMatchObject({ shape: 'rectangle', color: 'default', pinned: false });
+    });
+  });
+
+  describe('newer schema versions', () => {
+    it('refuses every write and reports the file as read-only', async () => {
+      const newerDoc = makeValidDoc();
+      newerDoc.meta.version = '99.0';
+      const textDoc = makeMockTextDocument(JSON.stringify(newerDoc));
+
+      const result = await service.applySemanticOps([{ op: 'add_node', node: { label: 'X' } }], textDoc);
+      await service.moveNode('n1', { x: 0, y: 0 }, textDoc);
+
+      expect(service.isReadOnly(textDoc)).toBe(true);
+      expect(service.parseDocument(textDoc)).toEqual(newerDoc);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('read-only');
+      expect(nodeFs.writeFileSync).not.toHaveBeenCalled();
+    });
   });
 
   describe('applySemanticOps', () => {
@@ -121,6 +155,20 @@ describe('DiagramService', () => {
       expect(nodeFs.writeFileSync).toHaveBeenCalledTimes(1);
     });
 
+    it('writes a keyed batch once and returns the generated ids', async () => {
+      const textDoc = makeMockTextDocument(JSON.stringify(makeValidDoc()));
+      service.setActiveDocument(textDoc);
+
+      const result = await service.applySemanticOps([
+        { op: 'add_node', key: 'api', node: { label: 'API' } },
+        { op: 'update_node', id: 'api', changes: { notes: 'Public entrypoint' } },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.ids).toEqual({ api: 'mock_id1' });
+      expect(nodeFs.writeFileSync).toHaveBeenCalledTimes(1);
+    });
+
     it('uses explicit document parameter over active', async () => {
       const validDoc = makeValidDoc();
       const textDoc = makeMockTextDocument(JSON.stringify(validDoc));
@@ -148,6 +196,70 @@ describe('DiagramService', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Failed to apply workspace edit');
     });
+
+    it('refuses edges that break an error-level fitness rule when asked to enforce rules', async () => {
+      const validDoc = makeValidDoc();
+      validDoc.meta.rules = [
+        { id: 'no-person-db', description: 'People do not query databases.', from: { type: 'Person' }, to: { type: 'Database' } },
+      ];
+      validDoc.nodes = [
+        { id: 'p', label: 'Customer', type: 'Person', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+        { id: 'db', label: 'Orders DB', type: 'Database', x: 0, y: 100, width: 160, height: 48, shape: 'cylinder', color: 'default', pinned: false },
+      ];
+      const textDoc = makeMockTextDocument(JSON.stringify(validDoc));
+      const ops = [{ op: 'add_edge' as const, edge: { source: 'p', target: 'db' } }];
+
+      const refused = await service.applySemanticOps(ops, textDoc, { enforceRules: true });
+      expect(refused.success).toBe(false);
+      expect(refused.error).toBe(
+        'Refused by the diagram\'s architecture rules: Edge "Customer" → "Orders DB" breaks rule "no-person-db": People do not query databases.',
+      );
+      expect(nodeFs.writeFileSync).not.toHaveBeenCalled();
+
+      // Without enforcement the edge is written and the violation reported to agents.
+      const allowed = await service.applySemanticOps(ops, textDoc);
+      expect(allowed.success).toBe(true);
+      const written = JSON.parse(vi.mocked(nodeFs.writeFileSync).mock.calls[0][1] as string) as DiagramDocument;
+      expect(written.agentContext?.insights).toContain(
+        'Edge "Customer" → "Orders DB" breaks rule "no-person-db": People do not query databases.',
+      );
+    });
+    it('reports references to missing files in agentContext through the injected check', async () => {
+      const pathExists = vi.fn(async (_diagram: vscode.Uri, target: string) => target !== 'src/gone.ts');
+      const checked = new DiagramService(pathExists);
+      const validDoc = makeValidDoc();
+      validDoc.nodes = [
+        { id: 'api', label: 'API', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+      ];
+      const textDoc = makeMockTextDocument(JSON.stringify(validDoc));
+
+      await checked.applySemanticOps(
+        [{ op: 'update_node', id: 'api', changes: { properties: { entrypoint: 'src/gone.ts', adr: 'docs/adr/1.md' } } }],
+        textDoc,
+      );
+
+      expect(pathExists).toHaveBeenCalledWith(textDoc.uri, 'docs/adr/1.md');
+      const written = JSON.parse(vi.mocked(nodeFs.writeFileSync).mock.calls[0][1] as string) as DiagramDocument;
+      expect(written.agentContext?.insights).toContainEqual(expect.stringContaining('"API" entrypoint not found: src/gone.ts'));
+    });
+
+    it('records the existing dependents of a node it deprecates', async () => {
+      const validDoc = makeValidDoc();
+      validDoc.nodes = [
+        { id: 'api', label: 'API', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+        { id: 'db', label: 'DB', x: 0, y: 100, width: 160, height: 48, shape: 'cylinder', color: 'default', pinned: false },
+      ];
+      validDoc.edges = [{ id: 'e1', source: 'api', target: 'db', style: 'solid', arrow: 'arrow' }];
+      const textDoc = makeMockTextDocument(JSON.stringify(validDoc));
+
+      await service.applySemanticOps(
+        [{ op: 'update_node', id: 'db', changes: { properties: { status: 'deprecated' } } }],
+        textDoc,
+      );
+
+      const written = JSON.parse(vi.mocked(nodeFs.writeFileSync).mock.calls[0][1] as string) as DiagramDocument;
+      expect(written.nodes[1].properties).toEqual({ status: 'deprecated', deprecatedDependents: ['api'] });
+    });
   });
 
   describe('autoLayoutAll', () => {
@@ -331,6 +443,38 @@ describe('DiagramService', () => {
       }
     });
   });
+
+  describe('moveGroup – nested groups', () => {
+    it('moves nodes of nested sub-groups and clears the enclosing group origin', async () => {
+      const doc = makeValidDoc();
+      doc.nodes = [
+        { id: 'n1', label: 'A', x: 200, y: 200, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, group: 'vpc' },
+        { id: 'n2', label: 'B', x: 250, y: 300, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, group: 'subnet' },
+      ];
+      doc.groups = [
+        { id: 'region', label: 'Region', x: 0, y: 0 },
+        { id: 'vpc', label: 'VPC', parent: 'region', x: 160, y: 140 },
+        { id: 'subnet', label: 'Subnet', parent: 'vpc' },
+        { id: 'empty', label: 'Empty', parent: 'vpc', x: 600, y: 600 },
+      ];
+
+      let written: any;
+      vi.mocked(nodeFs.writeFileSync).mockImplementation((_path, data) => { if (typeof data === 'string') written = JSON.parse(data); });
+
+      const textDoc = makeMockTextDocument(JSON.stringify(doc));
+      await service.moveGroup('vpc', { x: 210, y: 190 }, textDoc);
+
+      expect(nodeFs.writeFileSync).toHaveBeenCalledTimes(1);
+      const byId = (id: string) => written.nodes.find((n: any) => n.id === id);
+      const groupById = (id: string) => written.groups.find((g: any) => g.id === id);
+      expect(byId('n1')).toMatchObject({ x: 250, y: 250 });
+      expect(byId('n2')).toMatchObject({ x: 300, y: 350 });
+      expect(groupById('vpc')).toMatchObject({ x: 210, y: 190 });
+      expect(groupById('empty')).toMatchObject({ x: 650, y: 650 });
+      expect(groupById('region').x).toBeUndefined();
+      expect(groupById('region').y).toBeUndefined();
+    });
+  });
 });
 
 describe('sortNodes', () => {
@@ -493,3 +637,181 @@ describe('DiagramService.duplicateNode', () => {
   });
 });
 
+
+describe('DiagramService history', () => {
+  let service: DiagramService;
+
+  function makeDocAt(path: string): vscode.TextDocument {
+    const doc = makeValidDoc();
+    doc.nodes = [
+      { id: 'n1', label: 'A', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+      { id: 'n2', label: 'B', x: 0, y: 100, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+    ];
+    return {
+      getText: () => JSON.stringify(doc),
+      uri: vscode.Uri.file(path),
+      lineCount: 1,
+      save: vi.fn().mockResolvedValue(true),
+    } as unknown as vscode.TextDocument;
+  }
+
+  beforeEach(() => {
+    service = new DiagramService();
+    vi.clearAllMocks();
+  });
+
+  it('merges consecutive moves of the same selection into one labelled entry', async () => {
+    const textDoc = makeDocAt('/test/a.diagram');
+    const moves = (x: number) => [
+      { id: 'n1', position: { x, y: 10 } },
+      { id: 'n2', position: { x, y: 20 } },
+    ];
+    await service.moveNodes(moves(10), textDoc);
+    await service.moveNodes(moves(20), textDoc);
+
+    expect(service.getHistory(textDoc)).toEqual({ past: ['Move 2 nodes'], future: [] });
+  });
+
+  it('keeps separate gestures on different nodes as separate entries', async () => {
+    const textDoc = makeDocAt('/test/a.diagram');
+    await service.moveNode('n1', { x: 10, y: 10 }, textDoc);
+    await service.moveNode('n2', { x: 20, y: 20 }, textDoc);
+
+    expect(service.getHistory(textDoc)).toEqual({ past: ['Move node', 'Move node'], future: [] });
+  });
+
+  it('records no history entry when the write fails', async () => {
+    const textDoc = makeDocAt('/test/a.diagram');
+    vi.mocked(nodeFs.writeFileSync).mockImplementationOnce(() => { throw new Error('Write failed'); });
+    vi.mocked(vscode.workspace.applyEdit).mockResolvedValueOnce(false);
+
+    const result = await service.applySemanticOps([{ op: 'remove_node', id: 'n1' }], textDoc);
+
+    expect(result.success).toBe(false);
+    expect(service.getHistory(textDoc)).toEqual({ past: [], future: [] });
+  });
+
+  it('keeps history per document across active editor switches', async () => {
+    const a = makeDocAt('/test/a.diagram');
+    const b = makeDocAt('/test/b.diagram');
+    service.setActiveDocument(a);
+    await service.applySemanticOps([{ op: 'remove_node', id: 'n1' }]);
+    service.setActiveDocument(b);
+    service.setActiveDocument(a);
+
+    expect(service.getHistory(a).past).toEqual(['Delete node']);
+    expect(service.getHistory(b).past).toEqual([]);
+  });
+
+  it('jumps several entries in a single write', async () => {
+    const textDoc = makeDocAt('/test/a.diagram');
+    await service.applySemanticOps([{ op: 'remove_node', id: 'n1' }], textDoc);
+    await service.applySemanticOps([{ op: 'update_node', id: 'n2', changes: { label: 'B2' } }], textDoc);
+    vi.mocked(nodeFs.writeFileSync).mockClear();
+
+    await service.jumpToHistory(0, textDoc);
+
+    expect(nodeFs.writeFileSync).toHaveBeenCalledTimes(1);
+    expect(service.getHistory(textDoc)).toEqual({ past: [], future: ['Delete node', 'Edit node'] });
+  });
+});
+
+describe('DiagramService write queue and revisions', () => {
+  let service: DiagramService;
+  let textDoc: vscode.TextDocument;
+  let written: DiagramDocument | undefined;
+
+  beforeEach(() => {
+    service = new DiagramService();
+    vi.clearAllMocks();
+    const doc = makeValidDoc();
+    doc.nodes = [
+      { id: 'n1', label: 'A', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+      { id: 'n2', label: 'B', x: 0, y: 100, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+    ];
+    // The buffer never reloads here, like VS Code right after a native write.
+    textDoc = makeMockTextDocument(JSON.stringify(doc));
+    written = undefined;
+    vi.mocked(nodeFs.writeFileSync).mockImplementation((_path, data) => {
+      written = JSON.parse(data as string) as DiagramDocument;
+    });
+  });
+
+  it('keeps both of two simultaneous writes', async () => {
+    await Promise.all([
+      service.moveNode('n1', { x: 300, y: 300 }, textDoc),
+      service.applySemanticOps([{ op: 'update_node', id: 'n2', changes: { label: 'B2' } }], textDoc),
+    ]);
+
+    expect(nodeFs.writeFileSync).toHaveBeenCalledTimes(2);
+    expect(written!.nodes.find((n) => n.id === 'n1')!.x).toBe(300);
+    expect(written!.nodes.find((n) => n.id === 'n2')!.label).toBe('B2');
+  });
+
+  it('rebases a stale write that touches other fields', async () => {
+    const revision = service.getRevision(textDoc)!;
+    await service.applySemanticOps([{ op: 'update_node', id: 'n1', changes: { label: 'A2' } }], textDoc);
+
+    const result = await service.applySemanticOps(
+      [{ op: 'update_node', id: 'n2', changes: { label: 'B2' } }],
+      textDoc,
+      { revision },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.revision).toBe(service.getRevision(textDoc));
+    expect(written!.nodes.map((n) => n.label)).toEqual(['A2', 'B2']);
+  });
+
+  it('rejects a stale write that would overwrite a newer change', async () => {
+    const revision = service.getRevision(textDoc)!;
+    await service.applySemanticOps([{ op: 'update_node', id: 'n1', changes: { label: 'A2' } }], textDoc);
+
+    const result = await service.applySemanticOps(
+      [{ op: 'update_node', id: 'n1', changes: { label: 'A3' } }],
+      textDoc,
+      { revision },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.conflict).toBe(true);
+    expect(result.error).toContain('node "A" (n1) changed label');
+    expect(nodeFs.writeFileSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('rebases a stale drag and rejects one that moves a node someone else moved', async () => {
+    const revision = service.getRevision(textDoc)!;
+    await service.moveNode('n1', { x: 300, y: 300 }, textDoc);
+
+    expect(await service.moveNode('n2', { x: 50, y: 50 }, textDoc, revision)).toEqual({ success: true });
+    expect(written!.nodes.map((n) => [n.x, n.y])).toEqual([[300, 300], [50, 50]]);
+
+    const result = await service.moveNodes([{ id: 'n1', position: { x: 10, y: 10 } }], textDoc, revision);
+    expect(result.conflict).toBe(true);
+    expect(result.error).toContain('node "A" (n1) changed x, y');
+    expect(nodeFs.writeFileSync).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a stale edit of a text element that was deleted', async () => {
+    await service.addTextElement({ content: 'Note', x: 0, y: 0, width: 120, height: 40 }, textDoc);
+    const id = written!.textElements![0].id;
+    const revision = service.getRevision(textDoc)!;
+    await service.deleteTextElements([id], textDoc);
+
+    const result = await service.updateTextElement(id, { x: 5, y: 5 }, textDoc, undefined, revision);
+
+    expect(result.conflict).toBe(true);
+    expect(result.error).toContain(`text ${id} was deleted`);
+  });
+
+  it('rejects an unknown revision', async () => {
+    const result = await service.applySemanticOps(
+      [{ op: 'remove_node', id: 'n1' }],
+      textDoc,
+      { revision: 'deadbeef' },
+    );
+
+    expect(result.conflict).toBe(true);
+    expect(result.error).toContain('unknown');
+  });
+});
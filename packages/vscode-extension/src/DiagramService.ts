@@ -1,80 +1,164 @@
 import * as vscode from 'vscode';
 import * as nodeFs from 'fs';
-import type { DiagramDocument, LayoutDirection, TextElement, ImageElement } from './types/DiagramDocument';
-import { GROUP_PADDING, GROUP_LABEL_HEIGHT } from './types/DiagramDocument';
+import type { DiagramDocument, DiagramEdge, LayoutDirection, TextElement, ImageElement } from './types/DiagramDocument';
 import type { SemanticOp } from './types/operations';
 import { applyOps, createEmptyDocument } from './lib/operations';
 import { computePartialLayout, computeFullLayout, computeForcedLayout, DEFAULT_LAYOUT_CONFIG } from './lib/layoutEngine';
 import type { LayoutConfig } from './lib/layoutEngine';
 import { generateAgentContext } from './lib/agentContext';
+import { workspacePathExists } from './DiagramIndex';
+import { findDriftAsync } from './lib/drift';
+import { findNewViolations } from './lib/fitnessRules';
+import { recordDeprecatedDependents, type LintFinding } from './lib/lint';
 import { buildDocumentSvg } from './lib/exporters';
-import { extractDiagramFromSvg } from './lib/svgMetadata';
+import { parseDiagramText } from './lib/diagramIndex';
+import { computeGroupBounds, getGroupAncestorIds, getGroupDescendantIds } from './lib/groupHierarchy';
+import {
+  createHistory,
+  describeOps,
+  pushHistory,
+  stepHistory,
+  summarizeHistory,
+  type DocumentHistory,
+  type HistoryChange,
+  type HistorySummary,
+} from './lib/history';
+import { computeRevision, findConflicts, type CheckedChange } from './lib/revision';
+import { CURRENT_SCHEMA_VERSION, isNewerSchema, schemaVersionOf } from './lib/migrations';
 import { nanoid } from 'nanoid';
 
-const HISTORY_MAX = 50;
+/** Number of recent revisions per document that stale writes can be rebased from. */
+const REVISIONS_KEPT = 20;
+
+const NO_DOCUMENT = 'No active diagram document';
+
+/** `withDocument` fallbacks for methods without and with a result. */
+const ignore = (): undefined => undefined;
+const failure = (error: string) => ({ success: false, error });
+
+export interface ApplySemanticOpsOptions {
+  /** History entry for the change; defaults to a label derived from the ops. */
+  change?: HistoryChange;
+  /** Revision the caller based the ops on (see getRevision). */
+  revision?: string;
+  /** Refuse the ops when they break an error-level fitness rule in meta.rules. */
+  enforceRules?: boolean;
+}
+
+export interface WriteResult {
+  success: boolean;
+  error?: string;
+  /** True when the change was rejected because the document changed underneath it. */
+  conflict?: boolean;
+}
+
+export interface ApplySemanticOpsResult extends WriteResult {
+  ids?: Record<string, string>;
+  /** Revision of the document after the write. */
+  revision?: string;
+}
 
 export class DiagramService {
   private activeDocument: vscode.TextDocument | null = null;
-  private undoStack: DiagramDocument[] = [];
-  private redoStack: DiagramDocument[] = [];
+  /** Undo/redo history per document URI, so switching editors keeps it. */
+  private readonly histories = new Map<string, DocumentHistory>();
+  /** Tail of the write queue per document URI. */
+  private readonly queues = new Map<string, Promise<void>>();
+  /** Our last write per URI, used until the editor buffer shows it. */
+  private readonly pendingWrites = new Map<string, { staleText: string; doc: DiagramDocument }>();
+  /** Recently written or read document states per URI, for rebasing stale writes. */
+  private readonly revisions = new Map<string, { revision: string; doc: DiagramDocument }[]>();
+
+  /**
+   * @param pathExists Whether a path from node properties of the diagram at
+   *   `diagram` exists; used for drift findings and the drift insights in agentContext.
+   */
+  constructor(
+    private readonly pathExists: (diagram: vscode.Uri, target: string) => Promise<boolean> = workspacePathExists,
+  ) {}
 
   setActiveDocument(doc: vscode.TextDocument | null): void {
     this.activeDocument = doc;
-    // Clear history when switching to a different document.
-    this.undoStack = [];
-    this.redoStack = [];
   }
 
   getActiveDocument(): vscode.TextDocument | null {
     return this.activeDocument;
   }
 
-  /** Push the current document state to the undo stack before a write. */
-  private recordHistory(current: DiagramDocument): void {
-    this.undoStack.push(structuredClone(current));
-    if (this.undoStack.length > HISTORY_MAX) {
-      this.undoStack.shift();
+  private historyFor(target: vscode.TextDocument): DocumentHistory {
+    const key = target.uri.toString();
+    let history = this.histories.get(key);
+    if (!history) {
+      history = createHistory();
+      this.histories.set(key, history);
     }
-    // Any new action clears the redo stack.
-    this.redoStack = [];
+    return history;
   }
 
-  async undo(doc?: vscode.TextDocument): Promise<void> {
-    if (this.undoStack.length === 0) return;
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
 
-    const previous = this.undoStack.pop()!;
-    this.redoStack.push(structuredClone(current));
-    await writeDocumentToFile(target, previous);
+  async undo(doc?: vscode.TextDocument): Promise<void> {
+    await this.stepHistory(doc, () => -1);
   }
 
   async redo(doc?: vscode.TextDocument): Promise<void> {
-    if (this.redoStack.length === 0) return;
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
+    await this.stepHistory(doc, () => 1);
+  }
 
-    const next = this.redoStack.pop()!;
-    this.undoStack.push(structuredClone(current));
-    await writeDocumentToFile(target, next);
+  /**
+   * Jumps to a point in the document's history: `index` is the number of
+   * applied entries to keep (0 = before the first recorded change). Undoes
+   * or redoes as many entries as needed in a single write.
+   */
+  async jumpToHistory(index: number, doc?: vscode.TextDocument): Promise<void> {
+    await this.stepHistory(doc, (history) => index - history.undo.length);
+  }
+
+  /** Labels of the applied and undone changes of a document, for the history panel. */
+  getHistory(doc?: vscode.TextDocument): HistorySummary {
+    const target = doc ?? this.activeDocument;
+    return target ? summarizeHistory(this.historyFor(target)) : { past: [], future: [] };
+  }
+
+  /** `delta` is computed inside the write queue so it sees the history as it is then. */
+  private stepHistory(doc: vscode.TextDocument | undefined, delta: (history: DocumentHistory) => number): Promise<void> {
+    return this.withDocument(doc, ignore, async (target, current) => {
+      const history = this.historyFor(target);
+      const next = stepHistory(history, current, delta(history));
+      if (next) await this.commit(target, next);
+    });
+  }
+
+  /**
+   * Revision token of the document as this service currently sees it (see
+   * lib/revision.ts). Writers pass it back so stale changes are detected.
+   */
+  getRevision(doc?: vscode.TextDocument): string | null {
+    const target = doc ?? this.activeDocument;
+    const current = target ? this.parseDocument(target) : null;
+    return target && current ? this.rememberRevision(target, current) : null;
   }
 
   parseDocument(doc?: vscode.TextDocument): DiagramDocument | null {
     const target = doc ?? this.activeDocument;
     if (!target) return null;
-    try {
-      const text = target.getText();
-      // SVG files embed the JSON inside <metadata>; extract it.
-      if (target.uri.fsPath.endsWith('.svg')) {
-        const json = extractDiagramFromSvg(text);
-        return json ? (JSON.parse(json) as DiagramDocument) : null;
-      }
-      return JSON.parse(text) as DiagramDocument;
-    } catch {
-      return null;
+    const key = target.uri.toString();
+    const pending = this.pendingWrites.get(key);
+    if (pending) {
+      // Until VS Code reloads the buffer it still shows the text from before our write.
+      if (target.getText() === pending.staleText) return structuredClone(pending.doc);
+      this.pendingWrites.delete(key);
     }
+    return parseDiagramText(target.getText(), target.uri.fsPath.endsWith('.svg'));
+  }
+
+  /**
+   * True when the file was written by a newer schema than this build
+   * supports. Such documents are shown but every write is refused, so fields
+   * this version does not know about are never dropped.
+   */
+  isReadOnly(doc?: vscode.TextDocument): boolean {
+    const current = this.parseDocument(doc);
+    return current !== null && isNewerSchema(current);
   }
 
   /**
@@ -91,29 +175,176 @@ export class DiagramService {
     return { target, current };
   }
 
+  /**
+   * Runs `task` in the document's write queue so that read-modify-write
+   * cycles on one document never interleave. The document is parsed inside
+   * the queue, after every earlier write has finished. Resolves to
+   * `fallback(error)` when there is no document, it cannot be parsed, or it is
+   * read-only.
+   */
+  private withDocument<T>(
+    doc: vscode.TextDocument | undefined,
+    fallback: (error: string) => T,
+    task: (target: vscode.TextDocument, current: DiagramDocument) => Promise<T>,
+  ): Promise<T> {
+    const target = doc ?? this.activeDocument;
+    if (!target) return Promise.resolve(fallback(NO_DOCUMENT));
+    const key = target.uri.toString();
+
+    const run = (this.queues.get(key) ?? Promise.resolve()).then(() => {
+      const state = this.resolveDocument(target);
+      if (!state) return fallback(NO_DOCUMENT);
+      if (isNewerSchema(state.current)) {
+        return fallback(
+          `Diagram is read-only: it uses schema version ${schemaVersionOf(state.current)}, ` +
+            `newer than the supported ${CURRENT_SCHEMA_VERSION}. Update DiagramFlow to edit it.`,
+        );
+      }
+      return task(state.target, state.current);
+    });
+    const tail = run.then(() => undefined, () => undefined);
+    this.queues.set(key, tail);
+    void tail.then(() => {
+      if (this.queues.get(key) === tail) this.queues.delete(key);
+    });
+    return run;
+  }
+
+  /** Writes the document and remembers it until the editor buffer catches up. */
+  private async commit(
+    target: vscode.TextDocument,
+    doc: DiagramDocument,
+  ): Promise<{ success: boolean; error?: string }> {
+    const staleText = target.getText();
+    const result = await writeDocumentToFile(target, doc);
+    if (result.success) {
+      this.pendingWrites.set(target.uri.toString(), { staleText, doc });
+      this.rememberRevision(target, doc);
+    }
+    return result;
+  }
+
+  /**
+   * Commits a user change and, once the write has succeeded, pushes the state
+   * before it to the target's undo stack. A failed write leaves no entry.
+   * Nodes the change deprecates remember their existing dependents.
+   */
+  private async commitChange(
+    target: vscode.TextDocument,
+    current: DiagramDocument,
+    doc: DiagramDocument,
+    change: HistoryChange,
+  ): Promise<{ success: boolean; error?: string }> {
+    recordDeprecatedDependents(current, doc);
+    const result = await this.commit(target, doc);
+    if (result.success) pushHistory(this.historyFor(target), current, change);
+    return result;
+  }
+
+  private rememberRevision(target: vscode.TextDocument, doc: DiagramDocument): string {
+    const revision = computeRevision(doc);
+    const key = target.uri.toString();
+    const known = (this.revisions.get(key) ?? []).filter((r) => r.revision !== revision);
+    known.push({ revision, doc: structuredClone(doc) });
+    this.revisions.set(key, known.slice(-REVISIONS_KEPT));
+    return revision;
+  }
+
+  /**
+   * Checks a writer's revision against the current document. Returns a
+   * conflict message when the ops cannot be rebased onto the current state.
+   */
+  private checkRevision(
+    target: vscode.TextDocument,
+    current: DiagramDocument,
+    revision: string,
+    ops: readonly CheckedChange[],
+  ): string | undefined {
+    const latest = this.rememberRevision(target, current);
+    if (revision === latest) return undefined;
+
+    const base = this.revisions.get(target.uri.toString())?.find((r) => r.revision === revision);
+    if (!base) {
+      return `Conflict: revision ${revision} is unknown or too old (current revision is ${latest}). ` +
+        'Read the diagram again and retry.';
+    }
+    const conflicts = findConflicts(base.doc, current, ops);
+    return conflicts.length > 0
+      ? `Conflict: the diagram changed since revision ${revision} (current revision is ${latest}): ` +
+        `${conflicts.join('; ')}. Read the diagram again and retry.`
+      : undefined;
+  }
+
+  /**
+   * `checkRevision` for writes that are not made of ops, such as drags. They
+   * describe what they change as `changes()`. Without a revision nothing is
+   * checked; a conflict comes back as the failed write result.
+   */
+  private checkWriteRevision(
+    target: vscode.TextDocument,
+    current: DiagramDocument,
+    revision: string | undefined,
+    changes: () => CheckedChange[],
+  ): WriteResult | undefined {
+    if (revision === undefined) return undefined;
+    const conflict = this.checkRevision(target, current, revision, changes());
+    return conflict ? { success: false, error: conflict, conflict: true } : undefined;
+  }
+
+  /**
+   * Applies a batch of ops as one validated transaction with a single undo
+   * entry. `ids` maps the client keys of created elements to their real ids.
+   *
+   * With `options.revision` (the revision the caller read) a stale batch is
+   * rebased onto the current document, or rejected with `conflict: true` when
+   * it would overwrite a newer change. The result carries the new revision.
+   *
+   * With `options.enforceRules` (set by agent tools) a batch that adds edges
+   * breaking an error-level fitness rule is refused; violations that already
+   * existed do not block unrelated changes.
+   */
   async applySemanticOps(
     ops: SemanticOp[],
     doc?: vscode.TextDocument,
-  ): Promise<{ success: boolean; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
+    options: ApplySemanticOpsOptions = {},
+  ): Promise<ApplySemanticOpsResult> {
+    return this.withDocument<ApplySemanticOpsResult>(doc, failure, async (target, current) => {
+      if (options.revision !== undefined) {
+        const conflict = this.checkRevision(target, current, options.revision, ops);
+        if (conflict) return { success: false, error: conflict, conflict: true };
+      }
 
-    const result = applyOps(current, ops, () => nanoid(8));
-    if (!result.success || !result.document) {
-      return { success: false, error: result.error };
-    }
+      const result = applyOps(current, ops, () => nanoid(8));
+      if (!result.success || !result.document) {
+        return { success: false, error: result.error };
+      }
+      if (options.enforceRules) {
+        const broken = findNewViolations(current, result.document).filter((v) => v.severity === 'error');
+        if (broken.length > 0) {
+          return {
+            success: false,
+            error: `Refused by the diagram's architecture rules: ${broken.map((v) => v.message).join('; ')}`,
+          };
+        }
+      }
 
-    let modified = result.document;
-    // Skip partial layout after sort_nodes — sort has already positioned all nodes explicitly.
-    const hasSortOp = ops.some((op) => op.op === 'sort_nodes');
-    if (!hasSortOp) {
-      modified = applyPartialLayout(modified);
-    }
+      let modified = result.document;
+      // Skip partial layout after sort_nodes — sort has already positioned all nodes explicitly.
+      const hasSortOp = ops.some((op) => op.op === 'sort_nodes');
+      if (!hasSortOp) {
+        modified = applyPartialLayout(modified);
+      }
 
-    this.stampModified(modified);
-    this.recordHistory(current);
-    return writeDocumentToFile(target, modified);
+      await this.stampModified(modified, target);
+      const change = options.change ?? { label: describeOps(ops) };
+      const written = await this.commitChange(target, current, modified, change);
+      if (!written.success) return written;
+      return {
+        ...written,
+        revision: computeRevision(modified),
+        ...(result.ids && { ids: result.ids }),
+      };
+    });
   }
 
   async autoLayoutAll(doc?: vscode.TextDocument, direction?: LayoutDirection): Promise<void> {
@@ -130,37 +361,34 @@ export class DiagramService {
     direction: LayoutDirection | undefined,
     force: boolean,
   ): Promise<void> {
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
-
-    const config: LayoutConfig = {
-      ...DEFAULT_LAYOUT_CONFIG,
-      rankdir: direction ?? current.meta.layoutDirection ?? 'TB',
-    };
-    const resetDoc = structuredClone(current);
-    resetDoc.meta.layoutDirection = config.rankdir as LayoutDirection;
-
-    for (const node of resetDoc.nodes) {
-      if (force || !node.pinned) {
-        node.x = 0;
-        node.y = 0;
+    return this.withDocument(doc, ignore, async (target, current) => {
+      const config: LayoutConfig = {
+        ...DEFAULT_LAYOUT_CONFIG,
+        rankdir: direction ?? current.meta.layoutDirection ?? 'TB',
+      };
+      const resetDoc = structuredClone(current);
+      resetDoc.meta.layoutDirection = config.rankdir as LayoutDirection;
+
+      for (const node of resetDoc.nodes) {
+        if (force || !node.pinned) {
+          node.x = 0;
+          node.y = 0;
+        }
+        if (force) node.pinned = false;
       }
-      if (force) node.pinned = false;
-    }
 
-    const layoutFn = force ? computeForcedLayout : computeFullLayout;
-    for (const lr of layoutFn(resetDoc, config)) {
-      const node = resetDoc.nodes.find((n) => n.id === lr.nodeId);
-      if (node) {
-        node.x = lr.x;
-        node.y = lr.y;
+      const layoutFn = force ? computeForcedLayout : computeFullLayout;
+      for (const lr of layoutFn(resetDoc, config)) {
+        const node = resetDoc.nodes.find((n) => n.id === lr.nodeId);
+        if (node) {
+          node.x = lr.x;
+          node.y = lr.y;
+        }
       }
-    }
 
-    this.stampModified(resetDoc);
-    this.recordHistory(current);
-    await writeDocumentToFile(target, resetDoc);
+      await this.stampModified(resetDoc, target);
+      await this.commitChange(target, current, resetDoc, { label: force ? 'Force auto layout' : 'Auto layout' });
+    });
   }
 
   /**
@@ -187,34 +415,36 @@ export class DiagramService {
   async moveNodes(
     moves: { id: string; position: { x: number; y: number } }[],
     doc?: vscode.TextDocument,
-  ): Promise<void> {
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const affectedGroupIds = new Set<string>();
-
-    for (const { id, position } of moves) {
-      const node = modified.nodes.find((n) => n.id === id);
-      if (!node) continue;
-      node.x = position.x;
-      node.y = position.y;
-      node.pinned = true;
-      if (node.group) affectedGroupIds.add(node.group);
-    }
+    revision?: string,
+  ): Promise<WriteResult> {
+    return this.withDocument<WriteResult>(doc, failure, async (target, current) => {
+      const conflict = this.checkWriteRevision(target, current, revision, () =>
+        moves.map(({ id, position }) => ({ op: 'update_node', id, changes: position })),
+      );
+      if (conflict) return conflict;
+
+      const modified = structuredClone(current);
+      const affectedGroupIds = new Set<string>();
+
+      for (const { id, position } of moves) {
+        const node = modified.nodes.find((n) => n.id === id);
+        if (!node) continue;
+        node.x = position.x;
+        node.y = position.y;
+        node.pinned = true;
+        if (node.group) affectedGroupIds.add(node.group);
+      }
 
-    // Clear stored group origin so group visuals always re-derive from children.
-    for (const groupId of affectedGroupIds) {
-      const group = modified.groups?.find((g) => g.id === groupId);
-      if (group) {
-        delete group.x;
-        delete group.y;
+      // Clear stored group origin so group visuals always re-derive from children.
+      for (const groupId of affectedGroupIds) {
+        clearGroupOrigin(modified, groupId);
       }
-    }
 
-    this.stampModified(modified);
-    await writeDocumentToFile(target, modified);
+      await this.stampModified(modified, target);
+      return this.commitChange(target, current, modified, {
+        merge: { action: 'Move', items: Object.fromEntries(moves.map((m) => [m.id, 'node'])) },
+      });
+    });
   }
 
   /**
@@ -228,30 +458,28 @@ export class DiagramService {
     id: string,
     position: { x: number; y: number },
     doc?: vscode.TextDocument,
-  ): Promise<void> {
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const node = modified.nodes.find((n) => n.id === id);
-    if (!node) return;
+    revision?: string,
+  ): Promise<WriteResult> {
+    return this.withDocument<WriteResult>(doc, failure, async (target, current) => {
+      const conflict = this.checkWriteRevision(target, current, revision, () => [
+        { op: 'update_node', id, changes: position },
+      ]);
+      if (conflict) return conflict;
+
+      const modified = structuredClone(current);
+      const node = modified.nodes.find((n) => n.id === id);
+      if (!node) return { success: false, error: `Node not found: ${id}` };
 
-    node.x = position.x;
-    node.y = position.y;
-    node.pinned = true;
+      node.x = position.x;
+      node.y = position.y;
+      node.pinned = true;
 
-    // Clear stored group origin so group visuals always re-derive from children.
-    if (node.group) {
-      const group = modified.groups?.find((g) => g.id === node.group);
-      if (group) {
-        delete group.x;
-        delete group.y;
-      }
-    }
+      // Clear stored group origin so group visuals always re-derive from children.
+      if (node.group) clearGroupOrigin(modified, node.group);
 
-    this.stampModified(modified);
-    await writeDocumentToFile(target, modified);
+      await this.stampModified(modified, target);
+      return this.commitChange(target, current, modified, { merge: { action: 'Move', items: { [id]: 'node' } } });
+    });
   }
 
   /**
@@ -267,60 +495,86 @@ export class DiagramService {
     originalY: number,
     doc?: vscode.TextDocument,
   ): Promise<void> {
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const original = modified.nodes.find((n) => n.id === id);
-    if (!original) return;
-
-    // Restore original node to its pre-drag position.
-    original.x = originalX;
-    original.y = originalY;
-
-    // Create duplicate at the drop position with a new id.
-    const { id: _id, ...rest } = original;
-    modified.nodes.push({ ...rest, id: nanoid(), x, y, pinned: true });
-
-    this.recordHistory(current);
-    this.stampModified(modified);
-    await writeDocumentToFile(target, modified);
+    return this.withDocument(doc, ignore, async (target, current) => {
+      const modified = structuredClone(current);
+      const original = modified.nodes.find((n) => n.id === id);
+      if (!original) return;
+
+      // Restore original node to its pre-drag position.
+      original.x = originalX;
+      original.y = originalY;
+
+      // Create duplicate at the drop position with a new id.
+      const { id: _id, ...rest } = original;
+      modified.nodes.push({ ...rest, id: nanoid(), x, y, pinned: true });
+
+      await this.stampModified(modified, target);
+      await this.commitChange(target, current, modified, { label: 'Duplicate node' });
+    });
   }
 
   /**
-   * Moves a group node and all its child nodes by the displacement from the
-   * group's old computed position to the given new position.
+   * Moves a group node and all its content (child nodes and nested sub-groups
+   * at any depth) by the displacement from the group's old computed position
+   * to the given new position.
    */
   async moveGroup(
     groupId: string,
     newPosition: { x: number; y: number },
     doc?: vscode.TextDocument,
-  ): Promise<void> {
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const group = modified.groups?.find((g) => g.id === groupId);
-    if (!group) return;
+    revision?: string,
+  ): Promise<WriteResult> {
+    return this.withDocument<WriteResult>(doc, failure, async (target, current) => {
+      // The content moves by a delta, so only a moved or deleted group clashes.
+      const conflict = this.checkWriteRevision(target, current, revision, () => [
+        { op: 'update_group', id: groupId, changes: newPosition },
+      ]);
+      if (conflict) return conflict;
+
+      const modified = structuredClone(current);
+      const group = modified.groups?.find((g) => g.id === groupId);
+      if (!group) return { success: false, error: `Group not found: ${groupId}` };
+
+      const origin = computeGroupOrigin(modified, groupId);
+      const deltaX = newPosition.x - (group.x ?? origin.x);
+      const deltaY = newPosition.y - (group.y ?? origin.y);
+
+      const groups = modified.groups ?? [];
+      const descendantIds = getGroupDescendantIds(groups, groupId);
+      const movedGroupIds = new Set([groupId, ...descendantIds]);
+      const movedNodeIds = new Set<string>();
+      for (const node of modified.nodes) {
+        if (node.group && movedGroupIds.has(node.group)) {
+          node.x += deltaX;
+          node.y += deltaY;
+          movedNodeIds.add(node.id);
+        }
+      }
 
-    const origin = computeGroupOrigin(modified, groupId);
-    const deltaX = newPosition.x - (group.x ?? origin.x);
-    const deltaY = newPosition.y - (group.y ?? origin.y);
+      // Bend points of edges inside the moved content travel with it.
+      for (const edge of modified.edges) {
+        if (!edge.waypoints || !movedNodeIds.has(edge.source) || !movedNodeIds.has(edge.target)) continue;
+        edge.waypoints = edge.waypoints.map((w) => ({ x: w.x + deltaX, y: w.y + deltaY }));
+      }
 
-    for (const node of modified.nodes) {
-      if (node.group === groupId) {
-        node.x += deltaX;
-        node.y += deltaY;
+      // Empty sub-groups only have a stored position, so shift it along.
+      for (const sub of groups) {
+        if (!descendantIds.includes(sub.id)) continue;
+        if (sub.x !== undefined) sub.x += deltaX;
+        if (sub.y !== undefined) sub.y += deltaY;
       }
-    }
 
-    group.x = newPosition.x;
-    group.y = newPosition.y;
+      group.x = newPosition.x;
+      group.y = newPosition.y;
+
+      // Enclosing groups re-derive their bounds from the moved content.
+      if (group.parent) clearGroupOrigin(modified, group.parent);
 
-    this.stampModified(modified);
-    await writeDocumentToFile(target, modified);
+      await this.stampModified(modified, target);
+      return this.commitChange(target, current, modified, {
+        merge: { action: 'Move', items: { [groupId]: 'group' } },
+      });
+    });
   }
 
   /** Reconnects an existing edge to a new source/target. */
@@ -329,21 +583,29 @@ export class DiagramService {
     newSource: string,
     newTarget: string,
     doc?: vscode.TextDocument,
-  ): Promise<void> {
-    const state = this.resolveDocument(doc);
-    if (!state) return;
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const edge = modified.edges.find((e) => e.id === id);
-    if (!edge) return;
-
-    edge.source = newSource;
-    edge.target = newTarget;
-
-    this.stampModified(modified);
-    this.recordHistory(current);
-    await writeDocumentToFile(target, modified);
+    ports: Pick<DiagramEdge, 'sourcePort' | 'targetPort'> = {},
+    revision?: string,
+  ): Promise<WriteResult> {
+    return this.withDocument<WriteResult>(doc, failure, async (target, current) => {
+      const conflict = this.checkWriteRevision(target, current, revision, () => [
+        { op: 'update_edge', id, changes: { source: newSource, target: newTarget, ...ports } },
+      ]);
+      if (conflict) return conflict;
+
+      const modified = structuredClone(current);
+      const edge = modified.edges.find((e) => e.id === id);
+      if (!edge) return { success: false, error: `Edge not found: ${id}` };
+
+      edge.source = newSource;
+      edge.target = newTarget;
+      if (ports.sourcePort) edge.sourcePort = ports.sourcePort;
+      else delete edge.sourcePort;
+      if (ports.targetPort) edge.targetPort = ports.targetPort;
+      else delete edge.targetPort;
+
+      await this.stampModified(modified, target);
+      return this.commitChange(target, current, modified, { label: 'Reconnect edge' });
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -354,48 +616,47 @@ export class DiagramService {
     element: Omit<TextElement, 'id'>,
     doc?: vscode.TextDocument,
   ): Promise<{ success: boolean; id?: string; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const id = nanoid(8);
-    modified.textElements = [...(modified.textElements ?? []), { id, ...element }];
-    this.stampModified(modified);
-    this.recordHistory(current);
-    const result = await writeDocumentToFile(target, modified);
-    return result.success ? { success: true, id } : result;
+    return this.withDocument(doc, failure, async (target, current) => {
+      const modified = structuredClone(current);
+      const id = nanoid(8);
+      modified.textElements = [...(modified.textElements ?? []), { id, ...element }];
+      await this.stampModified(modified, target);
+      const result = await this.commitChange(target, current, modified, { label: 'Add text' });
+      return result.success ? { success: true, id } : result;
+    });
   }
 
   async updateTextElement(
     id: string,
     changes: Partial<Omit<TextElement, 'id'>>,
     doc?: vscode.TextDocument,
-  ): Promise<{ success: boolean; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const el = modified.textElements?.find((e) => e.id === id);
-    if (!el) return { success: false, error: `Text element not found: ${id}` };
-
-    Object.assign(el, changes);
-    this.stampModified(modified);
-    this.recordHistory(current);
-    return writeDocumentToFile(target, modified);
+    change: HistoryChange = { label: 'Edit text' },
+    revision?: string,
+  ): Promise<WriteResult> {
+    return this.withDocument<WriteResult>(doc, failure, async (target, current) => {
+      const conflict = this.checkWriteRevision(target, current, revision, () => [
+        { op: 'update_text', id, changes },
+      ]);
+      if (conflict) return conflict;
+
+      const modified = structuredClone(current);
+      const el = modified.textElements?.find((e) => e.id === id);
+      if (!el) return { success: false, error: `Text element not found: ${id}` };
+
+      Object.assign(el, changes);
+      await this.stampModified(modified, target);
+      return this.commitChange(target, current, modified, change);
+    });
   }
 
   async deleteTextElements(ids: string[], doc?: vscode.TextDocument): Promise<{ success: boolean; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    modified.textElements = (modified.textElements ?? []).filter((e) => !ids.includes(e.id));
-    this.stampModified(modified);
-    this.recordHistory(current);
-    return writeDocumentToFile(target, modified);
+    return this.withDocument(doc, failure, async (target, current) => {
+      const modified = structuredClone(current);
+      modified.textElements = (modified.textElements ?? []).filter((e) => !ids.includes(e.id));
+      await this.stampModified(modified, target);
+      const label = ids.length === 1 ? 'Delete text' : `Delete ${ids.length} texts`;
+      return this.commitChange(target, current, modified, { label });
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -406,48 +667,47 @@ export class DiagramService {
     element: Omit<ImageElement, 'id'>,
     doc?: vscode.TextDocument,
   ): Promise<{ success: boolean; id?: string; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const id = nanoid(8);
-    modified.imageElements = [...(modified.imageElements ?? []), { id, ...element }];
-    this.stampModified(modified);
-    this.recordHistory(current);
-    const result = await writeDocumentToFile(target, modified);
-    return result.success ? { success: true, id } : result;
+    return this.withDocument(doc, failure, async (target, current) => {
+      const modified = structuredClone(current);
+      const id = nanoid(8);
+      modified.imageElements = [...(modified.imageElements ?? []), { id, ...element }];
+      await this.stampModified(modified, target);
+      const result = await this.commitChange(target, current, modified, { label: 'Add image' });
+      return result.success ? { success: true, id } : result;
+    });
   }
 
   async updateImageElement(
     id: string,
     changes: Partial<Omit<ImageElement, 'id'>>,
     doc?: vscode.TextDocument,
-  ): Promise<{ success: boolean; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    const el = modified.imageElements?.find((e) => e.id === id);
-    if (!el) return { success: false, error: `Image element not found: ${id}` };
-
-    Object.assign(el, changes);
-    this.stampModified(modified);
-    this.recordHistory(current);
-    return writeDocumentToFile(target, modified);
+    change: HistoryChange = { label: 'Edit image' },
+    revision?: string,
+  ): Promise<WriteResult> {
+    return this.withDocument<WriteResult>(doc, failure, async (target, current) => {
+      const conflict = this.checkWriteRevision(target, current, revision, () => [
+        { op: 'update_image', id, changes },
+      ]);
+      if (conflict) return conflict;
+
+      const modified = structuredClone(current);
+      const el = modified.imageElements?.find((e) => e.id === id);
+      if (!el) return { success: false, error: `Image element not found: ${id}` };
+
+      Object.assign(el, changes);
+      await this.stampModified(modified, target);
+      return this.commitChange(target, current, modified, change);
+    });
   }
 
   async deleteImageElements(ids: string[], doc?: vscode.TextDocument): Promise<{ success: boolean; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    modified.imageElements = (modified.imageElements ?? []).filter((e) => !ids.includes(e.id));
-    this.stampModified(modified);
-    this.recordHistory(current);
-    return writeDocumentToFile(target, modified);
+    return this.withDocument(doc, failure, async (target, current) => {
+      const modified = structuredClone(current);
+      modified.imageElements = (modified.imageElements ?? []).filter((e) => !ids.includes(e.id));
+      await this.stampModified(modified, target);
+      const label = ids.length === 1 ? 'Delete image' : `Delete ${ids.length} images`;
+      return this.commitChange(target, current, modified, { label });
+    });
   }
 
   /**
@@ -456,29 +716,35 @@ export class DiagramService {
    * that should be remembered in future sessions. Pass null to clear the notes.
    */
   async setLlmNotes(notes: string | null, doc?: vscode.TextDocument): Promise<{ success: boolean; error?: string }> {
-    const state = this.resolveDocument(doc);
-    if (!state) return { success: false, error: 'No active diagram document' };
-    const { target, current } = state;
-
-    const modified = structuredClone(current);
-    if (notes === null || notes.trim() === '') {
-      delete modified.meta.llmNotes;
-    } else {
-      modified.meta.llmNotes = notes.trim();
-    }
-    this.stampModified(modified);
-    this.recordHistory(current);
-    return writeDocumentToFile(target, modified);
+    return this.withDocument(doc, failure, async (target, current) => {
+      const modified = structuredClone(current);
+      if (notes === null || notes.trim() === '') {
+        delete modified.meta.llmNotes;
+      } else {
+        modified.meta.llmNotes = notes.trim();
+      }
+      await this.stampModified(modified, target);
+      return this.commitChange(target, current, modified, { label: 'Update agent notes' });
+    });
   }
 
   emptyDocument(): DiagramDocument {
     return createEmptyDocument();
   }
 
-  /** Stamps `modified` timestamp and refreshes agentContext on a cloned document. */
-  private stampModified(doc: DiagramDocument): void {
+  /**
+   * Stamps `modified` timestamp and refreshes agentContext on a cloned document,
+   * including the references to files that no longer exist next to `target`.
+   */
+  /** Node properties of the diagram at `uri` that point at missing files. */
+  findDrift(doc: DiagramDocument, uri: vscode.Uri): Promise<LintFinding[]> {
+    return findDriftAsync(doc, (file) => this.pathExists(uri, file));
+  }
+
+  private async stampModified(doc: DiagramDocument, target: vscode.TextDocument): Promise<void> {
     doc.meta.modified = new Date().toISOString();
-    doc.agentContext = generateAgentContext(doc);
+    const drift = await this.findDrift(doc, target.uri);
+    doc.agentContext = generateAgentContext(doc, { drift });
   }
 }
 
@@ -497,16 +763,29 @@ function applyPartialLayout(doc: DiagramDocument): DiagramDocument {
   return modified;
 }
 
-/** Computes the group origin {x,y} from child node positions and group padding. */
+/**
+ * Computes the group origin {x,y} from its content (child nodes and nested
+ * sub-groups) including group padding.
+ */
 function computeGroupOrigin(doc: DiagramDocument, groupId: string): { x: number; y: number } {
-  const children = doc.nodes.filter((n) => n.group === groupId);
-  if (children.length === 0) return { x: 0, y: 0 };
-  return {
-    x: Math.min(...children.map((n) => n.x)) - GROUP_PADDING,
-    y: Math.min(...children.map((n) => n.y)) - GROUP_PADDING - GROUP_LABEL_HEIGHT,
-  };
+  const bounds = computeGroupBounds(doc.groups ?? [], doc.nodes, groupId);
+  return bounds ? { x: bounds.x, y: bounds.y } : { x: 0, y: 0 };
 }
 
+/**
+ * Clears the stored origin of a group and all its ancestors so their visuals
+ * re-derive from their content on next render.
+ */
+function clearGroupOrigin(doc: DiagramDocument, groupId: string): void {
+  const groups = doc.groups ?? [];
+  for (const id of [groupId, ...getGroupAncestorIds(groups, groupId)]) {
+    const group = groups.find((g) => g.id === id);
+    if (group) {
+      delete group.x;
+      delete group.y;
+    }
+  }
+}
 
 async function writeDocumentToFile(
   target: vscode.TextDocument,
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('vscode', () => import('./__mocks__/vscode'));
+
+import { DiagramSymbolProvider } from './DiagramSymbolProvider';
+import type { DiagramIndex, IndexedDiagram } from './DiagramIndex';
+import type { DiagramDocument } from './types/DiagramDocument';
+import * as vscode from 'vscode';
+
+function makeDoc(): DiagramDocument {
+  const node = { x: 0, y: 0, width: 160, height: 48, shape: 'rectangle' as const, color: 'default', pinned: false };
+  return {
+    meta: { title: 'Checkout', created: '', modified: '', glossary: { Order: 'A customer purchase' } },
+    nodes: [
+      { ...node, id: 'orders', label: 'Order Service' },
+      { ...node, id: 'web', label: 'Web Shop' },
+    ],
+    edges: [],
+    groups: [{ id: 'g1', label: 'Ordering' }],
+  };
+}
+
+const URI = vscode.Uri.file('/workspace/checkout.diagram.svg');
+
+function register(diagrams: IndexedDiagram[] = [{ uri: URI, doc: makeDoc() }, { uri: URI, doc: null }]) {
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+  const index = { getDiagrams: vi.fn().mockResolvedValue(diagrams) } as unknown as DiagramIndex;
+  return { context, provider: DiagramSymbolProvider.register(context, index) };
+}
+
+describe('DiagramSymbolProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('registers as a workspace symbol provider', () => {
+    const { context, provider } = register();
+    expect(vscode.languages.registerWorkspaceSymbolProvider).toHaveBeenCalledWith(provider);
+    expect(context.subscriptions).toHaveLength(1);
+  });
+
+  it('finds node labels, group labels and glossary terms', async () => {
+    const { provider } = register();
+    const symbols = await provider.provideWorkspaceSymbols('order');
+
+    expect(symbols.map((s) => [s.name, s.kind, s.containerName])).toEqual([
+      ['Order Service', vscode.SymbolKind.Class, 'Checkout'],
+      ['Ordering', vscode.SymbolKind.Namespace, 'Checkout'],
+      ['Order', vscode.SymbolKind.Key, 'Checkout'],
+    ]);
+    expect(symbols[0].location.uri).toBe(URI);
+    expect(await provider.provideWorkspaceSymbols('ordsvc')).toHaveLength(1);
+  });
+
+  it('opens the diagram and reveals the element when a symbol is picked', async () => {
+    const { provider } = register();
+    const [service, , term] = await provider.provideWorkspaceSymbols('order');
+
+    await provider.resolveWorkspaceSymbol(service);
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('diagramflow.revealNode', URI, 'orders');
+
+    await provider.resolveWorkspaceSymbol(term);
+    expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('vscode.openWith', URI, 'diagramflow.editor');
+  });
+});
@@ -0,0 +1,64 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { DiagramIndex } from './DiagramIndex';
+import { DiagramEditorProvider } from './DiagramEditorProvider';
+import { collectDiagramSymbols, matchesSymbolQuery, type DiagramSymbol } from './lib/diagramIndex';
+
+const KINDS: Record<DiagramSymbol['kind'], vscode.SymbolKind> = {
+  node: vscode.SymbolKind.Class,
+  group: vscode.SymbolKind.Namespace,
+  term: vscode.SymbolKind.Key,
+};
+
+/** A workspace symbol that remembers which diagram element it names. */
+class DiagramSymbolInformation extends vscode.SymbolInformation {
+  constructor(
+    symbol: DiagramSymbol,
+    diagramTitle: string,
+    uri: vscode.Uri,
+    /** Node or group to reveal when the symbol is picked. */
+    public readonly elementId: string | undefined,
+  ) {
+    super(symbol.name, KINDS[symbol.kind], diagramTitle, new vscode.Location(uri, new vscode.Position(0, 0)));
+  }
+}
+
+/**
+ * Go to Symbol in Workspace (Ctrl+T) for diagrams: finds node labels, group
+ * labels and glossary terms in every indexed diagram. Picking one opens the
+ * diagram in the DiagramFlow editor with the element selected and centred.
+ */
+export class DiagramSymbolProvider implements vscode.WorkspaceSymbolProvider<DiagramSymbolInformation> {
+  private constructor(private readonly index: DiagramIndex) {}
+
+  public static register(context: vscode.ExtensionContext, index: DiagramIndex): DiagramSymbolProvider {
+    const provider = new DiagramSymbolProvider(index);
+    context.subscriptions.push(vscode.languages.registerWorkspaceSymbolProvider(provider));
+    return provider;
+  }
+
+  async provideWorkspaceSymbols(query: string): Promise<DiagramSymbolInformation[]> {
+    const diagrams = await this.index.getDiagrams();
+    return diagrams.flatMap(({ uri, doc }) => {
+      if (!doc) return [];
+      const title = doc.meta.title || path.basename(uri.fsPath);
+      return collectDiagramSymbols(doc)
+        .filter((symbol) => matchesSymbolQuery(symbol.name, query))
+        .map((symbol) => new DiagramSymbolInformation(symbol, title, uri, symbol.id));
+    });
+  }
+
+  /**
+   * Called when a symbol is picked, before VS Code opens its location. Opening
+   * the diagram here makes VS Code reuse this editor for the location.
+   */
+  async resolveWorkspaceSymbol(symbol: DiagramSymbolInformation): Promise<DiagramSymbolInformation> {
+    const { uri } = symbol.location;
+    if (symbol.elementId) {
+      await vscode.commands.executeCommand(DiagramEditorProvider.revealNodeCommand, uri, symbol.elementId);
+    } else {
+      await vscode.commands.executeCommand('vscode.openWith', uri, DiagramEditorProvider.viewType);
+    }
+    return symbol;
+  }
+}
@@ -30,6 +30,13 @@ export class Uri {
   }
 }
 
+export class RelativePattern {
+  constructor(
+    public readonly base: Uri,
+    public readonly pattern: string,
+  ) {}
+}
+
 export class Range {
   constructor(
     public readonly startLine: number,
@@ -46,6 +53,67 @@ export class Position {
   ) {}
 }
 
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export class Location {
+  constructor(
+    public readonly uri: Uri,
+    public readonly range: Position | Range,
+  ) {}
+}
+
+export enum SymbolKind {
+  Namespace = 2,
+  Class = 4,
+  Key = 19,
+}
+
+export class SymbolInformation {
+  constructor(
+    public readonly name: string,
+    public readonly kind: SymbolKind,
+    public readonly containerName: string,
+    public readonly location: Location,
+  ) {}
+}
+
+export class CodeLens {
+  constructor(
+    public readonly range: Range,
+    public readonly command?: { command: string; title: string; arguments?: unknown[] },
+  ) {}
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string | number;
+
+  constructor(
+    public readonly range: Range,
+    public readonly message: string,
+    public readonly severity: DiagnosticSeverity = DiagnosticSeverity.Error,
+  ) {}
+}
+
+export const CodeActionKind = {
+  QuickFix: 'quickfix',
+};
+
+export class CodeAction {
+  diagnostics?: Diagnostic[];
+  command?: { command: string; title: string; arguments?: unknown[] };
+
+  constructor(
+    public readonly title: string,
+    public readonly kind?: string,
+  ) {}
+}
+
 export class WorkspaceEdit {
   private edits: { uri: Uri; range: Range; newText: string }[] = [];
 
@@ -70,24 +138,88 @@ export class LanguageModelTextPart {
   constructor(public readonly value: string) {}
 }
 
+export class EventEmitter<T> {
+  private listeners: ((e: T) => void)[] = [];
+
+  event = (listener: (e: T) => void) => {
+    this.listeners.push(listener);
+    return { dispose: vi.fn() };
+  };
+
+  fire(e: T): void {
+    for (const listener of this.listeners) listener(e);
+  }
+
+  dispose = vi.fn();
+}
+
+export enum TreeItemCollapsibleState {
+  None = 0,
+  Collapsed = 1,
+  Expanded = 2,
+}
+
+export class ThemeIcon {
+  constructor(public readonly id: string) {}
+}
+
+export class TreeItem {
+  id?: string;
+  description?: string;
+  tooltip?: string;
+  iconPath?: ThemeIcon;
+  contextValue?: string;
+  command?: { command: string; title: string; arguments?: unknown[] };
+
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.None,
+  ) {}
+}
+
 export const workspace = {
   applyEdit: vi.fn().mockResolvedValue(true),
   onDidChangeTextDocument: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  onDidOpenTextDocument: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  onDidCloseTextDocument: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  onDidChangeConfiguration: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  onDidCreateFiles: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  onDidDeleteFiles: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  onDidRenameFiles: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  getConfiguration: vi.fn(() => ({
+    get: vi.fn((_key: string, defaultValue?: unknown) => defaultValue),
+  })),
   openTextDocument: vi.fn().mockResolvedValue({ getText: vi.fn().mockReturnValue('{}') }),
+  findFiles: vi.fn().mockResolvedValue([]),
+  createFileSystemWatcher: vi.fn(() => ({
+    onDidCreate: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+    onDidChange: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+    onDidDelete: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+    dispose: vi.fn(),
+  })),
+  asRelativePath: vi.fn((uri: Uri | string) => (typeof uri === 'string' ? uri : uri.fsPath).replace(/^\/workspace\//, '')),
   workspaceFolders: [],
+  getWorkspaceFolder: vi.fn(),
   textDocuments: [] as any[],
   fs: {
     writeFile: vi.fn().mockResolvedValue(undefined),
     readFile: vi.fn().mockResolvedValue(new Uint8Array()),
+    stat: vi.fn().mockResolvedValue({ type: 1 }),
   },
 };
 
 export const window = {
   registerCustomEditorProvider: vi.fn().mockReturnValue({ dispose: vi.fn() }),
   showSaveDialog: vi.fn(),
+  showInputBox: vi.fn(),
+  showQuickPick: vi.fn(),
+  createTreeView: vi.fn().mockReturnValue({ dispose: vi.fn() }),
   showOpenDialog: vi.fn(),
   showInformationMessage: vi.fn(),
+  showWarningMessage: vi.fn(),
   showErrorMessage: vi.fn(),
+  showTextDocument: vi.fn().mockResolvedValue(undefined),
+  activeTextEditor: undefined as { document: { uri: Uri } } | undefined,
 };
 
 export const commands = {
@@ -95,6 +227,17 @@ export const commands = {
   executeCommand: vi.fn().mockResolvedValue(undefined),
 };
 
+export const languages = {
+  createDiagnosticCollection: vi.fn(() => ({
+    set: vi.fn(),
+    delete: vi.fn(),
+    dispose: vi.fn(),
+  })),
+  registerCodeActionsProvider: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  registerWorkspaceSymbolProvider: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+  registerCodeLensProvider: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+};
+
 export const lm = {
   registerTool: vi.fn().mockReturnValue({ dispose: vi.fn() }),
 };
@@ -59,9 +59,14 @@ describe('extension', () => {
       expect(registerDiagramTools).toHaveBeenCalledTimes(1);
     });
 
-    it('registers 6 commands', () => {
+    it('registers diagram diagnostics', () => {
       activate(context);
-      expect(vscode.commands.registerCommand).toHaveBeenCalledTimes(6);
+      expect(vscode.languages.createDiagnosticCollection).toHaveBeenCalledWith('diagramflow');
+    });
+
+    it('registers 13 commands', () => {
+      activate(context);
+      expect(vscode.commands.registerCommand).toHaveBeenCalledTimes(13);
 
       const commandNames = vi
         .mocked(vscode.commands.registerCommand)
@@ -69,9 +74,16 @@ describe('extension', () => {
       expect(commandNames).toContain('diagramflow.newDiagram');
       expect(commandNames).toContain('diagramflow.autoLayout');
       expect(commandNames).toContain('diagramflow.autoLayoutForce');
+      expect(commandNames).toContain('diagramflow.exportDiagram');
       expect(commandNames).toContain('diagramflow.sortNodes');
       expect(commandNames).toContain('diagramflow.undo');
       expect(commandNames).toContain('diagramflow.redo');
+      expect(commandNames).toContain('diagramflow.revealInDiagram');
+      expect(commandNames).toContain('diagramflow.generateFromCode');
+      expect(commandNames).toContain('diagramflow.importWorkspacePackages');
+      expect(commandNames).toContain('diagramflow.importCompose');
+      expect(commandNames).toContain('diagramflow.importKubernetes');
+      expect(commandNames).toContain('diagramflow.applyLintFix');
     });
 
     it('pushes subscriptions to context', () => {
@@ -105,6 +117,53 @@ describe('extension', () => {
       expect(serviceInstance.autoLayoutAll).toHaveBeenCalled();
     });
 
+    it('autoLayout and exportDiagram commands act on a diagram picked in the explorer', async () => {
+      const uri = vscode.Uri.file('/workspace/shop.diagram.svg');
+      const document = { uri, getText: () => '' };
+      vi.mocked(vscode.workspace.openTextDocument).mockResolvedValue(document as any);
+      activate(context);
+      const { DiagramService: DS } = await import('./DiagramService');
+      const serviceInstance = vi.mocked(DS).mock.results[0]?.value;
+      serviceInstance.parseDocument.mockReturnValue(serviceInstance.emptyDocument());
+
+      await getCommandCallback('diagramflow.autoLayout')!({ uri });
+      expect(serviceInstance.autoLayoutAll).toHaveBeenCalledWith(document);
+
+      const saveUri = vscode.Uri.file('/workspace/shop.mmd');
+      vi.mocked(vscode.window.showQuickPick).mockImplementation(async (items: any) => items[1]);
+      vi.mocked(vscode.window.showSaveDialog).mockResolvedValue(saveUri as any);
+      await getCommandCallback('diagramflow.exportDiagram')!({ uri });
+
+      expect(vscode.window.showSaveDialog).toHaveBeenCalledWith(
+        expect.objectContaining({ defaultUri: vscode.Uri.file('/workspace/shop.mmd') }),
+      );
+      const written = new TextDecoder().decode(vi.mocked(vscode.workspace.fs.writeFile).mock.calls[0][1]);
+      expect(written).toMatch(/^graph LR/);
+    });
+
+    it('exportDiagram exports the picked diagram without touching the active one', async () => {
+      const uri = vscode.Uri.file('/workspace/shop.diagram.svg');
+      const document = { uri, getText: () => '' };
+      vi.mocked(vscode.workspace.openTextDocument).mockResolvedValue(document as any);
+      activate(context);
+      const { DiagramService: DS } = await import('./DiagramService');
+      const serviceInstance = vi.mocked(DS).mock.results[0]?.value;
+      serviceInstance.getActiveDocument.mockReturnValue(null);
+      serviceInstance.parseDocument.mockReturnValue(null);
+      // Another diagram is open, which the active-diagram fallback would pick.
+      const openDocuments = vscode.workspace.textDocuments as vscode.TextDocument[];
+      openDocuments.push({ fileName: '/workspace/other.diagram.svg', isClosed: false } as vscode.TextDocument);
+
+      try {
+        await getCommandCallback('diagramflow.exportDiagram')!({ uri });
+      } finally {
+        openDocuments.length = 0;
+      }
+
+      expect(serviceInstance.setActiveDocument).not.toHaveBeenCalled();
+      expect(serviceInstance.parseDocument).toHaveBeenCalledWith(document);
+    });
+
     it('newDiagram command creates file when URI provided', async () => {
       const saveUri = vscode.Uri.file('/new.diagram');
       vi.mocked(vscode.window.showSaveDialog).mockResolvedValue(saveUri as any);
@@ -1,16 +1,28 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { DiagramEditorProvider } from './DiagramEditorProvider';
 import { DiagramService } from './DiagramService';
+import { DiagramDiagnostics } from './DiagramDiagnostics';
+import { DiagramIndex } from './DiagramIndex';
+import { DiagramExplorer } from './DiagramExplorer';
+import { DiagramSymbolProvider } from './DiagramSymbolProvider';
+import { DiagramCodeLensProvider } from './DiagramCodeLensProvider';
+import { DiagramGenerator } from './DiagramGenerator';
 import { registerDiagramTools } from './tools';
 import { TasksEditorProvider } from './TasksEditorProvider';
 import { registerTasksTools } from './tools/tasks';
-import { buildDocumentSvg } from './lib/exporters';
+import { buildDocumentSvg, exportToMermaid } from './lib/exporters';
 
 /** Returns true when a file path belongs to a diagram. */
 function isDiagramFile(fileName: string): boolean {
   return fileName.endsWith('.diagram.svg');
 }
 
+/** A diagram picked in the DiagramFlow explorer view; commands run from the palette get none. */
+interface DiagramTarget {
+  uri: vscode.Uri;
+}
+
 /** Ensures a diagram document is set as active, falling back to any open one. */
 function ensureActiveDiagram(diagramService: DiagramService): void {
   if (diagramService.getActiveDocument()) return;
@@ -25,12 +37,18 @@ function ensureActiveDiagram(diagramService: DiagramService): void {
 export function activate(context: vscode.ExtensionContext): void {
   const diagramService = new DiagramService();
 
+  const diagnostics = DiagramDiagnostics.register(context, diagramService);
   context.subscriptions.push(
-    DiagramEditorProvider.register(context, diagramService),
+    DiagramEditorProvider.register(context, diagramService, diagnostics),
     TasksEditorProvider.register(context),
   );
 
-  registerDiagramTools(context, diagramService);
+  const diagramIndex = DiagramIndex.register(context);
+  DiagramExplorer.register(context, diagramIndex);
+  DiagramSymbolProvider.register(context, diagramIndex);
+  DiagramCodeLensProvider.register(context, diagramIndex);
+  DiagramGenerator.register(context, diagramService);
+  registerDiagramTools(context, diagramService, diagramIndex);
   registerTasksTools(context);
 
   context.subscriptions.push(
@@ -45,10 +63,23 @@ export function activate(context: vscode.ExtensionContext): void {
       ensureActiveDiagram(diagramService);
       diagramService.sortNodes();
     }),
-    vscode.commands.registerCommand('diagramflow.autoLayout', () => {
+    vscode.commands.registerCommand('diagramflow.autoLayout', async (target?: DiagramTarget) => {
+      if (target) {
+        await diagramService.autoLayoutAll(await vscode.workspace.openTextDocument(target.uri));
+        return;
+      }
       ensureActiveDiagram(diagramService);
       diagramService.autoLayoutAll();
     }),
+    vscode.commands.registerCommand('diagramflow.exportDiagram', async (target?: DiagramTarget) => {
+      if (target) {
+        await exportDiagramFile(await vscode.workspace.openTextDocument(target.uri), diagramService);
+        return;
+      }
+      ensureActiveDiagram(diagramService);
+      const document = diagramService.getActiveDocument();
+      if (document) await exportDiagramFile(document, diagramService);
+    }),
     vscode.commands.registerCommand('diagramflow.autoLayoutForce', () => {
       diagramService.autoLayoutForce();
     }),
@@ -78,6 +109,33 @@ async function promptForNewDiagramLocation(): Promise<vscode.Uri | undefined> {
   return uri;
 }
 
+const EXPORT_FORMATS = [
+  { label: 'SVG', description: 'Image with the diagram embedded', ext: 'svg', render: buildDocumentSvg },
+  { label: 'Mermaid', description: 'Flowchart source', ext: 'mmd', render: exportToMermaid },
+];
+
+/** Writes a diagram as SVG or Mermaid next to its file, after asking for the format and path. */
+async function exportDiagramFile(document: vscode.TextDocument, diagramService: DiagramService): Promise<void> {
+  const doc = diagramService.parseDocument(document);
+  if (!doc) {
+    void vscode.window.showErrorMessage('Could not parse the diagram document.');
+    return;
+  }
+  const format = await vscode.window.showQuickPick(EXPORT_FORMATS, { placeHolder: 'Export format' });
+  if (!format) return;
+
+  const fsPath = document.uri.fsPath;
+  const baseName = path.basename(fsPath).replace(/\.diagram(\.svg)?$/, '');
+  const saveUri = await vscode.window.showSaveDialog({
+    filters: { [format.label]: [format.ext] },
+    defaultUri: vscode.Uri.file(path.join(path.dirname(fsPath), `${baseName}.${format.ext}`)),
+  });
+  if (!saveUri) return;
+
+  await vscode.workspace.fs.writeFile(saveUri, new TextEncoder().encode(format.render(doc)));
+  void vscode.window.showInformationMessage(`Diagram exported as ${format.label}: ${saveUri.fsPath}`);
+}
+
 async function createEmptyDiagramFile(
   uri: vscode.Uri,
   diagramService: DiagramService,
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { validateDiagram, parseDiagramJSON } from './SchemaValidator';
 import type { DiagramDocument } from '../types/DiagramDocument';
+import { NODE_ICONS } from '../types/DiagramDocument';
 
 function makeValidDoc(
   overrides: Partial<DiagramDocument> = {},
@@ -150,7 +151,7 @@ describe('validateDiagram', () => {
 
   it('should reject invalid node shape', () => {
     const doc = makeValidDoc();
-    (doc.nodes[0] as any).shape = 'hexagon';
+    (doc.nodes[0] as any).shape = 'star';
     const result = validateDiagram(doc);
     expect(result.valid).toBe(false);
   });
@@ -197,6 +198,70 @@ describe('validateDiagram', () => {
     }
   });
 
+  it('should accept hex node colors and theme palette keys', () => {
+    const doc = makeValidDoc();
+    doc.meta.theme = { palette: { brand: { dark: { fill: '#102030', stroke: '#405060', text: '#fff' } } } };
+    doc.nodes[0].color = '#1e88e5';
+    doc.nodes[1].color = 'brand';
+    doc.groups = [{ id: 'grp1', label: 'G', color: '#abc' }];
+    expect(validateDiagram(doc).valid).toBe(true);
+  });
+
+  it('should reject palette keys the theme does not define', () => {
+    const doc = makeValidDoc();
+    doc.nodes[0].color = 'brand';
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/^nodes\[0\]\.color must be a hex colour/);
+  });
+
+  it('should reject malformed themes', () => {
+    const doc = makeValidDoc();
+    (doc.meta as any).theme = { mode: 'sepia', font: 12, palette: { brand: { dark: { fill: '#fff' } } } };
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.includes('meta.theme.mode'))).toBe(true);
+    expect(result.errors.some((e) => e.includes('meta.theme.font'))).toBe(true);
+    expect(result.errors.some((e) => e.includes('meta.theme.palette["brand"].dark'))).toBe(true);
+  });
+
+  it('should validate drill-down links on nodes and groups', () => {
+    const doc = makeValidDoc();
+    doc.nodes[0].link = { file: 'containers/orders.diagram.svg', node: 'Order API' };
+    doc.groups = [{ id: 'grp1', label: 'G', link: { file: '../context.diagram' } }];
+    expect(validateDiagram(doc).valid).toBe(true);
+
+    (doc.nodes[0] as any).link = { file: 'notes.md', node: '' };
+    (doc.groups[0] as any).link = 'context.diagram';
+    expect(validateDiagram(doc).errors).toEqual([
+      'nodes[0].link.file must point to a .diagram or .diagram.svg file',
+      'nodes[0].link.node must be a non-empty string',
+      'groups[0].link must be an object',
+    ]);
+  });
+
+  it('should accept fitness rules and reject malformed ones', () => {
+    const doc = makeValidDoc();
+    doc.meta.rules = [
+      { id: 'r1', description: 'No direct DB access.', from: { type: 'Person' }, to: { type: 'Database' } },
+    ];
+    expect(validateDiagram(doc).valid).toBe(true);
+
+    (doc.meta as any).rules = [
+      { id: 'r1', description: 'A', severity: 'fatal', from: { type: 'Robot', not: 'yes' } },
+      { id: 'r1', description: '', to: 'Ledger' },
+    ];
+    expect(validateDiagram(doc).errors).toEqual([
+      'meta.rules[0].severity must be one of: error, warning',
+      expect.stringMatching(/^meta\.rules\[0\]\.from\.type must be one of: /),
+      'meta.rules[0].from.not must be a boolean',
+      'Duplicate rule id: "r1" at meta.rules[1].id',
+      'meta.rules[1].description is required and must be a non-empty string',
+      'meta.rules[1].to must be an object',
+    ]);
+    expect(validateDiagram(doc).issues[3].path).toBe('meta.rules[1].id');
+  });
+
   it('should require edges to be an array', () => {
     const doc = makeValidDoc();
     (doc as any).edges = 'bad';
@@ -262,6 +327,20 @@ describe('validateDiagram', () => {
     expect(result.errors.some((e) => e.includes('Duplicate id'))).toBe(true);
   });
 
+  it('should report the JSON path of each error', () => {
+    const doc = makeValidDoc();
+    (doc.nodes[0] as any).shape = 'blob';
+    doc.edges[0].id = doc.nodes[0].id;
+    (doc.meta as any).glossary = { api: 1 };
+    const result = validateDiagram(doc);
+    expect(result.issues.map((i) => i.path)).toEqual(['meta.glossary["api"]', 'nodes[0].shape', 'edges[0].id']);
+    expect(result.issues.map((i) => i.message)).toEqual(result.errors);
+  });
+
+  it('should report document-level errors with an empty path', () => {
+    expect(validateDiagram(null).issues).toEqual([{ path: '', message: 'Document must be a non-null object' }]);
+  });
+
   it('should validate optional groups', () => {
     const doc = makeValidDoc({
       groups: [{ id: 'g1', label: 'Group 1' }],
@@ -292,6 +371,38 @@ describe('validateDiagram', () => {
     expect(result.valid).toBe(false);
   });
 
+  it('should accept nested groups with a valid parent', () => {
+    const doc = makeValidDoc({
+      groups: [
+        { id: 'g1', label: 'Region' },
+        { id: 'g2', label: 'VPC', parent: 'g1' },
+      ],
+    });
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject a group parent that references a missing group', () => {
+    const doc = makeValidDoc({
+      groups: [{ id: 'g1', label: 'VPC', parent: 'missing' }],
+    });
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.includes('must reference an existing group id'))).toBe(true);
+  });
+
+  it('should reject cycles in the group hierarchy', () => {
+    const doc = makeValidDoc({
+      groups: [
+        { id: 'g1', label: 'A', parent: 'g2' },
+        { id: 'g2', label: 'B', parent: 'g1' },
+      ],
+    });
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.includes('cycle'))).toBe(true);
+  });
+
   it('should validate viewport', () => {
     const doc = makeValidDoc({
       viewport: { x: 0, y: 0, zoom: 1 },
@@ -438,6 +549,16 @@ describe('validateDiagram', () => {
     expect(result.errors.some((e) => e.includes('type'))).toBe(true);
   });
 
+  it('should accept built-in node icons and reject unknown ones', () => {
+    const doc = makeValidDoc();
+    doc.nodes[0].icon = 'database';
+    expect(validateDiagram(doc).valid).toBe(true);
+    (doc.nodes[0] as any).icon = 'rocket';
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(`nodes[0].icon must be one of: ${NODE_ICONS.join(', ')}`);
+  });
+
   it('should reject node tags that are not string arrays', () => {
     const doc = makeValidDoc();
     (doc.nodes[0] as any).tags = [1, 2, 3];
@@ -500,6 +621,86 @@ describe('validateDiagram', () => {
     expect(result.errors.some((e) => e.includes('dataTypes'))).toBe(true);
   });
 
+  it('should accept edge routing and waypoints', () => {
+    const doc = makeValidDoc();
+    doc.edges[0].routing = 'curved';
+    doc.edges[0].waypoints = [{ x: 10, y: 20 }];
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject an unknown edge routing mode', () => {
+    const doc = makeValidDoc();
+    (doc.edges[0] as any).routing = 'zigzag';
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.includes('routing must be one of'))).toBe(true);
+  });
+
+  it('should reject malformed edge waypoints', () => {
+    const doc = makeValidDoc();
+    (doc.edges[0] as any).waypoints = [{ x: 'a', y: 2 }];
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('edges[0].waypoints[0] must have numeric x and y');
+  });
+
+  it('should accept node ports referenced by edges', () => {
+    const doc = makeValidDoc();
+    doc.nodes[0].ports = [{ id: 'out', side: 'right', offset: 0.25, label: 'events' }];
+    doc.nodes[1].ports = [{ id: 'in', side: 'left' }];
+    doc.edges[0].sourcePort = 'out';
+    doc.edges[0].targetPort = 'in';
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject malformed node ports', () => {
+    const doc = makeValidDoc();
+    (doc.nodes[0] as any).ports = [
+      { id: 'out', side: 'middle' },
+      { id: 'out', side: 'top', offset: 1.5 },
+    ];
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('nodes[0].ports[0].side must be one of: top, right, bottom, left');
+    expect(result.errors).toContain('nodes[0].ports[1].id "out" is duplicated on this node');
+    expect(result.errors).toContain('nodes[0].ports[1].offset must be a number between 0 and 1');
+  });
+
+  it('should reject edge ports that do not exist on the node', () => {
+    const doc = makeValidDoc();
+    doc.nodes[0].ports = [{ id: 'out', side: 'right' }];
+    doc.edges[0].sourcePort = 'missing';
+    doc.edges[0].targetPort = 'in';
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('edges[0].sourcePort "missing" must reference a port on node "node0001"');
+    expect(result.errors).toContain('edges[0].targetPort "in" must reference a port on node "node0002"');
+  });
+
+  it('should accept layers referenced by elements', () => {
+    const doc = makeValidDoc({
+      layers: [{ id: 'layer01', label: 'Infrastructure', hidden: true, locked: false }],
+    });
+    doc.nodes[0].layer = 'layer01';
+    doc.edges[0].layer = 'layer01';
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject malformed layers and unknown layer references', () => {
+    const doc = makeValidDoc({
+      layers: [{ id: 'layer01', label: '', hidden: 'yes' } as any],
+      textElements: [{ id: 'text01', x: 0, y: 0, width: 10, height: 10, content: 'x', layer: 'nope' }],
+    });
+    const result = validateDiagram(doc);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('layers[0].label is required and must be a non-empty string');
+    expect(result.errors).toContain('layers[0].hidden must be a boolean');
+    expect(result.errors).toContain('textElements[0].layer "nope" must reference an existing layer id');
+  });
+
   it('should accept valid edge dataTypes', () => {
     const doc = makeValidDoc();
     (doc.edges[0] as any).dataTypes = ['JSON', 'XML'];
@@ -1,37 +1,58 @@
-import type { DiagramDocument } from '../types/DiagramDocument';
+import type { DiagramDocument, DiagramTheme, FitnessRuleSeverity, NodeType, ThemeMode } from '../types/DiagramDocument';
 import {
   NODE_SHAPES,
   NODE_TYPES,
+  NODE_ICONS,
   SECURITY_CLASSIFICATIONS,
   DEPLOYMENT_ENVIRONMENTS,
   EDGE_STYLES,
+  EDGE_ROUTINGS,
   ARROW_TYPES,
   NODE_COLORS,
+  PORT_SIDES,
+  THEME_MODES,
+  FITNESS_RULE_SEVERITIES,
 } from '../types/DiagramDocument';
+import { isValidColor } from './theme';
+
+/** A validation error together with the JSON path it refers to. */
+export interface ValidationIssue {
+  /** Path in the document, e.g. "nodes[2].shape" or 'meta.glossary["api"]'; '' for the whole document. */
+  path: string;
+  message: string;
+}
 
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
+  /** The same errors with their JSON paths, for editor diagnostics. */
+  issues: ValidationIssue[];
 }
 
 export function validateDiagram(doc: unknown): ValidationResult {
   const errors: string[] = [];
 
   if (!doc || typeof doc !== 'object') {
-    return { valid: false, errors: ['Document must be a non-null object'] };
+    const message = 'Document must be a non-null object';
+    return { valid: false, errors: [message], issues: [{ path: '', message }] };
   }
 
   const d = doc as Record<string, unknown>;
 
   validateMeta(d.meta, errors);
-  const nodeIds = validateNodes(d.nodes, errors);
-  const groupIds = validateGroups(d.groups, errors, nodeIds);
+  // Theme palette keys are valid colours for nodes and groups.
+  const theme = (d.meta as { theme?: DiagramTheme } | undefined)?.theme;
+  const nodeIds = validateNodes(d.nodes, errors, theme);
+  const groupIds = validateGroups(d.groups, errors, nodeIds, theme);
   validateEdges(d.edges, errors, nodeIds);
   validateNodeGroupRefs(d.nodes, errors, groupIds);
+  validateEdgePortRefs(d.nodes, d.edges, errors);
+  const layerIds = validateLayers(d.layers, errors);
+  validateLayerRefs(d, errors, layerIds);
   validateViewport(d.viewport, errors);
   validateIdUniqueness(d, errors);
 
-  return { valid: errors.length === 0, errors };
+  return { valid: errors.length === 0, errors, issues: errors.map(issueFromError) };
 }
 
 function validateMeta(meta: unknown, errors: string[]): void {
@@ -74,11 +95,114 @@ function validateMeta(meta: unknown, errors: string[]): void {
   if (m.llmNotes !== undefined && typeof m.llmNotes !== 'string') {
     errors.push('meta.llmNotes must be a string');
   }
+  if (m.theme !== undefined) {
+    validateTheme(m.theme, errors);
+  }
+  if (m.rules !== undefined) {
+    validateFitnessRules(m.rules, errors);
+  }
+}
+
+function validateFitnessRules(rules: unknown, errors: string[]): void {
+  if (!Array.isArray(rules)) {
+    errors.push('meta.rules must be an array');
+    return;
+  }
+  const seen = new Set<string>();
+  rules.forEach((rule: unknown, i) => {
+    const prefix = `meta.rules[${i}]`;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+    const r = rule as Record<string, unknown>;
+    if (typeof r.id !== 'string' || r.id.length === 0) {
+      errors.push(`${prefix}.id is required and must be a non-empty string`);
+    } else if (seen.has(r.id)) {
+      errors.push(`Duplicate rule id: "${r.id}" at ${prefix}.id`);
+    } else {
+      seen.add(r.id);
+    }
+    if (typeof r.description !== 'string' || r.description.length === 0) {
+      errors.push(`${prefix}.description is required and must be a non-empty string`);
+    }
+    if (r.protocol !== undefined && typeof r.protocol !== 'string') {
+      errors.push(`${prefix}.protocol must be a string`);
+    }
+    if (r.severity !== undefined && !FITNESS_RULE_SEVERITIES.includes(r.severity as FitnessRuleSeverity)) {
+      errors.push(`${prefix}.severity must be one of: ${FITNESS_RULE_SEVERITIES.join(', ')}`);
+    }
+    for (const side of ['from', 'to'] as const) {
+      if (r[side] !== undefined) validateNodeMatcher(r[side], `${prefix}.${side}`, errors);
+    }
+  });
+}
+
+function validateNodeMatcher(matcher: unknown, prefix: string, errors: string[]): void {
+  if (!matcher || typeof matcher !== 'object' || Array.isArray(matcher)) {
+    errors.push(`${prefix} must be an object`);
+    return;
+  }
+  const m = matcher as Record<string, unknown>;
+  for (const field of ['node', 'tag', 'group']) {
+    if (m[field] !== undefined && typeof m[field] !== 'string') {
+      errors.push(`${prefix}.${field} must be a string`);
+    }
+  }
+  if (m.type !== undefined && !NODE_TYPES.includes(m.type as NodeType)) {
+    errors.push(`${prefix}.type must be one of: ${NODE_TYPES.join(', ')}`);
+  }
+  if (m.not !== undefined && typeof m.not !== 'boolean') {
+    errors.push(`${prefix}.not must be a boolean`);
+  }
+}
+
+function validateTheme(theme: unknown, errors: string[]): void {
+  if (!theme || typeof theme !== 'object' || Array.isArray(theme)) {
+    errors.push('meta.theme must be a plain object');
+    return;
+  }
+  const t = theme as Record<string, unknown>;
+  if (t.name !== undefined && typeof t.name !== 'string') {
+    errors.push('meta.theme.name must be a string');
+  }
+  if (t.mode !== undefined && !THEME_MODES.includes(t.mode as ThemeMode)) {
+    errors.push(`meta.theme.mode must be one of: ${THEME_MODES.join(', ')}`);
+  }
+  if (t.font !== undefined && (typeof t.font !== 'string' || t.font.length === 0)) {
+    errors.push('meta.theme.font must be a non-empty string');
+  }
+  if (t.palette === undefined) return;
+  if (!t.palette || typeof t.palette !== 'object' || Array.isArray(t.palette)) {
+    errors.push('meta.theme.palette must be a plain object');
+    return;
+  }
+  for (const [key, entry] of Object.entries(t.palette as Record<string, unknown>)) {
+    const prefix = `meta.theme.palette["${key}"]`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${prefix} must be an object with a light and/or dark swatch`);
+      continue;
+    }
+    const e = entry as Record<string, unknown>;
+    if (e.light === undefined && e.dark === undefined) {
+      errors.push(`${prefix} must define a light and/or dark swatch`);
+    }
+    for (const mode of THEME_MODES) {
+      const swatch = e[mode] as Record<string, unknown> | undefined;
+      if (swatch === undefined) continue;
+      for (const field of ['fill', 'stroke', 'text']) {
+        if (typeof swatch?.[field] !== 'string' || (swatch[field] as string).length === 0) {
+          errors.push(`${prefix}.${mode}.${field} is required and must be a colour string`);
+        }
+      }
+    }
+  }
 }
 
 function validateNodes(
   nodes: unknown,
   errors: string[],
+  theme: DiagramTheme | undefined,
 ): Set<string> {
   const ids = new Set<string>();
   if (!Array.isArray(nodes)) {
@@ -125,10 +249,8 @@ function validateNodes(
       );
     }
 
-    if (!NODE_COLORS.includes(n.color)) {
-      errors.push(
-        `${prefix}.color must be one of: ${NODE_COLORS.join(', ')}`,
-      );
+    if (typeof n.color !== 'string' || !isValidColor(n.color, theme)) {
+      errors.push(colorError(prefix));
     }
 
     if (typeof n.pinned !== 'boolean') {
@@ -139,6 +261,10 @@ function validateNodes(
       errors.push(`${prefix}.type must be one of: ${NODE_TYPES.join(', ')}`);
     }
 
+    if (n.icon !== undefined && !NODE_ICONS.includes(n.icon)) {
+      errors.push(`${prefix}.icon must be one of: ${NODE_ICONS.join(', ')}`);
+    }
+
     if (n.tags !== undefined) {
       if (!Array.isArray(n.tags) || (n.tags as unknown[]).some((t) => typeof t !== 'string')) {
         errors.push(`${prefix}.tags must be an array of strings`);
@@ -156,11 +282,73 @@ function validateNodes(
     if (n.deploymentEnvironment !== undefined && !DEPLOYMENT_ENVIRONMENTS.includes(n.deploymentEnvironment)) {
       errors.push(`${prefix}.deploymentEnvironment must be one of: ${DEPLOYMENT_ENVIRONMENTS.join(', ')}`);
     }
+
+    if (n.ports !== undefined) {
+      validatePorts(n.ports, `${prefix}.ports`, errors);
+    }
+
+    if (n.link !== undefined) {
+      validateLink(n.link, `${prefix}.link`, errors);
+    }
   }
 
   return ids;
 }
 
+function validateLink(link: unknown, prefix: string, errors: string[]): void {
+  if (!link || typeof link !== 'object' || Array.isArray(link)) {
+    errors.push(`${prefix} must be an object`);
+    return;
+  }
+  const l = link as Record<string, unknown>;
+  if (typeof l.file !== 'string' || l.file.trim().length === 0) {
+    errors.push(`${prefix}.file is required and must be a non-empty string`);
+  } else if (!/\.diagram(\.svg)?$/.test(l.file)) {
+    errors.push(`${prefix}.file must point to a .diagram or .diagram.svg file`);
+  }
+  if (l.node !== undefined && (typeof l.node !== 'string' || l.node.length === 0)) {
+    errors.push(`${prefix}.node must be a non-empty string`);
+  }
+}
+
+function validatePorts(ports: unknown, prefix: string, errors: string[]): void {
+  if (!Array.isArray(ports)) {
+    errors.push(`${prefix} must be an array`);
+    return;
+  }
+
+  const seen = new Set<string>();
+  for (let j = 0; j < ports.length; j++) {
+    const p = ports[j];
+    const portPrefix = `${prefix}[${j}]`;
+
+    if (!p || typeof p !== 'object') {
+      errors.push(`${portPrefix} must be an object`);
+      continue;
+    }
+
+    if (typeof p.id !== 'string' || p.id.length === 0) {
+      errors.push(`${portPrefix}.id is required`);
+    } else if (seen.has(p.id)) {
+      errors.push(`${portPrefix}.id "${p.id}" is duplicated on this node`);
+    } else {
+      seen.add(p.id);
+    }
+
+    if (!PORT_SIDES.includes(p.side)) {
+      errors.push(`${portPrefix}.side must be one of: ${PORT_SIDES.join(', ')}`);
+    }
+
+    if (p.offset !== undefined && (typeof p.offset !== 'number' || p.offset < 0 || p.offset > 1)) {
+      errors.push(`${portPrefix}.offset must be a number between 0 and 1`);
+    }
+
+    if (p.label !== undefined && typeof p.label !== 'string') {
+      errors.push(`${portPrefix}.label must be a string`);
+    }
+  }
+}
+
 function validateEdges(
   edges: unknown,
   errors: string[],
@@ -221,13 +409,37 @@ function validateEdges(
         errors.push(`${prefix}.dataTypes must be an array of strings`);
       }
     }
+
+    if (e.routing !== undefined && !EDGE_ROUTINGS.includes(e.routing)) {
+      errors.push(
+        `${prefix}.routing must be one of: ${EDGE_ROUTINGS.join(', ')}`,
+      );
+    }
+
+    if (e.waypoints !== undefined) {
+      if (!Array.isArray(e.waypoints)) {
+        errors.push(`${prefix}.waypoints must be an array`);
+      } else {
+        (e.waypoints as unknown[]).forEach((w, j) => {
+          const point = w as { x?: unknown; y?: unknown } | null;
+          if (!point || typeof point !== 'object' || typeof point.x !== 'number' || typeof point.y !== 'number') {
+            errors.push(`${prefix}.waypoints[${j}] must have numeric x and y`);
+          }
+        });
+      }
+    }
   }
 }
 
+function colorError(prefix: string): string {
+  return `${prefix}.color must be a hex colour (e.g. "#1e88e5") or one of: ${NODE_COLORS.join(', ')} or a meta.theme.palette key`;
+}
+
 function validateGroups(
   groups: unknown,
   errors: string[],
   _nodeIds: Set<string>,
+  theme: DiagramTheme | undefined,
 ): Set<string> {
   const groupIds = new Set<string>();
   if (groups === undefined || groups === null) {
@@ -256,11 +468,64 @@ function validateGroups(
     if (typeof g.label !== 'string' || g.label.length === 0) {
       errors.push(`${prefix}.label is required and must be a non-empty string`);
     }
+
+    if (g.parent !== undefined && typeof g.parent !== 'string') {
+      errors.push(`${prefix}.parent must be a string`);
+    }
+
+    if (g.color !== undefined && (typeof g.color !== 'string' || !isValidColor(g.color, theme))) {
+      errors.push(colorError(prefix));
+    }
+
+    if (g.link !== undefined) {
+      validateLink(g.link, `${prefix}.link`, errors);
+    }
   }
 
+  validateGroupHierarchy(groups, errors, groupIds);
+
   return groupIds;
 }
 
+/**
+ * Checks that every `parent` reference points to an existing group and that
+ * the nesting forms a tree (no group is its own ancestor).
+ */
+function validateGroupHierarchy(
+  groups: unknown[],
+  errors: string[],
+  groupIds: Set<string>,
+): void {
+  const parentOf = new Map<string, string>();
+  for (const g of groups) {
+    const group = g as Record<string, unknown> | null;
+    if (typeof group?.id === 'string' && typeof group.parent === 'string') {
+      parentOf.set(group.id, group.parent);
+    }
+  }
+
+  for (let i = 0; i < groups.length; i++) {
+    const g = groups[i] as Record<string, unknown> | null;
+    if (typeof g?.id !== 'string' || typeof g.parent !== 'string') continue;
+
+    if (!groupIds.has(g.parent)) {
+      errors.push(`groups[${i}].parent "${g.parent}" must reference an existing group id`);
+      continue;
+    }
+
+    const seen = new Set<string>([g.id]);
+    let current: string | undefined = g.parent;
+    while (current !== undefined) {
+      if (seen.has(current)) {
+        errors.push(`groups[${i}].parent creates a cycle in the group hierarchy`);
+        break;
+      }
+      seen.add(current);
+      current = parentOf.get(current);
+    }
+  }
+}
+
 function validateNodeGroupRefs(
   nodes: unknown,
   errors: string[],
@@ -278,6 +543,102 @@ function validateNodeGroupRefs(
   }
 }
 
+function validateEdgePortRefs(
+  nodes: unknown,
+  edges: unknown,
+  errors: string[],
+): void {
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) return;
+
+  const portsByNode = new Map<string, Set<string>>();
+  for (const n of nodes) {
+    if (typeof n?.id === 'string') {
+      const ports = Array.isArray(n.ports) ? (n.ports as { id?: unknown }[]) : [];
+      portsByNode.set(n.id, new Set(ports.map((p) => p?.id).filter((id): id is string => typeof id === 'string')));
+    }
+  }
+
+  for (let i = 0; i < edges.length; i++) {
+    const e = edges[i];
+    if (!e || typeof e !== 'object') continue;
+    for (const end of ['source', 'target'] as const) {
+      const port = e[`${end}Port`];
+      if (port === undefined) continue;
+      if (typeof port !== 'string') {
+        errors.push(`edges[${i}].${end}Port must be a string`);
+        continue;
+      }
+      const ports = portsByNode.get(e[end]);
+      if (ports && !ports.has(port)) {
+        errors.push(
+          `edges[${i}].${end}Port "${port}" must reference a port on node "${e[end]}"`,
+        );
+      }
+    }
+  }
+}
+
+function validateLayers(layers: unknown, errors: string[]): Set<string> {
+  const layerIds = new Set<string>();
+  if (layers === undefined || layers === null) {
+    return layerIds;
+  }
+  if (!Array.isArray(layers)) {
+    errors.push('layers must be an array if present');
+    return layerIds;
+  }
+
+  for (let i = 0; i < layers.length; i++) {
+    const l = layers[i];
+    const prefix = `layers[${i}]`;
+
+    if (!l || typeof l !== 'object') {
+      errors.push(`${prefix} must be an object`);
+      continue;
+    }
+
+    if (typeof l.id !== 'string' || l.id.length === 0) {
+      errors.push(`${prefix}.id is required`);
+    } else {
+      layerIds.add(l.id);
+    }
+
+    if (typeof l.label !== 'string' || l.label.length === 0) {
+      errors.push(`${prefix}.label is required and must be a non-empty string`);
+    }
+
+    if (l.hidden !== undefined && typeof l.hidden !== 'boolean') {
+      errors.push(`${prefix}.hidden must be a boolean`);
+    }
+
+    if (l.locked !== undefined && typeof l.locked !== 'boolean') {
+      errors.push(`${prefix}.locked must be a boolean`);
+    }
+  }
+
+  return layerIds;
+}
+
+function validateLayerRefs(
+  d: Record<string, unknown>,
+  errors: string[],
+  layerIds: Set<string>,
+): void {
+  for (const key of ['nodes', 'edges', 'textElements', 'imageElements'] as const) {
+    const elements = d[key];
+    if (!Array.isArray(elements)) continue;
+
+    for (let i = 0; i < elements.length; i++) {
+      const layer = elements[i]?.layer;
+      if (layer !== undefined && (typeof layer !== 'string' || !layerIds.has(layer))) {
+        errors.push(
+          `${key}[${i}].layer "${layer}" must reference an existing layer id`,
+        );
+      }
+    }
+  }
+}
+
 function validateViewport(viewport: unknown, errors: string[]): void {
   if (viewport === undefined || viewport === null) return;
 
@@ -298,33 +659,33 @@ function validateIdUniqueness(
   d: Record<string, unknown>,
   errors: string[],
 ): void {
-  const allIds: string[] = [];
-
-  if (Array.isArray(d.nodes)) {
-    for (const n of d.nodes) {
-      if (n?.id) allIds.push(n.id);
-    }
-  }
-  if (Array.isArray(d.edges)) {
-    for (const e of d.edges) {
-      if (e?.id) allIds.push(e.id);
-    }
-  }
-  if (Array.isArray(d.groups)) {
-    for (const g of d.groups) {
-      if (g?.id) allIds.push(g.id);
-    }
-  }
-
   const seen = new Set<string>();
-  for (const id of allIds) {
-    if (seen.has(id)) {
-      errors.push(`Duplicate id: "${id}"`);
-    }
-    seen.add(id);
+  for (const key of ['nodes', 'edges', 'groups', 'layers']) {
+    const elements = d[key];
+    if (!Array.isArray(elements)) continue;
+    elements.forEach((el: { id?: string } | null, i) => {
+      if (!el?.id) return;
+      if (seen.has(el.id)) {
+        errors.push(`Duplicate id: "${el.id}" at ${key}[${i}].id`);
+      }
+      seen.add(el.id);
+    });
   }
 }
 
+const ISSUE_PATH_RE = /^(?:meta|nodes|edges|groups|layers|viewport|textElements|imageElements)(?:\[\d+\]|\.[A-Za-z_$][\w$]*|\["[^"]*"\])*/;
+const DUPLICATE_PATH_RE = / at ((?:nodes|edges|groups|layers|meta\.rules)\[\d+\]\.id)$/;
+
+/**
+ * Recovers the JSON path an error message refers to. Messages start with the
+ * path they describe ("nodes[2].shape must be ..."); duplicate ids name it at
+ * the end. Document-level errors have the empty path.
+ */
+function issueFromError(message: string): ValidationIssue {
+  const path = message.match(DUPLICATE_PATH_RE)?.[1] ?? message.match(ISSUE_PATH_RE)?.[0] ?? '';
+  return { path, message };
+}
+
 export function parseDiagramJSON(
   text: string,
 ): { doc: DiagramDocument; errors: string[] } | { doc: null; errors: string[] } {
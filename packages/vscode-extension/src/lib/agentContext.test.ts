@@ -397,6 +397,68 @@ describe('generateAgentContext', () => {
     expect(ctx.insights?.some((i) => i.includes('"Event Bus"') && i.includes('docs/adr/0003-use-kafka.md'))).toBe(true);
   });
 
+  it('lists fitness rules and the edges that break them', () => {
+    const doc = makeDoc({
+      meta: {
+        title: 'Test Diagram',
+        created: '',
+        modified: '',
+        rules: [
+          { id: 'no-person-db', description: 'People must not talk to databases directly.', from: { type: 'Person' }, to: { type: 'Database' } },
+        ],
+      },
+      nodes: [
+        { id: 'n1', label: 'Customer', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, type: 'Person' },
+        { id: 'n2', label: 'Orders DB', x: 0, y: 0, width: 160, height: 48, shape: 'cylinder', color: 'default', pinned: false, type: 'Database' },
+      ],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2', style: 'solid', arrow: 'arrow' }],
+    });
+    const ctx = generateAgentContext(doc);
+    expect(ctx.insights).toEqual([
+      'Rule "no-person-db" (error): People must not talk to databases directly. Tools refuse edges that break it.',
+      'Edge "Customer" → "Orders DB" breaks rule "no-person-db": People must not talk to databases directly.',
+    ]);
+  });
+
+  it('counts rule violations on hidden layers without describing them', () => {
+    const node = { x: 0, y: 0, width: 160, height: 48, shape: 'rectangle' as const, color: 'default' as const, pinned: false };
+    const doc = makeDoc({
+      meta: {
+        title: 'Test Diagram',
+        created: '',
+        modified: '',
+        rules: [{ id: 'no-person-db', description: 'People must not talk to databases directly.', from: { type: 'Person' }, to: { type: 'Database' } }],
+      },
+      layers: [{ id: 'legacy', label: 'Legacy', hidden: true }],
+      nodes: [
+        { ...node, id: 'n1', label: 'Customer', type: 'Person' },
+        { ...node, id: 'n2', label: 'Orders DB', type: 'Database', layer: 'legacy' },
+      ],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2', style: 'solid', arrow: 'arrow' }],
+    });
+
+    const ctx = generateAgentContext(doc);
+
+    expect(ctx.insights?.some((i) => i.includes('breaks rule'))).toBe(false);
+    expect(ctx.insights).toContain(
+      'Layers "Legacy" are hidden and left out of this context, including 1 fitness rule violation(s).',
+    );
+  });
+
+  it('exposes drill-down links of nodes and groups', () => {
+    const doc = makeDoc({
+      nodes: [
+        { id: 'n1', label: 'Orders', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, group: 'g1', link: { file: 'orders.diagram.svg', node: 'Order API' } },
+        { id: 'n2', label: 'Billing', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+      ],
+      groups: [{ id: 'g1', label: 'Shop', link: { file: 'shop.diagram' } }],
+    });
+    const ctx = generateAgentContext(doc);
+    expect(ctx.nodeIndex[0].link).toEqual({ file: 'orders.diagram.svg', node: 'Order API' });
+    expect(ctx.nodeIndex[1]).not.toHaveProperty('link');
+    expect(ctx.groupIndex).toEqual([{ group: 'Shop', members: ['Orders'], link: { file: 'shop.diagram' } }]);
+  });
+
   it('omits insights when no special conditions exist', () => {
     const doc = makeDoc({
       nodes: [
@@ -525,4 +587,51 @@ describe('generateAgentContext', () => {
     expect(ctx.textAnnotations).toHaveLength(1);
     expect(ctx.imageAnnotations).toHaveLength(1);
   });
+
+  it('leaves out elements on hidden layers and notes which layers are hidden', () => {
+    const node = { x: 0, y: 0, width: 160, height: 48, shape: 'rectangle' as const, color: 'default' as const, pinned: false };
+    const doc = makeDoc({
+      layers: [
+        { id: 'infra', label: 'Infrastructure' },
+        { id: 'notes', label: 'Annotations', hidden: true },
+      ],
+      nodes: [
+        { ...node, id: 'n1', label: 'API', layer: 'infra' },
+        { ...node, id: 'n2', label: 'Draft idea', layer: 'notes' },
+      ],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2', style: 'solid', arrow: 'arrow' }],
+    });
+
+    const ctx = generateAgentContext(doc);
+    expect(ctx.nodeIndex.map((n) => n.label)).toEqual(['API']);
+    expect(ctx.edgeIndex).toHaveLength(0);
+    expect(ctx.insights).toContain('Layers "Annotations" are hidden and left out of this context.');
+
+    const onlyNotes = generateAgentContext(doc, { visibleLayers: ['notes'] });
+    expect(onlyNotes.nodeIndex.map((n) => n.label)).toEqual(['Draft idea']);
+  });
+
+  it('summarises stale references among the insights, leaving out hidden nodes', () => {
+    const node = { x: 0, y: 0, width: 160, height: 48, shape: 'rectangle' as const, color: 'default' as const, pinned: false };
+    const doc = makeDoc({
+      layers: [{ id: 'notes', label: 'Annotations', hidden: true }],
+      nodes: [
+        { ...node, id: 'n1', label: 'API', properties: { entrypoint: 'src/gone.ts' } },
+        { ...node, id: 'n2', label: 'Draft', layer: 'notes', properties: { entrypoint: 'src/draft.ts' } },
+      ],
+    });
+    const finding = (elementId: string, message: string) =>
+      ({ rule: 'stale-reference' as const, severity: 'warning' as const, message, elementId, path: '' });
+
+    const ctx = generateAgentContext(doc, {
+      drift: [finding('n1', '"API" entrypoint not found: src/gone.ts'), finding('n2', '"Draft" entrypoint not found: src/draft.ts')],
+    });
+
+    const stale = ctx.insights?.filter((i) => i.includes('no longer resolve'));
+    expect(stale).toEqual([
+      '1 reference(s) to code or docs no longer resolve, so these parts of the diagram may be out of date: ' +
+        '"API" entrypoint not found: src/gone.ts.',
+    ]);
+    expect(generateAgentContext(doc).insights?.some((i) => i.includes('no longer resolve'))).toBe(false);
+  });
 });
@@ -13,9 +13,15 @@
  *  - Expose enough structure for an LLM to reconstruct a mental model.
  *  - Stay compact so token budget is not wasted (omit empty/default values).
  *  - Surface warnings (deprecations, debt, security boundaries) as insights.
+ *  - List the fitness rules in meta.rules and their violations as insights.
+ *  - Summarise references to code and docs that no longer resolve (drift).
  */
 
 import type { DiagramDocument, AgentContext } from '../types/DiagramDocument';
+import { filterDocumentByLayers, getHiddenLayerIds, type LayerFilterOptions } from './layers';
+import { checkFitnessRules, describeFitnessRule } from './fitnessRules';
+import { summarizeDrift } from './drift';
+import type { LintFinding } from './lint';
 
 const USAGE_HINT =
   'When the DiagramFlow VS Code extension is installed, use the ' +
@@ -25,10 +31,27 @@ const USAGE_HINT =
   'diagramflow_removeGroups tools to read and modify this diagram programmatically. ' +
   'Store agent-specific observations in meta.llmNotes via diagramflow_updateNodes ' +
   '(update the diagram meta) — this persists your reasoning across sessions. ' +
-  'Use bidirectional:true on edges to express mutual communication between components.';
+  'Use bidirectional:true on edges to express mutual communication between components. ' +
+  'A node or group with a `link` is detailed in another diagram (path relative to this file); ' +
+  'read that file to drill down.';
 
-/** Generates a new {@link AgentContext} from the current diagram state. */
-export function generateAgentContext(doc: DiagramDocument): AgentContext {
+export interface AgentContextOptions extends LayerFilterOptions {
+  /**
+   * Drift findings (lib/drift.ts) for the document. The host checks the file
+   * system; without them the context says nothing about stale references.
+   */
+  drift?: readonly LintFinding[];
+}
+
+/**
+ * Generates a new {@link AgentContext} from the current diagram state.
+ * Elements on hidden layers (or outside `options.visibleLayers`) are left out.
+ */
+export function generateAgentContext(
+  fullDoc: DiagramDocument,
+  options: AgentContextOptions = {},
+): AgentContext {
+  const doc = filterDocumentByLayers(fullDoc, options);
   const nodeMap = new Map(doc.nodes.map((n) => [n.id, n]));
 
   const nodeIndex = doc.nodes.map((n) => ({
@@ -41,6 +64,7 @@ export function generateAgentContext(doc: DiagramDocument): AgentContext {
     ...(n.properties && Object.keys(n.properties).length > 0 ? { properties: n.properties } : {}),
     ...(n.securityClassification ? { securityClassification: n.securityClassification } : {}),
     ...(n.deploymentEnvironment ? { deploymentEnvironment: n.deploymentEnvironment } : {}),
+    ...(n.link ? { link: n.link } : {}),
   }));
 
   const edgeIndex = doc.edges.map((e) => {
@@ -60,6 +84,20 @@ export function generateAgentContext(doc: DiagramDocument): AgentContext {
   const groupIndex = buildGroupIndex(doc, nodeMap);
   const summary = buildSummary(doc, groupIndex);
   const insights = buildInsights(doc);
+  // Rules are checked on the whole diagram so that edges on hidden layers still count.
+  const shownEdges = new Set(doc.edges.map((e) => e.id));
+  const violations = checkFitnessRules(fullDoc);
+  const shownViolations = violations.filter((v) => shownEdges.has(v.edgeId));
+  insights.push(...shownViolations.map((v) => v.message));
+  const hiddenLayers = getHiddenLayerIds(fullDoc.layers, options.visibleLayers);
+  if (hiddenLayers.size > 0) {
+    const labels = (fullDoc.layers ?? []).filter((l) => hiddenLayers.has(l.id)).map((l) => `"${l.label}"`);
+    const hiddenViolations = violations.length - shownViolations.length;
+    const including = hiddenViolations > 0 ? `, including ${hiddenViolations} fitness rule violation(s)` : '';
+    insights.push(`Layers ${labels.join(', ')} are hidden and left out of this context${including}.`);
+  }
+  const drift = summarizeDrift((options.drift ?? []).filter((f) => nodeMap.has(f.elementId)));
+  if (drift) insights.push(drift);
 
   const textAnnotations = buildTextAnnotations(doc);
   const imageAnnotations = buildImageAnnotations(doc);
@@ -92,7 +130,7 @@ function buildGroupIndex(
     const members = doc.nodes
       .filter((n) => n.group === g.id)
       .map((n) => n.label);
-    return { group: g.label, members };
+    return { group: g.label, members, ...(g.link ? { link: g.link } : {}) };
   });
 }
 
@@ -139,6 +177,7 @@ function buildSummary(
  * security boundary notices, technical debt callouts, and ADR references.
  * These are surfaced so agents do not inadvertently modify or replicate
  * components that are deprecated, security-sensitive, or under active migration.
+ * Fitness rules come last: each rule, then every edge that currently breaks one.
  */
 function buildInsights(doc: DiagramDocument): string[] {
   const insights: string[] = [];
@@ -179,6 +218,10 @@ function buildInsights(doc: DiagramDocument): string[] {
     }
   }
 
+  for (const rule of doc.meta.rules ?? []) {
+    insights.push(describeFitnessRule(rule));
+  }
+
   return insights;
 }
 
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { buildComposeOps, inferServiceType } from './composeGraph';
+import { buildDiagram } from './diagramBuilder';
+import type { SemanticOp } from '../types/operations';
+
+const COMPOSE = `
+services:
+  web:
+    build: ./web
+    ports:
+      - "8080:80"
+    depends_on:
+      - api
+    networks: [frontend]
+  api:
+    build:
+      context: ./services/api
+      dockerfile: Dockerfile.dev
+    expose: ["3000"]
+    ports:
+      - target: 3000
+        published: 3000
+        protocol: tcp
+    depends_on:
+      db:
+        condition: service_healthy
+      cache:
+        condition: service_started
+    links:
+      - db:database
+      - queue
+    networks:
+      - frontend
+      - backend
+  db:
+    image: postgres:16-alpine
+    networks: [backend]
+  cache:
+    image: redis:7
+    networks: [backend]
+  queue:
+    image: bitnami/rabbitmq:3.13
+  mail:
+    image: mailhog/mailhog
+networks:
+  frontend:
+  backend:
+`;
+
+function ops(text = COMPOSE, composeDir = ''): SemanticOp[] {
+  const result = buildComposeOps(text, { composeDir });
+  if ('error' in result) throw new Error(result.error);
+  return result.ops;
+}
+
+function changesOf(all: SemanticOp[], service: string) {
+  const update = all.find((op) => op.op === 'update_node' && op.id === `service:${service}`);
+  return update?.op === 'update_node' ? update.changes : undefined;
+}
+
+describe('inferServiceType', () => {
+  it('types data stores, caches and brokers from the image name', () => {
+    expect(inferServiceType('postgres:16')).toBe('Database');
+    expect(inferServiceType('docker.io/library/mongo@sha256:abc')).toBe('Database');
+    expect(inferServiceType('redis')).toBe('Cache');
+    expect(inferServiceType('confluentinc/cp-kafka:7.6.0')).toBe('MessageQueue');
+    expect(inferServiceType('rabbitmq:3-management')).toBe('MessageQueue');
+  });
+
+  it('falls back to Container', () => {
+    expect(inferServiceType('nginx:alpine')).toBe('Container');
+    expect(inferServiceType(undefined)).toBe('Container');
+  });
+});
+
+describe('buildComposeOps', () => {
+  it('adds a typed node per service with its image, ports and Dockerfile', () => {
+    const all = ops(COMPOSE, 'deploy');
+    expect(all.filter((op) => op.op === 'add_node').map((op) => op.op === 'add_node' && op.node.label)).toEqual([
+      'web',
+      'api',
+      'db',
+      'cache',
+      'queue',
+      'mail',
+    ]);
+    expect(changesOf(all, 'web')).toEqual({
+      type: 'Container',
+      properties: { entrypoint: 'deploy/web/Dockerfile', ports: ['8080:80'] },
+    });
+    expect(changesOf(all, 'api')).toEqual({
+      type: 'Container',
+      properties: {
+        entrypoint: 'deploy/services/api/Dockerfile.dev',
+        ports: ['3000:3000/tcp'],
+        expose: ['3000'],
+        networks: ['frontend', 'backend'],
+      },
+    });
+    expect(changesOf(all, 'db')).toEqual({ type: 'Database', properties: { image: 'postgres:16-alpine' } });
+    expect(changesOf(all, 'cache')?.type).toBe('Cache');
+    expect(changesOf(all, 'queue')?.type).toBe('MessageQueue');
+  });
+
+  it('makes a group per network, with services on the implicit default network in their own group', () => {
+    const all = ops();
+    expect(all.filter((op) => op.op === 'add_group')).toEqual([
+      { op: 'add_group', key: 'network:frontend', group: { label: 'frontend' } },
+      { op: 'add_group', key: 'network:backend', group: { label: 'backend' } },
+      { op: 'add_group', key: 'network:default', group: { label: 'default' } },
+    ]);
+    const groupOf = (service: string) => {
+      const add = all.find((op) => op.op === 'add_node' && op.key === `service:${service}`);
+      return add?.op === 'add_node' ? add.node.group : undefined;
+    };
+    expect(groupOf('api')).toBe('network:frontend');
+    expect(groupOf('db')).toBe('network:backend');
+    expect(groupOf('mail')).toBe('network:default');
+  });
+
+  it('adds no groups when no service names a network', () => {
+    const all = ops('services:\n  api:\n    image: node\n  db:\n    image: mysql\n');
+    expect(all.filter((op) => op.op === 'add_group')).toEqual([]);
+    expect(all).toContainEqual({ op: 'add_node', key: 'service:api', node: { label: 'api' } });
+  });
+
+  it('turns depends_on and links into edges, once per pair', () => {
+    expect(ops().filter((op) => op.op === 'add_edge')).toEqual([
+      { op: 'add_edge', edge: { source: 'service:web', target: 'service:api', label: 'depends on' } },
+      { op: 'add_edge', edge: { source: 'service:api', target: 'service:db', label: 'depends on' } },
+      { op: 'add_edge', edge: { source: 'service:api', target: 'service:cache', label: 'depends on' } },
+      { op: 'add_edge', edge: { source: 'service:api', target: 'service:queue', label: 'links' } },
+    ]);
+  });
+
+  it('reports invalid YAML and files without services', () => {
+    expect(buildComposeOps('services: [unclosed', { composeDir: '' })).toEqual({
+      error: expect.stringContaining('Not valid YAML'),
+    });
+    expect(buildComposeOps('version: "3.8"\n', { composeDir: '' })).toEqual({
+      error: 'No services found: a compose file needs a top-level "services" map.',
+    });
+  });
+
+  it('builds a diagram that passes validation', () => {
+    let n = 0;
+    const result = buildDiagram('stack', ops(), { generateId: () => `id${++n}` });
+    expect(result.success).toBe(true);
+    expect(result.document?.nodes).toHaveLength(6);
+    expect(result.document?.groups).toHaveLength(3);
+    expect(result.document?.edges).toHaveLength(4);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Module: src/lib/composeGraph.ts
+ *
+ * Turns a docker-compose file into the ops of a service diagram (see
+ * lib/diagramBuilder.ts): one node per service, typed from its image
+ * (postgres → Database, redis → Cache, kafka → MessageQueue, …), one group
+ * per network, and an edge for every `depends_on` and `links` entry.
+ *
+ * Published and exposed ports, the image and the service's networks go into
+ * node `properties`; a service built from source gets its Dockerfile as the
+ * entrypoint. A service joins the group of its first network. Services
+ * without `networks` are on compose's implicit `default` network, which only
+ * becomes a group when other networks exist as well.
+ *
+ * All functions are pure.
+ */
+
+import { parse } from 'yaml';
+import type { NodeType } from '../types/DiagramDocument';
+import type { SemanticOp } from '../types/operations';
+
+export interface ComposeImportOptions {
+  /** Folder of the compose file relative to the repo root ('' for the root), so entrypoints resolve from there. */
+  composeDir: string;
+}
+
+export const DEPENDS_ON_LABEL = 'depends on';
+export const LINKS_LABEL = 'links';
+
+const DEFAULT_NETWORK = 'default';
+
+/** Image names, without registry, namespace or tag, that identify a node type. */
+const IMAGE_TYPES: [RegExp, NodeType][] = [
+  [/^(postgres|postgis|mysql|mariadb|mongo|mssql|oracle|cockroach|couchdb|cassandra|scylla|neo4j|clickhouse|influxdb|timescaledb|elasticsearch|opensearch)/, 'Database'],
+  [/^(redis|valkey|keydb|memcached|dragonfly|varnish)/, 'Cache'],
+  [/^(kafka|cp-kafka|redpanda|rabbitmq|nats|activemq|artemis|pulsar|mosquitto|emqx|localstack-sqs)/, 'MessageQueue'],
+];
+
+/** Node type of a service image; `Container` when the image is not a known data store or broker. */
+export function inferServiceType(image: string | undefined): NodeType {
+  if (!image) return 'Container';
+  const name = image.split('@')[0].split('/').pop()?.split(':')[0].toLowerCase() ?? '';
+  return IMAGE_TYPES.find(([re]) => re.test(name))?.[1] ?? 'Container';
+}
+
+type YamlMap = Record<string, unknown>;
+
+function isMap(value: unknown): value is YamlMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Service names of a list (`[db]`) or map (`{ db: { condition } }`) field. */
+function serviceRefs(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  return isMap(value) ? Object.keys(value) : [];
+}
+
+/** Short syntax as written; long syntax as `published:target/protocol`. */
+function portList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((port): string[] => {
+    if (typeof port === 'string' || typeof port === 'number') return [String(port)];
+    if (!isMap(port) || port.target === undefined) return [];
+    const mapping = port.published !== undefined ? `${String(port.published)}:${String(port.target)}` : String(port.target);
+    return [typeof port.protocol === 'string' ? `${mapping}/${port.protocol}` : mapping];
+  });
+}
+
+function joinPath(dir: string, relative: string): string {
+  const segments: string[] = [];
+  for (const segment of `${dir}/${relative}`.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+/** The Dockerfile of a service built from source, relative to the repo root. */
+function dockerfileOf(build: unknown, composeDir: string): string | undefined {
+  if (typeof build === 'string') return joinPath(composeDir, `${build}/Dockerfile`);
+  if (!isMap(build) || typeof build.context !== 'string' || /^[a-z]+:\/\//i.test(build.context)) return undefined;
+  const dockerfile = typeof build.dockerfile === 'string' ? build.dockerfile : 'Dockerfile';
+  return joinPath(composeDir, `${build.context}/${dockerfile}`);
+}
+
+/**
+ * Ops that build the diagram of a docker-compose file, or an error when the
+ * text is not YAML or has no `services`. Client keys are `service:<name>` and
+ * `network:<name>`.
+ */
+export function buildComposeOps(
+  text: string,
+  options: ComposeImportOptions,
+): { ops: SemanticOp[] } | { error: string } {
+  let compose: unknown;
+  try {
+    compose = parse(text);
+  } catch (err) {
+    return { error: `Not valid YAML: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (!isMap(compose) || !isMap(compose.services) || Object.keys(compose.services).length === 0) {
+    return { error: 'No services found: a compose file needs a top-level "services" map.' };
+  }
+
+  const services = Object.entries(compose.services).map(([name, value]) => {
+    const service = isMap(value) ? value : {};
+    return { name, service, networks: serviceRefs(service.networks) };
+  });
+  const networks = [
+    ...new Set([
+      ...(isMap(compose.networks) ? Object.keys(compose.networks) : []),
+      ...services.flatMap((s) => s.networks),
+    ]),
+  ];
+  const grouped = networks.length > 0;
+  if (grouped && services.some((s) => s.networks.length === 0) && !networks.includes(DEFAULT_NETWORK)) {
+    networks.push(DEFAULT_NETWORK);
+  }
+  const names = new Set(services.map((s) => s.name));
+
+  const ops: SemanticOp[] = networks.map((network) => ({
+    op: 'add_group',
+    key: `network:${network}`,
+    group: { label: network },
+  }));
+
+  for (const { name, service, networks: serviceNetworks } of services) {
+    const image = typeof service.image === 'string' ? service.image : undefined;
+    const ports = portList(service.ports);
+    const expose = portList(service.expose);
+    const entrypoint = dockerfileOf(service.build, options.composeDir);
+    const properties = {
+      ...(entrypoint && { entrypoint }),
+      ...(image && { image }),
+      ...(ports.length > 0 && { ports }),
+      ...(expose.length > 0 && { expose }),
+      ...(serviceNetworks.length > 1 && { networks: serviceNetworks }),
+    };
+    const group = grouped ? `network:${serviceNetworks[0] ?? DEFAULT_NETWORK}` : undefined;
+    ops.push(
+      { op: 'add_node', key: `service:${name}`, node: { label: name, ...(group && { group }) } },
+      { op: 'update_node', id: `service:${name}`, changes: { type: inferServiceType(image), properties } },
+    );
+  }
+
+  const edges = new Map<string, string>();
+  for (const { name, service } of services) {
+    // `links` entries may carry an alias: `db:database`.
+    const links = serviceRefs(service.links).map((link) => link.split(':')[0]);
+    for (const [targets, label] of [[serviceRefs(service.depends_on), DEPENDS_ON_LABEL], [links, LINKS_LABEL]] as const) {
+      for (const target of targets) {
+        const pair = `${name}\n${target}`;
+        if (target !== name && names.has(target) && !edges.has(pair)) edges.set(pair, label);
+      }
+    }
+  }
+  for (const [pair, label] of edges) {
+    const [source, target] = pair.split('\n');
+    ops.push({ op: 'add_edge', edge: { source: `service:${source}`, target: `service:${target}`, label } });
+  }
+  return { ops };
+}
@@ -0,0 +1,40 @@
+/**
+ * Module: src/lib/diagramBuilder.ts
+ *
+ * Builds a new diagram from semantic ops, for generators that derive a
+ * diagram from something else (source code, manifests). The ops are applied
+ * to an empty document with {@link applyOps}, so the result is validated
+ * exactly like an edit, and every node is then placed by the forced auto
+ * layout. Generated nodes are left unpinned so the next auto layout can move
+ * them.
+ *
+ * All functions are pure.
+ */
+
+import type { LayoutDirection } from '../types/DiagramDocument';
+import type { OpResult, SemanticOp } from '../types/operations';
+import { applyOps, createEmptyDocument } from './operations';
+import { computeForcedLayout, DEFAULT_LAYOUT_CONFIG } from './layoutEngine';
+
+export interface BuildDiagramOptions {
+  direction?: LayoutDirection;
+  generateId: () => string;
+}
+
+/** Applies `ops` to an empty diagram titled `title` and lays out all nodes. */
+export function buildDiagram(title: string, ops: SemanticOp[], options: BuildDiagramOptions): OpResult {
+  const result = applyOps(createEmptyDocument(title), ops, options.generateId);
+  if (!result.success || !result.document) return result;
+
+  const doc = result.document;
+  const direction = options.direction ?? 'TB';
+  doc.meta.layoutDirection = direction;
+  for (const { nodeId, x, y } of computeForcedLayout(doc, { ...DEFAULT_LAYOUT_CONFIG, rankdir: direction })) {
+    const node = doc.nodes.find((n) => n.id === nodeId);
+    if (node) {
+      node.x = x;
+      node.y = y;
+    }
+  }
+  return result;
+}
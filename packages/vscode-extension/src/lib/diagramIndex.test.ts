@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDiagramOutline,
+  collectDiagramSymbols,
+  matchesSymbolQuery,
+  parseDiagramText,
+  searchDiagramNodes,
+} from './diagramIndex';
+import { buildDocumentSvg } from './exporters';
+import type { DiagramDocument, DiagramNode } from '../types/DiagramDocument';
+
+function node(id: string, label: string, extra: Partial<DiagramNode> = {}): DiagramNode {
+  return { id, label, x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, ...extra };
+}
+
+function makeDoc(): DiagramDocument {
+  return {
+    meta: { title: 'Shop', created: '', modified: '' },
+    nodes: [
+      node('web', 'Web', { type: 'Container' }),
+      node('api', 'API', { group: 'g-svc', type: 'Service' }),
+      node('db', 'Orders DB', { group: 'g-data' }),
+      node('stray', 'Stray', { group: 'g-missing' }),
+    ],
+    edges: [],
+    groups: [
+      { id: 'g-data', label: 'Data', parent: 'g-cloud' },
+      { id: 'g-cloud', label: 'Cloud' },
+      { id: 'g-svc', label: 'Services', parent: 'g-cloud' },
+    ],
+  };
+}
+
+describe('parseDiagramText', () => {
+  it('reads JSON and SVG files and rejects anything else', () => {
+    const doc = makeDoc();
+    expect(parseDiagramText(JSON.stringify(doc), false)?.meta.title).toBe('Shop');
+    expect(parseDiagramText(buildDocumentSvg(doc), true)?.nodes).toHaveLength(4);
+    expect(parseDiagramText('<svg></svg>', true)).toBeNull();
+    expect(parseDiagramText('{', false)).toBeNull();
+  });
+});
+
+describe('buildDiagramOutline', () => {
+  it('nests groups and nodes and lists ungrouped nodes last', () => {
+    const outline = buildDiagramOutline(makeDoc());
+    const names = (items: typeof outline): unknown[] =>
+      items.map((i) => (i.children.length > 0 ? { [i.label]: names(i.children) } : i.label));
+
+    expect(names(outline)).toEqual([{ Cloud: [{ Data: ['Orders DB'] }, { Services: ['API'] }] }, 'Web', 'Stray']);
+    expect(outline[1]).toEqual({ kind: 'node', id: 'web', label: 'Web', detail: 'Container', children: [] });
+  });
+});
+
+describe('collectDiagramSymbols', () => {
+  it('lists node labels, group labels and glossary terms', () => {
+    const doc = makeDoc();
+    doc.meta.glossary = { SKU: 'Stock keeping unit' };
+    const symbols = collectDiagramSymbols(doc);
+    expect(symbols).toHaveLength(8);
+    expect(symbols[1]).toEqual({ kind: 'node', name: 'API', id: 'api' });
+    expect(symbols[4]).toEqual({ kind: 'group', name: 'Data', id: 'g-data' });
+    expect(symbols[7]).toEqual({ kind: 'term', name: 'SKU' });
+  });
+});
+
+describe('matchesSymbolQuery', () => {
+  it('matches characters in order, ignoring case and spaces', () => {
+    expect(matchesSymbolQuery('Order Service', 'order service')).toBe(true);
+    expect(matchesSymbolQuery('Order Service', 'ordsvc')).toBe(true);
+    expect(matchesSymbolQuery('Order Service', '')).toBe(true);
+    expect(matchesSymbolQuery('Order Service', 'svcord')).toBe(false);
+  });
+});
+
+describe('searchDiagramNodes', () => {
+  const doc: DiagramDocument = {
+    ...makeDoc(),
+    nodes: [
+      node('orders', 'Order Service', { type: 'Service', tags: ['PCI'], properties: { team: 'Fulfilment Squad' } }),
+      node('db', 'Orders DB', { type: 'Database', securityClassification: 'pii-data-store', deploymentEnvironment: 'all' }),
+      node('cache', 'Cache', { type: 'Cache', deploymentEnvironment: 'staging' }),
+    ],
+  };
+  const ids = (query: Parameters<typeof searchDiagramNodes>[1]) => searchDiagramNodes(doc, query).map((h) => h.nodeId);
+
+  it('matches label text, type, tags and team ignoring case', () => {
+    expect(ids({ text: 'order' })).toEqual(['orders', 'db']);
+    expect(ids({ type: 'database' })).toEqual(['db']);
+    expect(ids({ tags: ['pci'] })).toEqual(['orders']);
+    expect(ids({ tags: ['pci', 'gdpr'] })).toEqual([]);
+    expect(ids({ team: 'fulfilment' })).toEqual(['orders']);
+  });
+
+  it('treats nodes deployed everywhere as part of every environment', () => {
+    expect(ids({ deploymentEnvironment: 'staging' })).toEqual(['db', 'cache']);
+    expect(ids({ securityClassification: 'pii-data-store' })).toEqual(['db']);
+  });
+
+  it('requires every criterion and reports which fields matched', () => {
+    expect(searchDiagramNodes(doc, { text: 'order', type: 'Service' })).toEqual([
+      { nodeId: 'orders', label: 'Order Service', matched: ['label', 'type'] },
+    ]);
+    expect(searchDiagramNodes(doc, {})).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Module: src/lib/diagramIndex.ts
+ *
+ * Pure helpers behind the workspace diagram index (see src/DiagramIndex.ts):
+ * reading a diagram from the text of a .diagram or .diagram.svg file,
+ * arranging its groups and nodes into the outline shown in the DiagramFlow
+ * explorer view, listing the names Go to Symbol in Workspace finds, and
+ * matching nodes against the criteria of the searchDiagrams agent tool.
+ */
+
+import type { DiagramDocument, DiagramNode } from '../types/DiagramDocument';
+import { extractDiagramFromSvg } from './svgMetadata';
+import { migrateDocument } from './migrations';
+
+/**
+ * Parses diagram file text. SVG files embed the JSON in their <metadata>.
+ * Returns null when the text holds no readable diagram.
+ */
+export function parseDiagramText(text: string, isSvg: boolean): DiagramDocument | null {
+  try {
+    const json = isSvg ? extractDiagramFromSvg(text) : text;
+    if (!json) return null;
+    // Older schemas are upgraded in memory; the file is rewritten on the next edit.
+    const parsed = migrateDocument(JSON.parse(json) as DiagramDocument).document;
+    // Without node and edge lists there is nothing to draw; DiagramDiagnostics reports why.
+    return Array.isArray(parsed.nodes) && Array.isArray(parsed.edges) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface OutlineItem {
+  kind: 'group' | 'node';
+  id: string;
+  label: string;
+  /** Component type of a node, e.g. "Service". */
+  detail?: string;
+  /** Sub-groups first, then the group's own nodes. Always empty for nodes. */
+  children: OutlineItem[];
+}
+
+/**
+ * Groups and nodes of a diagram as a tree: top-level groups in document
+ * order, each holding its sub-groups and nodes, followed by ungrouped nodes.
+ * Elements pointing at a missing group are listed at the top level.
+ */
+export function buildDiagramOutline(doc: DiagramDocument): OutlineItem[] {
+  const groups = doc.groups ?? [];
+  const groupIds = new Set(groups.map((g) => g.id));
+  const parentOf = (ref: string | undefined) => (ref && groupIds.has(ref) ? ref : undefined);
+
+  const itemsIn = (parent: string | undefined): OutlineItem[] => [
+    ...groups
+      .filter((g) => parentOf(g.parent) === parent)
+      .map((g): OutlineItem => ({ kind: 'group', id: g.id, label: g.label, children: itemsIn(g.id) })),
+    ...doc.nodes
+      .filter((n) => parentOf(n.group) === parent)
+      .map((n): OutlineItem => ({
+        kind: 'node',
+        id: n.id,
+        label: n.label,
+        ...(n.type && { detail: n.type }),
+        children: [],
+      })),
+  ];
+  return itemsIn(undefined);
+}
+
+export interface DiagramSymbol {
+  kind: 'node' | 'group' | 'term';
+  name: string;
+  /** Id of the node or group; glossary terms have none. */
+  id?: string;
+}
+
+/** Node labels, group labels and glossary terms of a diagram, in that order. */
+export function collectDiagramSymbols(doc: DiagramDocument): DiagramSymbol[] {
+  return [
+    ...doc.nodes.map((n): DiagramSymbol => ({ kind: 'node', name: n.label, id: n.id })),
+    ...(doc.groups ?? []).map((g): DiagramSymbol => ({ kind: 'group', name: g.label, id: g.id })),
+    ...Object.keys(doc.meta.glossary ?? {}).map((term): DiagramSymbol => ({ kind: 'term', name: term })),
+  ];
+}
+
+/**
+ * True when the query's characters appear in `name` in order, ignoring case
+ * and spaces, so "ordsvc" finds "Order Service". VS Code ranks the matches.
+ */
+export function matchesSymbolQuery(name: string, query: string): boolean {
+  const haystack = name.toLowerCase();
+  let from = 0;
+  for (const ch of query.toLowerCase().replace(/\s+/g, '')) {
+    from = haystack.indexOf(ch, from) + 1;
+    if (from === 0) return false;
+  }
+  return true;
+}
+
+/** Criteria of a node search. Every given criterion must match. */
+export interface DiagramSearchQuery {
+  /** Case-insensitive substring of the node label. */
+  text?: string;
+  /** Component type, e.g. "Database". Case-insensitive. */
+  type?: string;
+  /** Tags the node must all carry. Case-insensitive. */
+  tags?: string[];
+  /** Case-insensitive substring of `properties.team`. */
+  team?: string;
+  securityClassification?: string;
+  /** Nodes deployed to "all" environments match any environment. */
+  deploymentEnvironment?: string;
+}
+
+export interface DiagramSearchHit {
+  nodeId: string;
+  label: string;
+  /** Node fields that satisfied the query, in query order. */
+  matched: string[];
+}
+
+const includesIgnoringCase = (value: unknown, part: string) =>
+  typeof value === 'string' && value.toLowerCase().includes(part.toLowerCase());
+
+const equalsIgnoringCase = (value: unknown, other: string) =>
+  typeof value === 'string' && value.toLowerCase() === other.toLowerCase();
+
+/**
+ * Nodes of a diagram matching every criterion of the query, in document
+ * order. A query without criteria matches nothing.
+ */
+export function searchDiagramNodes(doc: DiagramDocument, query: DiagramSearchQuery): DiagramSearchHit[] {
+  const { text, type, tags, team, securityClassification, deploymentEnvironment } = query;
+  const tests: [string, (n: DiagramNode) => boolean][] = [];
+  if (text) tests.push(['label', (n) => includesIgnoringCase(n.label, text)]);
+  if (type) tests.push(['type', (n) => equalsIgnoringCase(n.type, type)]);
+  if (tags && tags.length > 0) {
+    tests.push(['tags', (n) => tags.every((tag) => (n.tags ?? []).some((t) => equalsIgnoringCase(t, tag)))]);
+  }
+  if (team) tests.push(['properties.team', (n) => includesIgnoringCase(n.properties?.team, team)]);
+  if (securityClassification) {
+    tests.push(['securityClassification', (n) => n.securityClassification === securityClassification]);
+  }
+  if (deploymentEnvironment) {
+    tests.push([
+      'deploymentEnvironment',
+      (n) => n.deploymentEnvironment === deploymentEnvironment || n.deploymentEnvironment === 'all',
+    ]);
+  }
+  if (tests.length === 0) return [];
+
+  return doc.nodes
+    .filter((n) => tests.every(([, test]) => test(n)))
+    .map((n) => ({ nodeId: n.id, label: n.label, matched: tests.map(([field]) => field) }));
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { findDiagramProblems } from './diagramProblems';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { buildDocumentSvg } from './exporters';
+import type { DiagramDocument } from '../types/DiagramDocument';
+
+function makeDoc(): DiagramDocument {
+  return {
+    meta: { version: CURRENT_SCHEMA_VERSION, title: 'T', created: '2025-01-01', modified: '2025-01-01' },
+    nodes: [{ id: 'n1', label: 'API', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false }],
+    edges: [],
+  };
+}
+
+describe('findDiagramProblems', () => {
+  it('returns nothing for a valid document', () => {
+    expect(findDiagramProblems(JSON.stringify(makeDoc(), null, 2), false)).toEqual([]);
+  });
+
+  it('reports schema errors with their path and the range of the field', () => {
+    const doc = makeDoc();
+    (doc.nodes[0] as { shape: string }).shape = 'blob';
+    const text = JSON.stringify(doc, null, 2);
+
+    const [problem] = findDiagramProblems(text, false);
+    expect(problem.path).toBe('nodes[0].shape');
+    expect(problem.message).toContain('nodes[0].shape must be one of');
+    expect(text.slice(problem.start, problem.end)).toBe('"shape": "blob"');
+  });
+
+  it('reports invalid JSON at the position the parser stopped', () => {
+    const text = '{"meta": {}, "nodes": [,]}';
+    const [problem] = findDiagramProblems(text, false);
+    expect(problem.message).toMatch(/^Invalid JSON/);
+    expect(problem.start).toBe(text.indexOf('[,') + 1);
+  });
+
+  it('validates files from older schemas after migrating them', () => {
+    const text = JSON.stringify({
+      meta: { title: 'T', created: '2025-01-01', modified: '2025-01-01' },
+      nodes: [{ id: 'n1', label: 'API' }],
+      edges: [],
+    });
+    expect(findDiagramProblems(text, false)).toEqual([]);
+  });
+
+  it('skips files from a newer schema', () => {
+    const doc = makeDoc();
+    doc.meta.version = '99.0';
+    (doc.nodes[0] as { shape: string }).shape = 'hexagram';
+    expect(findDiagramProblems(JSON.stringify(doc), false)).toEqual([]);
+  });
+
+  it('maps problems in an SVG to the embedded source', () => {
+    const doc = makeDoc();
+    doc.nodes.push({ ...doc.nodes[0] });
+    const svg = buildDocumentSvg(doc);
+
+    const [problem] = findDiagramProblems(svg, true);
+    expect(problem.path).toBe('nodes[1].id');
+    expect(svg.slice(problem.start, problem.end)).toBe('"id":"n1"');
+  });
+
+  it('reports SVGs without an embedded source', () => {
+    expect(findDiagramProblems('<svg></svg>', true)).toEqual([
+      expect.objectContaining({ path: '', start: 0, end: 0 }),
+    ]);
+  });
+
+  it('adds lint findings for valid documents when asked to', () => {
+    const text = JSON.stringify(makeDoc(), null, 2);
+    expect(findDiagramProblems(text, false)).toEqual([]);
+
+    const [problem] = findDiagramProblems(text, false, {});
+    expect(problem).toMatchObject({ path: 'nodes[0]', severity: 'warning', finding: { rule: 'orphan-node' } });
+    expect(text.slice(problem.start, problem.start + 1)).toBe('{');
+    expect(findDiagramProblems(text, false, { 'orphan-node': false })).toEqual([]);
+  });
+
+  it('adds findings of an extra check, such as drift, to the lint findings', () => {
+    const doc = makeDoc();
+    doc.nodes[0].properties = { adr: 'docs/adr/1.md' };
+    const text = JSON.stringify(doc, null, 2);
+
+    const problems = findDiagramProblems(text, false, { 'orphan-node': false }, (parsed) => [
+      { rule: 'stale-reference', severity: 'warning', message: 'gone', elementId: parsed.nodes[0].id, path: 'nodes[0].properties.adr' },
+    ]);
+
+    expect(problems).toHaveLength(1);
+    expect(problems[0].finding?.rule).toBe('stale-reference');
+    expect(text.slice(problems[0].start, problems[0].end)).toBe('"adr": "docs/adr/1.md"');
+  });
+
+  it('does not lint documents that fail validation', () => {
+    const doc = makeDoc();
+    (doc.nodes[0] as { shape: string }).shape = 'blob';
+    expect(findDiagramProblems(JSON.stringify(doc), false, {}).map((p) => p.severity)).toEqual(['error']);
+  });
+});
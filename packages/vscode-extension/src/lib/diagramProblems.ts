@@ -0,0 +1,95 @@
+/**
+ * Module: src/lib/diagramProblems.ts
+ *
+ * Collects everything wrong with the text of a .diagram or .diagram.svg file
+ * as problems with a JSON path and a character range. The Problems panel and
+ * the canvas error state are both built from this list. Valid documents can
+ * additionally be checked against the architecture lint rules (lib/lint.ts).
+ *
+ * Documents are validated after migration, the same way DiagramService reads
+ * them, so fields an older schema omitted are not reported. Documents from a
+ * newer schema are skipped: this build cannot know their rules. Checks that
+ * need the file system, such as drift detection (lib/drift.ts), are passed in.
+ *
+ * All functions are pure.
+ */
+
+import type { DiagramDocument } from '../types/DiagramDocument';
+import { validateDiagram } from './SchemaValidator';
+import { migrateDocument } from './migrations';
+import { locateSvgSource } from './svgMetadata';
+import { parseJsonPath, locateJsonPath, findSyntaxError } from './jsonLocator';
+import { lintDiagram, type LintFinding, type LintSettings, type LintSeverity } from './lint';
+
+export interface DiagramProblem {
+  message: string;
+  /** JSON path of the offending element; '' for the whole document. */
+  path: string;
+  /** Character range in the file text. */
+  start: number;
+  end: number;
+  /** Schema and JSON problems are errors; lint findings carry their rule's severity. */
+  severity: LintSeverity;
+  /** Set for lint and drift findings. */
+  finding?: LintFinding;
+}
+
+/**
+ * Lists the problems in a diagram file's text; empty when it is valid. Lint
+ * rules and `check` run only when `lint` is given and the document passed
+ * validation.
+ */
+export function findDiagramProblems(
+  text: string,
+  isSvg: boolean,
+  lint?: LintSettings,
+  check?: (doc: DiagramDocument) => LintFinding[],
+): DiagramProblem[] {
+  let json = text;
+  let offset = 0;
+  let exact = true;
+  if (isSvg) {
+    const source = locateSvgSource(text);
+    if (!source) {
+      const message = 'No embedded diagram source: <diagramflow:source> is missing from <metadata>';
+      return [{ message, path: '', start: 0, end: 0, severity: 'error' }];
+    }
+    ({ json, offset, exact } = source);
+  }
+  const wholeSource = { start: offset, end: offset + (exact ? json.length : 0) };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const position = exact ? findSyntaxError(json) : null;
+    const at = position === null ? wholeSource : { start: offset + position, end: offset + position + 1 };
+    return [{ message: `Invalid JSON: ${message}`, path: '', ...at, severity: 'error' }];
+  }
+
+  let doc = parsed;
+  if (doc && typeof doc === 'object' && !Array.isArray(doc)) {
+    const migration = migrateDocument(doc as DiagramDocument);
+    if (migration.status === 'newer') return [];
+    doc = migration.document;
+  }
+
+  const locate = (path: string) => {
+    const range = exact ? locateJsonPath(json, parseJsonPath(path)) : null;
+    return range ? { start: offset + range.start, end: offset + range.end } : wholeSource;
+  };
+
+  const issues = validateDiagram(doc).issues;
+  if (issues.length > 0 || !lint) {
+    return issues.map(({ path, message }) => ({ message, path, ...locate(path), severity: 'error' }));
+  }
+  const findings = [...lintDiagram(doc as DiagramDocument, lint), ...(check?.(doc as DiagramDocument) ?? [])];
+  return findings.map((finding) => ({
+    message: finding.message,
+    path: finding.path,
+    ...locate(finding.path),
+    severity: finding.severity,
+    finding,
+  }));
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { buildDiagramSchema } from './diagramSchema';
+import { NODE_SHAPES } from '../types/DiagramDocument';
+
+type Schema = Record<string, any>;
+
+describe('buildDiagramSchema', () => {
+  it('matches the schema shipped in schemas/ (run `npm run generate:schema`)', () => {
+    const shipped = JSON.parse(readFileSync(join(__dirname, '../../schemas/diagram.schema.json'), 'utf8'));
+    expect(shipped).toEqual(buildDiagramSchema());
+  });
+
+  it('requires the top-level sections and the fields every node needs', () => {
+    const schema = buildDiagramSchema() as Schema;
+    expect(schema.required).toEqual(['meta', 'nodes', 'edges']);
+    expect(schema.definitions.node.required).toEqual(
+      expect.arrayContaining(['id', 'label', 'x', 'y', 'width', 'height', 'shape', 'color', 'pinned']),
+    );
+  });
+
+  it('takes enumerations from the document types', () => {
+    const schema = buildDiagramSchema() as Schema;
+    expect(schema.definitions.node.properties.shape.enum).toEqual([...NODE_SHAPES]);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Module: src/lib/diagramSchema.ts
+ *
+ * JSON Schema (draft-07) for the .diagram format, built from the same
+ * constants the validator and the types use so the three cannot drift apart.
+ * `npm run generate:schema` writes it to schemas/diagram.schema.json, which the
+ * extension contributes to VS Code's JSON language service for *.diagram files.
+ *
+ * The schema describes the current format (CURRENT_SCHEMA_VERSION). Rules that
+ * JSON Schema cannot express, such as edges referencing existing node ids or
+ * unique ids, are checked by SchemaValidator and reported by DiagramDiagnostics.
+ */
+
+import {
+  ARROW_TYPES,
+  DEPLOYMENT_ENVIRONMENTS,
+  EDGE_ROUTINGS,
+  EDGE_STYLES,
+  FITNESS_RULE_SEVERITIES,
+  NODE_COLORS,
+  NODE_ICONS,
+  NODE_SHAPES,
+  NODE_TYPES,
+  PORT_SIDES,
+  SECURITY_CLASSIFICATIONS,
+  THEME_MODES,
+} from '../types/DiagramDocument';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+
+export const DIAGRAM_SCHEMA_ID = 'https://diagramflow.vscode/schema/diagram.schema.json';
+
+type JsonSchema = Record<string, unknown>;
+
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description && { description }) });
+const number = (description?: string): JsonSchema => ({ type: 'number', ...(description && { description }) });
+const boolean = (description?: string): JsonSchema => ({ type: 'boolean', ...(description && { description }) });
+const stringArray = (description?: string): JsonSchema => ({ type: 'array', items: string(), ...(description && { description }) });
+const oneOf = (values: readonly string[], description?: string): JsonSchema => ({
+  enum: [...values],
+  ...(description && { description }),
+});
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` });
+
+function object(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+const color: JsonSchema = {
+  type: 'string',
+  description: 'A built-in colour, a key of meta.theme.palette, or a hex colour such as "#1e88e5".',
+  examples: [...NODE_COLORS],
+};
+
+const point = object({ x: number(), y: number() }, ['x', 'y']);
+
+const swatch = object(
+  { fill: string('Fill colour.'), stroke: string('Border colour.'), text: string('Label colour.') },
+  ['fill', 'stroke', 'text'],
+);
+
+const DEFINITIONS: Record<string, JsonSchema> = {
+  meta: object(
+    {
+      version: string(`Schema version the file was written with. Current: ${CURRENT_SCHEMA_VERSION}.`),
+      title: { type: 'string', minLength: 1 },
+      description: string(),
+      created: { type: 'string', minLength: 1, description: 'ISO-8601 creation time.' },
+      modified: { type: 'string', minLength: 1, description: 'ISO-8601 time of the last change.' },
+      layoutDirection: oneOf(['TB', 'LR', 'BT', 'RL'], 'Last-used auto-layout direction.'),
+      abstractionLevel: oneOf(['context', 'container', 'component'], 'C4 abstraction level.'),
+      owners: stringArray('Teams or people responsible for the diagram.'),
+      glossary: { type: 'object', additionalProperties: string(), description: 'Domain term → meaning.' },
+      llmNotes: string('Persistent notes written by AI agents about this diagram.'),
+      theme: object({
+        name: string(),
+        mode: oneOf(THEME_MODES),
+        font: { type: 'string', minLength: 1 },
+        palette: {
+          type: 'object',
+          additionalProperties: object({ light: swatch, dark: swatch }),
+        },
+      }),
+      rules: { type: 'array', items: ref('fitnessRule'), description: 'Architecture fitness rules, checked on every change.' },
+    },
+    ['title', 'created', 'modified'],
+  ),
+  nodeMatcher: object({
+    node: string('Node id or label.'),
+    type: oneOf(NODE_TYPES),
+    tag: string(),
+    group: string('Group id or label; nodes in nested groups match too.'),
+    not: boolean('Select the nodes that do NOT match the other fields.'),
+  }),
+  fitnessRule: object(
+    {
+      id: { type: 'string', minLength: 1 },
+      description: { type: 'string', minLength: 1, description: 'The constraint in plain language.' },
+      from: { ...ref('nodeMatcher'), description: 'Source nodes of forbidden edges. Omitted = any node.' },
+      to: { ...ref('nodeMatcher'), description: 'Target nodes of forbidden edges. Omitted = any node.' },
+      protocol: string('Only forbid edges over this protocol.'),
+      severity: oneOf(FITNESS_RULE_SEVERITIES, 'error (default): agent tools refuse violating edges. warning: only reported.'),
+    },
+    ['id', 'description'],
+  ),
+  link: object(
+    {
+      file: {
+        type: 'string',
+        pattern: '\\.diagram(\\.svg)?$',
+        description: 'Diagram that shows this element in more detail, relative to this file.',
+      },
+      node: { type: 'string', minLength: 1, description: 'Id or label of the node to focus in the target diagram.' },
+    },
+    ['file'],
+  ),
+  port: object(
+    {
+      id: { type: 'string', minLength: 1 },
+      side: oneOf(PORT_SIDES),
+      offset: { type: 'number', minimum: 0, maximum: 1 },
+      label: string(),
+    },
+    ['id', 'side'],
+  ),
+  node: object(
+    {
+      id: { type: 'string', minLength: 1 },
+      label: string(),
+      x: number(),
+      y: number(),
+      width: { type: 'number', exclusiveMinimum: 0 },
+      height: { type: 'number', exclusiveMinimum: 0 },
+      shape: oneOf(NODE_SHAPES),
+      color,
+      pinned: boolean('When true auto-layout leaves the node in place.'),
+      notes: string(),
+      group: string('Id of the group the node belongs to.'),
+      type: oneOf(NODE_TYPES, 'C4-inspired component type.'),
+      icon: oneOf(NODE_ICONS),
+      tags: stringArray(),
+      properties: { type: 'object', description: 'Source-code linkage, ownership and other metadata.' },
+      securityClassification: oneOf(SECURITY_CLASSIFICATIONS),
+      deploymentEnvironment: oneOf(DEPLOYMENT_ENVIRONMENTS),
+      ports: { type: 'array', items: ref('port') },
+      layer: string('Id of the layer the node belongs to.'),
+      link: ref('link'),
+    },
+    ['id', 'label', 'x', 'y', 'width', 'height', 'shape', 'color', 'pinned'],
+  ),
+  edge: object(
+    {
+      id: { type: 'string', minLength: 1 },
+      source: string('Id of the source node.'),
+      target: string('Id of the target node.'),
+      label: string(),
+      style: oneOf(EDGE_STYLES),
+      arrow: oneOf(ARROW_TYPES),
+      animated: boolean(),
+      bidirectional: boolean(),
+      protocol: string(),
+      dataTypes: stringArray(),
+      sourcePort: string(),
+      targetPort: string(),
+      routing: oneOf(EDGE_ROUTINGS),
+      waypoints: { type: 'array', items: point },
+      layer: string(),
+    },
+    ['id', 'source', 'target', 'style', 'arrow'],
+  ),
+  group: object(
+    {
+      id: { type: 'string', minLength: 1 },
+      label: { type: 'string', minLength: 1 },
+      color,
+      x: number(),
+      y: number(),
+      collapsed: boolean(),
+      parent: string('Id of the enclosing group.'),
+      link: ref('link'),
+    },
+    ['id', 'label'],
+  ),
+  layer: object(
+    {
+      id: { type: 'string', minLength: 1 },
+      label: { type: 'string', minLength: 1 },
+      hidden: boolean(),
+      locked: boolean(),
+    },
+    ['id', 'label'],
+  ),
+  textElement: object(
+    {
+      id: string(),
+      x: number(),
+      y: number(),
+      width: number(),
+      height: number(),
+      content: string(),
+      fontSize: number(),
+      color: string(),
+      bold: boolean(),
+      italic: boolean(),
+      href: string(),
+      pinned: boolean(),
+      layer: string(),
+    },
+    ['id', 'x', 'y', 'width', 'height', 'content'],
+  ),
+  imageElement: object(
+    {
+      id: string(),
+      x: number(),
+      y: number(),
+      width: number(),
+      height: number(),
+      src: string('HTTP(S) URL or data URI.'),
+      description: string(),
+      href: string(),
+      pinned: boolean(),
+      layer: string(),
+    },
+    ['id', 'x', 'y', 'width', 'height', 'src'],
+  ),
+};
+
+/** Builds the JSON Schema shipped as schemas/diagram.schema.json. */
+export function buildDiagramSchema(): JsonSchema {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: DIAGRAM_SCHEMA_ID,
+    title: 'DiagramFlow diagram',
+    ...object(
+      {
+        meta: ref('meta'),
+        nodes: { type: 'array', items: ref('node') },
+        edges: { type: 'array', items: ref('edge') },
+        groups: { type: 'array', items: ref('group') },
+        layers: { type: 'array', items: ref('layer') },
+        textElements: { type: 'array', items: ref('textElement') },
+        imageElements: { type: 'array', items: ref('imageElement') },
+        viewport: object({ x: number(), y: number(), zoom: { type: 'number', exclusiveMinimum: 0 } }, ['x', 'y', 'zoom']),
+        agentContext: { type: 'object', description: 'Generated for AI agents on every change. Do not edit.' },
+      },
+      ['meta', 'nodes', 'edges'],
+    ),
+    definitions: DEFINITIONS,
+  };
+}
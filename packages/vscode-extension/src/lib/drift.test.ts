@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { collectDriftReferences, findDrift, findDriftAsync, summarizeDrift } from './drift';
+import type { DiagramDocument, DiagramNode } from '../types/DiagramDocument';
+
+function node(id: string, label: string, properties: DiagramNode['properties']): DiagramNode {
+  return { id, label, x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, properties };
+}
+
+function makeDoc(): DiagramDocument {
+  return {
+    meta: { title: 'Shop', created: '', modified: '' },
+    nodes: [
+      node('api', 'API', { entrypoint: 'src/api/main.ts', openapi: 'https://example.com/openapi.json' }),
+      node('web', 'Web', { openapi: 'specs/web.yaml', adr: ' docs/adr/0002.md ', team: 'Storefront' }),
+      node('db', 'DB', { entrypoint: '' }),
+    ],
+    edges: [],
+  };
+}
+
+describe('collectDriftReferences', () => {
+  it('lists file paths in entrypoint, openapi and adr, skipping URLs and blanks', () => {
+    expect(collectDriftReferences(makeDoc())).toEqual([
+      { nodeId: 'api', label: 'API', field: 'entrypoint', target: 'src/api/main.ts', path: 'nodes[0].properties.entrypoint' },
+      { nodeId: 'web', label: 'Web', field: 'openapi', target: 'specs/web.yaml', path: 'nodes[1].properties.openapi' },
+      { nodeId: 'web', label: 'Web', field: 'adr', target: 'docs/adr/0002.md', path: 'nodes[1].properties.adr' },
+    ]);
+  });
+});
+
+describe('findDrift', () => {
+  it('reports the references that do not exist as stale-reference warnings', () => {
+    const findings = findDrift(makeDoc(), (target) => target !== 'docs/adr/0002.md');
+    expect(findings).toEqual([
+      {
+        rule: 'stale-reference',
+        severity: 'warning',
+        message: '"Web" ADR not found: docs/adr/0002.md',
+        elementId: 'web',
+        path: 'nodes[1].properties.adr',
+      },
+    ]);
+  });
+});
+
+describe('findDriftAsync', () => {
+  it('reports the references an asynchronous check rejects', async () => {
+    const exists = vi.fn(async (target: string) => target !== 'specs/web.yaml');
+    const findings = await findDriftAsync(makeDoc(), exists);
+    expect(findings.map((f) => f.message)).toEqual(['"Web" OpenAPI spec not found: specs/web.yaml']);
+    expect(exists).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('summarizeDrift', () => {
+  it('summarises the findings in one insight', () => {
+    expect(summarizeDrift([])).toBeUndefined();
+    const summary = summarizeDrift(findDrift(makeDoc(), () => false));
+    expect(summary).toMatch(/^3 reference\(s\) to code or docs no longer resolve/);
+    expect(summary).toContain('"API" entrypoint not found: src/api/main.ts; "Web" OpenAPI spec not found: specs/web.yaml');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Module: src/lib/drift.ts
+ *
+ * Drift detection: node properties that point into the codebase
+ * (`entrypoint`, `openapi`, `adr`) but no longer resolve, because the file
+ * was deleted or moved. The host injects the check whether a path exists;
+ * this module lists the paths to check, words the findings and summarises
+ * them for the agent context.
+ *
+ * Findings have the shape of lint findings (rule `stale-reference`), so the
+ * Problems panel and the canvas badges show them next to the lint results.
+ *
+ * All functions are pure.
+ */
+
+import type { DiagramDocument } from '../types/DiagramDocument';
+import type { LintFinding } from './lint';
+
+export const DRIFT_FIELDS = ['entrypoint', 'openapi', 'adr'] as const;
+
+export type DriftField = (typeof DRIFT_FIELDS)[number];
+
+const FIELD_NAMES: Record<DriftField, string> = {
+  entrypoint: 'entrypoint',
+  openapi: 'OpenAPI spec',
+  adr: 'ADR',
+};
+
+export interface DriftReference {
+  nodeId: string;
+  label: string;
+  field: DriftField;
+  /** The path as written, relative to the repo root. */
+  target: string;
+  /** JSON path of the property, e.g. `nodes[2].properties.adr`. */
+  path: string;
+}
+
+/** `https://…` and similar; an OpenAPI spec may live on a server. */
+const URL_RE = /^[a-z][a-z\d+.-]*:\/\//i;
+
+/** File references in node properties. URLs are skipped: they cannot be checked offline. */
+export function collectDriftReferences(doc: DiagramDocument): DriftReference[] {
+  return doc.nodes.flatMap((node, i) =>
+    DRIFT_FIELDS.flatMap((field): DriftReference[] => {
+      const value = node.properties?.[field];
+      if (typeof value !== 'string') return [];
+      const target = value.trim();
+      if (!target || URL_RE.test(target)) return [];
+      return [{ nodeId: node.id, label: node.label, field, target, path: `nodes[${i}].properties.${field}` }];
+    }),
+  );
+}
+
+/** A `stale-reference` warning for every reference `exists` rejects. */
+export function findDrift(doc: DiagramDocument, exists: (target: string) => boolean): LintFinding[] {
+  return collectDriftReferences(doc)
+    .filter((ref) => !exists(ref.target))
+    .map((ref) => ({
+      rule: 'stale-reference',
+      severity: 'warning',
+      message: `"${ref.label}" ${FIELD_NAMES[ref.field]} not found: ${ref.target}`,
+      elementId: ref.nodeId,
+      path: ref.path,
+    }));
+}
+
+/**
+ * `findDrift` with an asynchronous existence check, for hosts that look paths
+ * up on a (virtual) file system. Each distinct path is checked once.
+ */
+export async function findDriftAsync(
+  doc: DiagramDocument,
+  exists: (target: string) => Promise<boolean>,
+): Promise<LintFinding[]> {
+  const targets = [...new Set(collectDriftReferences(doc).map((ref) => ref.target))];
+  const checked = await Promise.all(targets.map(async (target) => [target, await exists(target)] as const));
+  const missing = new Set(checked.filter(([, found]) => !found).map(([target]) => target));
+  return findDrift(doc, (target) => !missing.has(target));
+}
+
+/** One agent-context insight listing the stale references, or undefined when there are none. */
+export function summarizeDrift(findings: readonly LintFinding[]): string | undefined {
+  if (findings.length === 0) return undefined;
+  return (
+    `${findings.length} reference(s) to code or docs no longer resolve, so these parts of the diagram ` +
+    `may be out of date: ${findings.map((f) => f.message).join('; ')}.`
+  );
+}
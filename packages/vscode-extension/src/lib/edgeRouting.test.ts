@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeEdgeAnchor,
+  computeEdgeRoute,
+  computePortAnchor,
+  orthogonalizePoints,
+  polylineMidpoint,
+  resolveEdgePorts,
+} from './edgeRouting';
+
+const left = { x: 0, y: 0, width: 100, height: 40 };
+const right = { x: 300, y: 200, width: 100, height: 40 };
+
+describe('computeEdgeAnchor', () => {
+  it('picks the face on the dominant axis towards the point', () => {
+    expect(computeEdgeAnchor(left, { x: 500, y: 30 })).toEqual({ x: 100, y: 20, side: 'right' });
+    expect(computeEdgeAnchor(left, { x: -500, y: 30 })).toEqual({ x: 0, y: 20, side: 'left' });
+    expect(computeEdgeAnchor(left, { x: 60, y: 400 })).toEqual({ x: 50, y: 40, side: 'bottom' });
+    expect(computeEdgeAnchor(left, { x: 60, y: -400 })).toEqual({ x: 50, y: 0, side: 'top' });
+  });
+});
+
+describe('computePortAnchor', () => {
+  it('places the port along its side using the offset', () => {
+    expect(computePortAnchor(left, { side: 'top', offset: 0.25 })).toEqual({ x: 25, y: 0, side: 'top' });
+    expect(computePortAnchor(left, { side: 'right', offset: 1 })).toEqual({ x: 100, y: 40, side: 'right' });
+    expect(computePortAnchor(left, { side: 'bottom' })).toEqual({ x: 50, y: 40, side: 'bottom' });
+    expect(computePortAnchor(left, { side: 'left', offset: 2 })).toEqual({ x: 0, y: 40, side: 'left' });
+  });
+});
+
+describe('resolveEdgePorts', () => {
+  it('returns the referenced ports and ignores unknown ids', () => {
+    const ports = resolveEdgePorts(
+      { sourcePort: 'out', targetPort: 'missing' },
+      { ports: [{ id: 'out', side: 'right' }] },
+      { ports: [{ id: 'in', side: 'left' }] },
+    );
+    expect(ports).toEqual({ source: { id: 'out', side: 'right' }, target: undefined });
+  });
+});
+
+describe('orthogonalizePoints', () => {
+  it('splits a direct connection with a mid-line', () => {
+    const points = orthogonalizePoints([{ x: 0, y: 0 }, { x: 100, y: 50 }], 'right', 'left');
+    expect(points).toEqual([
+      { x: 0, y: 0 },
+      { x: 50, y: 0 },
+      { x: 50, y: 50 },
+      { x: 100, y: 50 },
+    ]);
+  });
+
+  it('produces only horizontal and vertical segments through waypoints', () => {
+    const points = orthogonalizePoints(
+      [{ x: 0, y: 0 }, { x: 40, y: 80 }, { x: 120, y: 30 }, { x: 200, y: 100 }],
+      'bottom',
+      'left',
+    );
+    for (let i = 1; i < points.length; i++) {
+      const axisAligned = points[i].x === points[i - 1].x || points[i].y === points[i - 1].y;
+      expect(axisAligned).toBe(true);
+    }
+    // Leaves the bottom face vertically and arrives at the left face horizontally.
+    expect(points[1].x).toBe(0);
+    expect(points[points.length - 2].y).toBe(100);
+  });
+
+  it('keeps already aligned points unchanged', () => {
+    const input = [{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 80, y: 50 }];
+    expect(orthogonalizePoints(input, 'bottom', 'left')).toEqual(input);
+  });
+});
+
+describe('polylineMidpoint', () => {
+  it('returns the point halfway along the polyline length', () => {
+    expect(polylineMidpoint([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }])).toEqual({ x: 100, y: 0 });
+    expect(polylineMidpoint([{ x: 0, y: 0 }, { x: 10, y: 0 }])).toEqual({ x: 5, y: 0 });
+  });
+});
+
+describe('computeEdgeRoute', () => {
+  it('draws straight segments through every waypoint', () => {
+    const route = computeEdgeRoute(left, right, 'straight', [{ x: 200, y: 20 }]);
+    expect(route.points).toEqual([
+      { x: 100, y: 20 },
+      { x: 200, y: 20 },
+      { x: 350, y: 200 },
+    ]);
+    expect(route.path).toBe('M 100 20 L 200 20 L 350 200');
+  });
+
+  it('defaults to orthogonal routing', () => {
+    const route = computeEdgeRoute(left, right);
+    expect(route.path.startsWith('M 100 20 L')).toBe(true);
+    expect(route.points).toHaveLength(4);
+  });
+
+  it('draws a cubic curve through waypoints when curved', () => {
+    const route = computeEdgeRoute(left, right, 'curved', [{ x: 200, y: 100 }]);
+    expect(route.path.match(/C /g)).toHaveLength(2);
+    expect(route.path.endsWith('300 220')).toBe(true);
+  });
+
+  it('anchors at the faces pointing to the nearest waypoint', () => {
+    const route = computeEdgeRoute(left, right, 'straight', [{ x: 50, y: 300 }, { x: 350, y: 400 }]);
+    expect(route.points[0]).toEqual({ x: 50, y: 40 });
+    expect(route.points[route.points.length - 1]).toEqual({ x: 350, y: 240 });
+  });
+
+  it('starts and ends at named ports', () => {
+    const route = computeEdgeRoute(left, right, 'straight', [], {
+      source: { side: 'bottom', offset: 0.25 },
+      target: { side: 'left' },
+    });
+    expect(route.points).toEqual([
+      { x: 25, y: 40 },
+      { x: 300, y: 220 },
+    ]);
+  });
+});
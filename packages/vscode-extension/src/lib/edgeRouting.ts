@@ -0,0 +1,252 @@
+/**
+ * Module: src/lib/edgeRouting.ts
+ *
+ * Edge geometry shared by the canvas and the SVG exporters so a routed edge
+ * looks the same everywhere. An edge leaves its source from its named port, or
+ * otherwise from the face that is closest to the next point on its route (the
+ * first waypoint, or the target), passes through every manual waypoint and
+ * enters the target the same way.
+ *
+ * All functions are pure; coordinates are absolute canvas coordinates.
+ */
+
+import type {
+  DiagramEdge,
+  DiagramNode,
+  EdgePoint,
+  EdgeRouting,
+  NodePort,
+  PortSide,
+} from '../types/DiagramDocument';
+
+export type EdgeSide = PortSide;
+
+export interface EdgeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface EdgeAnchor extends EdgePoint {
+  side: EdgeSide;
+}
+
+export interface EdgePorts {
+  source?: Pick<NodePort, 'side' | 'offset'>;
+  target?: Pick<NodePort, 'side' | 'offset'>;
+}
+
+export interface EdgeRoute {
+  /** Polyline through the anchors, waypoints and (for orthogonal) inserted bends. */
+  points: EdgePoint[];
+  /** SVG path data for the route. */
+  path: string;
+  /** Position for the edge label, halfway along the route. */
+  label: EdgePoint;
+}
+
+function center(rect: EdgeRect): EdgePoint {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+function isHorizontalSide(side: EdgeSide): boolean {
+  return side === 'left' || side === 'right';
+}
+
+/**
+ * Returns the midpoint of the rect face that points towards `toward`, using
+ * the dominant axis of the vector between the rect center and the point.
+ */
+export function computeEdgeAnchor(rect: EdgeRect, toward: EdgePoint): EdgeAnchor {
+  const c = center(rect);
+  const dx = toward.x - c.x;
+  const dy = toward.y - c.y;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0
+      ? { x: rect.x + rect.width, y: c.y, side: 'right' }
+      : { x: rect.x, y: c.y, side: 'left' };
+  }
+  return dy >= 0
+    ? { x: c.x, y: rect.y + rect.height, side: 'bottom' }
+    : { x: c.x, y: rect.y, side: 'top' };
+}
+
+/** Returns the absolute position of a named port on the rect. */
+export function computePortAnchor(rect: EdgeRect, port: Pick<NodePort, 'side' | 'offset'>): EdgeAnchor {
+  const t = Math.min(Math.max(port.offset ?? 0.5, 0), 1);
+  switch (port.side) {
+    case 'top':
+      return { x: rect.x + rect.width * t, y: rect.y, side: 'top' };
+    case 'bottom':
+      return { x: rect.x + rect.width * t, y: rect.y + rect.height, side: 'bottom' };
+    case 'left':
+      return { x: rect.x, y: rect.y + rect.height * t, side: 'left' };
+    case 'right':
+      return { x: rect.x + rect.width, y: rect.y + rect.height * t, side: 'right' };
+  }
+}
+
+/** Looks up the ports an edge references on its endpoint nodes (if any). */
+export function resolveEdgePorts(
+  edge: Pick<DiagramEdge, 'sourcePort' | 'targetPort'>,
+  source: Pick<DiagramNode, 'ports'>,
+  target: Pick<DiagramNode, 'ports'>,
+): EdgePorts {
+  return {
+    source: edge.sourcePort ? source.ports?.find((p) => p.id === edge.sourcePort) : undefined,
+    target: edge.targetPort ? target.ports?.find((p) => p.id === edge.targetPort) : undefined,
+  };
+}
+
+/**
+ * Inserts right-angle bends so every segment is horizontal or vertical.
+ * The first segment leaves along the source face normal and the last one
+ * arrives along the target face normal; segments in between alternate.
+ */
+export function orthogonalizePoints(
+  points: EdgePoint[],
+  sourceSide: EdgeSide,
+  targetSide: EdgeSide,
+): EdgePoint[] {
+  if (points.length < 2) return [...points];
+
+  const result: EdgePoint[] = [points[0]];
+  let lastHorizontal = isHorizontalSide(sourceSide);
+  const lastIndex = points.length - 2;
+
+  for (let i = 0; i <= lastIndex; i++) {
+    const p = points[i];
+    const q = points[i + 1];
+
+    if (p.x === q.x || p.y === q.y) {
+      result.push(q);
+      lastHorizontal = p.y === q.y;
+      continue;
+    }
+
+    if (i === 0 && i === lastIndex) {
+      // Direct connection: split the gap with a mid-line, like a smooth-step edge.
+      if (isHorizontalSide(sourceSide)) {
+        const midX = (p.x + q.x) / 2;
+        result.push({ x: midX, y: p.y }, { x: midX, y: q.y }, q);
+        lastHorizontal = true;
+      } else {
+        const midY = (p.y + q.y) / 2;
+        result.push({ x: p.x, y: midY }, { x: q.x, y: midY }, q);
+        lastHorizontal = false;
+      }
+      continue;
+    }
+
+    let horizontalFirst: boolean;
+    if (i === 0) {
+      horizontalFirst = isHorizontalSide(sourceSide);
+    } else if (i === lastIndex) {
+      // Arrive along the target face normal.
+      horizontalFirst = !isHorizontalSide(targetSide);
+    } else {
+      horizontalFirst = !lastHorizontal;
+    }
+
+    result.push(horizontalFirst ? { x: q.x, y: p.y } : { x: p.x, y: q.y }, q);
+    lastHorizontal = !horizontalFirst;
+  }
+
+  return result;
+}
+
+function linePath(points: EdgePoint[]): string {
+  return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+}
+
+const SIDE_NORMALS: Record<EdgeSide, EdgePoint> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+};
+
+/**
+ * Builds a smooth curve through every point (Catmull-Rom converted to cubic
+ * Béziers). A direct connection bends out of the source face and into the
+ * target face, matching React Flow's bezier edge.
+ */
+function curvePath(points: EdgePoint[], sourceSide: EdgeSide, targetSide: EdgeSide): string {
+  const [first] = points;
+  if (points.length === 2) {
+    const last = points[1];
+    const offset = Math.max(Math.hypot(last.x - first.x, last.y - first.y) / 2, 20);
+    const sn = SIDE_NORMALS[sourceSide];
+    const tn = SIDE_NORMALS[targetSide];
+    return `M ${first.x} ${first.y} C ${first.x + sn.x * offset} ${first.y + sn.y * offset} ${last.x + tn.x * offset} ${last.y + tn.y * offset} ${last.x} ${last.y}`;
+  }
+
+  let path = `M ${first.x} ${first.y}`;
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[Math.max(i - 1, 0)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(i + 2, points.length - 1)];
+    const c1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+    const c2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+    path += ` C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${p2.x} ${p2.y}`;
+  }
+  return path;
+}
+
+/** Returns the point halfway along a polyline, measured by length. */
+export function polylineMidpoint(points: EdgePoint[]): EdgePoint {
+  if (points.length === 0) return { x: 0, y: 0 };
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t,
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+}
+
+/**
+ * Computes the full route of an edge between two node rects.
+ * `routing` defaults to 'orthogonal'; `waypoints` are visited in order and
+ * `ports` pin either end to a named port instead of the closest face.
+ */
+export function computeEdgeRoute(
+  source: EdgeRect,
+  target: EdgeRect,
+  routing: EdgeRouting = 'orthogonal',
+  waypoints: EdgePoint[] = [],
+  ports: EdgePorts = {},
+): EdgeRoute {
+  const sourcePort = ports.source ? computePortAnchor(source, ports.source) : undefined;
+  const targetPort = ports.target ? computePortAnchor(target, ports.target) : undefined;
+  const start = sourcePort
+    ?? computeEdgeAnchor(source, waypoints[0] ?? targetPort ?? center(target));
+  const end = targetPort
+    ?? computeEdgeAnchor(target, waypoints[waypoints.length - 1] ?? start);
+  const through: EdgePoint[] = [
+    { x: start.x, y: start.y },
+    ...waypoints.map((w) => ({ x: w.x, y: w.y })),
+    { x: end.x, y: end.y },
+  ];
+
+  if (routing === 'curved') {
+    return {
+      points: through,
+      path: curvePath(through, start.side, end.side),
+      label: polylineMidpoint(through),
+    };
+  }
+
+  const points = routing === 'orthogonal'
+    ? orthogonalizePoints(through, start.side, end.side)
+    : through;
+  return { points, path: linePath(points), label: polylineMidpoint(points) };
+}
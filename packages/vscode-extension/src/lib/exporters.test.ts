@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { exportToMermaid, exportToSVG, buildDocumentSvg } from './exporters';
 import { extractDiagramFromSvg } from './svgMetadata';
+import { NODE_ICON_PATHS } from './nodeIcons';
 import type { DiagramDocument } from '../types/DiagramDocument';
 
 function makeDoc(): DiagramDocument {
@@ -88,6 +89,22 @@ describe('exportToMermaid', () => {
     expect(result).toContain('n1{Client}');
   });
 
+  it('should use the matching syntax for the extended shapes', () => {
+    const doc = makeDoc();
+    const expected: [DiagramDocument['nodes'][number]['shape'], string][] = [
+      ['hexagon', 'n1{{Client}}'],
+      ['parallelogram', 'n1[/Client/]'],
+      ['actor', 'n1((Client))'],
+      ['cloud', 'n1@{ shape: cloud, label: "Client" }'],
+      ['document', 'n1@{ shape: doc, label: "Client" }'],
+      ['queue', 'n1@{ shape: h-cyl, label: "Client" }'],
+    ];
+    for (const [shape, syntax] of expected) {
+      doc.nodes[0].shape = shape;
+      expect(exportToMermaid(doc)).toContain(syntax);
+    }
+  });
+
   it('should handle edges without labels', () => {
     const doc = makeDoc();
     doc.edges[0].label = undefined;
@@ -172,6 +189,15 @@ describe('exportToSVG', () => {
     const result = exportToSVG(makeDoc());
     expect(result).toContain('rx="8"');
   });
+
+  it('should route edges with waypoints through their bend points', () => {
+    const doc = makeDoc();
+    doc.edges[0].routing = 'straight';
+    doc.edges[0].waypoints = [{ x: 240, y: 100 }];
+    const result = exportToSVG(doc);
+    // offset: -minX + 40 = -40, -minY + 40 = -60 (waypoint y=100 is the new minY)
+    expect(result).toContain('<path d="M 100 140 L 200 40 L 260 164"');
+  });
 });
 
 describe('buildDocumentSvg', () => {
@@ -183,6 +209,36 @@ describe('buildDocumentSvg', () => {
     expect(svg).toContain('</svg>');
   });
 
+  it('should embed the node icon, defaulting to the icon for the node type', () => {
+    const doc = makeDoc();
+    doc.nodes[0].type = 'Cache';
+    doc.nodes[1].icon = 'lock';
+    const svg = buildDocumentSvg(doc);
+    expect(svg).toContain(`<path d="${NODE_ICON_PATHS.bolt}"/>`);
+    expect(svg).toContain(`<path d="${NODE_ICON_PATHS.lock}"/>`);
+    expect(svg).not.toContain(NODE_ICON_PATHS.database);
+  });
+
+  it('should render from the diagram theme', () => {
+    const doc = makeDoc();
+    doc.meta.theme = { mode: 'light', font: 'Inter', palette: { brand: { dark: { fill: '#102030', stroke: '#405060', text: '#fff' } } } };
+    doc.nodes[0].color = 'brand';
+    doc.nodes[1].color = '#1e88e5';
+    const svg = buildDocumentSvg(doc);
+    expect(svg).toContain('font-family="Inter"');
+    expect(svg).toMatch(/<rect x="[^"]+" y="[^"]+" width="[^"]+" height="[^"]+" fill="#ffffff"\/>/);
+    // A palette entry without a light swatch falls back to its dark one.
+    expect(svg).toContain('fill="#102030" stroke="#405060"');
+    expect(svg).toContain('fill="#1e88e5"');
+  });
+
+  it('should draw outline shapes as paths', () => {
+    const doc = makeDoc();
+    doc.nodes[0].shape = 'hexagon';
+    const svg = buildDocumentSvg(doc);
+    expect(svg).toContain('<path d="M 14.4 0 L 105.6 0 L 120 24 L 105.6 48 L 14.4 48 L 0 24 Z"');
+  });
+
   it('should embed parseable diagram JSON without XML-escaping quotes', () => {
     const doc = makeDoc();
     const svg = buildDocumentSvg(doc);
@@ -229,6 +285,45 @@ describe('buildDocumentSvg', () => {
     expect(svg).toContain('id="edge-layer"');
   });
 
+  it('draws edges with waypoints as a routed path honoring the bend points', () => {
+    const doc = makeDoc();
+    doc.edges[0].routing = 'straight';
+    doc.edges[0].waypoints = [{ x: 240, y: 100 }];
+    const svg = buildDocumentSvg(doc);
+    expect(svg).toContain('<path d="M 140 200 L 240 100 L 300 224"');
+    // Plain edges keep the straight center-to-center line.
+    expect(svg).toContain('<line x1="380"');
+  });
+
+  it('attaches edges with ports to the port positions', () => {
+    const doc = makeDoc();
+    doc.nodes[0].ports = [{ id: 'out', side: 'right', offset: 0.25 }];
+    doc.nodes[1].ports = [{ id: 'in', side: 'left' }];
+    doc.edges[0].sourcePort = 'out';
+    doc.edges[0].targetPort = 'in';
+    const svg = buildDocumentSvg(doc);
+    // Default orthogonal routing from (200,212) to (300,224).
+    expect(svg).toContain('<path d="M 200 212 L 250 212 L 250 224 L 300 224"');
+  });
+
+  it('skips elements on hidden layers but keeps them in the embedded JSON', () => {
+    const doc = makeDoc();
+    doc.layers = [{ id: 'l1', label: 'Annotations', hidden: true }];
+    doc.nodes[0].layer = 'l1';
+    const svg = buildDocumentSvg(doc);
+    expect(svg).not.toContain('translate(80,200)');
+    expect(JSON.parse(extractDiagramFromSvg(svg)!).nodes).toHaveLength(doc.nodes.length);
+    // An explicit visible set overrides the hidden flag.
+    expect(buildDocumentSvg(doc, { visibleLayers: ['l1'] })).toContain('translate(80,200)');
+  });
+
+  it('expands the viewBox to include waypoints', () => {
+    const doc = makeDoc();
+    doc.edges[0].waypoints = [{ x: 240, y: 0 }];
+    const svg = buildDocumentSvg(doc);
+    expect(svg).toContain('viewBox="40 -40 660 328"');
+  });
+
   it('renders group-layer element', () => {
     const svg = buildDocumentSvg(makeDoc());
     expect(svg).toContain('id="group-layer"');
@@ -276,4 +371,29 @@ describe('buildDocumentSvg', () => {
     expect(svg).toContain('<svg');
     expect(svg).toContain('Empty Group');
   });
+
+  it('renders nested groups after their parent so they paint on top', () => {
+    const doc = makeDoc();
+    doc.groups = [
+      { id: 'inner', label: 'Subnet', parent: 'outer' },
+      { id: 'outer', label: 'VPC' },
+    ];
+    doc.nodes[1].group = 'inner';
+    const svg = buildDocumentSvg(doc);
+    expect(svg).toContain('id="group-outer"');
+    expect(svg).toContain('id="group-inner"');
+    expect(svg.indexOf('id="group-outer"')).toBeLessThan(svg.indexOf('id="group-inner"'));
+  });
+
+  it('keeps each group label aligned with its own box when an earlier group is empty', () => {
+    const doc = makeDoc();
+    doc.groups = [
+      { id: 'g-empty', label: 'Nothing here' },
+      { id: 'g1', label: 'Backend' },
+    ];
+    doc.nodes[1].group = 'g1';
+    const svg = buildDocumentSvg(doc);
+    expect(svg).not.toContain('id="group-g-empty"');
+    expect(svg).toMatch(/<g id="group-g1">\n.*\n.*>Backend<\/text>/);
+  });
 });
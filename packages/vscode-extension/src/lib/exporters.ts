@@ -1,18 +1,14 @@
-import type { DiagramDocument, DiagramGroup, DiagramNode, NodeShape, EdgeStyle, ArrowType, TextElement, ImageElement } from '../types/DiagramDocument';
-import { GROUP_PADDING, GROUP_LABEL_HEIGHT, GROUP_MIN_WIDTH, GROUP_MIN_HEIGHT, DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from '../types/DiagramDocument';
+import type { DiagramDocument, DiagramEdge, DiagramGroup, DiagramNode, DiagramTheme, NodeShape, EdgeStyle, ArrowType, TextElement, ImageElement, ThemeSwatch } from '../types/DiagramDocument';
+import { GROUP_LABEL_HEIGHT, GROUP_MIN_WIDTH, GROUP_MIN_HEIGHT } from '../types/DiagramDocument';
+import { computeGroupBounds, sortGroupsParentFirst, type GroupBox } from './groupHierarchy';
+import { computeEdgeRoute, resolveEdgePorts } from './edgeRouting';
+import { filterDocumentByLayers, type LayerFilterOptions } from './layers';
+import { nodeLabelY, nodeOutlinePath } from './nodeShapes';
+import { buildNodeIconSvg, resolveNodeIcon } from './nodeIcons';
+import { resolveColor, resolveGroupColor, resolveTheme, type ResolvedTheme } from './theme';
 
 const DIAGRAM_NS = 'https://diagramflow.vscode/schema';
 
-const NODE_FILL_COLORS: Record<string, { fill: string; stroke: string; text: string }> = {
-  default: { fill: '#2d2d2d', stroke: '#555', text: '#ccc' },
-  blue: { fill: '#1e3a5f', stroke: '#4a90d9', text: '#90c4f9' },
-  green: { fill: '#1a3a1a', stroke: '#4a9a4a', text: '#90d490' },
-  red: { fill: '#3a1a1a', stroke: '#c84040', text: '#f09090' },
-  yellow: { fill: '#3a3a1a', stroke: '#c8a840', text: '#f0d490' },
-  purple: { fill: '#2a1a3a', stroke: '#8040c8', text: '#c090f0' },
-  gray: { fill: '#333', stroke: '#666', text: '#aaa' },
-};
-
 export function escapeXml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
@@ -52,6 +48,18 @@ function mermaidNodeShape(id: string, label: string, shape: NodeShape): string {
       return `${id}{${escaped}}`;
     case 'cylinder':
       return `${id}[(${escaped})]`;
+    case 'hexagon':
+      return `${id}{{${escaped}}}`;
+    case 'parallelogram':
+      return `${id}[/${escaped}/]`;
+    case 'actor':
+      return `${id}((${escaped}))`;
+    case 'cloud':
+      return `${id}@{ shape: cloud, label: "${escaped}" }`;
+    case 'document':
+      return `${id}@{ shape: doc, label: "${escaped}" }`;
+    case 'queue':
+      return `${id}@{ shape: h-cyl, label: "${escaped}" }`;
     case 'rectangle':
     default:
       return `${id}[${escaped}]`;
@@ -73,6 +81,18 @@ function mermaidArrow(style: EdgeStyle, arrow: ArrowType): string {
   return `${lineMap[style]}${headMap[arrow]}`;
 }
 
+/**
+ * True when an edge carries explicit geometry (a routing mode, waypoints or
+ * named ports). Such edges are drawn as a routed path; plain edges keep the
+ * straight center-to-center line.
+ */
+function hasRoutedGeometry(edge: DiagramEdge): boolean {
+  return edge.routing !== undefined
+    || (edge.waypoints?.length ?? 0) > 0
+    || edge.sourcePort !== undefined
+    || edge.targetPort !== undefined;
+}
+
 function escapeLabel(label: string): string {
   return label.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
 }
@@ -92,6 +112,12 @@ export function exportToSVG(doc: DiagramDocument): string {
     maxX = Math.max(maxX, el.x + el.width);
     maxY = Math.max(maxY, el.y + el.height);
   }
+  for (const point of doc.edges.flatMap((e) => e.waypoints ?? [])) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
 
   if (allElements.length === 0) { minX = 0; minY = 0; maxX = 200; maxY = 100; }
 
@@ -107,6 +133,18 @@ export function exportToSVG(doc: DiagramDocument): string {
     const source = doc.nodes.find((n) => n.id === edge.source);
     const target = doc.nodes.find((n) => n.id === edge.target);
     if (!source || !target) return '';
+    if (hasRoutedGeometry(edge)) {
+      const shift = (r: { x: number; y: number; width: number; height: number }) =>
+        ({ x: r.x + offsetX, y: r.y + offsetY, width: r.width, height: r.height });
+      const route = computeEdgeRoute(
+        shift(source),
+        shift(target),
+        edge.routing,
+        edge.waypoints?.map((w) => ({ x: w.x + offsetX, y: w.y + offsetY })),
+        resolveEdgePorts(edge, source, target),
+      );
+      return renderSVGRoutedEdge(route.path, route.label, edge.label, edge.style);
+    }
     return renderSVGEdge(
       source.x + offsetX + source.width / 2, source.y + offsetY + source.height / 2,
       target.x + offsetX + target.width / 2, target.y + offsetY + target.height / 2,
@@ -129,10 +167,14 @@ export function exportToSVG(doc: DiagramDocument): string {
 
 function renderSVGNode(x: number, y: number, w: number, h: number, label: string, shape: NodeShape): string {
   const rx = shape === 'rounded' ? 8 : 0;
+  const outline = nodeOutlinePath(shape, w, h);
+  const body = outline
+    ? `<path d="${outline}" fill="#f8f9fa" stroke="#333" stroke-width="1.5"/>`
+    : `<rect width="${w}" height="${h}" rx="${rx}" fill="#f8f9fa" stroke="#333" stroke-width="1.5"/>`;
   return [
     `  <g transform="translate(${x},${y})">`,
-    `    <rect width="${w}" height="${h}" rx="${rx}" fill="#f8f9fa" stroke="#333" stroke-width="1.5"/>`,
-    `    <text x="${w / 2}" y="${h / 2}" text-anchor="middle" dominant-baseline="central" font-size="12" fill="#333">${escapeXml(label)}</text>`,
+    `    ${body}`,
+    `    <text x="${w / 2}" y="${nodeLabelY(shape, h)}" text-anchor="middle" dominant-baseline="central" font-size="12" fill="#333">${escapeXml(label)}</text>`,
     '  </g>',
   ].join('\n');
 }
@@ -148,59 +190,59 @@ function renderSVGEdge(x1: number, y1: number, x2: number, y2: number, label: st
   return parts.join('\n');
 }
 
+function renderSVGRoutedEdge(
+  path: string,
+  labelAt: { x: number; y: number },
+  label: string | undefined,
+  style: EdgeStyle,
+): string {
+  const dasharray = style === 'dashed' ? ' stroke-dasharray="8,4"' : style === 'dotted' ? ' stroke-dasharray="3,3"' : '';
+  const parts = [`  <path d="${path}" fill="none" stroke="#333" stroke-width="1.5"${dasharray} marker-end="url(#arrowhead)"/>`];
+  if (label) {
+    parts.push(`  <text x="${labelAt.x}" y="${labelAt.y - 8}" text-anchor="middle" font-size="10" fill="#666">${escapeXml(label)}</text>`);
+  }
+  return parts.join('\n');
+}
+
 // ---------------------------------------------------------------------------
 // buildDocumentSvg — dark-theme SVG with embedded JSON (used for .diagram.svg)
 // ---------------------------------------------------------------------------
 
-/** Computes the bounding box of a group's children, including GROUP_PADDING. */
+/**
+ * Computes the box of a group's content (child nodes and nested sub-groups),
+ * including GROUP_PADDING. Empty groups fall back to their stored position.
+ */
 function computeGroupBox(
   group: DiagramGroup,
+  groups: DiagramGroup[],
   nodes: DiagramNode[],
-): { x: number; y: number; width: number; height: number } | null {
-  const children = nodes.filter((n) => n.group === group.id);
-  if (children.length === 0) {
-    // Empty group: use stored position if available.
-    if (group.x !== undefined && group.y !== undefined) {
-      return { x: group.x, y: group.y, width: GROUP_MIN_WIDTH, height: GROUP_MIN_HEIGHT };
-    }
-    return null;
+): GroupBox | null {
+  const bounds = computeGroupBounds(groups, nodes, group.id);
+  if (bounds) return bounds;
+  // Empty group: use stored position if available.
+  if (group.x !== undefined && group.y !== undefined) {
+    return { x: group.x, y: group.y, width: GROUP_MIN_WIDTH, height: GROUP_MIN_HEIGHT };
   }
-  const minX = Math.min(...children.map((n) => n.x));
-  const minY = Math.min(...children.map((n) => n.y));
-  const maxX = Math.max(...children.map((n) => n.x + (n.width > 0 ? n.width : DEFAULT_NODE_WIDTH)));
-  const maxY = Math.max(...children.map((n) => n.y + (n.height > 0 ? n.height : DEFAULT_NODE_HEIGHT)));
-  return {
-    x: minX - GROUP_PADDING,
-    y: minY - GROUP_PADDING - GROUP_LABEL_HEIGHT,
-    width: Math.max(maxX - minX + 2 * GROUP_PADDING, GROUP_MIN_WIDTH),
-    height: Math.max(maxY - minY + 2 * GROUP_PADDING + GROUP_LABEL_HEIGHT, GROUP_MIN_HEIGHT),
-  };
+  return null;
 }
 
-const GROUP_FILL_COLORS: Record<string, { fill: string; stroke: string; text: string }> = {
-  default: { fill: 'rgba(60,60,60,0.4)', stroke: '#666', text: '#999' },
-  blue: { fill: 'rgba(30,58,95,0.4)', stroke: '#4a90d9', text: '#90c4f9' },
-  green: { fill: 'rgba(26,58,26,0.4)', stroke: '#4a9a4a', text: '#90d490' },
-  red: { fill: 'rgba(58,26,26,0.4)', stroke: '#c84040', text: '#f09090' },
-  yellow: { fill: 'rgba(58,58,26,0.4)', stroke: '#c8a840', text: '#f0d490' },
-  purple: { fill: 'rgba(42,26,58,0.4)', stroke: '#8040c8', text: '#c090f0' },
-  gray: { fill: 'rgba(51,51,51,0.4)', stroke: '#666', text: '#aaa' },
-};
-
 /**
  * Builds a standalone SVG document for a diagram that:
- *  1. Renders the diagram visually with a dark VS Code–like theme.
+ *  1. Renders the diagram with its `meta.theme` (dark VS Code–like by default).
  *  2. Embeds the full DiagramDocument JSON in a `<metadata>` element so
  *     DiagramFlow can re-open the SVG without any data loss.
  *
- * This is the primary format for `.diagram.svg` files.
+ * This is the primary format for `.diagram.svg` files. Elements on hidden
+ * layers (or outside `options.visibleLayers`) are not drawn.
  */
-export function buildDocumentSvg(doc: DiagramDocument): string {
+export function buildDocumentSvg(doc: DiagramDocument, options: LayerFilterOptions = {}): string {
   const pad = 40;
+  // Only visible layers are drawn; the embedded JSON always keeps the full document.
+  const view = filterDocumentByLayers(doc, options);
   const allPositioned = [
-    ...doc.nodes,
-    ...(doc.textElements ?? []),
-    ...(doc.imageElements ?? []),
+    ...view.nodes,
+    ...(view.textElements ?? []),
+    ...(view.imageElements ?? []),
   ];
 
   let minX = Infinity, minY = Infinity, maxRight = -Infinity, maxBottom = -Infinity;
@@ -213,17 +255,27 @@ export function buildDocumentSvg(doc: DiagramDocument): string {
 
   // Expand bounding box to include group containers (they extend beyond their child nodes
   // by GROUP_PADDING on all sides and GROUP_LABEL_HEIGHT above).
-  const groupBoxes = (doc.groups ?? [])
-    .map((g) => computeGroupBox(g, doc.nodes))
-    .filter((b): b is NonNullable<typeof b> => b !== null);
+  // Parents come first so nested containers paint on top of their enclosing group.
+  const groups = view.groups ?? [];
+  const groupBoxes = sortGroupsParentFirst(groups)
+    .map((group) => ({ group, box: computeGroupBox(group, groups, view.nodes) }))
+    .filter((entry): entry is { group: DiagramGroup; box: GroupBox } => entry.box !== null);
 
-  for (const box of groupBoxes) {
+  for (const { box } of groupBoxes) {
     minX = Math.min(minX, box.x);
     minY = Math.min(minY, box.y);
     maxRight = Math.max(maxRight, box.x + box.width);
     maxBottom = Math.max(maxBottom, box.y + box.height);
   }
 
+  // Manual bend points may lie outside every node and group.
+  for (const point of view.edges.flatMap((e) => e.waypoints ?? [])) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxRight = Math.max(maxRight, point.x);
+    maxBottom = Math.max(maxBottom, point.y);
+  }
+
   if (allPositioned.length === 0 && groupBoxes.length === 0) {
     minX = 0; minY = 0; maxRight = 400; maxBottom = 200;
   }
@@ -233,13 +285,14 @@ export function buildDocumentSvg(doc: DiagramDocument): string {
   const vbW = maxRight - minX + pad * 2;
   const vbH = maxBottom - minY + pad * 2;
 
-  const nodeMap = new Map(doc.nodes.map((n) => [n.id, n]));
+  const nodeMap = new Map(view.nodes.map((n) => [n.id, n]));
+  const theme = resolveTheme(doc.meta.theme);
 
-  const groupSvg = buildGroupsSvgDark(doc.groups ?? [], groupBoxes);
-  const edgeSvg = buildEdgesSvgDark(doc.edges, nodeMap);
-  const nodeSvg = buildNodesSvgDark(doc.nodes);
-  const textSvg = buildTextElementsSvg(doc.textElements ?? []);
-  const imageSvg = buildImageElementsSvg(doc.imageElements ?? []);
+  const groupSvg = buildGroupsSvg(groupBoxes, doc.meta.theme);
+  const edgeSvg = buildEdgesSvg(view.edges, nodeMap, theme);
+  const nodeSvg = buildNodesSvg(view.nodes, doc.meta.theme);
+  const textSvg = buildTextElementsSvg(view.textElements ?? [], theme);
+  const imageSvg = buildImageElementsSvg(view.imageElements ?? []);
 
   // Only escape &, < and > in element text content — " does not need escaping there
   // and over-escaping with &quot; would break round-trip parsing via regex + JSON.parse.
@@ -247,12 +300,12 @@ export function buildDocumentSvg(doc: DiagramDocument): string {
   const metadataXml = `<metadata><diagramflow:source xmlns:diagramflow="${DIAGRAM_NS}">${jsonData}</diagramflow:source></metadata>`;
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vbX} ${vbY} ${vbW} ${vbH}" width="${vbW}" height="${vbH}">
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vbX} ${vbY} ${vbW} ${vbH}" width="${vbW}" height="${vbH}" font-family="${escapeXml(theme.font)}">
 ${metadataXml}
-<rect x="${vbX}" y="${vbY}" width="${vbW}" height="${vbH}" fill="#1e1e1e"/>
+<rect x="${vbX}" y="${vbY}" width="${vbW}" height="${vbH}" fill="${theme.background}"/>
 <defs>
-  <marker id="arrow-normal" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polygon points="0 0, 10 3.5, 0 7" fill="#888"/></marker>
-  <marker id="arrow-open" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polyline points="0 0, 10 3.5, 0 7" fill="none" stroke="#888" stroke-width="1.5"/></marker>
+  <marker id="arrow-normal" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polygon points="0 0, 10 3.5, 0 7" fill="${theme.edge}"/></marker>
+  <marker id="arrow-open" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polyline points="0 0, 10 3.5, 0 7" fill="none" stroke="${theme.edge}" stroke-width="1.5"/></marker>
 </defs>
 <g id="group-layer">${groupSvg}</g>
 <g id="edge-layer">${edgeSvg}</g>
@@ -262,14 +315,9 @@ ${metadataXml}
 </svg>`;
 }
 
-function buildGroupsSvgDark(
-  groups: DiagramGroup[],
-  boxes: { x: number; y: number; width: number; height: number }[],
-): string {
-  return groups.map((group, i) => {
-    const box = boxes[i];
-    if (!box) return '';
-    const colors = GROUP_FILL_COLORS[group.color ?? 'default'] ?? GROUP_FILL_COLORS.default;
+function buildGroupsSvg(entries: { group: DiagramGroup; box: GroupBox }[], theme: DiagramTheme | undefined): string {
+  return entries.map(({ group, box }) => {
+    const colors = resolveGroupColor(group.color, theme);
     return [
       `<g id="group-${escapeXml(group.id)}">`,
       `  <rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="8" ry="8" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="1.5" stroke-dasharray="6,3"/>`,
@@ -279,9 +327,10 @@ function buildGroupsSvgDark(
   }).join('\n');
 }
 
-function buildEdgesSvgDark(
+function buildEdgesSvg(
   edges: DiagramDocument['edges'],
   nodeMap: Map<string, DiagramDocument['nodes'][number]>,
+  theme: ResolvedTheme,
 ): string {
   return edges.map((edge) => {
     const src = nodeMap.get(edge.source);
@@ -297,28 +346,43 @@ function buildEdgesSvgDark(
       ? ' marker-end="url(#arrow-normal)"'
       : edge.arrow === 'open' ? ' marker-end="url(#arrow-open)"' : '';
 
-    let svg = `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#888" stroke-width="2"${dash}${marker}/>`;
+    if (hasRoutedGeometry(edge)) {
+      const route = computeEdgeRoute(src, tgt, edge.routing, edge.waypoints, resolveEdgePorts(edge, src, tgt));
+      let svg = `<path d="${route.path}" fill="none" stroke="${theme.edge}" stroke-width="2"${dash}${marker}/>`;
+      if (edge.label) {
+        svg += `<text x="${route.label.x}" y="${route.label.y - 6}" text-anchor="middle" fill="${theme.edgeLabel}" font-size="11">${escapeXml(edge.label)}</text>`;
+      }
+      return svg;
+    }
+
+    let svg = `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${theme.edge}" stroke-width="2"${dash}${marker}/>`;
     if (edge.label) {
-      svg += `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 6}" text-anchor="middle" fill="#aaa" font-size="11">${escapeXml(edge.label)}</text>`;
+      svg += `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 6}" text-anchor="middle" fill="${theme.edgeLabel}" font-size="11">${escapeXml(edge.label)}</text>`;
     }
     return svg;
   }).join('\n');
 }
 
-function buildNodesSvgDark(nodes: DiagramDocument['nodes']): string {
+function buildNodesSvg(nodes: DiagramDocument['nodes'], theme: DiagramTheme | undefined): string {
   return nodes.map((node) => {
-    const colors = NODE_FILL_COLORS[node.color] ?? NODE_FILL_COLORS.default;
-    const shape = renderDarkNodeShape(node, colors);
-    const label = `<text x="${node.width / 2}" y="${node.height / 2 + 1}" text-anchor="middle" dominant-baseline="middle" fill="${colors.text}" font-size="13">${escapeXml(node.label)}</text>`;
-    return `<g transform="translate(${node.x},${node.y})">${shape}${label}</g>`;
+    const colors = resolveColor(node.color, theme);
+    const shape = renderNodeShape(node, colors);
+    const label = `<text x="${node.width / 2}" y="${nodeLabelY(node.shape, node.height) + 1}" text-anchor="middle" dominant-baseline="middle" fill="${colors.text}" font-size="13">${escapeXml(node.label)}</text>`;
+    const icon = resolveNodeIcon(node);
+    const iconSvg = icon ? buildNodeIconSvg(icon, 6, 6, colors.text) : '';
+    return `<g transform="translate(${node.x},${node.y})">${shape}${iconSvg}${label}</g>`;
   }).join('\n');
 }
 
-function renderDarkNodeShape(
+function renderNodeShape(
   node: DiagramDocument['nodes'][number],
-  colors: { fill: string; stroke: string },
+  colors: ThemeSwatch,
 ): string {
   const { width: w, height: h } = node;
+  const outline = nodeOutlinePath(node.shape, w, h);
+  if (outline) {
+    return `<path d="${outline}" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2"/>`;
+  }
   switch (node.shape) {
     case 'diamond': {
       const cx = w / 2, cy = h / 2;
@@ -329,16 +393,16 @@ function renderDarkNodeShape(
     case 'cylinder':
       return `<rect width="${w}" height="${h}" rx="10" ry="10" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2"/>`;
     case 'note':
-      return `<rect width="${w}" height="${h}" rx="4" ry="4" fill="#3a3a1a" stroke="#c8a840" stroke-width="2" stroke-dasharray="4,3"/>`;
+      return `<rect width="${w}" height="${h}" rx="4" ry="4" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2" stroke-dasharray="4,3"/>`;
     default:
       return `<rect width="${w}" height="${h}" rx="4" ry="4" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2"/>`;
   }
 }
 
-function buildTextElementsSvg(textElements: TextElement[]): string {
+function buildTextElementsSvg(textElements: TextElement[], theme: ResolvedTheme): string {
   return textElements.map((el) => {
     const fontSize = el.fontSize ?? 14;
-    const color = el.color ?? '#ccc';
+    const color = el.color ?? theme.text;
     const weight = el.bold ? 'font-weight="bold"' : '';
     const style = el.italic ? 'font-style="italic"' : '';
     const text = `<text x="${el.x}" y="${el.y + fontSize}" font-size="${fontSize}" fill="${color}" ${weight} ${style}>${escapeXml(el.content)}</text>`;
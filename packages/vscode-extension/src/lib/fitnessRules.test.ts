@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { checkFitnessRules, describeFitnessRule, findNewViolations, matchesNode } from './fitnessRules';
+import type { DiagramDocument, DiagramNode, FitnessRule } from '../types/DiagramDocument';
+
+function node(id: string, label: string, extra: Partial<DiagramNode> = {}): DiagramNode {
+  return { id, label, x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, ...extra };
+}
+
+const LEDGER_RULE: FitnessRule = {
+  id: 'ledger-access',
+  description: 'Only Payments may call the Ledger.',
+  from: { group: 'Payments', not: true },
+  to: { node: 'Ledger' },
+};
+
+function makeDoc(rules: FitnessRule[] = [LEDGER_RULE]): DiagramDocument {
+  return {
+    meta: { title: 'T', created: '', modified: '', rules },
+    nodes: [
+      node('checkout', 'Checkout', { group: 'g-api' }),
+      node('ledger', 'Ledger', { type: 'Database' }),
+      node('shop', 'Shop', { type: 'Person', tags: ['External'] }),
+    ],
+    edges: [{ id: 'e1', source: 'checkout', target: 'ledger', style: 'solid', arrow: 'arrow', protocol: 'gRPC' }],
+    groups: [
+      { id: 'g-pay', label: 'Payments' },
+      { id: 'g-api', label: 'Checkout API', parent: 'g-pay' },
+    ],
+  };
+}
+
+describe('matchesNode', () => {
+  it('matches by id or label, type, tag and group including nested groups', () => {
+    const doc = makeDoc();
+    const [checkout, ledger, shop] = doc.nodes;
+    expect(matchesNode(doc, ledger, { node: 'ledger' })).toBe(true);
+    expect(matchesNode(doc, ledger, { node: 'LEDGER', type: 'Database' })).toBe(true);
+    expect(matchesNode(doc, shop, { tag: 'external', type: 'Person' })).toBe(true);
+    expect(matchesNode(doc, shop, { tag: 'external', type: 'Service' })).toBe(false);
+    expect(matchesNode(doc, checkout, { group: 'payments' })).toBe(true);
+    expect(matchesNode(doc, checkout, { group: 'g-pay', not: true })).toBe(false);
+    expect(matchesNode(doc, shop, undefined)).toBe(true);
+  });
+});
+
+describe('checkFitnessRules', () => {
+  it('allows edges from inside the group and reports those from outside', () => {
+    const doc = makeDoc();
+    expect(checkFitnessRules(doc)).toEqual([]);
+
+    doc.edges.push({ id: 'e2', source: 'shop', target: 'ledger', style: 'solid', arrow: 'arrow' });
+    expect(checkFitnessRules(doc)).toEqual([
+      {
+        ruleId: 'ledger-access',
+        severity: 'error',
+        edgeId: 'e2',
+        message: 'Edge "Shop" → "Ledger" breaks rule "ledger-access": Only Payments may call the Ledger.',
+      },
+    ]);
+  });
+
+  it('limits rules to a protocol and checks bidirectional edges both ways', () => {
+    const rule: FitnessRule = {
+      id: 'no-sync-db',
+      description: 'Databases are not called over REST.',
+      to: { type: 'Database' },
+      protocol: 'rest',
+      severity: 'warning',
+    };
+    const doc = makeDoc([rule]);
+    expect(checkFitnessRules(doc)).toEqual([]);
+
+    doc.edges[0] = { ...doc.edges[0], source: 'ledger', target: 'checkout', protocol: 'REST' };
+    expect(checkFitnessRules(doc)).toEqual([]);
+    doc.edges[0].bidirectional = true;
+    expect(checkFitnessRules(doc)).toEqual([
+      expect.objectContaining({ ruleId: 'no-sync-db', severity: 'warning', edgeId: 'e1' }),
+    ]);
+  });
+});
+
+describe('findNewViolations', () => {
+  it('reports only the violations a change adds', () => {
+    const before = makeDoc();
+    before.edges.push({ id: 'e2', source: 'shop', target: 'ledger', style: 'solid', arrow: 'arrow' });
+    const after = structuredClone(before);
+    after.nodes.push(node('report', 'Reporting'));
+    after.edges.push({ id: 'e3', source: 'report', target: 'ledger', style: 'solid', arrow: 'arrow' });
+
+    expect(findNewViolations(before, after).map((v) => v.edgeId)).toEqual(['e3']);
+  });
+});
+
+describe('describeFitnessRule', () => {
+  it('says whether tools enforce the rule', () => {
+    expect(describeFitnessRule(LEDGER_RULE)).toBe(
+      'Rule "ledger-access" (error): Only Payments may call the Ledger. Tools refuse edges that break it.',
+    );
+    expect(describeFitnessRule({ ...LEDGER_RULE, severity: 'warning' })).toBe(
+      'Rule "ledger-access" (warning): Only Payments may call the Ledger.',
+    );
+  });
+});
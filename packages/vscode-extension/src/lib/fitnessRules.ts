@@ -0,0 +1,97 @@
+/**
+ * Module: src/lib/fitnessRules.ts
+ *
+ * Checks the architecture fitness rules a team declares in `meta.rules`
+ * (see {@link FitnessRule}). Each rule forbids edges between the nodes picked
+ * by two small matchers over node id/label, type, tag and group, optionally
+ * limited to one protocol.
+ *
+ * The rules and their violations are listed in the agentContext insights,
+ * which are regenerated on every change, so agents see them before editing.
+ * Agent tools refuse batches that add violations of error-level rules
+ * (see {@link findNewViolations}).
+ *
+ * All functions are pure.
+ */
+
+import type {
+  DiagramDocument,
+  DiagramEdge,
+  DiagramNode,
+  FitnessRule,
+  FitnessRuleSeverity,
+  NodeMatcher,
+} from '../types/DiagramDocument';
+import { getGroupAncestorIds } from './groupHierarchy';
+
+export interface FitnessViolation {
+  ruleId: string;
+  severity: FitnessRuleSeverity;
+  /** Id of the edge that breaks the rule. */
+  edgeId: string;
+  message: string;
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function inGroup(doc: DiagramDocument, node: DiagramNode, group: string): boolean {
+  if (!node.group) return false;
+  const groups = doc.groups ?? [];
+  const ids = [node.group, ...getGroupAncestorIds(groups, node.group)];
+  return ids.some((id) => id === group || groups.some((g) => g.id === id && sameText(g.label, group)));
+}
+
+/** True when `node` is selected by `matcher`; an omitted matcher selects every node. */
+export function matchesNode(doc: DiagramDocument, node: DiagramNode, matcher?: NodeMatcher): boolean {
+  if (!matcher) return true;
+  const matched =
+    (matcher.node === undefined || node.id === matcher.node || sameText(node.label, matcher.node)) &&
+    (matcher.type === undefined || node.type === matcher.type) &&
+    (matcher.tag === undefined || node.tags?.some((t) => sameText(t, matcher.tag ?? '')) === true) &&
+    (matcher.group === undefined || inGroup(doc, node, matcher.group));
+  return matcher.not ? !matched : matched;
+}
+
+function breaksRule(doc: DiagramDocument, rule: FitnessRule, edge: DiagramEdge, from: DiagramNode, to: DiagramNode): boolean {
+  if (rule.protocol !== undefined && !(edge.protocol && sameText(edge.protocol, rule.protocol))) return false;
+  return matchesNode(doc, from, rule.from) && matchesNode(doc, to, rule.to);
+}
+
+/** Every edge that breaks one of the document's fitness rules, rule by rule. */
+export function checkFitnessRules(doc: DiagramDocument): FitnessViolation[] {
+  const rules = doc.meta.rules ?? [];
+  if (rules.length === 0) return [];
+  const byId = new Map(doc.nodes.map((n) => [n.id, n]));
+  const violations: FitnessViolation[] = [];
+  for (const rule of rules) {
+    for (const edge of doc.edges) {
+      const source = byId.get(edge.source);
+      const target = byId.get(edge.target);
+      if (!source || !target) continue;
+      const broken =
+        breaksRule(doc, rule, edge, source, target) ||
+        (edge.bidirectional === true && breaksRule(doc, rule, edge, target, source));
+      if (!broken) continue;
+      const via = edge.protocol ? ` (${edge.protocol})` : '';
+      violations.push({
+        ruleId: rule.id,
+        severity: rule.severity ?? 'error',
+        edgeId: edge.id,
+        message: `Edge "${source.label}" → "${target.label}"${via} breaks rule "${rule.id}": ${rule.description}`,
+      });
+    }
+  }
+  return violations;
+}
+
+/** Violations in `after` that `before` did not have, e.g. those a batch of ops would add. */
+export function findNewViolations(before: DiagramDocument, after: DiagramDocument): FitnessViolation[] {
+  const existing = new Set(checkFitnessRules(before).map((v) => `${v.ruleId}\u0000${v.edgeId}`));
+  return checkFitnessRules(after).filter((v) => !existing.has(`${v.ruleId}\u0000${v.edgeId}`));
+}
+
+/** One-line statement of a rule for agents, e.g. `Rule "ledger-access" (error): ...`. */
+export function describeFitnessRule(rule: FitnessRule): string {
+  const enforced = (rule.severity ?? 'error') === 'error' ? ' Tools refuse edges that break it.' : '';
+  return `Rule "${rule.id}" (${rule.severity ?? 'error'}): ${rule.description}${enforced}`;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeGroupBounds,
+  getGroupAncestorIds,
+  getGroupDescendantIds,
+  sortGroupsParentFirst,
+} from './groupHierarchy';
+import type { DiagramGroup, DiagramNode } from '../types/DiagramDocument';
+import {
+  GROUP_PADDING,
+  GROUP_LABEL_HEIGHT,
+  GROUP_MIN_WIDTH,
+  GROUP_MIN_HEIGHT,
+} from '../types/DiagramDocument';
+
+function makeNode(id: string, x: number, y: number, group?: string): DiagramNode {
+  return {
+    id,
+    label: id,
+    x,
+    y,
+    width: 160,
+    height: 48,
+    shape: 'rectangle',
+    color: 'default',
+    pinned: false,
+    ...(group ? { group } : {}),
+  };
+}
+
+const groups: DiagramGroup[] = [
+  { id: 'subnet', label: 'Subnet', parent: 'vpc' },
+  { id: 'region', label: 'Region' },
+  { id: 'vpc', label: 'VPC', parent: 'region' },
+  { id: 'other', label: 'Other' },
+];
+
+describe('getGroupAncestorIds', () => {
+  it('returns ancestors nearest parent first', () => {
+    expect(getGroupAncestorIds(groups, 'subnet')).toEqual(['vpc', 'region']);
+  });
+
+  it('returns an empty list for top-level groups', () => {
+    expect(getGroupAncestorIds(groups, 'region')).toEqual([]);
+  });
+
+  it('stops on cycles and dangling parents', () => {
+    const cyclic: DiagramGroup[] = [
+      { id: 'a', label: 'A', parent: 'b' },
+      { id: 'b', label: 'B', parent: 'a' },
+      { id: 'c', label: 'C', parent: 'missing' },
+    ];
+    expect(getGroupAncestorIds(cyclic, 'a')).toEqual(['b']);
+    expect(getGroupAncestorIds(cyclic, 'c')).toEqual([]);
+  });
+});
+
+describe('getGroupDescendantIds', () => {
+  it('returns nested groups at any depth', () => {
+    expect(getGroupDescendantIds(groups, 'region')).toEqual(['vpc', 'subnet']);
+    expect(getGroupDescendantIds(groups, 'other')).toEqual([]);
+  });
+});
+
+describe('sortGroupsParentFirst', () => {
+  it('places every parent before its children and keeps sibling order', () => {
+    expect(sortGroupsParentFirst(groups).map((g) => g.id)).toEqual([
+      'region',
+      'other',
+      'vpc',
+      'subnet',
+    ]);
+  });
+});
+
+describe('computeGroupBounds', () => {
+  it('returns null for a group without content', () => {
+    expect(computeGroupBounds(groups, [], 'region')).toBeNull();
+  });
+
+  it('wraps child nodes with padding and label header', () => {
+    const nodes = [makeNode('n1', 100, 200, 'subnet')];
+    expect(computeGroupBounds(groups, nodes, 'subnet')).toEqual({
+      x: 100 - GROUP_PADDING,
+      y: 200 - GROUP_PADDING - GROUP_LABEL_HEIGHT,
+      width: Math.max(160 + 2 * GROUP_PADDING, GROUP_MIN_WIDTH),
+      height: Math.max(48 + 2 * GROUP_PADDING + GROUP_LABEL_HEIGHT, GROUP_MIN_HEIGHT),
+    });
+  });
+
+  it('wraps nested sub-groups in their ancestors', () => {
+    const nodes = [makeNode('n1', 100, 200, 'subnet')];
+    const subnet = computeGroupBounds(groups, nodes, 'subnet')!;
+    const region = computeGroupBounds(groups, nodes, 'region')!;
+    expect(region.x).toBe(subnet.x - 2 * GROUP_PADDING);
+    expect(region.y).toBe(subnet.y - 2 * (GROUP_PADDING + GROUP_LABEL_HEIGHT));
+    expect(region.x + region.width).toBeGreaterThan(subnet.x + subnet.width);
+  });
+
+  it('includes empty sub-groups that have a stored position', () => {
+    const withEmpty: DiagramGroup[] = [
+      { id: 'outer', label: 'Outer' },
+      { id: 'inner', label: 'Inner', parent: 'outer', x: 0, y: 0 },
+    ];
+    const bounds = computeGroupBounds(withEmpty, [], 'outer')!;
+    expect(bounds.x).toBe(-GROUP_PADDING);
+    expect(bounds.width).toBe(GROUP_MIN_WIDTH + 2 * GROUP_PADDING);
+  });
+});
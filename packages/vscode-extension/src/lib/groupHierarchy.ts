@@ -0,0 +1,133 @@
+/**
+ * Module: src/lib/groupHierarchy.ts
+ *
+ * Helpers for nested groups. A group may reference an enclosing group via
+ * `parent`, forming a tree (e.g. "Region > VPC > Subnet"). These helpers are
+ * shared by the operations layer, the extension-host SVG builder and the
+ * webview so all of them agree on hierarchy order and container bounds.
+ *
+ * All functions are pure and tolerate malformed input (dangling parents or
+ * cycles) so they can be used before validation has run.
+ */
+
+import type { DiagramGroup, DiagramNode } from '../types/DiagramDocument';
+import {
+  DEFAULT_NODE_WIDTH,
+  DEFAULT_NODE_HEIGHT,
+  GROUP_PADDING,
+  GROUP_LABEL_HEIGHT,
+  GROUP_MIN_WIDTH,
+  GROUP_MIN_HEIGHT,
+} from '../types/DiagramDocument';
+
+export interface GroupBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Returns the ids of all ancestors of a group, nearest parent first.
+ * Stops at dangling references and never loops on cyclic input.
+ */
+export function getGroupAncestorIds(
+  groups: readonly DiagramGroup[],
+  groupId: string,
+): string[] {
+  const byId = new Map(groups.map((g) => [g.id, g]));
+  const ancestors: string[] = [];
+  const seen = new Set<string>([groupId]);
+  let parent = byId.get(groupId)?.parent;
+  while (parent && byId.has(parent) && !seen.has(parent)) {
+    ancestors.push(parent);
+    seen.add(parent);
+    parent = byId.get(parent)?.parent;
+  }
+  return ancestors;
+}
+
+/** Returns the ids of every group nested (at any depth) inside the given group. */
+export function getGroupDescendantIds(
+  groups: readonly DiagramGroup[],
+  groupId: string,
+): string[] {
+  const descendants: string[] = [];
+  const seen = new Set<string>([groupId]);
+  const queue = [groupId];
+  // Array iteration picks up ids pushed during the loop (breadth-first walk).
+  for (const current of queue) {
+    for (const g of groups) {
+      if (g.parent === current && !seen.has(g.id)) {
+        seen.add(g.id);
+        descendants.push(g.id);
+        queue.push(g.id);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Orders groups so every parent precedes its children (required by React Flow
+ * for `parentId` and by the SVG builders so nested containers paint on top).
+ * Relative order among siblings is preserved.
+ */
+export function sortGroupsParentFirst(groups: readonly DiagramGroup[]): DiagramGroup[] {
+  const depth = (g: DiagramGroup) => getGroupAncestorIds(groups, g.id).length;
+  return groups
+    .map((g, index) => ({ g, index, depth: depth(g) }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index)
+    .map(({ g }) => g);
+}
+
+/**
+ * Computes the container box of a group from its child nodes and nested
+ * sub-groups, including GROUP_PADDING and the label header.
+ *
+ * Returns null for a group with no content; callers fall back to the stored
+ * x/y for such empty groups. Empty nested sub-groups with a stored position
+ * contribute a GROUP_MIN_WIDTH × GROUP_MIN_HEIGHT box to their parent.
+ */
+export function computeGroupBounds(
+  groups: readonly DiagramGroup[],
+  nodes: readonly DiagramNode[],
+  groupId: string,
+  visiting = new Set<string>(),
+): GroupBox | null {
+  if (visiting.has(groupId)) return null;
+  visiting.add(groupId);
+
+  const rects: GroupBox[] = nodes
+    .filter((n) => n.group === groupId)
+    .map((n) => ({
+      x: n.x,
+      y: n.y,
+      width: n.width > 0 ? n.width : DEFAULT_NODE_WIDTH,
+      height: n.height > 0 ? n.height : DEFAULT_NODE_HEIGHT,
+    }));
+
+  for (const child of groups.filter((g) => g.parent === groupId)) {
+    const childBox = computeGroupBounds(groups, nodes, child.id, visiting);
+    if (childBox) {
+      rects.push(childBox);
+    } else if (child.x !== undefined && child.y !== undefined) {
+      rects.push({ x: child.x, y: child.y, width: GROUP_MIN_WIDTH, height: GROUP_MIN_HEIGHT });
+    }
+  }
+
+  visiting.delete(groupId);
+  if (rects.length === 0) return null;
+
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+
+  return {
+    x: minX - GROUP_PADDING,
+    y: minY - GROUP_PADDING - GROUP_LABEL_HEIGHT,
+    width: Math.max(maxX - minX + 2 * GROUP_PADDING, GROUP_MIN_WIDTH),
+    height: Math.max(maxY - minY + 2 * GROUP_PADDING + GROUP_LABEL_HEIGHT, GROUP_MIN_HEIGHT),
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHistory,
+  pushHistory,
+  stepHistory,
+  summarizeHistory,
+  describeOps,
+  HISTORY_MAX,
+  HISTORY_MERGE_WINDOW_MS,
+} from './history';
+import type { DiagramDocument } from '../types/DiagramDocument';
+
+function docWithTitle(title: string): DiagramDocument {
+  return {
+    meta: { version: '1.0', title, created: '', modified: '' },
+    nodes: [],
+    edges: [],
+  };
+}
+
+describe('pushHistory', () => {
+  it('records a labelled snapshot and clears redo', () => {
+    const history = createHistory();
+    history.redo.push({ label: 'Old', snapshot: docWithTitle('old'), at: 0 });
+    pushHistory(history, docWithTitle('v0'), { label: 'Add node' }, 1000);
+
+    expect(history.undo).toHaveLength(1);
+    expect(history.undo[0].label).toBe('Add node');
+    expect(history.undo[0].snapshot.meta.title).toBe('v0');
+    expect(history.redo).toHaveLength(0);
+  });
+
+  it('merges moves of the same elements within the window and keeps the first snapshot', () => {
+    const history = createHistory();
+    const merge = { action: 'Move', items: { n1: 'node', n2: 'node' } } as const;
+    pushHistory(history, docWithTitle('v0'), { merge }, 1000);
+    pushHistory(history, docWithTitle('v1'), { merge: { ...merge, items: { n2: 'node', n1: 'node' } } }, 2000);
+    pushHistory(history, docWithTitle('v2'), { merge }, 4500);
+
+    expect(history.undo).toHaveLength(1);
+    expect(history.undo[0].label).toBe('Move 2 nodes');
+    expect(history.undo[0].snapshot.meta.title).toBe('v0');
+  });
+
+  it('keeps moves of different elements apart', () => {
+    const history = createHistory();
+    pushHistory(history, docWithTitle('v0'), { merge: { action: 'Move', items: { n1: 'node' } } }, 1000);
+    pushHistory(history, docWithTitle('v1'), { merge: { action: 'Move', items: { n2: 'node' } } }, 1500);
+    pushHistory(history, docWithTitle('v2'), { merge: { action: 'Move', items: { n1: 'node', n2: 'node' } } }, 2000);
+
+    expect(summarizeHistory(history).past).toEqual(['Move node', 'Move node', 'Move 2 nodes']);
+  });
+
+  it('does not merge across the window or different actions', () => {
+    const history = createHistory();
+    pushHistory(history, docWithTitle('v0'), { merge: { action: 'Move', items: { n1: 'node' } } }, 0);
+    pushHistory(history, docWithTitle('v1'), { merge: { action: 'Move', items: { n1: 'node' } } }, HISTORY_MERGE_WINDOW_MS + 1);
+    pushHistory(history, docWithTitle('v2'), { merge: { action: 'Resize', items: { n1: 'node' } } }, HISTORY_MERGE_WINDOW_MS + 2);
+
+    expect(summarizeHistory(history).past).toEqual(['Move node', 'Move node', 'Resize node']);
+  });
+
+  it('labels mixed element kinds generically', () => {
+    const history = createHistory();
+    pushHistory(history, docWithTitle('v0'), { merge: { action: 'Move', items: { n1: 'node', g1: 'group' } } }, 0);
+    expect(history.undo[0].label).toBe('Move 2 elements');
+  });
+
+  it('caps the undo stack', () => {
+    const history = createHistory();
+    for (let i = 0; i <= HISTORY_MAX; i++) pushHistory(history, docWithTitle(`v${i}`), { label: `Edit ${i}` });
+    expect(history.undo).toHaveLength(HISTORY_MAX);
+    expect(history.undo[0].label).toBe('Edit 1');
+  });
+});
+
+describe('stepHistory', () => {
+  it('undoes and redoes several entries at once', () => {
+    const history = createHistory();
+    pushHistory(history, docWithTitle('v0'), { label: 'First' });
+    pushHistory(history, docWithTitle('v1'), { label: 'Second' });
+
+    const undone = stepHistory(history, docWithTitle('v2'), -2);
+    expect(undone?.meta.title).toBe('v0');
+    expect(summarizeHistory(history)).toEqual({ past: [], future: ['First', 'Second'] });
+
+    const redone = stepHistory(history, undone!, 1);
+    expect(redone?.meta.title).toBe('v1');
+    expect(summarizeHistory(history)).toEqual({ past: ['First'], future: ['Second'] });
+  });
+
+  it('returns null when there is nothing to step to', () => {
+    expect(stepHistory(createHistory(), docWithTitle('v0'), -1)).toBeNull();
+    expect(stepHistory(createHistory(), docWithTitle('v0'), 1)).toBeNull();
+  });
+});
+
+describe('describeOps', () => {
+  it('names single ops and same-kind batches', () => {
+    expect(describeOps([{ op: 'remove_edge', id: 'e1' }])).toBe('Delete edge');
+    expect(describeOps([
+      { op: 'add_node', node: { label: 'A' } },
+      { op: 'add_node', node: { label: 'B' } },
+    ])).toBe('Add 2 nodes');
+  });
+
+  it('falls back to a count for mixed batches', () => {
+    expect(describeOps([
+      { op: 'add_node', node: { label: 'A' } },
+      { op: 'remove_edge', id: 'e1' },
+    ])).toBe('Apply 2 changes');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Module: src/lib/history.ts
+ *
+ * Undo/redo history for one diagram document. DiagramService keeps one
+ * `DocumentHistory` per document URI so switching editors never loses it.
+ *
+ * Every entry stores the document as it was *before* the change plus a
+ * human-readable label for the history panel. Drags and resizes arrive as a
+ * stream of small writes; consecutive ones of the same gesture (same action on
+ * the same elements) are merged into a single entry so one undo reverts the
+ * whole gesture.
+ *
+ * All functions are pure apart from mutating the history passed in.
+ */
+
+import type { DiagramDocument } from '../types/DiagramDocument';
+import type { SemanticOp } from '../types/operations';
+
+/** Maximum number of undo entries kept per document. */
+export const HISTORY_MAX = 50;
+
+/** Changes of the same gesture closer together than this are merged. */
+export const HISTORY_MERGE_WINDOW_MS = 3000;
+
+/** Describes a mergeable change: what happened to which elements. */
+export interface HistoryMerge {
+  action: 'Move' | 'Resize';
+  /** Element id → noun used in the label ("node", "group", "text", "image"). */
+  items: Record<string, string>;
+}
+
+/** What a write tells the history about itself. */
+export interface HistoryChange {
+  label?: string;
+  merge?: HistoryMerge;
+}
+
+export interface HistoryEntry {
+  label: string;
+  /** Document state this entry returns to when it is undone (or redone). */
+  snapshot: DiagramDocument;
+  /** Time of the latest change folded into this entry. */
+  at: number;
+  merge?: HistoryMerge;
+}
+
+export interface DocumentHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+/** Labels shown in the webview history panel. */
+export interface HistorySummary {
+  /** Applied changes, oldest first. */
+  past: string[];
+  /** Undone changes, next redo first. */
+  future: string[];
+}
+
+export const EMPTY_HISTORY: HistorySummary = { past: [], future: [] };
+
+export function createHistory(): DocumentHistory {
+  return { undo: [], redo: [] };
+}
+
+/**
+ * Records `before` as the state preceding a change. Mergeable changes fold
+ * into the latest entry when they continue its gesture (same action on the
+ * same elements) and are recent enough; the entry keeps its original snapshot
+ * so undo reverts the whole gesture.
+ */
+export function pushHistory(
+  history: DocumentHistory,
+  before: DiagramDocument,
+  change: HistoryChange = {},
+  now = Date.now(),
+): void {
+  history.redo = [];
+  const top = history.undo[history.undo.length - 1];
+  if (
+    change.merge &&
+    top?.merge &&
+    sameGesture(top.merge, change.merge) &&
+    now - top.at <= HISTORY_MERGE_WINDOW_MS
+  ) {
+    top.at = now;
+    return;
+  }
+
+  history.undo.push({
+    label: change.label ?? (change.merge ? describeMerge(change.merge) : 'Edit diagram'),
+    snapshot: structuredClone(before),
+    at: now,
+    ...(change.merge && { merge: change.merge }),
+  });
+  if (history.undo.length > HISTORY_MAX) history.undo.shift();
+}
+
+/**
+ * Moves `delta` entries through the history (negative = undo, positive =
+ * redo) starting from `current`. Returns the document to write, or null when
+ * there was nothing to undo or redo.
+ */
+export function stepHistory(
+  history: DocumentHistory,
+  current: DiagramDocument,
+  delta: number,
+): DiagramDocument | null {
+  const [from, to] = delta < 0 ? [history.undo, history.redo] : [history.redo, history.undo];
+  let state = current;
+  let moved = false;
+  for (let i = 0; i < Math.abs(delta) && from.length > 0; i++) {
+    const entry = from.pop();
+    if (!entry) break;
+    to.push({ ...entry, snapshot: state });
+    state = entry.snapshot;
+    moved = true;
+  }
+  return moved ? state : null;
+}
+
+export function summarizeHistory(history: DocumentHistory): HistorySummary {
+  return {
+    past: history.undo.map((e) => e.label),
+    future: history.redo.map((e) => e.label).reverse(),
+  };
+}
+
+function sameGesture(a: HistoryMerge, b: HistoryMerge): boolean {
+  const ids = Object.keys(a.items);
+  return (
+    a.action === b.action &&
+    ids.length === Object.keys(b.items).length &&
+    ids.every((id) => id in b.items)
+  );
+}
+
+function describeMerge(merge: HistoryMerge): string {
+  const nouns = Object.values(merge.items);
+  if (nouns.length === 1) return `${merge.action} ${nouns[0]}`;
+  const noun = nouns.every((n) => n === nouns[0]) ? nouns[0] : 'element';
+  return `${merge.action} ${nouns.length} ${noun}s`;
+}
+
+const OP_LABELS: Record<SemanticOp['op'], [verb: string, noun: string]> = {
+  add_node: ['Add', 'node'],
+  remove_node: ['Delete', 'node'],
+  update_node: ['Edit', 'node'],
+  sort_nodes: ['Sort', 'node'],
+  add_edge: ['Add', 'edge'],
+  remove_edge: ['Delete', 'edge'],
+  update_edge: ['Edit', 'edge'],
+  add_group: ['Add', 'group'],
+  remove_group: ['Delete', 'group'],
+  update_group: ['Edit', 'group'],
+  add_layer: ['Add', 'layer'],
+  remove_layer: ['Delete', 'layer'],
+  update_layer: ['Edit', 'layer'],
+};
+
+/** Label for a batch of semantic ops, e.g. "Add 3 nodes" or "Apply 5 changes". */
+export function describeOps(ops: readonly SemanticOp[]): string {
+  if (ops.length === 0) return 'Edit diagram';
+  if (ops.every((o) => o.op === 'sort_nodes')) return 'Sort nodes';
+  if (ops.some((o) => o.op !== ops[0].op)) return `Apply ${ops.length} changes`;
+  const [verb, noun] = OP_LABELS[ops[0].op];
+  return ops.length === 1 ? `${verb} ${noun}` : `${verb} ${ops.length} ${noun}s`;
+}
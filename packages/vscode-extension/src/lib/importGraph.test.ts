@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportGraphOps, parseImportSpecifiers, resolveImport, type ImportGraphOptions } from './importGraph';
+import { buildDiagram } from './diagramBuilder';
+
+const OPTIONS: ImportGraphOptions = { depth: 1, packages: [], rootName: 'shop', rootPath: '' };
+
+function idGenerator() {
+  let n = 0;
+  return () => `id${++n}`;
+}
+
+describe('parseImportSpecifiers', () => {
+  it('finds static imports, re-exports, require and dynamic import', () => {
+    const text = [
+      "import { a } from './a';",
+      "import type { B } from '../b';",
+      "import './side-effect';",
+      "export * from './c.js';",
+      'export {\n  d,\n  e,\n} from "./d";',
+      "const f = require('./f');",
+      "const g = await import('./g');",
+      "import * as path from 'path';",
+    ].join('\n');
+    expect(parseImportSpecifiers(text)).toEqual([
+      './a',
+      '../b',
+      './side-effect',
+      './c.js',
+      './d',
+      'path',
+      './f',
+      './g',
+    ]);
+  });
+
+  it('lists a module imported twice once', () => {
+    expect(parseImportSpecifiers("import { a } from './a';\nimport type { A } from './a';")).toEqual(['./a']);
+  });
+});
+
+describe('resolveImport', () => {
+  const files = new Set(['src/a.ts', 'src/b.tsx', 'src/lib/index.ts', 'src/c.js']);
+
+  it('resolves added extensions, .js standing for .ts, and index files', () => {
+    expect(resolveImport('src/main.ts', './a', files)).toBe('src/a.ts');
+    expect(resolveImport('src/main.ts', './a.js', files)).toBe('src/a.ts');
+    expect(resolveImport('src/main.ts', './b', files)).toBe('src/b.tsx');
+    expect(resolveImport('src/main.ts', './lib', files)).toBe('src/lib/index.ts');
+    expect(resolveImport('src/lib/x.ts', '../c.js', files)).toBe('src/c.js');
+  });
+
+  it('ignores package imports, missing files and paths above the folder', () => {
+    expect(resolveImport('src/main.ts', 'react', files)).toBeUndefined();
+    expect(resolveImport('src/main.ts', './missing', files)).toBeUndefined();
+    expect(resolveImport('src/main.ts', '../../a', files)).toBeUndefined();
+  });
+});
+
+describe('buildImportGraphOps', () => {
+  const files = [
+    { path: 'src/api/index.ts', text: "import { db } from '../db/client';\nimport { log } from '../util/log';" },
+    { path: 'src/api/routes.ts', text: "import { db } from '../db/client';" },
+    { path: 'src/db/client.ts', text: "import { log } from '../util/log';" },
+    { path: 'src/util/log.ts', text: "import * as fs from 'fs';" },
+    { path: 'main.ts', text: "import './src/api';" },
+  ];
+
+  it('makes a node per folder at the depth, an edge per imported folder and a group per package', () => {
+    const ops = buildImportGraphOps(files, { ...OPTIONS, depth: 2 });
+    expect(ops.filter((op) => op.op === 'add_group')).toEqual([
+      { op: 'add_group', key: 'package:', group: { label: 'shop' } },
+    ]);
+    expect(ops.filter((op) => op.op === 'add_node')).toEqual([
+      { op: 'add_node', key: 'unit:main.ts', node: { label: 'main.ts', group: 'package:' } },
+      { op: 'add_node', key: 'unit:src/api', node: { label: 'src/api', group: 'package:', notes: '2 modules' } },
+      { op: 'add_node', key: 'unit:src/db', node: { label: 'src/db', group: 'package:' } },
+      { op: 'add_node', key: 'unit:src/util', node: { label: 'src/util', group: 'package:' } },
+    ]);
+    expect(ops.filter((op) => op.op === 'add_edge')).toEqual([
+      { op: 'add_edge', edge: { source: 'unit:main.ts', target: 'unit:src/api', label: 'imports' } },
+      { op: 'add_edge', edge: { source: 'unit:src/api', target: 'unit:src/db', label: '2 imports' } },
+      { op: 'add_edge', edge: { source: 'unit:src/api', target: 'unit:src/util', label: 'imports' } },
+      { op: 'add_edge', edge: { source: 'unit:src/db', target: 'unit:src/util', label: 'imports' } },
+    ]);
+  });
+
+  it('sets the entrypoint to the folder index, relative to the repo root', () => {
+    const ops = buildImportGraphOps(files, { ...OPTIONS, depth: 2, rootPath: 'services/shop' });
+    expect(ops).toContainEqual({
+      op: 'update_node',
+      id: 'unit:src/api',
+      changes: { properties: { entrypoint: 'services/shop/src/api/index.ts' } },
+    });
+    expect(ops).toContainEqual({
+      op: 'update_node',
+      id: 'unit:src/db',
+      changes: { properties: { entrypoint: 'services/shop/src/db/client.ts' } },
+    });
+  });
+
+  it('makes a node per module at depth 0 and drops imports inside one node', () => {
+    const nodes = buildImportGraphOps(files, { ...OPTIONS, depth: 0 }).filter((op) => op.op === 'add_node');
+    expect(nodes).toHaveLength(5);
+    const folders = buildImportGraphOps(files, OPTIONS);
+    expect(folders.filter((op) => op.op === 'add_node')).toHaveLength(2);
+    expect(folders.filter((op) => op.op === 'add_edge')).toEqual([
+      { op: 'add_edge', edge: { source: 'unit:main.ts', target: 'unit:src', label: 'imports' } },
+    ]);
+  });
+
+  it('groups files by their package and counts folders from the package root', () => {
+    const ops = buildImportGraphOps(
+      [
+        { path: 'packages/core/src/index.ts', text: '' },
+        { path: 'packages/web/src/app.ts', text: "import '../../core/src';" },
+      ],
+      {
+        ...OPTIONS,
+        packages: [
+          { dir: '', name: 'monorepo' },
+          { dir: 'packages/core', name: '@shop/core' },
+          { dir: 'packages/web', name: '@shop/web' },
+        ],
+      },
+    );
+    expect(ops.filter((op) => op.op === 'add_group').map((op) => op.op === 'add_group' && op.group.label)).toEqual([
+      '@shop/core',
+      '@shop/web',
+    ]);
+    expect(ops).toContainEqual({
+      op: 'add_node',
+      key: 'unit:packages/web/src',
+      node: { label: 'src', group: 'package:packages/web' },
+    });
+    expect(ops).toContainEqual({
+      op: 'add_edge',
+      edge: { source: 'unit:packages/web/src', target: 'unit:packages/core/src', label: 'imports' },
+    });
+  });
+
+  it('builds a laid-out diagram', () => {
+    const result = buildDiagram('shop modules', buildImportGraphOps(files, OPTIONS), {
+      direction: 'LR',
+      generateId: idGenerator(),
+    });
+    expect(result.success).toBe(true);
+    const doc = result.document;
+    expect(doc?.meta.layoutDirection).toBe('LR');
+    expect(doc?.groups?.map((g) => g.label)).toEqual(['shop']);
+    expect(doc?.nodes.map((n) => [n.label, n.properties?.entrypoint])).toEqual([
+      ['main.ts', 'main.ts'],
+      ['src', 'src/api/index.ts'],
+    ]);
+    expect(doc?.edges).toHaveLength(1);
+    const [main, src] = doc?.nodes ?? [];
+    expect(main.x).toBeLessThan(src.x);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Module: src/lib/importGraph.ts
+ *
+ * Turns the import graph of a TypeScript / JavaScript folder into the ops of
+ * a module dependency diagram (see lib/diagramBuilder.ts). Files are grouped
+ * into units — a module, or a directory at a chosen depth inside its package —
+ * with one node per unit, one edge per pair of units where one imports the
+ * other, and one group per package (a folder with a package.json).
+ *
+ * Only relative imports are followed: imports of other packages are left out.
+ * Imports are found with regular expressions rather than a parser, which is
+ * enough for a dependency overview.
+ *
+ * All functions are pure. Paths use forward slashes.
+ */
+
+import type { SemanticOp } from '../types/operations';
+
+export interface SourceFile {
+  /** Path relative to the scanned folder. */
+  path: string;
+  text: string;
+}
+
+export interface PackageInfo {
+  /** Folder holding the package.json, relative to the scanned folder; '' for the folder itself. */
+  dir: string;
+  name: string;
+}
+
+export interface ImportGraphOptions {
+  /**
+   * Directory levels inside a package that become one node. 0 makes every
+   * module a node; files above the depth stay nodes of their own.
+   */
+  depth: number;
+  packages: readonly PackageInfo[];
+  /** Package name for files outside every package.json folder. */
+  rootName: string;
+  /** Scanned folder relative to the repo root ('' for the root), so entrypoints resolve from there. */
+  rootPath: string;
+}
+
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'] as const;
+
+const STATIC_IMPORT_RE = /\b(?:import|export)\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?['"]([^'"\n]+)['"]/g;
+const CALL_IMPORT_RE = /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g;
+
+/** Module specifiers of `import`, `export … from`, `require()` and `import()` in a source file. */
+export function parseImportSpecifiers(text: string): string[] {
+  const specifiers = new Set<string>();
+  for (const re of [STATIC_IMPORT_RE, CALL_IMPORT_RE]) {
+    for (const match of text.matchAll(re)) specifiers.add(match[1]);
+  }
+  return [...specifiers];
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/** Joins and normalises a relative path; undefined when it climbs above the scanned folder. */
+function joinPath(dir: string, relative: string): string | undefined {
+  const segments: string[] = [];
+  for (const segment of `${dir}/${relative}`.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return undefined;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Resolves a relative specifier imported by `from` to one of `files`, the way
+ * TypeScript does: exact file, added extension, `.js` standing for `.ts`, or
+ * the folder's index file.
+ */
+export function resolveImport(from: string, specifier: string, files: ReadonlySet<string>): string | undefined {
+  if (!specifier.startsWith('.')) return undefined;
+  const base = joinPath(dirname(from), specifier);
+  if (base === undefined) return undefined;
+
+  const stem = base.replace(/\.(m|c)?jsx?$/, '');
+  const candidates = [
+    base,
+    ...(stem !== base ? SOURCE_EXTENSIONS.map((ext) => stem + ext) : []),
+    ...SOURCE_EXTENSIONS.map((ext) => base + ext),
+    ...SOURCE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+  return candidates.find((candidate) => files.has(candidate));
+}
+
+interface Unit {
+  key: string;
+  pkg: PackageInfo;
+  /** Unit path relative to its package. */
+  label: string;
+  files: string[];
+}
+
+/** The package folder holding `path`: the deepest one that contains it. */
+function packageOf(path: string, packages: readonly PackageInfo[], root: PackageInfo): PackageInfo {
+  let best = root;
+  for (const pkg of packages) {
+    const inside = pkg.dir === '' || path.startsWith(`${pkg.dir}/`);
+    if (inside && pkg.dir.length >= best.dir.length) best = pkg;
+  }
+  return best;
+}
+
+function unitKey(path: string, pkg: PackageInfo, depth: number): string {
+  const inPackage = pkg.dir ? path.slice(pkg.dir.length + 1) : path;
+  const dirs = inPackage.split('/').slice(0, -1);
+  if (depth === 0 || dirs.length < depth) return path;
+  return [pkg.dir, ...dirs.slice(0, depth)].filter(Boolean).join('/');
+}
+
+/** A folder's index file, else its first file. */
+function entrypointOf(unit: Unit): string {
+  if (unit.files.length === 1) return unit.files[0];
+  const index = unit.files.find((f) => /^index\.[cm]?[jt]sx?$/.test(f.slice(unit.key.length + 1)));
+  return index ?? unit.files[0];
+}
+
+function repoPath(rootPath: string, path: string): string {
+  return rootPath ? `${rootPath}/${path}` : path;
+}
+
+/**
+ * Ops that build the module dependency diagram of `files`. Client keys are
+ * the unit paths prefixed with `unit:` and package folders prefixed with
+ * `package:`.
+ */
+export function buildImportGraphOps(files: readonly SourceFile[], options: ImportGraphOptions): SemanticOp[] {
+  const root: PackageInfo = { dir: '', name: options.rootName };
+  const paths = new Set(files.map((f) => f.path));
+
+  const units = new Map<string, Unit>();
+  const unitOfFile = new Map<string, Unit>();
+  for (const path of [...paths].sort()) {
+    const pkg = packageOf(path, options.packages, root);
+    const key = unitKey(path, pkg, options.depth);
+    let unit = units.get(key);
+    if (!unit) {
+      unit = { key, pkg, label: pkg.dir ? key.slice(pkg.dir.length + 1) : key, files: [] };
+      units.set(key, unit);
+    }
+    unit.files.push(path);
+    unitOfFile.set(path, unit);
+  }
+
+  const imports = new Map<string, number>();
+  for (const file of files) {
+    const from = unitOfFile.get(file.path);
+    for (const specifier of parseImportSpecifiers(file.text)) {
+      const target = resolveImport(file.path, specifier, paths);
+      const to = target && unitOfFile.get(target);
+      if (!from || !to || to === from) continue;
+      const pair = `${from.key}\n${to.key}`;
+      imports.set(pair, (imports.get(pair) ?? 0) + 1);
+    }
+  }
+
+  const packages = [...new Set([...units.values()].map((u) => u.pkg))].sort((a, b) => a.dir.localeCompare(b.dir));
+  return [
+    ...packages.map((pkg): SemanticOp => ({ op: 'add_group', key: `package:${pkg.dir}`, group: { label: pkg.name } })),
+    ...[...units.values()].flatMap((unit): SemanticOp[] => [
+      {
+        op: 'add_node',
+        key: `unit:${unit.key}`,
+        node: {
+          label: unit.label,
+          group: `package:${unit.pkg.dir}`,
+          ...(unit.files.length > 1 && { notes: `${unit.files.length} modules` }),
+        },
+      },
+      {
+        op: 'update_node',
+        id: `unit:${unit.key}`,
+        changes: { properties: { entrypoint: repoPath(options.rootPath, entrypointOf(unit)) } },
+      },
+    ]),
+    ...[...imports].sort(([a], [b]) => a.localeCompare(b)).map(([pair, count]): SemanticOp => {
+      const [source, target] = pair.split('\n');
+      return {
+        op: 'add_edge',
+        edge: { source: `unit:${source}`, target: `unit:${target}`, label: count === 1 ? 'imports' : `${count} imports` },
+      };
+    }),
+  ];
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonPath, locateJsonPath, findSyntaxError } from './jsonLocator';
+
+const TEXT = JSON.stringify(
+  {
+    meta: { title: 'T', glossary: { 'api.v1': 42 } },
+    nodes: [
+      { id: 'n1', shape: 'rectangle' },
+      { id: 'n2', shape: 'blob', ports: [{ id: 'p1' }] },
+    ],
+    edges: [],
+  },
+  null,
+  2,
+);
+
+function slice(path: string): string | null {
+  const range = locateJsonPath(TEXT, parseJsonPath(path));
+  return range && TEXT.slice(range.start, range.end);
+}
+
+describe('parseJsonPath', () => {
+  it('splits dotted, indexed and quoted segments', () => {
+    expect(parseJsonPath('nodes[0].ports[1].id')).toEqual(['nodes', 0, 'ports', 1, 'id']);
+    expect(parseJsonPath('meta.glossary["api.v1"]')).toEqual(['meta', 'glossary', 'api.v1']);
+    expect(parseJsonPath('')).toEqual([]);
+  });
+});
+
+describe('locateJsonPath', () => {
+  it('marks a scalar from its key to the end of the value', () => {
+    expect(slice('nodes[1].shape')).toBe('"shape": "blob"');
+    expect(slice('meta.glossary["api.v1"]')).toBe('"api.v1": 42');
+  });
+
+  it('marks objects and arrays reached through a key by the key', () => {
+    expect(slice('meta')).toBe('"meta"');
+    expect(slice('edges')).toBe('"edges"');
+  });
+
+  it('marks array elements by their value', () => {
+    expect(slice('nodes[1].ports[0]')).toBe('{\n          "id": "p1"\n        }');
+  });
+
+  it('falls back to the deepest existing ancestor for missing paths', () => {
+    expect(slice('meta.owners')).toBe('"meta"');
+    const range = locateJsonPath(TEXT, parseJsonPath('nodes[0].label'));
+    expect(range?.start).toBe(TEXT.indexOf('{\n      "id": "n1"'));
+    expect(slice('groups')).toBe('{');
+  });
+
+  it('returns null for malformed JSON', () => {
+    expect(locateJsonPath('{"nodes": [}', ['nodes'])).toBeNull();
+  });
+});
+
+describe('findSyntaxError', () => {
+  it('returns null for valid JSON', () => {
+    expect(findSyntaxError(TEXT)).toBeNull();
+  });
+
+  it('returns the offset where parsing stopped', () => {
+    expect(findSyntaxError('{"nodes": [,]}')).toBe(11);
+    expect(findSyntaxError('{"a": 1} x')).toBe(9);
+    expect(findSyntaxError('{"a": "open')).toBe(11);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Module: src/lib/jsonLocator.ts
+ *
+ * Maps the JSON paths used in validation messages ("nodes[2].shape",
+ * 'meta.glossary["api"]') back to character ranges in the source text, so
+ * problems can be underlined where they are. The scanner is deliberately
+ * small: it understands strict JSON only and gives up (returns null) on
+ * anything it cannot read.
+ *
+ * All functions are pure.
+ */
+
+export type JsonPathSegment = string | number;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const SEGMENT_RE = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\["([^"]*)"\]|^([A-Za-z_$][\w$]*)/y;
+
+/** Splits "nodes[0].ports[1].id" into ['nodes', 0, 'ports', 1, 'id']. */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const segments: JsonPathSegment[] = [];
+  SEGMENT_RE.lastIndex = 0;
+  while (SEGMENT_RE.lastIndex < path.length) {
+    const match = SEGMENT_RE.exec(path);
+    if (!match) break;
+    if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[1] ?? match[3] ?? match[4]);
+  }
+  return segments;
+}
+
+class Scanner {
+  pos = 0;
+  constructor(readonly text: string) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  peek(): string {
+    this.skipWhitespace();
+    return this.text[this.pos];
+  }
+
+  expect(char: string): void {
+    if (this.peek() !== char) throw new Error(`Expected ${char} at ${this.pos}`);
+    this.pos++;
+  }
+
+  /** Reads a string literal and returns its decoded value. */
+  string(): string {
+    this.skipWhitespace();
+    const start = this.pos;
+    if (this.text[this.pos] !== '"') throw new Error(`Expected string at ${this.pos}`);
+    this.pos++;
+    while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+      this.pos += this.text[this.pos] === '\\' ? 2 : 1;
+    }
+    this.pos++;
+    return JSON.parse(this.text.slice(start, this.pos)) as string;
+  }
+
+  /** Skips over any value and returns its range. */
+  value(): TextRange {
+    const first = this.peek();
+    const start = this.pos;
+    if (first === '{') {
+      this.members(() => this.value());
+    } else if (first === '[') {
+      this.elements(() => this.value());
+    } else if (first === '"') {
+      this.string();
+    } else {
+      const match = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(this.text.slice(this.pos));
+      if (!match) throw new Error(`Unexpected token at ${this.pos}`);
+      this.pos += match[0].length;
+    }
+    return { start, end: this.pos };
+  }
+
+  /** Walks an object, calling `visit` for each member with the cursor on its value. */
+  members(visit: (key: string, keyRange: TextRange) => void): void {
+    this.expect('{');
+    if (this.peek() === '}') {
+      this.pos++;
+      return;
+    }
+    for (;;) {
+      this.skipWhitespace();
+      const keyStart = this.pos;
+      const key = this.string();
+      const keyRange = { start: keyStart, end: this.pos };
+      this.expect(':');
+      visit(key, keyRange);
+      if (this.peek() === '}') {
+        this.pos++;
+        return;
+      }
+      this.expect(',');
+    }
+  }
+
+  /** Walks an array, calling `visit` for each element with the cursor on it. */
+  elements(visit: (index: number) => void): void {
+    this.expect('[');
+    if (this.peek() === ']') {
+      this.pos++;
+      return;
+    }
+    for (let index = 0; ; index++) {
+      visit(index);
+      if (this.peek() === ']') {
+        this.pos++;
+        return;
+      }
+      this.expect(',');
+    }
+  }
+}
+
+/**
+ * Finds the text range of the element at `path`. Objects and arrays reached
+ * through a key are marked by that key; everything else by the value itself.
+ * When the path does not exist (e.g. a missing required field) the deepest
+ * ancestor that does is marked instead: by its key, or by its opening bracket
+ * for array elements and the root. Returns null when `text` is not valid JSON.
+ */
+export function locateJsonPath(text: string, path: readonly JsonPathSegment[]): TextRange | null {
+  const scanner = new Scanner(text);
+  try {
+    return locate(scanner, path, null);
+  } catch {
+    return null;
+  }
+}
+
+function locate(scanner: Scanner, path: readonly JsonPathSegment[], keyRange: TextRange | null): TextRange {
+  const first = scanner.peek();
+  const [segment, ...rest] = path;
+  if (segment === undefined || (first !== '{' && first !== '[')) {
+    const value = scanner.value();
+    if (!keyRange) return value;
+    return first === '{' || first === '[' ? keyRange : { start: keyRange.start, end: value.end };
+  }
+
+  const start = scanner.pos;
+  let found: TextRange | null = null;
+  if (first === '{') {
+    scanner.members((key, range) => {
+      if (found || key !== segment) scanner.value();
+      else found = locate(scanner, rest, range);
+    });
+  } else {
+    scanner.elements((index) => {
+      if (found || index !== segment) scanner.value();
+      else found = locate(scanner, rest, null);
+    });
+  }
+  return found ?? keyRange ?? { start, end: start + 1 };
+}
+
+/**
+ * Offset of the first syntax error in `text`, or null when it is valid JSON.
+ * JSON.parse messages do not reliably include a position, so the scanner
+ * reports where it stopped instead.
+ */
+export function findSyntaxError(text: string): number | null {
+  const scanner = new Scanner(text);
+  try {
+    scanner.value();
+    scanner.skipWhitespace();
+    return scanner.pos < text.length ? scanner.pos : null;
+  } catch {
+    return Math.min(scanner.pos, text.length);
+  }
+}
@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import { buildKubernetesOps, parseManifests, type ManifestFile } from './kubernetesGraph';
+import { buildDiagram } from './diagramBuilder';
+import type { SemanticOp } from '../types/operations';
+
+const WORKLOADS = `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+  namespace: shop
+spec:
+  template:
+    metadata:
+      labels: { app: web, tier: frontend }
+    spec:
+      imagePullSecrets: [{ name: ghcr-login }]
+      containers:
+        - name: web
+          image: ghcr.io/acme/web:1.4
+          env:
+            - name: API_URL
+              value: http://api:8080
+          envFrom:
+            - configMapRef: { name: web-config }
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: shop
+spec:
+  template:
+    metadata:
+      labels: { app: api }
+    spec:
+      initContainers:
+        - name: migrate
+          image: flyway/flyway
+          args: ["-url=jdbc:postgresql://db.shop.svc.cluster.local/shop"]
+      containers:
+        - name: api
+          image: ghcr.io/acme/api:2.0
+          env:
+            - name: DB_PASSWORD
+              valueFrom:
+                secretKeyRef: { name: db-credentials, key: password }
+      volumes:
+        - name: settings
+          configMap: { name: api-settings }
+        - name: certs
+          secret: { secretName: api-tls }
+---
+apiVersion: apps/v1
+kind: StatefulSet
+metadata:
+  name: db
+  namespace: shop
+spec:
+  template:
+    metadata:
+      labels: { app: db }
+    spec:
+      containers:
+        - name: postgres
+          image: postgres:16
+---
+apiVersion: batch/v1
+kind: CronJob
+metadata:
+  name: report
+spec:
+  jobTemplate:
+    spec:
+      template:
+        metadata:
+          labels: { app: report }
+        spec:
+          containers:
+            - name: report
+              image: ghcr.io/acme/report
+              command: ["report", "--api", "api.shop.svc"]
+`;
+
+const NETWORK = `
+apiVersion: v1
+kind: List
+items:
+  - apiVersion: v1
+    kind: Service
+    metadata: { name: api, namespace: shop }
+    spec:
+      selector: { app: api }
+      ports: [{ name: http, port: 8080 }]
+  - apiVersion: v1
+    kind: Service
+    metadata: { name: db, namespace: shop }
+    spec:
+      selector: { app: db }
+      ports: [{ port: 5432 }]
+  - apiVersion: v1
+    kind: Service
+    metadata: { name: web, namespace: shop }
+    spec:
+      selector: { app: web }
+      ports: [{ port: 80 }]
+---
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata: { name: shop, namespace: shop }
+spec:
+  tls: [{ hosts: [shop.example.com] }]
+  rules:
+    - host: shop.example.com
+      http:
+        paths:
+          - path: /
+            backend: { service: { name: web, port: { number: 80 } } }
+          - path: /api
+            backend: { service: { name: api, port: { name: http } } }
+`;
+
+const FILES: ManifestFile[] = [
+  { path: 'deploy/workloads.yaml', text: WORKLOADS },
+  { path: 'deploy/network.yaml', text: NETWORK },
+];
+
+function ops(files: ManifestFile[] = FILES): SemanticOp[] {
+  return buildKubernetesOps(parseManifests(files));
+}
+
+function changesOf(all: SemanticOp[], key: string) {
+  const update = all.find((op) => op.op === 'update_node' && op.id === key);
+  return update?.op === 'update_node' ? update.changes : undefined;
+}
+
+function edges(all: SemanticOp[]) {
+  return all.flatMap((op) => (op.op === 'add_edge' ? [op.edge] : []));
+}
+
+describe('parseManifests', () => {
+  it('reads every document, unpacks Lists and defaults the namespace', () => {
+    const resources = parseManifests(FILES);
+    expect(resources.map((r) => `${r.namespace}/${r.kind}/${r.name}`)).toEqual([
+      'shop/Deployment/web',
+      'shop/Deployment/api',
+      'shop/StatefulSet/db',
+      'default/CronJob/report',
+      'shop/Service/api',
+      'shop/Service/db',
+      'shop/Service/web',
+      'shop/Ingress/shop',
+    ]);
+    expect(resources[0].file).toBe('deploy/workloads.yaml');
+  });
+
+  it('skips invalid YAML and documents that are not Kubernetes objects', () => {
+    const resources = parseManifests([
+      { path: 'values.yaml', text: 'replicas: 3\nimage: { tag: latest }' },
+      { path: 'broken.yaml', text: 'kind: Deployment\nmetadata: [unclosed' },
+    ]);
+    expect(resources).toEqual([]);
+  });
+});
+
+describe('buildKubernetesOps', () => {
+  it('adds a node per workload in a group per namespace', () => {
+    const all = ops();
+    expect(all.filter((op) => op.op === 'add_group')).toEqual([
+      { op: 'add_group', key: 'namespace:default', group: { label: 'default' } },
+      { op: 'add_group', key: 'namespace:shop', group: { label: 'shop' } },
+    ]);
+    expect(all).toContainEqual({
+      op: 'add_node',
+      key: 'workload:default/CronJob/report',
+      node: { label: 'report', group: 'namespace:default' },
+    });
+    expect(changesOf(all, 'workload:shop/StatefulSet/db')).toEqual({
+      type: 'Database',
+      properties: { entrypoint: 'deploy/workloads.yaml', kind: 'StatefulSet', image: 'postgres:16' },
+    });
+  });
+
+  it('records ConfigMap and Secret references and marks Secret-backed workloads', () => {
+    const all = ops();
+    // Registry credentials are listed apart and do not make a security boundary.
+    expect(changesOf(all, 'workload:shop/Deployment/web')).toEqual({
+      type: 'Container',
+      properties: {
+        entrypoint: 'deploy/workloads.yaml',
+        kind: 'Deployment',
+        image: 'ghcr.io/acme/web:1.4',
+        configMaps: ['web-config'],
+        imagePullSecrets: ['ghcr-login'],
+      },
+    });
+    expect(changesOf(all, 'workload:shop/Deployment/api')).toMatchObject({
+      properties: { configMaps: ['api-settings'], secrets: ['api-tls', 'db-credentials'] },
+      securityClassification: 'security-boundary',
+    });
+  });
+
+  it('draws Service edges from the workloads that call them to the workloads they select', () => {
+    expect(edges(ops()).filter((e) => e.source !== 'ingress')).toEqual([
+      { source: 'workload:shop/Deployment/web', target: 'workload:shop/Deployment/api', label: 'via api', protocol: 'HTTP' },
+      {
+        source: 'workload:default/CronJob/report',
+        target: 'workload:shop/Deployment/api',
+        label: 'via api',
+        protocol: 'HTTP',
+      },
+      { source: 'workload:shop/Deployment/api', target: 'workload:shop/StatefulSet/db', label: 'via db', protocol: 'TCP' },
+    ]);
+  });
+
+  it('draws Ingress edges from one Ingress node to the workloads behind its backends', () => {
+    const all = ops();
+    expect(all).toContainEqual({ op: 'add_node', key: 'ingress', node: { label: 'Ingress' } });
+    expect(edges(all).filter((e) => e.source === 'ingress')).toEqual([
+      { source: 'ingress', target: 'workload:shop/Deployment/web', label: 'shop.example.com/', protocol: 'HTTPS' },
+      { source: 'ingress', target: 'workload:shop/Deployment/api', label: 'shop.example.com/api', protocol: 'HTTPS' },
+    ]);
+  });
+
+  it('merges a workload defined in several files into one node', () => {
+    const overlay = [
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'metadata: { name: api, namespace: shop }',
+      'spec:',
+      '  template:',
+      '    metadata: { labels: { app: api } }',
+      '    spec:',
+      '      containers: [{ name: api, image: ghcr.io/acme/api:2.1, envFrom: [{ secretRef: { name: prod-keys } }] }]',
+    ].join('\n');
+    const all = ops([...FILES, { path: 'deploy/overlays/prod/api.yaml', text: overlay }]);
+
+    expect(all.filter((op) => op.op === 'add_node' && op.key === 'workload:shop/Deployment/api')).toHaveLength(1);
+    expect(changesOf(all, 'workload:shop/Deployment/api')).toMatchObject({
+      properties: {
+        entrypoint: 'deploy/workloads.yaml',
+        image: 'ghcr.io/acme/api:2.0',
+        secrets: ['api-tls', 'db-credentials', 'prod-keys'],
+      },
+    });
+    let n = 0;
+    expect(buildDiagram('shop', all, { generateId: () => `id${++n}` }).success).toBe(true);
+  });
+
+  it('leaves out the Ingress node and edges without Services', () => {
+    const all = ops([{ path: 'workloads.yaml', text: WORKLOADS }]);
+    expect(all.filter((op) => op.op === 'add_edge')).toEqual([]);
+    expect(all.some((op) => op.op === 'add_node' && op.key === 'ingress')).toBe(false);
+  });
+
+  it('builds a diagram that passes validation', () => {
+    let n = 0;
+    const result = buildDiagram('shop deployment', ops(), { direction: 'LR', generateId: () => `id${++n}` });
+    expect(result.success).toBe(true);
+    expect(result.document?.nodes).toHaveLength(5);
+    expect(result.document?.groups).toHaveLength(2);
+    expect(result.document?.edges).toHaveLength(5);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Module: src/lib/kubernetesGraph.ts
+ *
+ * Turns a folder of Kubernetes manifests into the ops of a deployment diagram
+ * (see lib/diagramBuilder.ts). Deployments, StatefulSets and CronJobs become
+ * nodes, typed from their first container image like compose services, and
+ * every namespace that holds one becomes a group.
+ *
+ * Services and Ingresses become edges, following selector-to-label matches to
+ * the workloads whose pod labels a Service selects:
+ *  - a Service draws an edge from every workload that names it in a container
+ *    env value, command or argument (`http://orders:8080`, `orders.shop.svc`)
+ *    to every workload it selects;
+ *  - an Ingress draws an edge from a shared "Ingress" node to the workloads
+ *    selected by each backend Service.
+ *
+ * ConfigMaps and Secrets a pod mounts or reads into its environment are listed
+ * in `properties.configMaps` / `properties.secrets`; workloads that use a
+ * Secret are marked `securityClassification: 'security-boundary'`. Registry
+ * credentials are not application secrets: `imagePullSecrets` are listed in
+ * `properties.imagePullSecrets` and do not mark the workload.
+ *
+ * A workload defined in several files (a kustomize base and its overlays) is
+ * one node: the first file is its entrypoint and the references add up.
+ *
+ * All functions are pure. Paths use forward slashes.
+ */
+
+import { parseAllDocuments } from 'yaml';
+import type { SemanticOp } from '../types/operations';
+import { inferServiceType } from './composeGraph';
+
+export interface ManifestFile {
+  /** Path relative to the repo root, recorded as the workload's entrypoint. */
+  path: string;
+  text: string;
+}
+
+export const WORKLOAD_KINDS = ['Deployment', 'StatefulSet', 'CronJob'] as const;
+
+export const INGRESS_NODE_LABEL = 'Ingress';
+
+const DEFAULT_NAMESPACE = 'default';
+
+type YamlMap = Record<string, unknown>;
+
+function isMap(value: unknown): value is YamlMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mapAt(value: unknown, ...keys: string[]): YamlMap {
+  let current = value;
+  for (const key of keys) current = isMap(current) ? current[key] : undefined;
+  return isMap(current) ? current : {};
+}
+
+function listAt(value: unknown, ...keys: string[]): unknown[] {
+  const parent = keys.length > 1 ? mapAt(value, ...keys.slice(0, -1)) : value;
+  const list = isMap(parent) ? parent[keys[keys.length - 1]] : undefined;
+  return Array.isArray(list) ? list : [];
+}
+
+function stringAt(value: unknown, key: string): string | undefined {
+  const field = isMap(value) ? value[key] : undefined;
+  return typeof field === 'string' && field ? field : undefined;
+}
+
+/** A Kubernetes object with the fields every importer step needs. */
+export interface KubernetesResource {
+  kind: string;
+  name: string;
+  namespace: string;
+  /** Manifest file the object was read from. */
+  file: string;
+  body: YamlMap;
+}
+
+/**
+ * Every object in the manifests, with `List` objects unpacked. Documents
+ * that are not valid YAML or lack a kind and name are skipped, so a folder
+ * mixing manifests with other YAML still imports.
+ */
+export function parseManifests(files: readonly ManifestFile[]): KubernetesResource[] {
+  const resources: KubernetesResource[] = [];
+  const add = (body: unknown, file: string) => {
+    if (!isMap(body)) return;
+    if (body.kind === 'List') {
+      for (const item of listAt(body, 'items')) add(item, file);
+      return;
+    }
+    const kind = stringAt(body, 'kind');
+    const name = stringAt(body.metadata, 'name');
+    if (!kind || !name) return;
+    resources.push({ kind, name, namespace: stringAt(body.metadata, 'namespace') ?? DEFAULT_NAMESPACE, file, body });
+  };
+  for (const file of files) {
+    for (const doc of parseAllDocuments(file.text)) {
+      if (doc.errors.length === 0) add(doc.toJS(), file.path);
+    }
+  }
+  return resources;
+}
+
+export function isWorkload(resource: KubernetesResource): boolean {
+  return (WORKLOAD_KINDS as readonly string[]).includes(resource.kind);
+}
+
+/** The pod template of a workload; CronJobs nest it in their job template. */
+function podTemplate(workload: KubernetesResource): YamlMap {
+  return workload.kind === 'CronJob'
+    ? mapAt(workload.body, 'spec', 'jobTemplate', 'spec', 'template')
+    : mapAt(workload.body, 'spec', 'template');
+}
+
+interface PodInfo {
+  labels: Record<string, unknown>;
+  /** Images of the main containers, without init containers. */
+  images: string[];
+  configMaps: string[];
+  secrets: string[];
+  imagePullSecrets: string[];
+  /** Env values, commands and arguments, searched for Service names. */
+  strings: string[];
+}
+
+function podInfo(workload: KubernetesResource): PodInfo {
+  const template = podTemplate(workload);
+  const spec = mapAt(template, 'spec');
+  const containers = [...listAt(spec, 'initContainers'), ...listAt(spec, 'containers')];
+  const configMaps = new Set<string>();
+  const secrets = new Set<string>();
+  const strings: string[] = [];
+  const addRef = (set: Set<string>, name: string | undefined) => {
+    if (name) set.add(name);
+  };
+
+  for (const volume of listAt(spec, 'volumes')) {
+    addRef(configMaps, stringAt(mapAt(volume, 'configMap'), 'name'));
+    addRef(secrets, stringAt(mapAt(volume, 'secret'), 'secretName'));
+    for (const source of listAt(volume, 'projected', 'sources')) {
+      addRef(configMaps, stringAt(mapAt(source, 'configMap'), 'name'));
+      addRef(secrets, stringAt(mapAt(source, 'secret'), 'name'));
+    }
+  }
+  for (const container of containers) {
+    for (const from of listAt(container, 'envFrom')) {
+      addRef(configMaps, stringAt(mapAt(from, 'configMapRef'), 'name'));
+      addRef(secrets, stringAt(mapAt(from, 'secretRef'), 'name'));
+    }
+    for (const env of listAt(container, 'env')) {
+      addRef(configMaps, stringAt(mapAt(env, 'valueFrom', 'configMapKeyRef'), 'name'));
+      addRef(secrets, stringAt(mapAt(env, 'valueFrom', 'secretKeyRef'), 'name'));
+      const value = stringAt(env, 'value');
+      if (value) strings.push(value);
+    }
+    for (const arg of [...listAt(container, 'command'), ...listAt(container, 'args')]) {
+      if (typeof arg === 'string') strings.push(arg);
+    }
+  }
+  const pullSecrets = new Set<string>();
+  for (const secret of listAt(spec, 'imagePullSecrets')) addRef(pullSecrets, stringAt(secret, 'name'));
+
+  return {
+    labels: mapAt(template, 'metadata', 'labels'),
+    images: listAt(spec, 'containers').flatMap((c) => stringAt(c, 'image') ?? []),
+    configMaps: [...configMaps].sort(),
+    secrets: [...secrets].sort(),
+    imagePullSecrets: [...pullSecrets].sort(),
+    strings,
+  };
+}
+
+/** Pod info of one workload read from several files: `first` wins, references add up. */
+function mergePodInfo(first: PodInfo, next: PodInfo): PodInfo {
+  const union = (a: string[], b: string[]) => [...new Set([...a, ...b])].sort();
+  return {
+    labels: { ...next.labels, ...first.labels },
+    images: first.images.length > 0 ? first.images : next.images,
+    configMaps: union(first.configMaps, next.configMaps),
+    secrets: union(first.secrets, next.secrets),
+    imagePullSecrets: union(first.imagePullSecrets, next.imagePullSecrets),
+    strings: [...first.strings, ...next.strings],
+  };
+}
+
+/** True when every key of a non-empty selector has the same value in `labels`. */
+function selects(selector: YamlMap, labels: YamlMap): boolean {
+  const entries = Object.entries(selector);
+  return entries.length > 0 && entries.every(([key, value]) => labels[key] === value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whether `text` addresses the Service as a host: `orders`, `orders:80`, `http://orders/…`, `orders.shop.svc`. */
+function mentionsService(text: string, service: KubernetesResource): boolean {
+  const name = escapeRegExp(service.name);
+  const ns = escapeRegExp(service.namespace);
+  return new RegExp(`(^|[/@=\\s])${name}(\\.${ns}(\\.svc[\\w.-]*)?)?($|[:/\\s])`).test(text);
+}
+
+/** Protocol of a Service's first port: its appProtocol, a well-known port name, else TCP/UDP. */
+function serviceProtocol(service: KubernetesResource): string {
+  const [port] = listAt(service.body, 'spec', 'ports');
+  const known = stringAt(port, 'appProtocol') ?? stringAt(port, 'name');
+  if (known && /^(https?|grpc|h2c?|tcp|udp|ws|wss)$/i.test(known)) return known.toUpperCase().replace('GRPC', 'gRPC');
+  return stringAt(port, 'protocol') ?? 'TCP';
+}
+
+/** Service names an Ingress routes to, from its default backend and every rule path. */
+function ingressBackends(ingress: KubernetesResource): { service: string; route: string }[] {
+  const spec = mapAt(ingress.body, 'spec');
+  // networking.k8s.io/v1 nests the name in `service`; older API versions use `serviceName`.
+  const serviceOf = (backend: YamlMap) => stringAt(mapAt(backend, 'service'), 'name') ?? stringAt(backend, 'serviceName');
+  const backends: { service: string; route: string }[] = [];
+  const fallback = serviceOf(mapAt(spec, 'defaultBackend')) ?? serviceOf(mapAt(spec, 'backend'));
+  if (fallback) backends.push({ service: fallback, route: '*' });
+  for (const rule of listAt(spec, 'rules')) {
+    const host = stringAt(rule, 'host') ?? '*';
+    for (const path of listAt(rule, 'http', 'paths')) {
+      const service = serviceOf(mapAt(path, 'backend'));
+      if (service) backends.push({ service, route: `${host}${stringAt(path, 'path') ?? '/'}` });
+    }
+  }
+  return backends;
+}
+
+function workloadKey(workload: KubernetesResource): string {
+  return `workload:${workload.namespace}/${workload.kind}/${workload.name}`;
+}
+
+/**
+ * Ops that build the deployment diagram of `resources`. Client keys are
+ * `workload:<namespace>/<kind>/<name>`, `namespace:<name>` and `ingress`.
+ */
+export function buildKubernetesOps(resources: readonly KubernetesResource[]): SemanticOp[] {
+  const byKey = new Map<string, { workload: KubernetesResource; pod: PodInfo }>();
+  for (const workload of resources.filter(isWorkload)) {
+    const key = workloadKey(workload);
+    const seen = byKey.get(key);
+    const pod = podInfo(workload);
+    byKey.set(key, seen ? { workload: seen.workload, pod: mergePodInfo(seen.pod, pod) } : { workload, pod });
+  }
+  const workloads = [...byKey.values()];
+  const namespaces = [...new Set(workloads.map((w) => w.workload.namespace))].sort();
+
+  const ops: SemanticOp[] = namespaces.map((ns) => ({ op: 'add_group', key: `namespace:${ns}`, group: { label: ns } }));
+  for (const { workload, pod } of workloads) {
+    const key = workloadKey(workload);
+    const properties = {
+      entrypoint: workload.file,
+      kind: workload.kind,
+      ...(pod.images.length > 0 && { image: pod.images[0] }),
+      ...(pod.configMaps.length > 0 && { configMaps: pod.configMaps }),
+      ...(pod.secrets.length > 0 && { secrets: pod.secrets }),
+      ...(pod.imagePullSecrets.length > 0 && { imagePullSecrets: pod.imagePullSecrets }),
+    };
+    ops.push(
+      { op: 'add_node', key, node: { label: workload.name, group: `namespace:${workload.namespace}` } },
+      {
+        op: 'update_node',
+        id: key,
+        changes: {
+          type: inferServiceType(pod.images[0]),
+          properties,
+          ...(pod.secrets.length > 0 && { securityClassification: 'security-boundary' as const }),
+        },
+      },
+    );
+  }
+
+  /** Workloads in the Service's namespace whose pod labels its selector matches. */
+  const selectedBy = (service: KubernetesResource) =>
+    workloads.filter(
+      ({ workload, pod }) =>
+        workload.namespace === service.namespace && selects(mapAt(service.body, 'spec', 'selector'), pod.labels),
+    );
+  const services = resources.filter((r) => r.kind === 'Service');
+  const edges = new Map<string, SemanticOp>();
+  const addEdge = (source: string, target: string, label: string, protocol: string) => {
+    const pair = `${source}\n${target}`;
+    if (source === target || edges.has(pair)) return;
+    edges.set(pair, { op: 'add_edge', edge: { source, target, label, protocol } });
+  };
+
+  for (const service of services) {
+    const targets = selectedBy(service);
+    const callers = workloads.filter(({ pod }) => pod.strings.some((text) => mentionsService(text, service)));
+    for (const caller of callers) {
+      for (const target of targets) {
+        addEdge(workloadKey(caller.workload), workloadKey(target.workload), `via ${service.name}`, serviceProtocol(service));
+      }
+    }
+  }
+
+  /** Routes per workload key; a workload behind several paths gets one edge listing them all. */
+  const routes = new Map<string, { paths: Set<string>; tls: boolean }>();
+  for (const ingress of resources.filter((r) => r.kind === 'Ingress')) {
+    const tls = listAt(ingress.body, 'spec', 'tls').length > 0;
+    for (const { service: name, route } of ingressBackends(ingress)) {
+      const service = services.find((s) => s.name === name && s.namespace === ingress.namespace);
+      for (const target of service ? selectedBy(service) : []) {
+        const key = workloadKey(target.workload);
+        const entry = routes.get(key) ?? { paths: new Set<string>(), tls: false };
+        entry.paths.add(route);
+        entry.tls ||= tls;
+        routes.set(key, entry);
+      }
+    }
+  }
+  if (routes.size > 0) {
+    ops.push({ op: 'add_node', key: 'ingress', node: { label: INGRESS_NODE_LABEL } });
+    for (const [target, { paths, tls }] of routes) addEdge('ingress', target, [...paths].join(', '), tls ? 'HTTPS' : 'HTTP');
+  }
+
+  return [...ops, ...edges.values()];
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { filterDocumentByLayers, getHiddenLayerIds, getLockedLayerIds, isOnLayer } from './layers';
+import type { DiagramDocument, DiagramNode } from '../types/DiagramDocument';
+
+function makeNode(id: string, layer?: string): DiagramNode {
+  return {
+    id,
+    label: id,
+    x: 0,
+    y: 0,
+    width: 160,
+    height: 48,
+    shape: 'rectangle',
+    color: 'default',
+    pinned: false,
+    ...(layer ? { layer } : {}),
+  };
+}
+
+function makeDoc(): DiagramDocument {
+  return {
+    meta: { title: 'Layers', created: '', modified: '' },
+    layers: [
+      { id: 'infra', label: 'Infrastructure' },
+      { id: 'notes', label: 'Annotations', hidden: true, locked: true },
+    ],
+    nodes: [makeNode('api'), makeNode('vpc', 'infra'), makeNode('todo', 'notes')],
+    edges: [
+      { id: 'e1', source: 'api', target: 'vpc', style: 'solid', arrow: 'arrow' },
+      { id: 'e2', source: 'api', target: 'todo', style: 'solid', arrow: 'arrow' },
+      { id: 'e3', source: 'api', target: 'vpc', style: 'dashed', arrow: 'arrow', layer: 'notes' },
+    ],
+    textElements: [
+      { id: 't1', x: 0, y: 0, width: 100, height: 20, content: 'Legend', layer: 'notes' },
+    ],
+  };
+}
+
+describe('getHiddenLayerIds', () => {
+  it('defaults to layers marked hidden', () => {
+    expect([...getHiddenLayerIds(makeDoc().layers)]).toEqual(['notes']);
+  });
+
+  it('hides every layer outside an explicit visible set', () => {
+    expect([...getHiddenLayerIds(makeDoc().layers, ['notes'])]).toEqual(['infra']);
+    expect(getHiddenLayerIds(undefined).size).toBe(0);
+  });
+});
+
+describe('getLockedLayerIds', () => {
+  it('returns locked layers only', () => {
+    expect([...getLockedLayerIds(makeDoc().layers)]).toEqual(['notes']);
+  });
+});
+
+describe('isOnLayer', () => {
+  it('treats elements without a layer as not on any layer', () => {
+    expect(isOnLayer({}, new Set(['notes']))).toBe(false);
+    expect(isOnLayer({ layer: 'notes' }, new Set(['notes']))).toBe(true);
+  });
+});
+
+describe('filterDocumentByLayers', () => {
+  it('drops hidden elements and edges attached to hidden nodes', () => {
+    const view = filterDocumentByLayers(makeDoc());
+    expect(view.nodes.map((n) => n.id)).toEqual(['api', 'vpc']);
+    expect(view.edges.map((e) => e.id)).toEqual(['e1']);
+    expect(view.textElements).toEqual([]);
+  });
+
+  it('honors an explicit set of visible layers', () => {
+    const view = filterDocumentByLayers(makeDoc(), { visibleLayers: [] });
+    expect(view.nodes.map((n) => n.id)).toEqual(['api']);
+    expect(view.edges).toEqual([]);
+  });
+
+  it('returns the document unchanged when nothing is hidden', () => {
+    const doc = makeDoc();
+    expect(filterDocumentByLayers(doc, { visibleLayers: ['infra', 'notes'] })).toBe(doc);
+  });
+});
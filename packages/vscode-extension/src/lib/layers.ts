@@ -0,0 +1,72 @@
+/**
+ * Module: src/lib/layers.ts
+ *
+ * Helpers for diagram layers. Nodes, edges, text and image elements may name
+ * a layer via `layer`; the extension-host SVG builder, the agent context and
+ * the webview use these helpers so they agree on what a "visible" element is.
+ *
+ * Elements without a layer (or with a layer id that does not exist) are always
+ * visible — layers only ever hide what explicitly opted in.
+ */
+
+import type { DiagramDocument, DiagramLayer } from '../types/DiagramDocument';
+
+export interface LayerFilterOptions {
+  /**
+   * Ids of the layers to include. When omitted every layer that is not
+   * marked `hidden` is included.
+   */
+  visibleLayers?: readonly string[];
+}
+
+/** Returns the ids of the layers whose elements must be left out. */
+export function getHiddenLayerIds(
+  layers: readonly DiagramLayer[] | undefined,
+  visibleLayers?: readonly string[],
+): Set<string> {
+  const visible = visibleLayers ? new Set(visibleLayers) : null;
+  return new Set(
+    (layers ?? [])
+      .filter((l) => (visible ? !visible.has(l.id) : l.hidden === true))
+      .map((l) => l.id),
+  );
+}
+
+/** Returns the ids of the layers whose elements cannot be moved or deleted. */
+export function getLockedLayerIds(layers: readonly DiagramLayer[] | undefined): Set<string> {
+  return new Set((layers ?? []).filter((l) => l.locked).map((l) => l.id));
+}
+
+/** True when the element is assigned to one of the given layers. */
+export function isOnLayer(element: { layer?: string }, layerIds: ReadonlySet<string>): boolean {
+  return element.layer !== undefined && layerIds.has(element.layer);
+}
+
+/**
+ * Returns a copy of the document that only contains elements on visible
+ * layers. Edges are dropped as well when either endpoint is hidden.
+ * Groups and layer definitions are kept as-is.
+ */
+export function filterDocumentByLayers(
+  doc: DiagramDocument,
+  options: LayerFilterOptions = {},
+): DiagramDocument {
+  const hidden = getHiddenLayerIds(doc.layers, options.visibleLayers);
+  if (hidden.size === 0) return doc;
+
+  const nodes = doc.nodes.filter((n) => !isOnLayer(n, hidden));
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  return {
+    ...doc,
+    nodes,
+    edges: doc.edges.filter(
+      (e) => !isOnLayer(e, hidden) && nodeIds.has(e.source) && nodeIds.has(e.target),
+    ),
+    ...(doc.textElements
+      ? { textElements: doc.textElements.filter((t) => !isOnLayer(t, hidden)) }
+      : {}),
+    ...(doc.imageElements
+      ? { imageElements: doc.imageElements.filter((i) => !isOnLayer(i, hidden)) }
+      : {}),
+  };
+}
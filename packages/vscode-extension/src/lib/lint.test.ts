@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { LINT_RULES, lintDiagram, recordDeprecatedDependents, resolveLintFix, type LintRuleId } from './lint';
+import type { DiagramDocument, DiagramNode } from '../types/DiagramDocument';
+
+function node(id: string, label: string, extra: Partial<DiagramNode> = {}): DiagramNode {
+  return { id, label, x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, ...extra };
+}
+
+function makeDoc(): DiagramDocument {
+  return {
+    meta: { title: 'T', created: '', modified: '' },
+    nodes: [node('web', 'Web'), node('api', 'API'), node('db', 'DB')],
+    edges: [
+      { id: 'e1', source: 'web', target: 'api', label: 'calls', protocol: 'REST', style: 'solid', arrow: 'arrow' },
+      { id: 'e2', source: 'api', target: 'db', label: 'reads', protocol: 'SQL', style: 'solid', arrow: 'arrow' },
+    ],
+  };
+}
+
+function findingsFor(doc: DiagramDocument, rule: LintRuleId) {
+  return lintDiagram(doc).filter((f) => f.rule === rule);
+}
+
+describe('lintDiagram', () => {
+  it('finds nothing in a healthy diagram', () => {
+    expect(lintDiagram(makeDoc())).toEqual([]);
+  });
+
+  it('reports nodes without edges', () => {
+    const doc = makeDoc();
+    doc.nodes.push(node('cache', 'Cache'));
+    expect(findingsFor(doc, 'orphan-node')).toEqual([
+      expect.objectContaining({ elementId: 'cache', path: 'nodes[3]', severity: 'warning' }),
+    ]);
+  });
+
+  it('reports edges without label or protocol, with fixes that ask for the value', () => {
+    const doc = makeDoc();
+    delete doc.edges[1].label;
+    doc.edges[1].protocol = ' ';
+
+    const [label] = findingsFor(doc, 'edge-missing-label');
+    const [protocol] = findingsFor(doc, 'edge-missing-protocol');
+    expect(label.message).toBe('Edge "API" → "DB" has no label');
+    expect(protocol.fix?.input?.field).toBe('protocol');
+    expect(resolveLintFix(protocol.fix!, 'JDBC')).toEqual([
+      { op: 'update_edge', id: 'e2', changes: { protocol: 'JDBC' } },
+    ]);
+  });
+
+  it('reports PII stores reachable from public nodes unless a security boundary is in between', () => {
+    const doc = makeDoc();
+    doc.nodes[0].securityClassification = 'public';
+    doc.nodes[2].securityClassification = 'pii-data-store';
+    expect(findingsFor(doc, 'pii-reachable-from-public')).toEqual([
+      expect.objectContaining({ elementId: 'db', severity: 'error', message: expect.stringContaining('"Web"') }),
+    ]);
+
+    doc.nodes[1].securityClassification = 'security-boundary';
+    expect(findingsFor(doc, 'pii-reachable-from-public')).toEqual([]);
+  });
+
+  it('follows bidirectional edges both ways', () => {
+    const doc = makeDoc();
+    doc.nodes[2].securityClassification = 'public';
+    doc.nodes[0].securityClassification = 'pii-data-store';
+    expect(findingsFor(doc, 'pii-reachable-from-public')).toEqual([]);
+
+    doc.edges.forEach((e) => (e.bidirectional = true));
+    expect(findingsFor(doc, 'pii-reachable-from-public')).toHaveLength(1);
+  });
+
+  it('reports dependencies on deprecated nodes and offers to point them at the successor', () => {
+    const doc = makeDoc();
+    doc.nodes.push(node('db2', 'DB v2'));
+    doc.edges.push({ id: 'e3', source: 'api', target: 'db2', label: 'writes', protocol: 'SQL', style: 'solid', arrow: 'arrow' });
+    doc.nodes[2].properties = { status: 'being-replaced-by: DB v2' };
+
+    const [finding] = findingsFor(doc, 'deprecated-inbound-edge');
+    expect(finding).toMatchObject({ elementId: 'e2', path: 'edges[1].target' });
+    expect(finding.fix?.ops).toEqual([{ op: 'update_edge', id: 'e2', changes: { target: 'db2' } }]);
+  });
+
+  it('does not report edges between deprecated nodes or offer a fix without a successor', () => {
+    const doc = makeDoc();
+    doc.nodes[2].tags = ['deprecated'];
+    expect(findingsFor(doc, 'deprecated-inbound-edge')[0].fix).toBeUndefined();
+
+    // API → DB is now between deprecated nodes; only Web → API remains.
+    doc.nodes[1].tags = ['deprecated'];
+    expect(findingsFor(doc, 'deprecated-inbound-edge').map((f) => f.elementId)).toEqual(['e1']);
+  });
+
+  it('only reports dependents added after the deprecation', () => {
+    const doc = makeDoc();
+    doc.nodes[2].properties = { status: 'deprecated', deprecatedDependents: ['api'] };
+    expect(findingsFor(doc, 'deprecated-inbound-edge')).toEqual([]);
+
+    doc.edges.push({ id: 'e3', source: 'web', target: 'db', label: 'reads', protocol: 'SQL', style: 'solid', arrow: 'arrow' });
+    expect(findingsFor(doc, 'deprecated-inbound-edge').map((f) => f.elementId)).toEqual(['e3']);
+  });
+
+  it('reports empty groups and offers to remove them', () => {
+    const doc = makeDoc();
+    doc.groups = [
+      { id: 'g1', label: 'Region' },
+      { id: 'g2', label: 'VPC', parent: 'g1' },
+      { id: 'g3', label: 'Subnet', parent: 'g2' },
+      { id: 'g4', label: 'Unused' },
+    ];
+    doc.nodes[0].group = 'g3';
+    const findings = findingsFor(doc, 'empty-group');
+    expect(findings.map((f) => f.elementId)).toEqual(['g4']);
+    expect(findings[0].fix?.ops).toEqual([{ op: 'remove_group', id: 'g4' }]);
+  });
+
+  it('skips rules that are turned off', () => {
+    const doc = makeDoc();
+    doc.nodes.push(node('cache', 'Cache'));
+    expect(lintDiagram(doc, { 'orphan-node': false })).toEqual([]);
+  });
+
+  it('has a unique id and a description for every rule', () => {
+    const ids = LINT_RULES.map((r) => r.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(LINT_RULES.every((r) => r.description.length > 0)).toBe(true);
+  });
+});
+
+describe('recordDeprecatedDependents', () => {
+  it('records the dependents of newly deprecated nodes from the previous state', () => {
+    const before = makeDoc();
+    const after = structuredClone(before);
+    after.nodes[2].tags = ['deprecated'];
+    after.edges.push({ id: 'e3', source: 'web', target: 'db', style: 'solid', arrow: 'arrow' });
+
+    recordDeprecatedDependents(before, after);
+
+    expect(after.nodes[2].properties).toEqual({ deprecatedDependents: ['api'] });
+    expect(findingsFor(after, 'deprecated-inbound-edge').map((f) => f.elementId)).toEqual(['e3']);
+  });
+
+  it('keeps the record while deprecated and drops it when the node is reinstated', () => {
+    const before = makeDoc();
+    before.nodes[2].properties = { status: 'deprecated', deprecatedDependents: ['api'] };
+    before.edges.push({ id: 'e3', source: 'web', target: 'db', style: 'solid', arrow: 'arrow' });
+    const after = structuredClone(before);
+
+    recordDeprecatedDependents(before, after);
+    expect(after.nodes[2].properties?.deprecatedDependents).toEqual(['api']);
+
+    after.nodes[2].properties = { status: 'active', deprecatedDependents: ['api'] };
+    recordDeprecatedDependents(before, after);
+    expect(after.nodes[2].properties).toEqual({ status: 'active' });
+  });
+});
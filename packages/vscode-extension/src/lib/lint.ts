@@ -0,0 +1,269 @@
+/**
+ * Module: src/lib/lint.ts
+ *
+ * Architecture lint rules. Each rule inspects a valid DiagramDocument and
+ * reports findings on individual nodes, edges or groups: things that are
+ * allowed by the schema but usually mean the diagram (or the architecture it
+ * describes) is unhealthy.
+ *
+ * Findings are shown in the Problems panel, as badges on the canvas and by the
+ * diagramflow_lintDiagram tool. A finding may carry a quick fix expressed as
+ * semantic ops, so every surface applies it the same way. Fixes that need a
+ * value from the user (e.g. a protocol name) declare an `input` instead of
+ * guessing one.
+ *
+ * All functions are pure.
+ */
+
+import type { DiagramDocument, DiagramEdge, DiagramNode } from '../types/DiagramDocument';
+import type { SemanticOp } from '../types/operations';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRuleId =
+  | 'orphan-node'
+  | 'edge-missing-label'
+  | 'edge-missing-protocol'
+  | 'pii-reachable-from-public'
+  | 'deprecated-inbound-edge'
+  | 'empty-group';
+
+export interface LintFix {
+  title: string;
+  ops: SemanticOp[];
+  /**
+   * Set when the fix needs a value from the user. The answer is written to
+   * `changes[field]` of every update op before the ops are applied.
+   */
+  input?: { prompt: string; placeholder?: string; field: string };
+}
+
+export interface LintFinding {
+  /** The lint rule, or `stale-reference` for drift findings (lib/drift.ts). */
+  rule: LintRuleId | 'stale-reference';
+  severity: LintSeverity;
+  message: string;
+  /** Id of the node, edge or group the finding is about. */
+  elementId: string;
+  /** JSON path of that element (or of the offending field) in the document. */
+  path: string;
+  fix?: LintFix;
+}
+
+/** Rule id → enabled. Rules missing from the map are enabled. */
+export type LintSettings = Partial<Record<LintRuleId, boolean>>;
+
+export interface LintRule {
+  id: LintRuleId;
+  severity: LintSeverity;
+  /** One-line description, shown in settings and by the lint tool. */
+  description: string;
+  check: (doc: DiagramDocument) => Omit<LintFinding, 'rule' | 'severity'>[];
+}
+
+function edgeName(doc: DiagramDocument, edge: DiagramEdge): string {
+  const label = (id: string) => doc.nodes.find((n) => n.id === id)?.label ?? id;
+  return `"${label(edge.source)}" → "${label(edge.target)}"`;
+}
+
+/** Deprecated by tag or by `properties.status` ("deprecated", "being-replaced-by:<label>"). */
+function isDeprecated(node: DiagramNode): boolean {
+  const status = node.properties?.status;
+  return (
+    node.tags?.includes('deprecated') === true ||
+    status === 'deprecated' ||
+    (typeof status === 'string' && status.startsWith('being-replaced-by:'))
+  );
+}
+
+/**
+ * Records on every node that `after` newly deprecates which nodes depended on
+ * it in `before`, so deprecated-inbound-edge only reports dependencies added
+ * since. Nodes that are no longer deprecated drop the record. Mutates `after`.
+ */
+export function recordDeprecatedDependents(before: DiagramDocument, after: DiagramDocument): void {
+  const wasDeprecated = new Set(before.nodes.filter(isDeprecated).map((n) => n.id));
+  for (const node of after.nodes) {
+    if (!isDeprecated(node)) {
+      if (node.properties?.deprecatedDependents) delete node.properties.deprecatedDependents;
+      continue;
+    }
+    if (wasDeprecated.has(node.id)) continue;
+    const dependents = [...new Set(before.edges.filter((e) => e.target === node.id).map((e) => e.source))];
+    if (dependents.length > 0) node.properties = { ...node.properties, deprecatedDependents: dependents };
+  }
+}
+
+function successorOf(doc: DiagramDocument, node: DiagramNode): DiagramNode | undefined {
+  const status = node.properties?.status;
+  if (typeof status !== 'string' || !status.startsWith('being-replaced-by:')) return undefined;
+  const label = status.slice('being-replaced-by:'.length).trim().toLowerCase();
+  return doc.nodes.find((n) => n.id !== node.id && n.label.trim().toLowerCase() === label);
+}
+
+/** Node ids reachable from `start` following edge direction (both ways for bidirectional edges). */
+function reachableFrom(doc: DiagramDocument, start: string, through: (id: string) => boolean): Set<string> {
+  const next = new Map<string, string[]>();
+  const link = (from: string, to: string) => next.set(from, [...(next.get(from) ?? []), to]);
+  for (const edge of doc.edges) {
+    link(edge.source, edge.target);
+    if (edge.bidirectional) link(edge.target, edge.source);
+  }
+  const seen = new Set<string>([start]);
+  const queue = [start];
+  // Array iteration also visits the ids pushed during the loop.
+  for (const id of queue) {
+    if (id !== start && !through(id)) continue;
+    for (const to of next.get(id) ?? []) {
+      if (!seen.has(to)) {
+        seen.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  seen.delete(start);
+  return seen;
+}
+
+export const LINT_RULES: readonly LintRule[] = [
+  {
+    id: 'orphan-node',
+    severity: 'warning',
+    description: 'Nodes that have no edges',
+    check: (doc) => {
+      const connected = new Set(doc.edges.flatMap((e) => [e.source, e.target]));
+      return doc.nodes.flatMap((node, i) =>
+        connected.has(node.id)
+          ? []
+          : [{ message: `"${node.label}" is not connected to anything`, elementId: node.id, path: `nodes[${i}]` }],
+      );
+    },
+  },
+  {
+    id: 'edge-missing-label',
+    severity: 'info',
+    description: 'Edges without a label',
+    check: (doc) =>
+      doc.edges.flatMap((edge, i) =>
+        edge.label?.trim()
+          ? []
+          : [{
+              message: `Edge ${edgeName(doc, edge)} has no label`,
+              elementId: edge.id,
+              path: `edges[${i}]`,
+              fix: {
+                title: 'Add missing label',
+                ops: [{ op: 'update_edge', id: edge.id, changes: {} }],
+                input: { prompt: `Label for edge ${edgeName(doc, edge)}`, placeholder: 'e.g. reads orders', field: 'label' },
+              },
+            }],
+      ),
+  },
+  {
+    id: 'edge-missing-protocol',
+    severity: 'info',
+    description: 'Edges without a protocol',
+    check: (doc) =>
+      doc.edges.flatMap((edge, i) =>
+        edge.protocol?.trim()
+          ? []
+          : [{
+              message: `Edge ${edgeName(doc, edge)} has no protocol`,
+              elementId: edge.id,
+              path: `edges[${i}]`,
+              fix: {
+                title: 'Add missing protocol',
+                ops: [{ op: 'update_edge', id: edge.id, changes: {} }],
+                input: { prompt: `Protocol for edge ${edgeName(doc, edge)}`, placeholder: 'e.g. REST, gRPC, Kafka (async)', field: 'protocol' },
+              },
+            }],
+      ),
+  },
+  {
+    id: 'pii-reachable-from-public',
+    severity: 'error',
+    description: 'PII data stores reachable from public nodes without passing a security boundary',
+    check: (doc) => {
+      const byId = new Map(doc.nodes.map((n) => [n.id, n]));
+      const notBoundary = (id: string) => byId.get(id)?.securityClassification !== 'security-boundary';
+      const findings: Omit<LintFinding, 'rule' | 'severity'>[] = [];
+      doc.nodes.forEach((store, i) => {
+        if (store.securityClassification !== 'pii-data-store') return;
+        const exposedTo = doc.nodes
+          .filter((n) => n.securityClassification === 'public' && reachableFrom(doc, n.id, notBoundary).has(store.id))
+          .map((n) => `"${n.label}"`);
+        if (exposedTo.length > 0) {
+          findings.push({
+            message: `PII data store "${store.label}" is reachable from public ${exposedTo.join(', ')} without a security boundary`,
+            elementId: store.id,
+            path: `nodes[${i}]`,
+          });
+        }
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'deprecated-inbound-edge',
+    severity: 'warning',
+    description: 'New dependencies of non-deprecated nodes on deprecated ones, added after the deprecation',
+    check: (doc) => {
+      const byId = new Map(doc.nodes.map((n) => [n.id, n]));
+      return doc.edges.flatMap((edge, i) => {
+        const target = byId.get(edge.target);
+        const source = byId.get(edge.source);
+        if (!target || !source || !isDeprecated(target) || isDeprecated(source)) return [];
+        if (target.properties?.deprecatedDependents?.includes(source.id)) return [];
+        const successor = successorOf(doc, target);
+        return [{
+          message: `"${source.label}" depends on deprecated "${target.label}"`,
+          elementId: edge.id,
+          path: `edges[${i}].target`,
+          ...(successor && {
+            fix: {
+              title: `Point edge at "${successor.label}"`,
+              ops: [{ op: 'update_edge', id: edge.id, changes: { target: successor.id } }],
+            },
+          }),
+        }];
+      });
+    },
+  },
+  {
+    id: 'empty-group',
+    severity: 'warning',
+    description: 'Groups without nodes or nested groups',
+    check: (doc) => {
+      const used = new Set([
+        ...doc.nodes.flatMap((n) => (n.group ? [n.group] : [])),
+        ...(doc.groups ?? []).flatMap((g) => (g.parent ? [g.parent] : [])),
+      ]);
+      return (doc.groups ?? []).flatMap((group, i) =>
+        used.has(group.id)
+          ? []
+          : [{
+              message: `Group "${group.label}" is empty`,
+              elementId: group.id,
+              path: `groups[${i}]`,
+              fix: { title: 'Remove empty group', ops: [{ op: 'remove_group', id: group.id }] },
+            }],
+      );
+    },
+  },
+];
+
+/** Runs every enabled rule over `doc`. */
+export function lintDiagram(doc: DiagramDocument, settings: LintSettings = {}): LintFinding[] {
+  return LINT_RULES.filter((rule) => settings[rule.id] !== false).flatMap((rule) =>
+    rule.check(doc).map((finding) => ({ rule: rule.id, severity: rule.severity, ...finding })),
+  );
+}
+
+/** The ops that apply `fix`, with the user's answer filled in when the fix asks for one. */
+export function resolveLintFix(fix: LintFix, value?: string): SemanticOp[] {
+  const input = fix.input;
+  if (!input) return fix.ops;
+  return fix.ops.map((op) =>
+    'changes' in op ? ({ ...op, changes: { ...op.changes, [input.field]: value } } as SemanticOp) : op,
+  );
+}
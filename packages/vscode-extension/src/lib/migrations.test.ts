@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  compareVersions,
+  isNewerSchema,
+  migrateDocument,
+  type Migration,
+} from './migrations';
+import type { DiagramDocument } from '../types/DiagramDocument';
+
+function makeDoc(version?: string): DiagramDocument {
+  return {
+    meta: { ...(version && { version }), title: 'T', created: '', modified: '' },
+    nodes: [],
+    edges: [],
+  };
+}
+
+function migration(from: string, to: string): Migration {
+  return {
+    from,
+    to,
+    description: `step to ${to}`,
+    migrate: (doc) => {
+      doc.meta.description = `${doc.meta.description ?? ''}>${to}`;
+    },
+  };
+}
+
+describe('compareVersions', () => {
+  it('compares dotted versions numerically', () => {
+    expect(compareVersions('1.10', '1.9')).toBe(1);
+    expect(compareVersions('1.0', '1')).toBe(0);
+    expect(compareVersions('1.0.5', '1.1')).toBe(-1);
+  });
+});
+
+describe('MIGRATIONS registry', () => {
+  it('forms an unbroken chain ending at the current version', () => {
+    for (let i = 1; i < MIGRATIONS.length; i++) {
+      expect(MIGRATIONS[i].from).toBe(MIGRATIONS[i - 1].to);
+    }
+    for (const step of MIGRATIONS) {
+      expect(compareVersions(step.to, step.from)).toBe(1);
+    }
+    expect(MIGRATIONS[MIGRATIONS.length - 1].to).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
+
+describe('migrateDocument', () => {
+  const registry = [migration('1.0', '1.1'), migration('1.1', '1.2'), migration('1.2', '2.0')];
+
+  it('runs every step from the file version in order and stamps the latest version', () => {
+    const result = migrateDocument(makeDoc('1.1'), registry);
+
+    expect(result.status).toBe('migrated');
+    expect(result.fromVersion).toBe('1.1');
+    expect(result.document.meta.description).toBe('>1.2>2.0');
+    expect(result.document.meta.version).toBe('2.0');
+    expect(result.applied).toHaveLength(2);
+  });
+
+  it('treats files without a version as 1.0', () => {
+    const result = migrateDocument(makeDoc(), registry);
+    expect(result.fromVersion).toBe('1.0');
+    expect(result.document.meta.description).toBe('>1.1>1.2>2.0');
+  });
+
+  it('does not modify the input document', () => {
+    const doc = makeDoc('1.0');
+    migrateDocument(doc, registry);
+    expect(doc).toEqual(makeDoc('1.0'));
+  });
+
+  it('leaves current documents alone', () => {
+    const doc = makeDoc('2.0');
+    const result = migrateDocument(doc, registry);
+    expect(result.status).toBe('current');
+    expect(result.document).toBe(doc);
+  });
+
+  it('flags documents from a newer schema without touching them', () => {
+    const doc = makeDoc('2.1');
+    const result = migrateDocument(doc, registry);
+    expect(result.status).toBe('newer');
+    expect(result.document).toBe(doc);
+    expect(isNewerSchema(doc, registry)).toBe(true);
+    expect(isNewerSchema(makeDoc('1.0'), registry)).toBe(false);
+  });
+});
+
+describe('migration 1.0 → 1.1', () => {
+  const step = MIGRATIONS.find((m) => m.from === '1.0')!;
+
+  it('fills in node and edge fields that old files omit', () => {
+    const doc = {
+      meta: { title: 'T', created: '', modified: '' },
+      nodes: [{ id: 'n1', label: 'A' }, { id: 'n2', label: 'B', shape: 'cylinder', pinned: true, x: 5, y: 6 }],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2', style: 'dashed' }],
+    } as unknown as DiagramDocument;
+
+    step.migrate(doc);
+
+    expect(doc.nodes[0]).toEqual({
+      id: 'n1', label: 'A', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false,
+    });
+    expect(doc.nodes[1]).toMatchObject({ shape: 'cylinder', pinned: true, x: 5, y: 6 });
+    expect(doc.edges[0]).toMatchObject({ style: 'dashed', arrow: 'arrow' });
+  });
+
+  it('creates missing node and edge arrays', () => {
+    const doc = { meta: { title: 'T', created: '', modified: '' } } as unknown as DiagramDocument;
+    step.migrate(doc);
+    expect(doc.nodes).toEqual([]);
+    expect(doc.edges).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Module: src/lib/migrations.ts
+ *
+ * Schema versioning for .diagram files. `meta.version` records the schema a
+ * file was written with; files without one predate versioning and count as
+ * '1.0'. DiagramService runs every parsed document through `migrateDocument`,
+ * which applies the registered upgrade steps in order up to
+ * CURRENT_SCHEMA_VERSION. Nothing is written back until the next edit.
+ *
+ * Files from a newer schema are returned untouched and flagged `newer`; the
+ * editor opens them read-only rather than risk dropping fields it does not
+ * know about.
+ *
+ * To change the schema: bump the version in a new `Migration` appended to
+ * MIGRATIONS and give it its own test in migrations.test.ts.
+ */
+
+import type { DiagramDocument, DiagramEdge, DiagramNode } from '../types/DiagramDocument';
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from '../types/DiagramDocument';
+
+/** Version assumed for files written before `meta.version` was read. */
+export const UNVERSIONED_SCHEMA = '1.0';
+
+export interface Migration {
+  /** Schema version this step upgrades from. */
+  from: string;
+  /** Schema version after this step. */
+  to: string;
+  /** One-line summary of what the step changes. */
+  description: string;
+  /** Upgrades the document in place. Fields may be missing or malformed. */
+  migrate: (doc: DiagramDocument) => void;
+}
+
+function objectsIn<T>(list: unknown): Partial<T>[] {
+  return Array.isArray(list) ? list.filter((item): item is Partial<T> => !!item && typeof item === 'object') : [];
+}
+
+/** Ordered upgrade steps; each `from` is the previous step's `to`. */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    from: '1.0',
+    to: '1.1',
+    description: 'Fill in node and edge fields that early and hand-written files omit',
+    migrate: (doc) => {
+      // Malformed values are left for the validator to report.
+      doc.nodes ??= [];
+      doc.edges ??= [];
+      for (const node of objectsIn<DiagramNode>(doc.nodes)) {
+        node.x ??= 0;
+        node.y ??= 0;
+        node.width ??= DEFAULT_NODE_WIDTH;
+        node.height ??= DEFAULT_NODE_HEIGHT;
+        node.shape ??= 'rectangle';
+        node.color ??= 'default';
+        node.pinned ??= false;
+      }
+      for (const edge of objectsIn<DiagramEdge>(doc.edges)) {
+        edge.style ??= 'solid';
+        edge.arrow ??= 'arrow';
+      }
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+export interface MigrationResult {
+  /**
+   * - current: already at the latest schema
+   * - migrated: upgraded by one or more steps
+   * - newer: written by a newer schema; returned unchanged
+   */
+  status: 'current' | 'migrated' | 'newer';
+  document: DiagramDocument;
+  /** Schema version the file was written with. */
+  fromVersion: string;
+  /** Descriptions of the applied steps, oldest first. */
+  applied: string[];
+}
+
+/** Compares dotted version strings numerically ("1.10" > "1.9"). */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((p) => parseInt(p, 10) || 0);
+  const pb = b.split('.').map((p) => parseInt(p, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+export function schemaVersionOf(doc: DiagramDocument): string {
+  const version = doc.meta?.version;
+  return typeof version === 'string' && version.trim() !== '' ? version.trim() : UNVERSIONED_SCHEMA;
+}
+
+/** True when the document was written by a newer schema than this build supports. */
+export function isNewerSchema(doc: DiagramDocument, migrations: readonly Migration[] = MIGRATIONS): boolean {
+  const latest = migrations[migrations.length - 1].to;
+  return compareVersions(schemaVersionOf(doc), latest) > 0;
+}
+
+/**
+ * Upgrades `doc` to the latest schema in `migrations`. The input is not
+ * modified. Every step whose `to` is newer than the file's version runs, so a
+ * version between two steps (e.g. a hand-edited "1.0.5") is upgraded too.
+ */
+export function migrateDocument(
+  doc: DiagramDocument,
+  migrations: readonly Migration[] = MIGRATIONS,
+): MigrationResult {
+  const fromVersion = schemaVersionOf(doc);
+  const latest = migrations[migrations.length - 1].to;
+  const order = compareVersions(fromVersion, latest);
+  if (order > 0) return { status: 'newer', document: doc, fromVersion, applied: [] };
+  if (order === 0) return { status: 'current', document: doc, fromVersion, applied: [] };
+
+  const migrated = structuredClone(doc);
+  const applied: string[] = [];
+  for (const step of migrations) {
+    if (compareVersions(step.to, fromVersion) <= 0) continue;
+    step.migrate(migrated);
+    applied.push(`${step.from} → ${step.to}: ${step.description}`);
+  }
+  migrated.meta = { ...migrated.meta, version: latest };
+  return { status: 'migrated', document: migrated, fromVersion, applied };
+}
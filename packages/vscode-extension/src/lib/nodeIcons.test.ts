@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { buildNodeIconSvg, DEFAULT_NODE_TYPE_ICONS, NODE_ICON_PATHS, resolveNodeIcon } from './nodeIcons';
+import { NODE_ICONS, NODE_TYPES } from '../types/DiagramDocument';
+
+describe('nodeIcons', () => {
+  it('has path data for every icon and a default for every node type', () => {
+    for (const icon of NODE_ICONS.filter((i) => i !== 'none')) {
+      expect(NODE_ICON_PATHS[icon as keyof typeof NODE_ICON_PATHS]).toMatch(/^M/);
+    }
+    for (const type of NODE_TYPES) {
+      expect(DEFAULT_NODE_TYPE_ICONS[type]).toBeDefined();
+    }
+  });
+
+  it('prefers the explicit icon, then the type default', () => {
+    expect(resolveNodeIcon({ type: 'Cache' })).toBe('bolt');
+    expect(resolveNodeIcon({ type: 'Database' })).toBe('database');
+    expect(resolveNodeIcon({ type: 'Cache', icon: 'server' })).toBe('server');
+    expect(resolveNodeIcon({ type: 'Cache', icon: 'none' })).toBeUndefined();
+    expect(resolveNodeIcon({})).toBeUndefined();
+  });
+
+  it('builds a stroked, self-contained SVG element', () => {
+    const svg = buildNodeIconSvg('lock', 6, 6, '#ccc');
+    expect(svg).toContain('x="6" y="6" width="16" height="16" viewBox="0 0 24 24"');
+    expect(svg).toContain('stroke="#ccc"');
+    expect(svg).toContain(`<path d="${NODE_ICON_PATHS.lock}"/>`);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Module: src/lib/nodeIcons.ts
+ *
+ * Offline icon set for nodes. Icons are stroke-only SVG paths on a 24×24 grid
+ * so they inherit the node's text colour; the canvas renders them as inline
+ * SVG and the exporters embed the same path data, so no network access or
+ * asset files are needed.
+ */
+
+import type { DiagramNode, NodeIcon, NodeType } from '../types/DiagramDocument';
+
+export type NodeIconGlyph = Exclude<NodeIcon, 'none'>;
+
+/** Path data for every icon, drawn on a 24×24 viewBox. */
+export const NODE_ICON_PATHS: Record<NodeIconGlyph, string> = {
+  person: 'M12 12a4 4 0 1 0 0-8 4 4 0 0 0 0 8z M4 21a8 8 0 0 1 16 0',
+  globe:
+    'M12 3a9 9 0 1 0 0 18 9 9 0 0 0 0-18z M3 12h18 M12 3c2.5 2.7 3.8 5.7 3.8 9s-1.3 6.3-3.8 9 M12 3c-2.5 2.7-3.8 5.7-3.8 9s1.3 6.3 3.8 9',
+  box: 'M12 3l8 4.5v9L12 21l-8-4.5v-9z M4 7.5l8 4.5 8-4.5 M12 12v9',
+  gear:
+    'M12 9a3 3 0 1 0 0 6 3 3 0 0 0 0-6z M12 2v3 M12 19v3 M2 12h3 M19 12h3 M4.9 4.9l2.1 2.1 M17 17l2.1 2.1 M4.9 19.1l2.1-2.1 M17 7l2.1-2.1',
+  database:
+    'M4 6c0-1.7 3.6-3 8-3s8 1.3 8 3-3.6 3-8 3-8-1.3-8-3z M4 6v12c0 1.7 3.6 3 8 3s8-1.3 8-3V6 M4 12c0 1.7 3.6 3 8 3s8-1.3 8-3',
+  queue: 'M3 7h18v10H3z M8 7v10 M13 7v10 M18 7v10',
+  bolt: 'M13 2L4 14h7l-1 8 9-12h-7z',
+  lambda: 'M5 20l6-10 M7 4h3l8 16',
+  server: 'M4 4h16v6H4z M4 14h16v6H4z M8 7h.01 M8 17h.01',
+  cloud: 'M7 18a4 4 0 0 1-.5-8 6 6 0 0 1 11.5 1.5A3.5 3.5 0 0 1 17.5 18z',
+  lock: 'M6 11h12v10H6z M8 11V7a4 4 0 0 1 8 0v4',
+  document: 'M6 3h8l4 4v14H6z M14 3v4h4',
+};
+
+/** Icon shown for each node type when the node has no `icon` of its own. */
+export const DEFAULT_NODE_TYPE_ICONS: Record<NodeType, NodeIconGlyph> = {
+  Person: 'person',
+  ExternalSystem: 'globe',
+  Container: 'box',
+  Service: 'gear',
+  Database: 'database',
+  MessageQueue: 'queue',
+  Cache: 'bolt',
+  Function: 'lambda',
+};
+
+/** Side length of the icon drawn in the top-left corner of a node. */
+export const NODE_ICON_SIZE = 16;
+
+/**
+ * Returns the icon to draw for a node: its explicit `icon`, otherwise the
+ * default for its `type`. Returns undefined when the node shows no icon.
+ */
+export function resolveNodeIcon(node: Pick<DiagramNode, 'icon' | 'type'>): NodeIconGlyph | undefined {
+  if (node.icon === 'none') return undefined;
+  if (node.icon) return node.icon;
+  return node.type ? DEFAULT_NODE_TYPE_ICONS[node.type] : undefined;
+}
+
+/**
+ * Builds a nested `<svg>` element for an icon at (x, y) in the parent's
+ * coordinates, stroked with `color`.
+ */
+export function buildNodeIconSvg(icon: NodeIconGlyph, x: number, y: number, color: string): string {
+  return `<svg x="${x}" y="${y}" width="${NODE_ICON_SIZE}" height="${NODE_ICON_SIZE}" viewBox="0 0 24 24" fill="none" stroke="${color}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="${NODE_ICON_PATHS[icon]}"/></svg>`;
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { nodeLabelY, nodeOutlinePath } from './nodeShapes';
+import { NODE_SHAPES } from '../types/DiagramDocument';
+
+describe('nodeOutlinePath', () => {
+  it('returns null for shapes drawn as rectangles or polygons', () => {
+    for (const shape of ['rectangle', 'rounded', 'diamond', 'cylinder', 'note'] as const) {
+      expect(nodeOutlinePath(shape, 160, 48)).toBeNull();
+    }
+  });
+
+  it('returns a path for every other shape', () => {
+    const outlined = NODE_SHAPES.filter((s) => nodeOutlinePath(s, 160, 48) !== null);
+    expect(outlined).toEqual(['hexagon', 'cloud', 'actor', 'document', 'queue', 'parallelogram']);
+  });
+
+  it('keeps polygon shapes inside the node box', () => {
+    expect(nodeOutlinePath('parallelogram', 160, 50)).toBe('M 20 0 L 160 0 L 140 50 L 0 50 Z');
+    expect(nodeOutlinePath('hexagon', 40, 100)).toBe('M 10 0 L 30 0 L 40 50 L 30 100 L 10 100 L 0 50 Z');
+  });
+
+  it('scales the cloud outline to the box', () => {
+    expect(nodeOutlinePath('cloud', 200, 100)?.startsWith('M 50 90 C 12 90 0 62 32 52')).toBe(true);
+  });
+});
+
+describe('nodeLabelY', () => {
+  it('centres labels except for actors, whose label sits below the figure', () => {
+    expect(nodeLabelY('rectangle', 48)).toBe(24);
+    expect(nodeLabelY('actor', 100)).toBe(88);
+  });
+});
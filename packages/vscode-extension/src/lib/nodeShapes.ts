@@ -0,0 +1,92 @@
+/**
+ * Module: src/lib/nodeShapes.ts
+ *
+ * Outline geometry for node shapes that cannot be drawn as a (rounded)
+ * rectangle. The canvas, the extension-host SVG builders and the webview
+ * exporter all draw these outlines from the same path data so a shape looks
+ * the same everywhere.
+ *
+ * All functions are pure; coordinates are local to the node box
+ * (0,0 = top-left, width × height).
+ */
+
+import type { NodeShape } from '../types/DiagramDocument';
+
+/** Rounds to two decimals so generated path data stays short and stable. */
+function r(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Scales a path given in unit coordinates ("x y" pairs in 0..1) to the box. */
+function scaleUnitPath(commands: [string, number[]][], w: number, h: number): string {
+  return commands
+    .map(([cmd, coords]) => {
+      const scaled = coords.map((c, i) => r(i % 2 === 0 ? c * w : c * h));
+      return `${cmd} ${scaled.join(' ')}`.trim();
+    })
+    .join(' ');
+}
+
+const CLOUD_PATH: [string, number[]][] = [
+  ['M', [0.25, 0.9]],
+  ['C', [0.06, 0.9, 0, 0.62, 0.16, 0.52]],
+  ['C', [0.1, 0.26, 0.34, 0.1, 0.48, 0.24]],
+  ['C', [0.56, 0.02, 0.86, 0.06, 0.84, 0.36]],
+  ['C', [1, 0.4, 1, 0.9, 0.78, 0.9]],
+  ['Z', []],
+];
+
+/**
+ * Returns the SVG path data for shapes drawn as an outline, or null for
+ * shapes that render as a plain or rounded rectangle (rectangle, rounded,
+ * cylinder, note) or as a polygon handled by the caller (diamond).
+ */
+export function nodeOutlinePath(shape: NodeShape, w: number, h: number): string | null {
+  switch (shape) {
+    case 'hexagon': {
+      const inset = r(Math.min(h * 0.3, w / 4));
+      return `M ${inset} 0 L ${r(w - inset)} 0 L ${w} ${r(h / 2)} L ${r(w - inset)} ${h} L ${inset} ${h} L 0 ${r(h / 2)} Z`;
+    }
+    case 'parallelogram': {
+      const skew = r(Math.min(h * 0.4, w / 4));
+      return `M ${skew} 0 L ${w} 0 L ${r(w - skew)} ${h} L 0 ${h} Z`;
+    }
+    case 'document': {
+      const wave = h * 0.1;
+      return `M 0 0 L ${w} 0 L ${w} ${r(h - wave)} C ${r(w * 0.75)} ${r(h - 3 * wave)} ${r(w * 0.25)} ${r(h + wave)} 0 ${r(h - wave)} Z`;
+    }
+    case 'queue': {
+      // Horizontal cylinder: the right-hand cap is drawn as a visible face.
+      const e = r(Math.min(w * 0.1, h / 4));
+      const ry = r(h / 2);
+      return `M ${e} 0 L ${r(w - e)} 0 A ${e} ${ry} 0 0 1 ${r(w - e)} ${h} L ${e} ${h} A ${e} ${ry} 0 0 1 ${e} 0 Z M ${r(w - e)} 0 A ${e} ${ry} 0 0 0 ${r(w - e)} ${h}`;
+    }
+    case 'cloud':
+      return scaleUnitPath(CLOUD_PATH, w, h);
+    case 'actor': {
+      // Stick figure in the top of the box; the label sits underneath (see nodeLabelY).
+      const figure = h * 0.72;
+      const cx = r(w / 2);
+      const head = r(Math.min(w, figure) * 0.14);
+      const headCy = r(head + 1);
+      const neck = r(headCy + head);
+      const hip = r(figure * 0.68);
+      const arms = r(figure * 0.45);
+      const reach = r(Math.min(w * 0.2, figure * 0.3));
+      return [
+        `M ${r(w / 2 - head)} ${headCy} A ${head} ${head} 0 1 0 ${r(w / 2 + head)} ${headCy} A ${head} ${head} 0 1 0 ${r(w / 2 - head)} ${headCy} Z`,
+        `M ${cx} ${neck} L ${cx} ${hip}`,
+        `M ${r(w / 2 - reach)} ${arms} L ${r(w / 2 + reach)} ${arms}`,
+        `M ${cx} ${hip} L ${r(w / 2 - reach)} ${r(figure)}`,
+        `M ${cx} ${hip} L ${r(w / 2 + reach)} ${r(figure)}`,
+      ].join(' ');
+    }
+    default:
+      return null;
+  }
+}
+
+/** Vertical centre of the node label; actors put it below the figure. */
+export function nodeLabelY(shape: NodeShape, h: number): number {
+  return shape === 'actor' ? r(h * 0.88) : h / 2;
+}
@@ -436,6 +436,36 @@ describe('applyOps - update_edge', () => {
     expect(result.document!.edges[0].arrow).toBe('none');
   });
 
+  it('should update edge routing and waypoints', () => {
+    const doc = makeBaseDoc();
+    const result = applyOps(
+      doc,
+      [
+        {
+          op: 'update_edge',
+          id: 'e1',
+          changes: { routing: 'straight', waypoints: [{ x: 200, y: 20 }] },
+        },
+      ],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.edges[0].routing).toBe('straight');
+    expect(result.document!.edges[0].waypoints).toEqual([{ x: 200, y: 20 }]);
+  });
+
+  it('should remove the waypoints field when cleared with an empty array', () => {
+    const doc = makeBaseDoc();
+    doc.edges[0].waypoints = [{ x: 200, y: 20 }];
+    const result = applyOps(
+      doc,
+      [{ op: 'update_edge', id: 'e1', changes: { waypoints: [] } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.edges[0]).not.toHaveProperty('waypoints');
+  });
+
   it('should fail when updating non-existent edge', () => {
     const doc = makeBaseDoc();
     const result = applyOps(
@@ -532,6 +562,51 @@ describe('applyOps - compound operations', () => {
   });
 });
 
+describe('applyOps - client keys', () => {
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('resolves keys of elements created earlier in the batch and returns the id mapping', () => {
+    const doc = makeBaseDoc();
+    const ops: SemanticOp[] = [
+      { op: 'add_group', key: 'backend', group: { label: 'Backend' } },
+      { op: 'add_node', key: 'api', node: { label: 'API', group: 'backend' } },
+      { op: 'add_node', key: 'db', node: { label: 'DB' } },
+      { op: 'add_edge', key: 'query', edge: { source: 'api', target: 'db' } },
+      { op: 'update_node', id: 'db', changes: { group: 'backend' } },
+      { op: 'update_edge', id: 'query', changes: { label: 'SQL' } },
+    ];
+    const result = applyOps(doc, ops, mockId);
+    expect(result.success).toBe(true);
+    expect(result.ids).toEqual({ backend: 'gen_1', api: 'gen_2', db: 'gen_3', query: 'gen_4' });
+    const edge = result.document!.edges.find((e) => e.id === 'gen_4')!;
+    expect(edge).toMatchObject({ source: 'gen_2', target: 'gen_3', label: 'SQL' });
+    expect(result.document!.nodes.filter((n) => n.group === 'gen_1')).toHaveLength(2);
+  });
+
+  it('leaves existing ids untouched and omits ids when no keys are used', () => {
+    const doc = makeBaseDoc();
+    const result = applyOps(doc, [{ op: 'add_edge', edge: { source: 'n2', target: 'n1' } }], mockId);
+    expect(result.success).toBe(true);
+    expect(result.ids).toBeUndefined();
+  });
+
+  it('rejects a key used twice in one batch', () => {
+    const doc = makeBaseDoc();
+    const result = applyOps(
+      doc,
+      [
+        { op: 'add_node', key: 'x', node: { label: 'X' } },
+        { op: 'add_node', key: 'x', node: { label: 'Y' } },
+      ],
+      mockId,
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Client key "x" is used more than once');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // agentContext auto-generation
 // ---------------------------------------------------------------------------
@@ -1006,3 +1081,221 @@ describe('applyOps - sort_nodes persists meta.layoutDirection', () => {
     expect(doc.meta.layoutDirection).toBeUndefined();
   });
 });
+
+describe('applyOps - nested groups', () => {
+  function makeNestedDoc(): DiagramDocument {
+    const doc = makeDocWithGroups();
+    doc.groups = [
+      { id: 'region', label: 'Region' },
+      { id: 'vpc', label: 'VPC', parent: 'region' },
+      { id: 'subnet', label: 'Subnet', parent: 'vpc' },
+    ];
+    doc.nodes[1].group = 'subnet';
+    doc.nodes[2].group = 'vpc';
+    return doc;
+  }
+
+  it('adds a group nested inside an existing parent', () => {
+    const doc = makeNestedDoc();
+    const result = applyOps(
+      doc,
+      [{ op: 'add_group', group: { id: 'az', label: 'AZ', parent: 'region' } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.groups!.find((g) => g.id === 'az')!.parent).toBe('region');
+  });
+
+  it('fails to add a group with an unknown parent', () => {
+    const doc = makeNestedDoc();
+    const result = applyOps(
+      doc,
+      [{ op: 'add_group', group: { label: 'Orphan', parent: 'missing' } }],
+      mockId,
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+  });
+
+  it('rejects re-parenting a group into its own descendant', () => {
+    const doc = makeNestedDoc();
+    const result = applyOps(
+      doc,
+      [{ op: 'update_group', id: 'region', changes: { parent: 'subnet' } }],
+      mockId,
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('nested inside itself');
+  });
+
+  it('rejects a group as its own parent', () => {
+    const doc = makeNestedDoc();
+    const result = applyOps(
+      doc,
+      [{ op: 'update_group', id: 'vpc', changes: { parent: 'vpc' } }],
+      mockId,
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it('moves a group back to the top level with parent: undefined', () => {
+    const doc = makeNestedDoc();
+    const result = applyOps(
+      doc,
+      [{ op: 'update_group', id: 'subnet', changes: { parent: undefined } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.groups!.find((g) => g.id === 'subnet')).not.toHaveProperty('parent');
+  });
+
+  it('re-parents child nodes and sub-groups when removing a nested group', () => {
+    const doc = makeNestedDoc();
+    const result = applyOps(doc, [{ op: 'remove_group', id: 'vpc' }], mockId);
+    expect(result.success).toBe(true);
+    const after = result.document!;
+    expect(after.groups!.find((g) => g.id === 'subnet')!.parent).toBe('region');
+    expect(after.nodes.find((n) => n.id === 'g1-node-a')!.group).toBe('region');
+    expect(after.nodes.find((n) => n.id === 'g1-node-b')!.group).toBe('subnet');
+  });
+
+  it('detaches sub-groups when removing a top-level group', () => {
+    const doc = makeNestedDoc();
+    const result = applyOps(doc, [{ op: 'remove_group', id: 'region' }], mockId);
+    expect(result.success).toBe(true);
+    expect(result.document!.groups!.find((g) => g.id === 'vpc')).not.toHaveProperty('parent');
+  });
+});
+
+describe('applyOps - node ports', () => {
+  function makePortDoc(): DiagramDocument {
+    const doc = makeBaseDoc();
+    doc.nodes[0].ports = [{ id: 'out', side: 'right' }, { id: 'dlq', side: 'bottom', offset: 0.75 }];
+    doc.nodes[1].ports = [{ id: 'in', side: 'left' }];
+    return doc;
+  }
+
+  it('should add an edge between named ports', () => {
+    const result = applyOps(
+      makePortDoc(),
+      [{ op: 'add_edge', edge: { source: 'n1', target: 'n2', sourcePort: 'dlq', targetPort: 'in' } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.edges[1]).toMatchObject({ sourcePort: 'dlq', targetPort: 'in' });
+  });
+
+  it('should fail to add an edge to a port the node does not have', () => {
+    const result = applyOps(
+      makePortDoc(),
+      [{ op: 'add_edge', edge: { source: 'n1', target: 'n2', targetPort: 'out' } }],
+      mockId,
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Port "out" not found on node "n2"');
+  });
+
+  it('should drop the old port when an edge end is reconnected', () => {
+    const doc = makePortDoc();
+    doc.edges[0].sourcePort = 'out';
+    doc.edges[0].targetPort = 'in';
+    const result = applyOps(
+      doc,
+      [{ op: 'update_edge', id: 'e1', changes: { target: 'n1' } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.edges[0].sourcePort).toBe('out');
+    expect(result.document!.edges[0]).not.toHaveProperty('targetPort');
+  });
+
+  it('should clear an edge port when set to an empty string', () => {
+    const doc = makePortDoc();
+    doc.edges[0].sourcePort = 'out';
+    const result = applyOps(
+      doc,
+      [{ op: 'update_edge', id: 'e1', changes: { sourcePort: '' } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.edges[0]).not.toHaveProperty('sourcePort');
+  });
+
+  it('should detach edges from ports removed by update_node', () => {
+    const doc = makePortDoc();
+    doc.edges[0].sourcePort = 'dlq';
+    const result = applyOps(
+      doc,
+      [{ op: 'update_node', id: 'n1', changes: { ports: [{ id: 'out', side: 'right' }] } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.nodes[0].ports).toEqual([{ id: 'out', side: 'right' }]);
+    expect(result.document!.edges[0]).not.toHaveProperty('sourcePort');
+  });
+});
+
+describe('applyOps - layers', () => {
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('should add a layer and assign new nodes and edges to it', () => {
+    const result = applyOps(
+      makeBaseDoc(),
+      [
+        { op: 'add_layer', layer: { id: 'infra', label: 'Infrastructure' } },
+        { op: 'add_node', node: { label: 'VPC', layer: 'infra' } },
+        { op: 'add_edge', edge: { source: 'n1', target: 'n2', layer: 'infra' } },
+      ],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.layers).toEqual([{ id: 'infra', label: 'Infrastructure' }]);
+    expect(result.document!.nodes[2].layer).toBe('infra');
+    expect(result.document!.edges[1].layer).toBe('infra');
+  });
+
+  it('should reject elements that reference an unknown layer', () => {
+    const result = applyOps(
+      makeBaseDoc(),
+      [{ op: 'update_node', id: 'n1', changes: { layer: 'missing' } }],
+      mockId,
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('nodes[0].layer "missing" must reference an existing layer id');
+  });
+
+  it('should toggle visibility and lock, dropping cleared flags', () => {
+    const doc = makeBaseDoc();
+    doc.layers = [{ id: 'l1', label: 'Notes', hidden: true }];
+    const result = applyOps(
+      doc,
+      [{ op: 'update_layer', id: 'l1', changes: { hidden: false, locked: true } }],
+      mockId,
+    );
+    expect(result.success).toBe(true);
+    expect(result.document!.layers![0]).toEqual({ id: 'l1', label: 'Notes', locked: true });
+  });
+
+  it('should keep elements when their layer is removed', () => {
+    const doc = makeBaseDoc();
+    doc.layers = [{ id: 'l1', label: 'Notes' }];
+    doc.nodes[0].layer = 'l1';
+    doc.edges[0].layer = 'l1';
+    const result = applyOps(doc, [{ op: 'remove_layer', id: 'l1' }], mockId);
+    expect(result.success).toBe(true);
+    expect(result.document!.layers).toEqual([]);
+    expect(result.document!.nodes).toHaveLength(2);
+    expect(result.document!.nodes[0]).not.toHaveProperty('layer');
+    expect(result.document!.edges[0]).not.toHaveProperty('layer');
+  });
+
+  it('should fail to update or remove a missing layer', () => {
+    const doc = makeBaseDoc();
+    expect(applyOps(doc, [{ op: 'remove_layer', id: 'nope' }], mockId).error).toBe('Layer "nope" not found');
+    expect(
+      applyOps(doc, [{ op: 'update_layer', id: 'nope', changes: { hidden: true } }], mockId).error,
+    ).toBe('Layer "nope" not found');
+  });
+});
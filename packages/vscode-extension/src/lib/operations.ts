@@ -3,6 +3,7 @@ import type {
   DiagramNode,
   DiagramEdge,
   DiagramGroup,
+  DiagramLayer,
   LayoutDirection,
 } from '../types/DiagramDocument';
 import {
@@ -14,11 +15,13 @@ import {
 import type { SemanticOp, OpResult } from '../types/operations';
 import { validateDiagram } from './SchemaValidator';
 import { generateAgentContext } from './agentContext';
+import { getGroupDescendantIds } from './groupHierarchy';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
 
 export function createEmptyDocument(title = 'Untitled Diagram'): DiagramDocument {
   const now = new Date().toISOString();
   return {
-    meta: { version: '1.0', title, created: now, modified: now },
+    meta: { version: CURRENT_SCHEMA_VERSION, title, created: now, modified: now },
     nodes: [],
     edges: [],
     groups: [],
@@ -32,11 +35,19 @@ export function applyOps(
   generateId: () => string,
 ): OpResult {
   let modified = structuredClone(doc);
+  const clientIds = new Map<string, string>();
 
   for (const op of ops) {
-    const result = applySingleOp(modified, op, generateId);
+    const result = applySingleOp(modified, resolveClientKeys(op, clientIds), generateId);
     if (!result.success) return result;
     modified = result.document!;
+
+    if ('key' in op && op.key !== undefined) {
+      if (clientIds.has(op.key)) {
+        return { success: false, error: `Client key "${op.key}" is used more than once` };
+      }
+      clientIds.set(op.key, createdElementId(modified, op));
+    }
   }
 
   const validation = validateDiagram(modified);
@@ -49,7 +60,68 @@ export function applyOps(
 
   modified.meta.modified = new Date().toISOString();
   modified.agentContext = generateAgentContext(modified);
-  return { success: true, document: modified };
+  return {
+    success: true,
+    document: modified,
+    ...(clientIds.size > 0 && { ids: Object.fromEntries(clientIds) }),
+  };
+}
+
+type CreateOp = Extract<SemanticOp, { op: 'add_node' | 'add_edge' | 'add_group' | 'add_layer' }>;
+
+/** Id of the element an add op just appended to the document. */
+function createdElementId(doc: DiagramDocument, op: CreateOp): string {
+  const list: { id: string }[] =
+    op.op === 'add_node' ? doc.nodes
+      : op.op === 'add_edge' ? doc.edges
+        : op.op === 'add_group' ? doc.groups ?? []
+          : doc.layers ?? [];
+  return list[list.length - 1].id;
+}
+
+/** Fields that hold the id of another element and may name a client key instead. */
+const REFERENCE_FIELDS = ['group', 'parent', 'layer', 'source', 'target'] as const;
+
+function resolveReferences<T extends object>(fields: T, clientIds: ReadonlyMap<string, string>): T {
+  let resolved = fields;
+  for (const field of REFERENCE_FIELDS) {
+    const value = (fields as Record<string, unknown>)[field];
+    if (typeof value === 'string' && clientIds.has(value)) {
+      resolved = { ...resolved, [field]: clientIds.get(value) };
+    }
+  }
+  return resolved;
+}
+
+/** Replaces client keys created earlier in the batch with the generated ids. */
+function resolveClientKeys(op: SemanticOp, clientIds: ReadonlyMap<string, string>): SemanticOp {
+  if (clientIds.size === 0) return op;
+  const ref = (id: string) => clientIds.get(id) ?? id;
+  switch (op.op) {
+    case 'add_node':
+      return { ...op, node: resolveReferences(op.node, clientIds) };
+    case 'add_edge':
+      return { ...op, edge: resolveReferences(op.edge, clientIds) };
+    case 'add_group':
+      return { ...op, group: resolveReferences(op.group, clientIds) };
+    case 'add_layer':
+      return op;
+    case 'sort_nodes':
+      return op.groupId ? { ...op, groupId: ref(op.groupId) } : op;
+    case 'remove_node':
+    case 'remove_edge':
+    case 'remove_group':
+    case 'remove_layer':
+      return { ...op, id: ref(op.id) };
+    case 'update_node':
+      return { ...op, id: ref(op.id), changes: resolveReferences(op.changes, clientIds) };
+    case 'update_edge':
+      return { ...op, id: ref(op.id), changes: resolveReferences(op.changes, clientIds) };
+    case 'update_group':
+      return { ...op, id: ref(op.id), changes: resolveReferences(op.changes, clientIds) };
+    case 'update_layer':
+      return { ...op, id: ref(op.id), changes: resolveReferences(op.changes, clientIds) };
+  }
 }
 
 function applySingleOp(
@@ -78,6 +150,12 @@ function applySingleOp(
       return removeGroup(doc, op.id);
     case 'update_group':
       return updateGroup(doc, op.id, op.changes);
+    case 'add_layer':
+      return addLayer(doc, op.layer, generateId);
+    case 'remove_layer':
+      return removeLayer(doc, op.id);
+    case 'update_layer':
+      return updateLayer(doc, op.id, op.changes);
   }
 }
 
@@ -98,6 +176,9 @@ function addNode(
     pinned: partial.pinned ?? false,
     notes: partial.notes,
     group: partial.group,
+    ...(partial.icon ? { icon: partial.icon } : {}),
+    ...(partial.ports?.length ? { ports: partial.ports } : {}),
+    ...(partial.layer ? { layer: partial.layer } : {}),
   };
 
   const modified = structuredClone(doc);
@@ -139,9 +220,31 @@ function updateNode(
   }
   Object.assign(node, safeChanges);
 
+  if ('ports' in changes) {
+    if (!node.ports?.length) delete node.ports;
+    // Edges keep attaching to the node, just no longer to a removed port.
+    const portIds = new Set(node.ports?.map((p) => p.id));
+    for (const edge of modified.edges) {
+      if (edge.source === id && edge.sourcePort && !portIds.has(edge.sourcePort)) delete edge.sourcePort;
+      if (edge.target === id && edge.targetPort && !portIds.has(edge.targetPort)) delete edge.targetPort;
+    }
+  }
+
   return { success: true, document: modified };
 }
 
+function findMissingPort(
+  doc: DiagramDocument,
+  nodeId: string,
+  portId: string | undefined,
+): string | null {
+  if (!portId) return null;
+  const node = doc.nodes.find((n) => n.id === nodeId);
+  return node?.ports?.some((p) => p.id === portId)
+    ? null
+    : `Port "${portId}" not found on node "${nodeId}"`;
+}
+
 function addEdge(
   doc: DiagramDocument,
   partial: Partial<DiagramEdge> & { source: string; target: string },
@@ -162,10 +265,18 @@ function addEdge(
     };
   }
 
+  const portError = findMissingPort(doc, partial.source, partial.sourcePort)
+    ?? findMissingPort(doc, partial.target, partial.targetPort);
+  if (portError) {
+    return { success: false, error: portError };
+  }
+
   const edge: DiagramEdge = {
     id: generateId(),
     source: partial.source,
     target: partial.target,
+    ...(partial.sourcePort ? { sourcePort: partial.sourcePort } : {}),
+    ...(partial.targetPort ? { targetPort: partial.targetPort } : {}),
     label: partial.label,
     style: partial.style ?? 'solid',
     arrow: partial.arrow ?? 'arrow',
@@ -173,6 +284,9 @@ function addEdge(
     ...(partial.bidirectional !== undefined ? { bidirectional: partial.bidirectional } : {}),
     ...(partial.protocol ? { protocol: partial.protocol } : {}),
     ...(partial.dataTypes?.length ? { dataTypes: partial.dataTypes } : {}),
+    ...(partial.routing ? { routing: partial.routing } : {}),
+    ...(partial.waypoints?.length ? { waypoints: partial.waypoints } : {}),
+    ...(partial.layer ? { layer: partial.layer } : {}),
   };
 
   const modified = structuredClone(doc);
@@ -221,7 +335,19 @@ function updateEdge(
   }
 
   const modified = structuredClone(doc);
-  Object.assign(modified.edges[edgeIndex], changes);
+  const edge = modified.edges[edgeIndex];
+  Object.assign(edge, changes);
+  // Clearing all bend points removes the field instead of persisting `[]`.
+  if ('waypoints' in changes && !changes.waypoints?.length) delete edge.waypoints;
+  // A port belongs to one node: reconnecting an end drops its old port unless a new one is given.
+  if (!edge.sourcePort || (changes.source && !('sourcePort' in changes))) delete edge.sourcePort;
+  if (!edge.targetPort || (changes.target && !('targetPort' in changes))) delete edge.targetPort;
+
+  const portError = findMissingPort(modified, edge.source, edge.sourcePort)
+    ?? findMissingPort(modified, edge.target, edge.targetPort);
+  if (portError) {
+    return { success: false, error: portError };
+  }
   return { success: true, document: modified };
 }
 
@@ -234,12 +360,17 @@ function addGroup(
   partial: Partial<DiagramGroup> & { label: string },
   generateId: () => string,
 ): OpResult {
+  if (partial.parent && !doc.groups?.some((g) => g.id === partial.parent)) {
+    return { success: false, error: `Parent group "${partial.parent}" not found` };
+  }
+
   const group: DiagramGroup = {
     id: partial.id ?? generateId(),
     label: partial.label,
     ...(partial.color ? { color: partial.color } : {}),
     ...(partial.x !== undefined ? { x: partial.x } : {}),
     ...(partial.y !== undefined ? { y: partial.y } : {}),
+    ...(partial.parent ? { parent: partial.parent } : {}),
   };
 
   const modified = structuredClone(doc);
@@ -249,17 +380,27 @@ function addGroup(
 }
 
 function removeGroup(doc: DiagramDocument, id: string): OpResult {
-  const exists = doc.groups?.some((g) => g.id === id);
-  if (!exists) {
+  const removed = doc.groups?.find((g) => g.id === id);
+  if (!removed) {
     return { success: false, error: `Group "${id}" not found` };
   }
 
   const modified = structuredClone(doc);
-  modified.groups = modified.groups!.filter((g) => g.id !== id);
-  // Detach nodes from the removed group.
+  modified.groups = (modified.groups ?? []).filter((g) => g.id !== id);
+  // Re-parent child nodes and sub-groups to the removed group's parent
+  // (detaching them entirely when the removed group was top-level).
   for (const node of modified.nodes) {
     if (node.group === id) {
-      node.group = undefined;
+      node.group = removed.parent;
+    }
+  }
+  for (const group of modified.groups) {
+    if (group.parent === id) {
+      if (removed.parent) {
+        group.parent = removed.parent;
+      } else {
+        delete group.parent;
+      }
     }
   }
   return { success: true, document: modified };
@@ -270,13 +411,93 @@ function updateGroup(
   id: string,
   changes: Partial<Omit<DiagramGroup, 'id'>>,
 ): OpResult {
-  const groupIndex = doc.groups?.findIndex((g) => g.id === id) ?? -1;
+  const groups = doc.groups ?? [];
+  const groupIndex = groups.findIndex((g) => g.id === id);
   if (groupIndex === -1) {
     return { success: false, error: `Group "${id}" not found` };
   }
 
+  if (changes.parent) {
+    if (!groups.some((g) => g.id === changes.parent)) {
+      return { success: false, error: `Parent group "${changes.parent}" not found` };
+    }
+    if (changes.parent === id || getGroupDescendantIds(groups, id).includes(changes.parent)) {
+      return {
+        success: false,
+        error: `Cannot move group "${id}" into "${changes.parent}": a group cannot be nested inside itself`,
+      };
+    }
+  }
+
+  const modified = structuredClone(doc);
+  const group = modified.groups?.[groupIndex];
+  if (!group) throw new Error(`Group "${id}" is missing from the cloned document`);
+  Object.assign(group, changes);
+  // An explicit `parent: undefined` moves the group back to the top level.
+  if ('parent' in changes && !changes.parent) delete group.parent;
+  return { success: true, document: modified };
+}
+
+// ---------------------------------------------------------------------------
+// Layer operations
+// ---------------------------------------------------------------------------
+
+function addLayer(
+  doc: DiagramDocument,
+  partial: Partial<DiagramLayer> & { label: string },
+  generateId: () => string,
+): OpResult {
+  const layer: DiagramLayer = {
+    id: partial.id ?? generateId(),
+    label: partial.label,
+    ...(partial.hidden ? { hidden: true } : {}),
+    ...(partial.locked ? { locked: true } : {}),
+  };
+
+  const modified = structuredClone(doc);
+  if (!modified.layers) modified.layers = [];
+  modified.layers.push(layer);
+  return { success: true, document: modified };
+}
+
+function removeLayer(doc: DiagramDocument, id: string): OpResult {
+  const exists = doc.layers?.some((l) => l.id === id);
+  if (!exists) {
+    return { success: false, error: `Layer "${id}" not found` };
+  }
+
+  const modified = structuredClone(doc);
+  modified.layers = (modified.layers ?? []).filter((l) => l.id !== id);
+  // Elements of the removed layer stay on the diagram without a layer.
+  const elements = [
+    ...modified.nodes,
+    ...modified.edges,
+    ...(modified.textElements ?? []),
+    ...(modified.imageElements ?? []),
+  ];
+  for (const el of elements) {
+    if (el.layer === id) delete el.layer;
+  }
+  return { success: true, document: modified };
+}
+
+function updateLayer(
+  doc: DiagramDocument,
+  id: string,
+  changes: Partial<Omit<DiagramLayer, 'id'>>,
+): OpResult {
+  const layerIndex = doc.layers?.findIndex((l) => l.id === id) ?? -1;
+  if (layerIndex === -1) {
+    return { success: false, error: `Layer "${id}" not found` };
+  }
+
   const modified = structuredClone(doc);
-  Object.assign(modified.groups![groupIndex], changes);
+  const layer = modified.layers?.[layerIndex];
+  if (!layer) throw new Error(`Layer "${id}" is missing from the cloned document`);
+  Object.assign(layer, changes);
+  // Flags are only persisted while set.
+  if (!layer.hidden) delete layer.hidden;
+  if (!layer.locked) delete layer.locked;
   return { success: true, document: modified };
 }
 
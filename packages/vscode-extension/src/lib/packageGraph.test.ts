@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPackageGraphOps,
+  parsePnpmWorkspaceGlobs,
+  parseWorkspaceGlobs,
+  type WorkspacePackage,
+} from './packageGraph';
+import { applyOps, createEmptyDocument } from './operations';
+import type { DiagramDocument, DiagramNode } from '../types/DiagramDocument';
+
+const PACKAGES: WorkspacePackage[] = [
+  {
+    name: '@shop/web',
+    dir: 'packages/web',
+    manifest: {
+      dependencies: { '@shop/core': 'workspace:*', react: '^19' },
+      devDependencies: { '@shop/testing': 'workspace:*', vitest: '^3' },
+    },
+  },
+  { name: '@shop/core', dir: 'packages/core', manifest: { peerDependencies: { zod: '^3' } } },
+  { name: '@shop/testing', dir: 'packages/testing', manifest: {} },
+];
+
+let lastId = 0;
+const generateId = () => `id${++lastId}`;
+
+function importInto(doc: DiagramDocument, packages: WorkspacePackage[], externalDependencies = false): DiagramDocument {
+  const result = applyOps(doc, buildPackageGraphOps(packages, doc, { externalDependencies }), generateId);
+  expect(result.success).toBe(true);
+  return result.document ?? doc;
+}
+
+function byPackage(doc: DiagramDocument, name: string): DiagramNode | undefined {
+  return doc.nodes.find((n) => n.properties?.package === name);
+}
+
+describe('parseWorkspaceGlobs', () => {
+  it('reads the npm list and the yarn { packages } form', () => {
+    expect(parseWorkspaceGlobs({ workspaces: ['packages/*', 'apps/*'] })).toEqual(['packages/*', 'apps/*']);
+    expect(parseWorkspaceGlobs({ workspaces: { packages: ['packages/*'], nohoist: ['**/react'] } })).toEqual([
+      'packages/*',
+    ]);
+    expect(parseWorkspaceGlobs({ name: 'app' })).toEqual([]);
+  });
+});
+
+describe('parsePnpmWorkspaceGlobs', () => {
+  it('reads the top-level packages list', () => {
+    const yaml = [
+      '# pnpm workspace',
+      'packages:',
+      "  - 'packages/*'",
+      '  - "apps/**"   # every app',
+      '  - !apps/legacy',
+      'catalog:',
+      '  - not-a-package',
+    ].join('\n');
+    expect(parsePnpmWorkspaceGlobs(yaml)).toEqual(['packages/*', 'apps/**', '!apps/legacy']);
+  });
+});
+
+describe('buildPackageGraphOps', () => {
+  it('creates a Container per package and an edge per internal dependency', () => {
+    const doc = importInto(createEmptyDocument(), PACKAGES);
+    expect(doc.nodes.map((n) => [n.label, n.type, n.properties])).toEqual([
+      ['@shop/core', 'Container', { entrypoint: 'packages/core/package.json', package: '@shop/core' }],
+      ['@shop/testing', 'Container', { entrypoint: 'packages/testing/package.json', package: '@shop/testing' }],
+      ['@shop/web', 'Container', { entrypoint: 'packages/web/package.json', package: '@shop/web' }],
+    ]);
+    const web = byPackage(doc, '@shop/web')?.id;
+    expect(doc.edges.map((e) => [e.source, e.target, e.label, e.style])).toEqual([
+      [web, byPackage(doc, '@shop/core')?.id, 'depends on', 'solid'],
+      [web, byPackage(doc, '@shop/testing')?.id, 'dev dependency', 'dashed'],
+    ]);
+  });
+
+  it('adds runtime third-party dependencies as ExternalSystem nodes when asked', () => {
+    const doc = importInto(createEmptyDocument(), PACKAGES, true);
+    expect(doc.nodes.filter((n) => n.type === 'ExternalSystem').map((n) => n.label)).toEqual(['react', 'zod']);
+    expect(byPackage(doc, 'react')?.properties).toEqual({ package: 'react' });
+    expect(doc.edges).toHaveLength(4);
+  });
+
+  it('returns no ops when the diagram is up to date', () => {
+    const doc = importInto(createEmptyDocument(), PACKAGES);
+    expect(buildPackageGraphOps(PACKAGES, doc, { externalDependencies: false })).toEqual([]);
+  });
+
+  it('keeps position, colour, label and notes of existing nodes', () => {
+    const first = importInto(createEmptyDocument(), PACKAGES);
+    const core = byPackage(first, '@shop/core');
+    const edited = applyOps(
+      first,
+      [
+        {
+          op: 'update_node',
+          id: core?.id ?? '',
+          changes: { x: 300, y: 200, color: 'green', label: 'Core', notes: 'Domain model', pinned: true },
+        },
+      ],
+      generateId,
+    ).document;
+    if (!edited) throw new Error('edit failed');
+
+    const doc = importInto(edited, [...PACKAGES, { name: '@shop/api', dir: 'packages/api', manifest: {} }]);
+
+    expect(byPackage(doc, '@shop/core')).toMatchObject({
+      id: core?.id,
+      x: 300,
+      y: 200,
+      color: 'green',
+      label: 'Core',
+      notes: 'Domain model',
+    });
+    expect(byPackage(doc, '@shop/api')).toMatchObject({ label: '@shop/api', x: 0, y: 0, type: 'Container' });
+  });
+
+  it('keeps an entrypoint set by hand', () => {
+    const first = importInto(createEmptyDocument(), PACKAGES);
+    const web = byPackage(first, '@shop/web');
+    const properties = { ...web?.properties, entrypoint: 'packages/web/src/main.tsx', team: 'Storefront' };
+    const edited = applyOps(first, [{ op: 'update_node', id: web?.id ?? '', changes: { properties } }], generateId);
+    if (!edited.document) throw new Error('edit failed');
+    expect(buildPackageGraphOps(PACKAGES, edited.document, { externalDependencies: false })).toEqual([]);
+  });
+
+  it('keeps a type changed by hand', () => {
+    const first = importInto(createEmptyDocument(), PACKAGES);
+    const core = byPackage(first, '@shop/core');
+    const changes = { type: 'Service' } as const;
+    const edited = applyOps(first, [{ op: 'update_node', id: core?.id ?? '', changes }], generateId);
+    if (!edited.document) throw new Error('edit failed');
+    expect(buildPackageGraphOps(PACKAGES, edited.document, { externalDependencies: false })).toEqual([]);
+  });
+
+  it('relabels an edge when a dependency moves from devDependencies to dependencies', () => {
+    const first = importInto(createEmptyDocument(), PACKAGES);
+    const [web, ...rest] = PACKAGES;
+    const moved = { ...web, manifest: { dependencies: { '@shop/core': '*', '@shop/testing': '*' } } };
+
+    const doc = importInto(first, [moved, ...rest]);
+
+    const testing = byPackage(doc, '@shop/testing')?.id;
+    expect(doc.edges).toHaveLength(2);
+    expect(doc.edges.find((e) => e.target === testing)).toMatchObject({
+      id: first.edges.find((e) => e.target === testing)?.id,
+      label: 'depends on',
+      style: 'solid',
+    });
+  });
+
+  it('removes packages and dependencies that went away, but not edges drawn by hand', () => {
+    const first = importInto(createEmptyDocument(), PACKAGES);
+    const core = byPackage(first, '@shop/core')?.id ?? '';
+    const testing = byPackage(first, '@shop/testing')?.id ?? '';
+    const withManual = applyOps(
+      first,
+      [{ op: 'add_edge', edge: { source: testing, target: core, label: 'reads fixtures from' } }],
+      generateId,
+    ).document;
+    if (!withManual) throw new Error('edit failed');
+
+    const [web, , testingPkg] = PACKAGES;
+    const doc = importInto(withManual, [
+      { ...web, manifest: { devDependencies: { '@shop/testing': '*' } } },
+      testingPkg,
+      { name: '@shop/core', dir: 'packages/core', manifest: {} },
+    ]);
+    expect(doc.edges.map((e) => e.label).sort()).toEqual(['dev dependency', 'reads fixtures from']);
+
+    const without = importInto(doc, [web, testingPkg]);
+    expect(byPackage(without, '@shop/core')).toBeUndefined();
+    expect(without.edges.map((e) => e.label)).toEqual(['dev dependency']);
+  });
+
+  it('leaves nodes drawn by hand alone', () => {
+    const manual = applyOps(
+      createEmptyDocument(),
+      [{ op: 'add_node', node: { label: 'Payment provider' } }],
+      generateId,
+    ).document;
+    if (!manual) throw new Error('edit failed');
+    const doc = importInto(manual, PACKAGES);
+    expect(doc.nodes.map((n) => n.label)).toContain('Payment provider');
+    expect(doc.nodes).toHaveLength(4);
+  });
+});
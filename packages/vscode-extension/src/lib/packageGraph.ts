@@ -0,0 +1,202 @@
+/**
+ * Module: src/lib/packageGraph.ts
+ *
+ * Turns the packages of an npm, yarn or pnpm workspace into the ops of a
+ * package dependency diagram: one `Container` node per workspace package, an
+ * edge for every dependency between them and, optionally, an
+ * `ExternalSystem` node per third-party runtime dependency.
+ *
+ * Nodes are keyed on the package name, stored in `properties.package`, so a
+ * second import updates an existing diagram in place: new packages are added,
+ * removed ones are deleted, and nodes that stay keep their position, colour,
+ * label and notes. Edges drawn by hand are never removed.
+ *
+ * All functions are pure.
+ */
+
+import type { DiagramDocument, DiagramNode, EdgeStyle, NodeType } from '../types/DiagramDocument';
+import type { SemanticOp } from '../types/operations';
+
+/** The package.json fields the import reads. */
+export interface PackageManifest {
+  name?: unknown;
+  /** npm and yarn: a list of globs, or yarn's `{ packages }` form. */
+  workspaces?: unknown;
+  dependencies?: unknown;
+  devDependencies?: unknown;
+  peerDependencies?: unknown;
+  optionalDependencies?: unknown;
+}
+
+export interface WorkspacePackage {
+  name: string;
+  /** Folder holding the package.json, relative to the repo root. */
+  dir: string;
+  manifest: PackageManifest;
+}
+
+export interface PackageGraphOptions {
+  /** Adds an ExternalSystem node for every third-party runtime dependency. */
+  externalDependencies: boolean;
+}
+
+/** Labels of the edges the import draws; only these are removed when a dependency goes away. */
+export const DEPENDENCY_LABEL = 'depends on';
+export const DEV_DEPENDENCY_LABEL = 'dev dependency';
+
+const RUNTIME_FIELDS = ['dependencies', 'peerDependencies', 'optionalDependencies'] as const;
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+}
+
+/** Package globs of a root package.json `workspaces` field; empty when there is none. */
+export function parseWorkspaceGlobs(manifest: PackageManifest): string[] {
+  const { workspaces } = manifest;
+  if (Array.isArray(workspaces)) return stringList(workspaces);
+  if (workspaces && typeof workspaces === 'object') return stringList((workspaces as { packages?: unknown }).packages);
+  return [];
+}
+
+/** Package globs of a pnpm-workspace.yaml: the items of its top-level `packages:` list. */
+export function parsePnpmWorkspaceGlobs(text: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:\s*(#.*)?$/.test(line);
+      continue;
+    }
+    const item = inPackages && /^\s+-\s*(['"]?)([^'"#]*?)\1\s*(#.*)?$/.exec(line);
+    if (item && item[2]) globs.push(item[2]);
+  }
+  return globs;
+}
+
+function dependencyNames(manifest: PackageManifest, field: keyof PackageManifest): string[] {
+  const deps = manifest[field];
+  return deps && typeof deps === 'object' && !Array.isArray(deps) ? Object.keys(deps) : [];
+}
+
+interface DesiredNode {
+  name: string;
+  type: NodeType;
+  entrypoint?: string;
+}
+
+interface DesiredEdge {
+  source: string;
+  target: string;
+  label: string;
+  style: EdgeStyle;
+}
+
+function desiredGraph(
+  packages: readonly WorkspacePackage[],
+  options: PackageGraphOptions,
+): { nodes: DesiredNode[]; edges: DesiredEdge[] } {
+  const internal = new Set(packages.map((p) => p.name));
+  const nodes: DesiredNode[] = [...packages]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((p) => ({ name: p.name, type: 'Container', entrypoint: p.dir ? `${p.dir}/package.json` : 'package.json' }));
+  const externals = new Set<string>();
+  const edges: DesiredEdge[] = [];
+
+  for (const pkg of packages) {
+    const runtime = new Set(RUNTIME_FIELDS.flatMap((field) => dependencyNames(pkg.manifest, field)));
+    const dev = dependencyNames(pkg.manifest, 'devDependencies').filter((name) => !runtime.has(name));
+    for (const name of [...runtime, ...dev]) {
+      const isRuntime = runtime.has(name);
+      if (name === pkg.name || (!internal.has(name) && !(isRuntime && options.externalDependencies))) continue;
+      if (!internal.has(name)) externals.add(name);
+      edges.push({
+        source: pkg.name,
+        target: name,
+        label: isRuntime ? DEPENDENCY_LABEL : DEV_DEPENDENCY_LABEL,
+        style: isRuntime ? 'solid' : 'dashed',
+      });
+    }
+  }
+
+  nodes.push(...[...externals].sort().map((name): DesiredNode => ({ name, type: 'ExternalSystem' })));
+  edges.sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+  return { nodes, edges };
+}
+
+/** The package a node was imported for, or undefined for nodes drawn by hand. */
+export function packageOfNode(node: DiagramNode): string | undefined {
+  const name = node.properties?.package;
+  return typeof name === 'string' && name ? name : undefined;
+}
+
+/**
+ * Ops that bring `existing` (or an empty diagram) in line with the workspace
+ * `packages`. New nodes use client keys `package:<name>` and no position, so
+ * the partial auto layout places them. Returns no ops when nothing changed.
+ */
+export function buildPackageGraphOps(
+  packages: readonly WorkspacePackage[],
+  existing: DiagramDocument | undefined,
+  options: PackageGraphOptions,
+): SemanticOp[] {
+  const desired = desiredGraph(packages, options);
+  const wanted = new Set(desired.nodes.map((n) => n.name));
+  const nodeIds = new Map<string, string>();
+  const ops: SemanticOp[] = [];
+
+  for (const node of existing?.nodes ?? []) {
+    const name = packageOfNode(node);
+    if (name === undefined) continue;
+    if (!wanted.has(name) || nodeIds.has(name)) {
+      ops.push({ op: 'remove_node', id: node.id });
+    } else {
+      nodeIds.set(name, node.id);
+    }
+  }
+
+  for (const { name, type, entrypoint } of desired.nodes) {
+    const id = nodeIds.get(name);
+    const node = id === undefined ? undefined : existing?.nodes.find((n) => n.id === id);
+    // An entrypoint set by hand wins over the package.json default.
+    const properties = { ...(entrypoint && { entrypoint }), ...node?.properties, package: name };
+    if (!node) {
+      ops.push(
+        { op: 'add_node', key: `package:${name}`, node: { label: name } },
+        { op: 'update_node', id: `package:${name}`, changes: { type, properties } },
+      );
+      nodeIds.set(name, `package:${name}`);
+    } else if (Object.entries(properties).some(([key, value]) => node.properties?.[key] !== value)) {
+      // The type is only set on new nodes, so a type chosen by hand survives re-imports.
+      ops.push({ op: 'update_node', id: node.id, changes: { properties } });
+    }
+  }
+
+  const idToName = new Map([...nodeIds].map(([name, id]) => [id, name]));
+  const wantedEdges = new Map(desired.edges.map((e) => [`${e.source}\n${e.target}`, e]));
+  const drawn = new Set<string>();
+  for (const edge of existing?.edges ?? []) {
+    const source = idToName.get(edge.source);
+    const target = idToName.get(edge.target);
+    if (source === undefined || target === undefined) continue;
+    const pair = `${source}\n${target}`;
+    drawn.add(pair);
+    const imported = edge.label === DEPENDENCY_LABEL || edge.label === DEV_DEPENDENCY_LABEL;
+    if (!imported) continue;
+    // Only edges the import drew are removed when the dependency went away, or
+    // relabelled when it moved between dependencies and devDependencies.
+    const wanted = wantedEdges.get(pair);
+    if (!wanted) {
+      ops.push({ op: 'remove_edge', id: edge.id });
+    } else if (edge.label !== wanted.label || edge.style !== wanted.style) {
+      ops.push({ op: 'update_edge', id: edge.id, changes: { label: wanted.label, style: wanted.style } });
+    }
+  }
+
+  for (const edge of desired.edges) {
+    const source = nodeIds.get(edge.source);
+    const target = nodeIds.get(edge.target);
+    if (source === undefined || target === undefined || drawn.has(`${edge.source}\n${edge.target}`)) continue;
+    ops.push({ op: 'add_edge', edge: { source, target, label: edge.label, style: edge.style } });
+  }
+  return ops;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { computeRevision, findConflicts } from './revision';
+import type { DiagramDocument } from '../types/DiagramDocument';
+
+function makeDoc(): DiagramDocument {
+  return {
+    meta: { version: '1.0', title: 'Test', created: '', modified: '' },
+    nodes: [
+      { id: 'n1', label: 'API', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+      { id: 'n2', label: 'DB', x: 0, y: 100, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+    ],
+    edges: [{ id: 'e1', source: 'n1', target: 'n2', style: 'solid', arrow: 'arrow' }],
+  };
+}
+
+describe('computeRevision', () => {
+  it('is stable for equal documents and changes with content', () => {
+    const doc = makeDoc();
+    expect(computeRevision(doc)).toBe(computeRevision(makeDoc()));
+    expect(computeRevision(doc)).toMatch(/^[0-9a-f]{8}$/);
+
+    doc.nodes[0].label = 'Gateway';
+    expect(computeRevision(doc)).not.toBe(computeRevision(makeDoc()));
+  });
+});
+
+describe('findConflicts', () => {
+  it('rebases updates to fields nobody else changed', () => {
+    const base = makeDoc();
+    const current = makeDoc();
+    current.nodes[0].x = 300;
+
+    expect(findConflicts(base, current, [
+      { op: 'update_node', id: 'n1', changes: { label: 'Gateway' } },
+      { op: 'update_node', id: 'n2', changes: { x: 50 } },
+    ])).toEqual([]);
+  });
+
+  it('reports fields changed to a different value in the meantime', () => {
+    const base = makeDoc();
+    const current = makeDoc();
+    current.nodes[0].label = 'Gateway';
+
+    expect(findConflicts(base, current, [
+      { op: 'update_node', id: 'n1', changes: { label: 'Edge API' } },
+    ])).toEqual(['node "API" (n1) changed label']);
+    expect(findConflicts(base, current, [
+      { op: 'update_node', id: 'n1', changes: { label: 'Gateway' } },
+    ])).toEqual([]);
+  });
+
+  it('reports updates to elements deleted in the meantime', () => {
+    const base = makeDoc();
+    const current = makeDoc();
+    current.edges = [];
+
+    expect(findConflicts(base, current, [
+      { op: 'update_edge', id: 'e1', changes: { label: 'reads' } },
+    ])).toEqual(['edge e1 was deleted']);
+  });
+});
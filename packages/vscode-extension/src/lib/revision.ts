@@ -0,0 +1,93 @@
+/**
+ * Module: src/lib/revision.ts
+ *
+ * Revision tokens for optimistic concurrency. A revision is a short hash of
+ * the parsed document, so it changes with every write (including undo) and
+ * does not depend on whitespace in the file.
+ *
+ * Writers that read the diagram earlier send the revision they saw. When the
+ * document has moved on since, `findConflicts` decides whether their ops can
+ * be rebased onto the newer document or would overwrite someone else's change.
+ *
+ * All functions are pure.
+ */
+
+import type { DiagramDocument } from '../types/DiagramDocument';
+import type { SemanticOp } from '../types/operations';
+
+/** 32-bit FNV-1a hash of the document JSON, as 8 hex digits. */
+export function computeRevision(doc: DiagramDocument): string {
+  const text = JSON.stringify(doc);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * A change checked for conflicts. Text and image elements have no semantic
+ * op, so their updates are described in the same shape.
+ */
+export type CheckedChange =
+  | SemanticOp
+  | { op: 'update_text' | 'update_image'; id: string; changes: Record<string, unknown> };
+
+interface Element {
+  id: string;
+  label?: string;
+}
+
+function elementsOf(doc: DiagramDocument, kind: string): Element[] {
+  switch (kind) {
+    case 'node':
+      return doc.nodes;
+    case 'edge':
+      return doc.edges;
+    case 'group':
+      return doc.groups ?? [];
+    case 'text':
+      return doc.textElements ?? [];
+    case 'image':
+      return doc.imageElements ?? [];
+    default:
+      return doc.layers ?? [];
+  }
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Lists the changes in `ops` that clash with edits made between `base` (the
+ * revision the writer read) and `current`. An update conflicts when it sets a
+ * field that someone else changed to a different value in the meantime, or
+ * when its element was deleted. Everything else can be rebased onto `current`.
+ */
+export function findConflicts(
+  base: DiagramDocument,
+  current: DiagramDocument,
+  ops: readonly CheckedChange[],
+): string[] {
+  const conflicts: string[] = [];
+  for (const op of ops) {
+    if (!op.op.startsWith('update_')) continue;
+    const { id, changes } = op as { id: string; changes: Record<string, unknown> };
+    const kind = op.op.slice('update_'.length);
+    const before = elementsOf(base, kind).find((e) => e.id === id) as Record<string, unknown> | undefined;
+    if (!before) continue;
+    const after = elementsOf(current, kind).find((e) => e.id === id) as Record<string, unknown> | undefined;
+    const name = before.label ? `${kind} "${String(before.label)}" (${id})` : `${kind} ${id}`;
+    if (!after) {
+      conflicts.push(`${name} was deleted`);
+      continue;
+    }
+    const fields = Object.keys(changes).filter(
+      (key) => !same(before[key], after[key]) && !same(after[key], changes[key]),
+    );
+    if (fields.length > 0) conflicts.push(`${name} changed ${fields.join(', ')}`);
+  }
+  return conflicts;
+}
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { extractDiagramFromSvg } from './svgMetadata';
+import { extractDiagramFromSvg, locateSvgSource } from './svgMetadata';
 
 const VALID_DOC = {
   meta: { title: 'Test', created: '2025-01-01T00:00:00Z', modified: '2025-01-01T00:00:00Z' },
@@ -155,3 +155,21 @@ describe('extractDiagramFromSvg', () => {
     expect(parsed.nodes[0].label).toBe('a<b');
   });
 });
+
+describe('locateSvgSource', () => {
+  it('returns null when there is no embedded source', () => {
+    expect(locateSvgSource('<svg></svg>')).toBeNull();
+  });
+
+  it('returns the offset of the JSON inside the SVG, even when it is invalid', () => {
+    const svg = makeSvg('  {"nodes": [}  ');
+    const located = locateSvgSource(svg);
+    expect(located).toEqual({ json: '{"nodes": [}', offset: svg.indexOf('{"nodes"'), exact: true });
+  });
+
+  it('marks XML-escaped sources as inexact', () => {
+    const located = locateSvgSource(makeSvg('{&quot;nodes&quot;:[]}'));
+    expect(located?.json).toBe('{"nodes":[]}');
+    expect(located?.exact).toBe(false);
+  });
+});
@@ -56,3 +56,34 @@ export function extractDiagramFromSvg(svgContent: string): string | null {
     return null;
   }
 }
+
+/** Where the embedded source sits inside an SVG file. */
+export interface SvgSourceLocation {
+  /** The unescaped JSON text, which may not parse. */
+  json: string;
+  /** Offset of the first JSON character in the SVG text. */
+  offset: number;
+  /**
+   * False when the JSON was XML-escaped, so offsets inside it no longer line
+   * up with the SVG text beyond `offset`.
+   */
+  exact: boolean;
+}
+
+/**
+ * Finds the embedded source without validating it, so problems in a broken
+ * diagram can still be reported against the right part of the SVG.
+ */
+export function locateSvgSource(svgContent: string): SvgSourceLocation | null {
+  const match = SOURCE_RE.exec(svgContent);
+  if (match?.[1] === undefined) return null;
+  const raw = match[1];
+  const leading = raw.length - raw.trimStart().length;
+  const trimmed = raw.trim();
+  const json = unescapeXmlEntities(trimmed);
+  return {
+    json,
+    offset: match.index + match[0].indexOf('>') + 1 + leading,
+    exact: json === trimmed,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_PALETTE,
+  isValidColor,
+  resolveColor,
+  resolveGroupColor,
+  resolveTheme,
+} from './theme';
+import type { DiagramTheme } from '../types/DiagramDocument';
+
+const brandTheme: DiagramTheme = {
+  mode: 'light',
+  palette: {
+    brand: { light: { fill: '#fafafa', stroke: '#ff6600', text: '#331100' } },
+    blue: { dark: { fill: '#000044', stroke: '#0000ff', text: '#ffffff' } },
+  },
+};
+
+describe('theme', () => {
+  it('accepts built-in keys, hex colours and theme palette keys', () => {
+    expect(isValidColor('blue')).toBe(true);
+    expect(isValidColor('#1e88e5')).toBe(true);
+    expect(isValidColor('#abc')).toBe(true);
+    expect(isValidColor('#12345')).toBe(false);
+    expect(isValidColor('brand')).toBe(false);
+    expect(isValidColor('brand', brandTheme)).toBe(true);
+  });
+
+  it('resolves the theme mode, font and chrome colours', () => {
+    expect(resolveTheme()).toMatchObject({ mode: 'dark', font: 'sans-serif', background: '#1e1e1e' });
+    expect(resolveTheme({ mode: 'light', font: 'Inter' })).toMatchObject({
+      mode: 'light',
+      font: 'Inter',
+      background: '#ffffff',
+    });
+  });
+
+  it('prefers the theme palette and falls back to the other mode and to default', () => {
+    expect(resolveColor('brand', brandTheme)).toEqual({ fill: '#fafafa', stroke: '#ff6600', text: '#331100' });
+    // The override only defines a dark swatch, so light mode reuses it.
+    expect(resolveColor('blue', brandTheme).fill).toBe('#000044');
+    expect(resolveColor('green', brandTheme)).toEqual(BUILTIN_PALETTE.green.light);
+    expect(resolveColor('unknown')).toEqual(BUILTIN_PALETTE.default.dark);
+    expect(resolveColor(undefined)).toEqual(BUILTIN_PALETTE.default.dark);
+  });
+
+  it('derives a border and readable label colour from a hex fill', () => {
+    expect(resolveColor('#ffffff')).toEqual({ fill: '#ffffff', stroke: '#a6a6a6', text: '#1e1e1e' });
+    expect(resolveColor('#000080').text).toBe('#ffffff');
+  });
+
+  it('makes hex group fills translucent', () => {
+    expect(resolveGroupColor('#336699').fill).toBe('rgba(51,102,153,0.4)');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Module: src/lib/theme.ts
+ *
+ * Resolves colours against a diagram's theme (`meta.theme`). The canvas, the
+ * extension-host SVG builder and the webview exporter all call these helpers
+ * so a node coloured "blue", "brand" (a theme palette key) or "#1e88e5" is
+ * drawn with the same fill, border and label colour everywhere.
+ *
+ * All functions are pure and fall back to the built-in dark palette for
+ * unknown colours, so they are safe to call before validation has run.
+ */
+
+import type {
+  ColorValue,
+  DiagramTheme,
+  NodeColor,
+  ThemeMode,
+  ThemePaletteEntry,
+  ThemeSwatch,
+} from '../types/DiagramDocument';
+
+/** Built-in palette; the dark swatches match the editor's historical colours. */
+export const BUILTIN_PALETTE: Record<NodeColor, Required<ThemePaletteEntry>> = {
+  default: {
+    dark: { fill: '#2d2d2d', stroke: '#555', text: '#ccc' },
+    light: { fill: '#ffffff', stroke: '#555555', text: '#222222' },
+  },
+  blue: {
+    dark: { fill: '#1e3a5f', stroke: '#4a90d9', text: '#90c4f9' },
+    light: { fill: '#e3f0fc', stroke: '#1e6bb8', text: '#0d3c6e' },
+  },
+  green: {
+    dark: { fill: '#1a3a1a', stroke: '#4a9a4a', text: '#90d490' },
+    light: { fill: '#e6f4e6', stroke: '#2e7d32', text: '#1b4d1e' },
+  },
+  red: {
+    dark: { fill: '#3a1a1a', stroke: '#c84040', text: '#f09090' },
+    light: { fill: '#fde8e8', stroke: '#c62828', text: '#7f1d1d' },
+  },
+  yellow: {
+    dark: { fill: '#3a3a1a', stroke: '#c8a840', text: '#f0d490' },
+    light: { fill: '#fff8dc', stroke: '#b8860b', text: '#5c4400' },
+  },
+  purple: {
+    dark: { fill: '#2a1a3a', stroke: '#8040c8', text: '#c090f0' },
+    light: { fill: '#f1e6fb', stroke: '#7b3fbf', text: '#4a1f7a' },
+  },
+  gray: {
+    dark: { fill: '#333', stroke: '#666', text: '#aaa' },
+    light: { fill: '#f0f0f0', stroke: '#888888', text: '#333333' },
+  },
+};
+
+/** Colours for everything that is not a node or group. */
+export interface ResolvedTheme {
+  mode: ThemeMode;
+  font: string;
+  background: string;
+  edge: string;
+  edgeLabel: string;
+  /** Default colour for free text elements. */
+  text: string;
+}
+
+const THEME_CHROME: Record<ThemeMode, Omit<ResolvedTheme, 'mode' | 'font'>> = {
+  dark: { background: '#1e1e1e', edge: '#888', edgeLabel: '#aaa', text: '#ccc' },
+  light: { background: '#ffffff', edge: '#555555', edgeLabel: '#444444', text: '#222222' },
+};
+
+export const DEFAULT_THEME_FONT = 'sans-serif';
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function hasKey(record: object | undefined, key: string): boolean {
+  return record !== undefined && Object.prototype.hasOwnProperty.call(record, key);
+}
+
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR.test(value);
+}
+
+/** True when `color` is a built-in palette key or a key of the theme palette. */
+export function isPaletteColor(color: string, theme?: DiagramTheme): boolean {
+  return hasKey(BUILTIN_PALETTE, color) || hasKey(theme?.palette, color);
+}
+
+/** True when a node or group colour can be drawn: a palette key or a hex colour. */
+export function isValidColor(color: string, theme?: DiagramTheme): boolean {
+  return isHexColor(color) || isPaletteColor(color, theme);
+}
+
+/** Returns the theme mode, font and non-node colours for a diagram. */
+export function resolveTheme(theme?: DiagramTheme): ResolvedTheme {
+  const mode = theme?.mode ?? 'dark';
+  return { mode, font: theme?.font ?? DEFAULT_THEME_FONT, ...THEME_CHROME[mode] };
+}
+
+function parseHex(hex: string): [number, number, number] {
+  const digits = hex.length === 4
+    ? hex.slice(1).split('').map((d) => d + d).join('')
+    : hex.slice(1);
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function toHex(rgb: number[]): string {
+  return `#${rgb.map((c) => Math.round(Math.min(Math.max(c, 0), 255)).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Derives a swatch from a single hex fill: a darker border and a readable label. */
+function swatchFromHex(hex: string): ThemeSwatch {
+  const rgb = parseHex(hex);
+  const luminance = (0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2]) / 255;
+  return {
+    fill: hex,
+    stroke: toHex(rgb.map((c) => c * 0.65)),
+    text: luminance > 0.55 ? '#1e1e1e' : '#ffffff',
+  };
+}
+
+function pickMode(entry: ThemePaletteEntry, mode: ThemeMode): ThemeSwatch | undefined {
+  return entry[mode] ?? (mode === 'dark' ? entry.light : entry.dark);
+}
+
+/**
+ * Returns the swatch for a node colour: a hex colour is used as the fill, a
+ * theme palette key wins over the built-in key of the same name, and unknown
+ * colours fall back to 'default'.
+ */
+export function resolveColor(color: ColorValue | undefined, theme?: DiagramTheme): ThemeSwatch {
+  const mode = theme?.mode ?? 'dark';
+  const key = color ?? 'default';
+  if (isHexColor(key)) return swatchFromHex(key);
+  const custom = theme?.palette && hasKey(theme.palette, key)
+    ? pickMode(theme.palette[key], mode)
+    : undefined;
+  if (custom) return custom;
+  const builtin = hasKey(BUILTIN_PALETTE, key) ? BUILTIN_PALETTE[key as NodeColor] : BUILTIN_PALETTE.default;
+  return builtin[mode];
+}
+
+/** Same as {@link resolveColor} with a translucent fill, for group containers. */
+export function resolveGroupColor(color: ColorValue | undefined, theme?: DiagramTheme): ThemeSwatch {
+  const swatch = resolveColor(color, theme);
+  if (!isHexColor(swatch.fill)) return swatch;
+  const [r, g, b] = parseHex(swatch.fill);
+  return { ...swatch, fill: `rgba(${r},${g},${b},0.4)` };
+}
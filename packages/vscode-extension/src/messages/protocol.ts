@@ -1,6 +1,8 @@
-import type { DiagramDocument, NodeShape, NodeColor, EdgeStyle, ArrowType, LayoutDirection, NodeType, SecurityClassification, DeploymentEnvironment, NodeProperties } from '../types/DiagramDocument';
+import type { HistorySummary } from '../lib/history';
+import type { LintFinding } from '../lib/lint';
+import type { DiagramDocument, DiagramLink, DiagramLayer, NodeShape, ColorValue, EdgeStyle, ArrowType, EdgeRouting, EdgePoint, LayoutDirection, NodeType, NodeIcon, SecurityClassification, DeploymentEnvironment, NodeProperties } from '../types/DiagramDocument';
 
-export type WebviewMessage =
+type WebviewPayload =
   | { type: 'WEBVIEW_READY' }
   | {
       type: 'NODE_DRAGGED';
@@ -23,11 +25,11 @@ export type WebviewMessage =
     }
   | {
       type: 'ADD_NODE';
-      node: { label: string; shape?: NodeShape; color?: NodeColor; notes?: string; x?: number; y?: number; group?: string; pinned?: boolean };
+      node: { label: string; shape?: NodeShape; color?: ColorValue; notes?: string; x?: number; y?: number; group?: string; pinned?: boolean };
     }
   | {
       type: 'ADD_NODES';
-      nodes: { label: string; shape?: NodeShape; color?: NodeColor; notes?: string; x?: number; y?: number }[];
+      nodes: { label: string; shape?: NodeShape; color?: ColorValue; notes?: string; x?: number; y?: number }[];
     }
   | { type: 'DELETE_NODES'; nodeIds: string[] }
   | {
@@ -47,11 +49,28 @@ export type WebviewMessage =
   | {
       type: 'UPDATE_GROUP_PROPS';
       id: string;
-      changes: { label?: string; color?: NodeColor; collapsed?: boolean };
+      /** `parent: null` moves the group back to the top level; `link: null` removes the link. */
+      changes: { label?: string; color?: ColorValue; collapsed?: boolean; parent?: string | null; link?: DiagramLink | null };
+    }
+  | { type: 'ADD_LAYER'; label: string }
+  | { type: 'DELETE_LAYER'; id: string }
+  | {
+      type: 'UPDATE_LAYER_PROPS';
+      id: string;
+      changes: Partial<Omit<DiagramLayer, 'id'>>;
     }
   | {
       type: 'ADD_EDGE';
-      edge: { source: string; target: string; label?: string; style?: EdgeStyle; arrow?: ArrowType; animated?: boolean };
+      edge: {
+        source: string;
+        target: string;
+        sourcePort?: string;
+        targetPort?: string;
+        label?: string;
+        style?: EdgeStyle;
+        arrow?: ArrowType;
+        animated?: boolean;
+      };
     }
   | { type: 'DELETE_EDGES'; edgeIds: string[] }
   | { type: 'UPDATE_NODE_LABEL'; id: string; label: string }
@@ -61,15 +80,21 @@ export type WebviewMessage =
       changes: {
         label?: string;
         shape?: NodeShape;
-        color?: NodeColor;
+        color?: ColorValue;
         notes?: string;
         group?: string | null;
         pinned?: boolean;
         type?: NodeType;
+        /** `icon: null` falls back to the default icon for the node type. */
+        icon?: NodeIcon | null;
         tags?: string[];
         properties?: NodeProperties;
         securityClassification?: SecurityClassification;
         deploymentEnvironment?: DeploymentEnvironment;
+        /** `layer: null` takes the node off its layer. */
+        layer?: string | null;
+        /** `link: null` removes the drill-down link. */
+        link?: DiagramLink | null;
       };
     }
   | {
@@ -83,6 +108,10 @@ export type WebviewMessage =
         bidirectional?: boolean;
         protocol?: string;
         dataTypes?: string[];
+        routing?: EdgeRouting;
+        /** Manual bend points; an empty array removes them. */
+        waypoints?: EdgePoint[];
+        layer?: string | null;
       };
     }
   | {
@@ -99,6 +128,9 @@ export type WebviewMessage =
       id: string;
       newSource: string;
       newTarget: string;
+      /** Port ids on the new endpoints; omitted when dropped on a plain side handle. */
+      sourcePort?: string;
+      targetPort?: string;
     }
   | {
       /** Normal auto-layout (respects pinned nodes). */
@@ -112,6 +144,11 @@ export type WebviewMessage =
     }
   | { type: 'UNDO' }
   | { type: 'REDO' }
+  | {
+      /** Jump in the history panel: keep the first `index` applied changes. */
+      type: 'HISTORY_JUMP';
+      index: number;
+    }
   | {
       type: 'EXPORT';
       format: 'svg' | 'png' | 'mermaid';
@@ -120,6 +157,15 @@ export type WebviewMessage =
     }
   | { type: 'OPEN_SVG_REQUEST' }
   | { type: 'VIEW_METADATA' }
+  /** Buttons in the canvas error state shown for files that cannot be loaded. */
+  | { type: 'SHOW_PROBLEMS' }
+  | { type: 'OPEN_AS_TEXT' }
+  /** Drill-down: opens the diagram a node or group links to. */
+  | { type: 'OPEN_LINK'; link: DiagramLink }
+  /** Goes back to the diagram at `index` in the breadcrumb trail. */
+  | { type: 'OPEN_BREADCRUMB'; index: number }
+  /** Opens a node's `properties.entrypoint` source file. */
+  | { type: 'OPEN_ENTRYPOINT'; entrypoint: string }
   // -------------------------------------------------------------------------
   // Text elements
   // -------------------------------------------------------------------------
@@ -153,6 +199,7 @@ export type WebviewMessage =
         italic?: boolean;
         href?: string;
         pinned?: boolean;
+        layer?: string | null;
       };
     }
   | { type: 'DELETE_TEXT_ELEMENTS'; elementIds: string[] }
@@ -193,6 +240,7 @@ export type WebviewMessage =
         height?: number;
         href?: string;
         pinned?: boolean;
+        layer?: string | null;
       };
     }
   | { type: 'DELETE_IMAGE_ELEMENTS'; elementIds: string[] }
@@ -207,6 +255,44 @@ export type WebviewMessage =
       dimensions: { width: number; height: number };
     };
 
+/**
+ * Every webview message may carry the revision of the document the webview
+ * last received, so the extension can detect edits made against a stale view.
+ */
+export type WebviewMessage = WebviewPayload & { revision?: string };
+
+/** A diagram the user drilled down from, outermost first. */
+export interface Breadcrumb {
+  title: string;
+  /** File name, shown as a tooltip. */
+  file: string;
+}
+
+/** A problem in a file that could not be loaded, as listed in the canvas error state. */
+export interface DocumentProblem {
+  message: string;
+  /** 1-based line in the file. */
+  line: number;
+}
+
 export type ExtensionMessage =
-  | { type: 'DOCUMENT_UPDATED'; doc: DiagramDocument }
+  | {
+      type: 'DOCUMENT_UPDATED';
+      doc: DiagramDocument;
+      revision: string;
+      /** True when the file uses a newer schema; the webview disables editing. */
+      readOnly: boolean;
+      /** Findings of the enabled lint rules and drift checks, shown as badges on the canvas. */
+      lint: LintFinding[];
+    }
+  | {
+      /** The file cannot be loaded; the webview shows these instead of the canvas. */
+      type: 'DOCUMENT_INVALID';
+      problems: DocumentProblem[];
+    }
+  | { type: 'HISTORY_UPDATED'; history: HistorySummary }
+  /** The drill-down trail that led to this diagram; empty when it was opened directly. */
+  | { type: 'BREADCRUMBS_UPDATED'; crumbs: Breadcrumb[] }
+  /** Selects a node or group and scrolls it into view. */
+  | { type: 'FOCUS_NODE'; id: string }
   | { type: 'OPEN_SVG_RESULT'; svgContent: string };
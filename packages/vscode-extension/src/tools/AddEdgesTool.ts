@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
 import type { EdgeStyle, ArrowType } from '../types/DiagramDocument';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface AddEdgesInput {
   /** Absolute path to the .diagram file to modify. */
@@ -9,6 +10,10 @@ interface AddEdgesInput {
   edges: {
     source: string;
     target: string;
+    /** Id of a port on the source node to leave from. */
+    sourcePort?: string;
+    /** Id of a port on the target node to arrive at. */
+    targetPort?: string;
     label?: string;
     style?: string;
     arrow?: string;
@@ -52,11 +57,15 @@ export class AddEdgesTool implements vscode.LanguageModelTool<AddEdgesInput> {
       ]);
     }
 
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
     const ops = options.input.edges.map((e) => ({
       op: 'add_edge' as const,
       edge: {
-        source: e.source,
-        target: e.target,
+        source: refs.node(e.source),
+        target: refs.node(e.target),
+        ...(e.sourcePort && { sourcePort: e.sourcePort }),
+        ...(e.targetPort && { targetPort: e.targetPort }),
         ...(e.label && { label: e.label }),
         ...(e.style && { style: e.style as EdgeStyle }),
         ...(e.arrow && { arrow: e.arrow as ArrowType }),
@@ -65,7 +74,13 @@ export class AddEdgesTool implements vscode.LanguageModelTool<AddEdgesInput> {
       },
     }));
 
-    const result = await this.diagramService.applySemanticOps(ops, opened.doc);
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to add edges: ${refs.error}`),
+      ]);
+    }
+
+    const result = await this.diagramService.applySemanticOps(ops, opened.doc, { enforceRules: true });
 
     if (result.success) void revealDiagramInEditor(options.input.filePath);
     return new vscode.LanguageModelToolResult([
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
-import type { NodeColor } from '../types/DiagramDocument';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface AddGroupsInput {
   /** Absolute path to the .diagram file to modify. */
@@ -9,6 +9,8 @@ interface AddGroupsInput {
   groups: {
     label: string;
     color?: string;
+    /** Id or exact label of an existing group to nest this group inside. */
+    parent?: string;
   }[];
 }
 
@@ -44,14 +46,23 @@ export class AddGroupsTool implements vscode.LanguageModelTool<AddGroupsInput> {
       ]);
     }
 
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
     const ops = options.input.groups.map((g) => ({
       op: 'add_group' as const,
       group: {
         label: g.label,
-        ...(g.color ? { color: g.color as NodeColor } : {}),
+        ...(g.color ? { color: g.color } : {}),
+        ...(g.parent ? { parent: refs.group(g.parent) } : {}),
       },
     }));
 
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to add groups: ${refs.error}`),
+      ]);
+    }
+
     const result = await this.diagramService.applySemanticOps(ops, opened.doc);
 
     if (!result.success) {
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
-import type { NodeShape, NodeColor } from '../types/DiagramDocument';
+import type { NodeShape, NodeIcon, NodePort } from '../types/DiagramDocument';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface AddNodesInput {
   /** Absolute path to the .diagram file to modify. */
@@ -10,8 +11,12 @@ interface AddNodesInput {
     label: string;
     shape?: string;
     color?: string;
+    /** Built-in icon; defaults to the icon for the node type, 'none' hides it. */
+    icon?: string;
     notes?: string;
     group?: string;
+    /** Named connection ports edges can attach to via sourcePort / targetPort. */
+    ports?: NodePort[];
   }[];
 }
 
@@ -47,17 +52,27 @@ export class AddNodesTool implements vscode.LanguageModelTool<AddNodesInput> {
       ]);
     }
 
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
     const ops = options.input.nodes.map((n) => ({
       op: 'add_node' as const,
       node: {
         label: n.label,
         ...(n.shape && { shape: n.shape as NodeShape }),
-        ...(n.color && { color: n.color as NodeColor }),
+        ...(n.color && { color: n.color }),
+        ...(n.icon && { icon: n.icon as NodeIcon }),
         ...(n.notes && { notes: n.notes }),
-        ...(n.group && { group: n.group }),
+        ...(n.group && { group: refs.group(n.group) }),
+        ...(n.ports?.length && { ports: n.ports }),
       },
     }));
 
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to add nodes: ${refs.error}`),
+      ]);
+    }
+
     const result = await this.diagramService.applySemanticOps(ops, opened.doc);
 
     if (!result.success) {
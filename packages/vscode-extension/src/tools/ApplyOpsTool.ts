@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import type { DiagramService } from '../DiagramService';
+import type { SemanticOp } from '../types/operations';
+import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
+
+const SUPPORTED_OPS = new Set<string>([
+  'add_node', 'remove_node', 'update_node', 'sort_nodes',
+  'add_edge', 'remove_edge', 'update_edge',
+  'add_group', 'remove_group', 'update_group',
+  'add_layer', 'remove_layer', 'update_layer',
+]);
+
+/**
+ * Replaces node, group and edge labels in an op with ids. Client keys declared
+ * in the batch are left alone; applyOps maps them once the element exists.
+ */
+function resolveOpReferences(op: SemanticOp, refs: ReferenceResolver, keys: ReadonlySet<string>): SemanticOp {
+  const node = (ref: string) => (keys.has(ref) ? ref : refs.node(ref));
+  const group = (ref: string) => (keys.has(ref) ? ref : refs.group(ref));
+  const edge = (ref: string) => (keys.has(ref) ? ref : refs.edge(ref));
+  // Only rewrites fields that are present so absent fields stay absent.
+  const field = <T extends object>(obj: T, name: keyof T & string, resolve: (ref: string) => string): T => {
+    const value = obj[name];
+    return typeof value === 'string' ? { ...obj, [name]: resolve(value) } : obj;
+  };
+
+  switch (op.op) {
+    case 'add_node':
+      return { ...op, node: field(op.node, 'group', group) };
+    case 'update_node':
+      return { ...op, id: node(op.id), changes: field(op.changes, 'group', group) };
+    case 'remove_node':
+      return { ...op, id: node(op.id) };
+    case 'sort_nodes':
+      return field(op, 'groupId', group);
+    case 'add_edge':
+      return { ...op, edge: field(field(op.edge, 'source', node), 'target', node) };
+    case 'update_edge':
+      return { ...op, id: edge(op.id), changes: field(field(op.changes, 'source', node), 'target', node) };
+    case 'remove_edge':
+      return { ...op, id: edge(op.id) };
+    case 'add_group':
+      return { ...op, group: field(op.group, 'parent', group) };
+    case 'update_group':
+      return { ...op, id: group(op.id), changes: field(op.changes, 'parent', group) };
+    case 'remove_group':
+      return { ...op, id: group(op.id) };
+    default:
+      return op;
+  }
+}
+
+interface ApplyOpsInput {
+  /** Absolute path to the .diagram file to modify. */
+  filePath: string;
+  /**
+   * Ops applied in order as one transaction. add_* ops may carry a `key`
+   * that later ops use in place of the not-yet-known id.
+   */
+  ops: SemanticOp[];
+  /**
+   * Revision from diagramflow_getDiagram. When the diagram changed since,
+   * the ops are rebased, or rejected if they would overwrite the newer change.
+   */
+  revision?: string;
+}
+
+/**
+ * Language Model Tool that applies a batch of semantic ops in one write.
+ *
+ * The whole batch is validated together and produces a single undo entry, so
+ * an agent can create nodes and wire them up without a getDiagram round-trip
+ * in between: `{ op: 'add_node', key: 'api', node: {...} }` followed by
+ * `{ op: 'add_edge', edge: { source: 'api', target: 'db' } }`.
+ */
+export class ApplyOpsTool implements vscode.LanguageModelTool<ApplyOpsInput> {
+  constructor(private readonly diagramService: DiagramService) {}
+
+  async prepareInvocation(
+    options: vscode.LanguageModelToolInvocationPrepareOptions<ApplyOpsInput>,
+    _token: vscode.CancellationToken,
+  ) {
+    const count = options.input.ops.length;
+    const file = fileNameFromPath(options.input.filePath);
+    const kinds = [...new Set(options.input.ops.map((o) => o.op))].join(', ');
+    return {
+      invocationMessage: `Applying ${count} operation(s) to ${file}...`,
+      confirmationMessages: {
+        title: 'Apply diagram operations',
+        message: new vscode.MarkdownString(
+          `Apply **${count}** operation(s) to the diagram as one change: ${kinds}.`,
+        ),
+      },
+    };
+  }
+
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<ApplyOpsInput>,
+    _token: vscode.CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    const { ops } = options.input;
+    const unsupported = ops.findIndex((o) => !SUPPORTED_OPS.has((o as { op?: unknown }).op as string));
+    if (unsupported !== -1) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `Failed to apply operations: ops[${unsupported}] has unsupported op "${String(ops[unsupported].op)}". ` +
+            `Supported: ${[...SUPPORTED_OPS].join(', ')}.`,
+        ),
+      ]);
+    }
+
+    const opened = await openDiagramDocument(options.input.filePath);
+    if ('error' in opened) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(opened.error),
+      ]);
+    }
+
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+    const keys = new Set(ops.flatMap((o) => ('key' in o && o.key !== undefined ? [o.key] : [])));
+    const resolved = ops.map((o) => resolveOpReferences(o, refs, keys));
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `Failed to apply operations (nothing was changed): ${refs.error}`,
+        ),
+      ]);
+    }
+
+    const result = await this.diagramService.applySemanticOps(resolved, opened.doc, {
+      revision: options.input.revision,
+      enforceRules: true,
+    });
+
+    if (!result.success) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `Failed to apply operations (nothing was changed): ${result.error}`,
+        ),
+      ]);
+    }
+
+    void revealDiagramInEditor(options.input.filePath);
+    const ids = result.ids ?? {};
+    const mapping = Object.keys(ids).length > 0
+      ? ` IDs: ${JSON.stringify(ids)}`
+      : '';
+    const revision = result.revision ? ` Revision: ${result.revision}.` : '';
+    return new vscode.LanguageModelToolResult([
+      new vscode.LanguageModelTextPart(`Applied ${ops.length} operation(s).${revision}${mapping}`),
+    ]);
+  }
+}
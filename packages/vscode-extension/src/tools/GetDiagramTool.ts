@@ -44,6 +44,7 @@ export class GetDiagramTool implements vscode.LanguageModelTool<GetDiagramInput>
     }
 
     const compact = {
+      revision: this.diagramService.getRevision(opened.doc) ?? undefined,
       title: doc.meta?.title ?? '',
       description: doc.meta?.description,
       nodes: doc.nodes.map((n) => ({
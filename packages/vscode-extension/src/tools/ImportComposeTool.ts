@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { importComposeFile } from '../DiagramGenerator';
+import { fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+
+interface ImportComposeInput {
+  /** Absolute path to the docker-compose file to import. */
+  composePath: string;
+  /** Absolute path of the .diagram.svg file to create. */
+  filePath: string;
+}
+
+/**
+ * Language Model Tool that creates a new diagram from a docker-compose file:
+ * services become typed nodes, networks become groups and `depends_on` /
+ * `links` become edges. It never overwrites a file, so an agent edits the
+ * result with the other diagramflow tools.
+ */
+export class ImportComposeTool implements vscode.LanguageModelTool<ImportComposeInput> {
+  async prepareInvocation(
+    options: vscode.LanguageModelToolInvocationPrepareOptions<ImportComposeInput>,
+    _token: vscode.CancellationToken,
+  ) {
+    const compose = fileNameFromPath(options.input.composePath);
+    const file = fileNameFromPath(options.input.filePath);
+    return {
+      invocationMessage: `Importing ${compose} into ${file}...`,
+      confirmationMessages: {
+        title: 'Import docker-compose file',
+        message: new vscode.MarkdownString(`Create the diagram **${file}** from the services in **${compose}**.`),
+      },
+    };
+  }
+
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<ImportComposeInput>,
+    _token: vscode.CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    const { composePath, filePath } = options.input;
+    if (!filePath.endsWith('.diagram.svg')) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Unsupported file type: ${filePath}. The new diagram must be a .diagram.svg file.`),
+      ]);
+    }
+    const target = vscode.Uri.file(filePath);
+    const exists = await vscode.workspace.fs.stat(target).then(() => true, () => false);
+    if (exists) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `${filePath} already exists. Choose a new filePath, or change the existing diagram with diagramflow_applyOps.`,
+        ),
+      ]);
+    }
+
+    const result = await importComposeFile(vscode.Uri.file(composePath), target);
+    if (!result.success || !result.document) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to import ${composePath} (nothing was written): ${result.error}`),
+      ]);
+    }
+
+    void revealDiagramInEditor(filePath);
+    const { nodes, groups = [], edges } = result.document;
+    return new vscode.LanguageModelToolResult([
+      new vscode.LanguageModelTextPart(
+        `Created ${filePath} with ${nodes.length} service(s), ${groups.length} network group(s) and ` +
+          `${edges.length} dependency edge(s).`,
+      ),
+    ]);
+  }
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import type { DiagramService } from '../DiagramService';
+import { DiagramDiagnostics } from '../DiagramDiagnostics';
+import { findDiagramProblems } from '../lib/diagramProblems';
+import { validateDiagram } from '../lib/SchemaValidator';
+import { lintDiagram, LINT_RULES, type LintFinding } from '../lib/lint';
+import { openDiagramDocument, fileNameFromPath } from './toolHelpers';
+
+interface LintDiagramInput {
+  /** Absolute path to the .diagram file to check. */
+  filePath: string;
+  /** Only run these rules. Omitted = every rule enabled in settings. */
+  rules?: string[];
+}
+
+/** Shapes a finding for the agent: fixes become applyOps-ready ops. */
+function describeFinding(finding: LintFinding) {
+  const { fix } = finding;
+  return {
+    rule: finding.rule,
+    severity: finding.severity,
+    message: finding.message,
+    elementId: finding.elementId,
+    path: finding.path,
+    fix: fix && {
+      title: fix.title,
+      ops: fix.ops,
+      // The agent fills in this field of each update op's `changes` itself.
+      needs: fix.input?.field,
+    },
+  };
+}
+
+/**
+ * Language Model Tool that runs the architecture lint rules over a diagram and
+ * returns the findings shown in the Problems panel. Quick fixes are returned
+ * as ops the agent can pass to diagramflow_applyOps.
+ */
+export class LintDiagramTool implements vscode.LanguageModelTool<LintDiagramInput> {
+  constructor(private readonly diagramService: DiagramService) {}
+
+  async prepareInvocation(
+    options: vscode.LanguageModelToolInvocationPrepareOptions<LintDiagramInput>,
+    _token: vscode.CancellationToken,
+  ) {
+    const fileName = fileNameFromPath(options.input.filePath);
+    return { invocationMessage: `Checking ${fileName} against the architecture rules...` };
+  }
+
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<LintDiagramInput>,
+    _token: vscode.CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    const { filePath, rules } = options.input;
+    const unknown = rules?.filter((id) => !LINT_RULES.some((r) => r.id === id)) ?? [];
+    if (unknown.length > 0) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `Unknown rule(s): ${unknown.join(', ')}. Available: ${LINT_RULES.map((r) => r.id).join(', ')}.`,
+        ),
+      ]);
+    }
+
+    const opened = await openDiagramDocument(filePath);
+    if ('error' in opened) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(opened.error),
+      ]);
+    }
+
+    const doc = this.diagramService.parseDocument(opened.doc);
+    const schemaErrors = doc
+      ? validateDiagram(doc).errors
+      : findDiagramProblems(opened.doc.getText(), filePath.endsWith('.svg')).map((p) => p.message);
+    if (!doc || schemaErrors.length > 0) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `The diagram fails schema validation, so lint rules were not run. Fix these first:\n- ${schemaErrors.join('\n- ')}`,
+        ),
+      ]);
+    }
+
+    const settings = DiagramDiagnostics.lintSettings();
+    const selected = rules
+      ? Object.fromEntries(LINT_RULES.map((r) => [r.id, rules.includes(r.id)]))
+      : settings;
+    const findings = lintDiagram(doc, selected);
+    const result = {
+      revision: this.diagramService.getRevision(opened.doc) ?? undefined,
+      rules: LINT_RULES.filter((r) => selected[r.id] !== false).map((r) => r.id),
+      findings: findings.map(describeFinding),
+    };
+
+    return new vscode.LanguageModelToolResult([
+      new vscode.LanguageModelTextPart(
+        findings.length === 0
+          ? `No findings. Rules checked: ${result.rules.join(', ')}.`
+          : JSON.stringify(result, null, 2),
+      ),
+    ]);
+  }
+}
@@ -1,6 +1,7 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
-import type { AgentContext, DiagramDocument } from '../types/DiagramDocument';
+import type { AgentContext, DiagramDocument, DiagramLink } from '../types/DiagramDocument';
 import { openDiagramDocument, fileNameFromPath } from './toolHelpers';
 
 interface ReadDiagramInput {
@@ -19,6 +20,8 @@ interface ReadDiagramInput {
  * `filePath` is required so the agent always specifies which .diagram file to read.
  * Use this tool first when asked to review, explain, or reason about a diagram.
  * Use `diagramflow_getDiagram` when you need IDs to update the diagram.
+ * Drill-down links are listed with absolute paths so the agent can read the
+ * linked diagrams next and walk the context → container → component hierarchy.
  */
 export class ReadDiagramTool implements vscode.LanguageModelTool<ReadDiagramInput> {
   constructor(private readonly diagramService: DiagramService) {}
@@ -51,7 +54,7 @@ export class ReadDiagramTool implements vscode.LanguageModelTool<ReadDiagramInpu
       ]);
     }
 
-    const text = buildReadableText(doc);
+    const text = buildReadableText(doc, options.input.filePath);
     return new vscode.LanguageModelToolResult([
       new vscode.LanguageModelTextPart(text),
     ]);
@@ -65,17 +68,24 @@ export class ReadDiagramTool implements vscode.LanguageModelTool<ReadDiagramInpu
  * Priority order:
  * 1. Use the pre-generated agentContext if fresh (< 1 min old)
  * 2. Fall back to building a minimal description from the raw document
+ *
+ * With `filePath`, drill-down links are resolved to absolute paths.
  */
-export function buildReadableText(doc: DiagramDocument): string {
+export function buildReadableText(doc: DiagramDocument, filePath?: string): string {
   if (doc.agentContext) {
-    return formatAgentContext(doc.agentContext);
+    return formatAgentContext(doc.agentContext, filePath);
   }
 
   // Fallback: build minimal description from raw doc
-  return buildMinimalDescription(doc);
+  return buildMinimalDescription(doc, filePath);
+}
+
+function describeLink(link: DiagramLink, filePath: string | undefined): string {
+  const file = filePath ? path.resolve(path.dirname(filePath), link.file) : link.file;
+  return `drill down: ${file}${link.node ? ` (node "${link.node}")` : ''}`;
 }
 
-function formatAgentContext(ctx: AgentContext): string {
+function formatAgentContext(ctx: AgentContext, filePath?: string): string {
   const lines: string[] = [];
 
   lines.push(`# Diagram Summary\n${ctx.summary}`);
@@ -84,7 +94,8 @@ function formatAgentContext(ctx: AgentContext): string {
     lines.push('\n## Groups');
     for (const g of ctx.groupIndex) {
       const members = g.members.length > 0 ? g.members.join(', ') : '(empty)';
-      lines.push(`- **${g.group}**: ${members}`);
+      const link = g.link ? ` — ${describeLink(g.link, filePath)}` : '';
+      lines.push(`- **${g.group}**: ${members}${link}`);
     }
   }
 
@@ -97,6 +108,7 @@ function formatAgentContext(ctx: AgentContext): string {
       if (n.securityClassification) parts.push(`(${n.securityClassification})`);
       if (n.tags && n.tags.length > 0) parts.push(`tags: ${n.tags.join(', ')}`);
       lines.push(`- ${parts.join(' ')}`);
+      if (n.link) lines.push(`  - ${describeLink(n.link, filePath)}`);
 
       if (n.properties && Object.keys(n.properties).length > 0) {
         const { repo, team, openapi, adr, technicalDebt, status } = n.properties as any;
@@ -156,7 +168,7 @@ function formatAgentContext(ctx: AgentContext): string {
   return lines.join('\n');
 }
 
-function buildMinimalDescription(doc: DiagramDocument): string {
+function buildMinimalDescription(doc: DiagramDocument, filePath?: string): string {
   const lines: string[] = [];
   const title = doc.meta.title || 'Untitled Diagram';
 
@@ -175,6 +187,7 @@ function buildMinimalDescription(doc: DiagramDocument): string {
     const parts = [`**${n.label}**`];
     if (n.notes) parts.push(`— ${n.notes}`);
     lines.push(`- ${parts.join(' ')}`);
+    if (n.link) lines.push(`  - ${describeLink(n.link, filePath)}`);
   }
 
   if (doc.edges.length > 0) {
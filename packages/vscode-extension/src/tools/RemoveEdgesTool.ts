@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface RemoveEdgesInput {
   /** Absolute path to the .diagram file to modify. */
@@ -38,11 +39,19 @@ export class RemoveEdgesTool implements vscode.LanguageModelTool<RemoveEdgesInpu
       ]);
     }
 
-    const ops = options.input.edgeIds.map((id) => ({
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
+    const ops = options.input.edgeIds.map((ref) => ({
       op: 'remove_edge' as const,
-      id,
+      id: refs.edge(ref),
     }));
 
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to remove edges: ${refs.error}`),
+      ]);
+    }
+
     const result = await this.diagramService.applySemanticOps(ops, opened.doc);
 
     if (result.success) void revealDiagramInEditor(options.input.filePath);
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface RemoveGroupsInput {
   /** Absolute path to the .diagram file to modify. */
@@ -40,12 +41,20 @@ export class RemoveGroupsTool implements vscode.LanguageModelTool<RemoveGroupsIn
       ]);
     }
 
-    const ops = options.input.groupIds.map((id) => ({
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
+    const ops = options.input.groupIds.map((ref) => ({
       op: 'remove_group' as const,
-      id,
+      id: refs.group(ref),
     }));
 
-    const result = await this.diagramService.applySemanticOps(ops, opened.doc);
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to remove groups: ${refs.error}`),
+      ]);
+    }
+
+    const result = await this.diagramService.applySemanticOps(ops, opened.doc, { enforceRules: true });
 
     if (result.success) void revealDiagramInEditor(options.input.filePath);
     return new vscode.LanguageModelToolResult([
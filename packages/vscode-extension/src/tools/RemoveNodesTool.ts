@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface RemoveNodesInput {
   /** Absolute path to the .diagram file to modify. */
@@ -38,11 +39,19 @@ export class RemoveNodesTool implements vscode.LanguageModelTool<RemoveNodesInpu
       ]);
     }
 
-    const ops = options.input.nodeIds.map((id) => ({
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
+    const ops = options.input.nodeIds.map((ref) => ({
       op: 'remove_node' as const,
-      id,
+      id: refs.node(ref),
     }));
 
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to remove nodes: ${refs.error}`),
+      ]);
+    }
+
     const result = await this.diagramService.applySemanticOps(ops, opened.doc);
 
     if (result.success) void revealDiagramInEditor(options.input.filePath);
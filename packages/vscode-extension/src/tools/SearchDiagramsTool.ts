@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import type { DiagramIndex } from '../DiagramIndex';
+import { searchDiagramNodes, type DiagramSearchQuery } from '../lib/diagramIndex';
+
+interface SearchDiagramsInput extends DiagramSearchQuery {
+  /** Maximum number of hits to return. Defaults to 50. */
+  maxResults?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 50;
+
+/** Describes the criteria for the invocation message, e.g. `"orders", type Database`. */
+function describeQuery(query: DiagramSearchQuery): string {
+  return [
+    query.text && `"${query.text}"`,
+    query.type && `type ${query.type}`,
+    query.tags?.length && `tags ${query.tags.join(', ')}`,
+    query.team && `team ${query.team}`,
+    query.securityClassification,
+    query.deploymentEnvironment,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Language Model Tool that searches the nodes of every diagram in the
+ * workspace. It reads from the cached workspace index, so no files are opened;
+ * hits carry the absolute file path the other tools expect.
+ */
+export class SearchDiagramsTool implements vscode.LanguageModelTool<SearchDiagramsInput> {
+  constructor(private readonly diagramIndex: DiagramIndex) {}
+
+  async prepareInvocation(
+    options: vscode.LanguageModelToolInvocationPrepareOptions<SearchDiagramsInput>,
+    _token: vscode.CancellationToken,
+  ) {
+    return { invocationMessage: `Searching workspace diagrams for ${describeQuery(options.input)}...` };
+  }
+
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<SearchDiagramsInput>,
+    _token: vscode.CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    const { maxResults = DEFAULT_MAX_RESULTS, ...query } = options.input;
+    if (!describeQuery(query)) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          'Give at least one of: text, type, tags, team, securityClassification, deploymentEnvironment.',
+        ),
+      ]);
+    }
+
+    const diagrams = await this.diagramIndex.getDiagrams();
+    const hits = diagrams.flatMap(({ uri, doc }) =>
+      doc ? searchDiagramNodes(doc, query).map((hit) => ({ file: uri.fsPath, ...hit })) : [],
+    );
+    if (hits.length === 0) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`No matching nodes in ${diagrams.length} diagram(s).`),
+      ]);
+    }
+
+    const result = {
+      diagramsSearched: diagrams.length,
+      totalHits: hits.length,
+      hits: hits.slice(0, Math.max(1, maxResults)),
+    };
+    return new vscode.LanguageModelToolResult([
+      new vscode.LanguageModelTextPart(JSON.stringify(result)),
+    ]);
+  }
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
-import type { EdgeStyle, ArrowType } from '../types/DiagramDocument';
+import type { EdgeStyle, ArrowType, EdgeRouting } from '../types/DiagramDocument';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface UpdateEdgesInput {
   /** Absolute path to the .diagram file to modify. */
@@ -14,6 +15,8 @@ interface UpdateEdgesInput {
     animated?: boolean;
     /** When true the edge has arrowheads at both ends (bidirectional). */
     bidirectional?: boolean;
+    /** Path routing mode: straight, orthogonal or curved. */
+    routing?: string;
     source?: string;
     target?: string;
   }[];
@@ -50,21 +53,30 @@ export class UpdateEdgesTool implements vscode.LanguageModelTool<UpdateEdgesInpu
       ]);
     }
 
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
     const ops = options.input.updates.map((u) => ({
       op: 'update_edge' as const,
-      id: u.id,
+      id: refs.edge(u.id),
       changes: {
         ...(u.label !== undefined && { label: u.label }),
         ...(u.style && { style: u.style as EdgeStyle }),
         ...(u.arrow && { arrow: u.arrow as ArrowType }),
         ...(u.animated !== undefined && { animated: u.animated }),
         ...(u.bidirectional !== undefined && { bidirectional: u.bidirectional }),
-        ...(u.source && { source: u.source }),
-        ...(u.target && { target: u.target }),
+        ...(u.routing && { routing: u.routing as EdgeRouting }),
+        ...(u.source && { source: refs.node(u.source) }),
+        ...(u.target && { target: refs.node(u.target) }),
       },
     }));
 
-    const result = await this.diagramService.applySemanticOps(ops, opened.doc);
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to update edges: ${refs.error}`),
+      ]);
+    }
+
+    const result = await this.diagramService.applySemanticOps(ops, opened.doc, { enforceRules: true });
 
     if (result.success) void revealDiagramInEditor(options.input.filePath);
     return new vscode.LanguageModelToolResult([
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
-import type { NodeColor } from '../types/DiagramDocument';
+import type { DiagramLink } from '../types/DiagramDocument';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface UpdateGroupsInput {
   /** Absolute path to the .diagram file to modify. */
@@ -10,6 +11,10 @@ interface UpdateGroupsInput {
     id: string;
     label?: string;
     color?: string;
+    /** Id or label of the enclosing group; an empty string moves the group to the top level. */
+    parent?: string;
+    /** Drill-down link to a more detailed diagram; an empty `file` removes it. */
+    link?: DiagramLink;
   }[];
 }
 
@@ -44,16 +49,26 @@ export class UpdateGroupsTool implements vscode.LanguageModelTool<UpdateGroupsIn
       ]);
     }
 
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
     const ops = options.input.updates.map((u) => ({
       op: 'update_group' as const,
-      id: u.id,
+      id: refs.group(u.id),
       changes: {
         ...(u.label !== undefined && { label: u.label }),
-        ...(u.color && { color: u.color as NodeColor }),
+        ...(u.color && { color: u.color }),
+        ...(u.parent !== undefined && { parent: refs.group(u.parent) || undefined }),
+        ...(u.link !== undefined && { link: u.link.file ? u.link : undefined }),
       },
     }));
 
-    const result = await this.diagramService.applySemanticOps(ops, opened.doc);
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to update groups: ${refs.error}`),
+      ]);
+    }
+
+    const result = await this.diagramService.applySemanticOps(ops, opened.doc, { enforceRules: true });
 
     if (result.success) void revealDiagramInEditor(options.input.filePath);
     return new vscode.LanguageModelToolResult([
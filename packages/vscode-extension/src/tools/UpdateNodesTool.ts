@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
-import type { NodeShape, NodeColor } from '../types/DiagramDocument';
+import type { NodeShape, NodeIcon, NodePort, DiagramLink } from '../types/DiagramDocument';
 import { openDiagramDocument, fileNameFromPath, revealDiagramInEditor } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 
 interface UpdateNodesInput {
   /** Absolute path to the .diagram file to modify. */
@@ -11,8 +12,14 @@ interface UpdateNodesInput {
     label?: string;
     shape?: string;
     color?: string;
+    /** Built-in icon; defaults to the icon for the node type, 'none' hides it. */
+    icon?: string;
     notes?: string;
     group?: string;
+    /** Replaces the node's ports; an empty array removes them all. */
+    ports?: NodePort[];
+    /** Drill-down link to a more detailed diagram; an empty `file` removes it. */
+    link?: DiagramLink;
   }[];
 }
 
@@ -47,19 +54,30 @@ export class UpdateNodesTool implements vscode.LanguageModelTool<UpdateNodesInpu
       ]);
     }
 
+    const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+
     const ops = options.input.updates.map((u) => ({
       op: 'update_node' as const,
-      id: u.id,
+      id: refs.node(u.id),
       changes: {
         ...(u.label !== undefined && { label: u.label }),
         ...(u.shape && { shape: u.shape as NodeShape }),
-        ...(u.color && { color: u.color as NodeColor }),
+        ...(u.color && { color: u.color }),
+        ...(u.icon && { icon: u.icon as NodeIcon }),
         ...(u.notes !== undefined && { notes: u.notes }),
-        ...(u.group !== undefined && { group: u.group }),
+        ...(u.group !== undefined && { group: refs.group(u.group) }),
+        ...(u.ports !== undefined && { ports: u.ports }),
+        ...(u.link !== undefined && { link: u.link.file ? u.link : undefined }),
       },
     }));
 
-    const result = await this.diagramService.applySemanticOps(ops, opened.doc);
+    if (refs.error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Failed to update nodes: ${refs.error}`),
+      ]);
+    }
+
+    const result = await this.diagramService.applySemanticOps(ops, opened.doc, { enforceRules: true });
 
     if (result.success) void revealDiagramInEditor(options.input.filePath);
     return new vscode.LanguageModelToolResult([
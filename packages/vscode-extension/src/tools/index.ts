@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import type { DiagramService } from '../DiagramService';
+import type { DiagramIndex } from '../DiagramIndex';
 import { GetDiagramTool } from './GetDiagramTool';
 import { ReadDiagramTool } from './ReadDiagramTool';
 import { AddNodesTool } from './AddNodesTool';
@@ -12,10 +13,15 @@ import { AddGroupsTool } from './AddGroupsTool';
 import { RemoveGroupsTool } from './RemoveGroupsTool';
 import { UpdateGroupsTool } from './UpdateGroupsTool';
 import { SetLlmNotesTool } from './SetLlmNotesTool';
+import { ApplyOpsTool } from './ApplyOpsTool';
+import { LintDiagramTool } from './LintDiagramTool';
+import { SearchDiagramsTool } from './SearchDiagramsTool';
+import { ImportComposeTool } from './ImportComposeTool';
 
 export function registerDiagramTools(
   context: vscode.ExtensionContext,
   diagramService: DiagramService,
+  diagramIndex: DiagramIndex,
 ): void {
   const tools: [string, vscode.LanguageModelTool<any>][] = [
     ['diagramflow_readDiagram', new ReadDiagramTool(diagramService)],
@@ -30,6 +36,10 @@ export function registerDiagramTools(
     ['diagramflow_removeGroups', new RemoveGroupsTool(diagramService)],
     ['diagramflow_updateGroups', new UpdateGroupsTool(diagramService)],
     ['diagramflow_setLlmNotes', new SetLlmNotesTool(diagramService)],
+    ['diagramflow_applyOps', new ApplyOpsTool(diagramService)],
+    ['diagramflow_lintDiagram', new LintDiagramTool(diagramService)],
+    ['diagramflow_searchDiagrams', new SearchDiagramsTool(diagramIndex)],
+    ['diagramflow_importCompose', new ImportComposeTool()],
   ];
 
   for (const [name, tool] of tools) {
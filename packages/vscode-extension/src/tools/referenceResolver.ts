@@ -0,0 +1,161 @@
+import type { DiagramDocument } from '../types/DiagramDocument';
+
+/** Kinds of elements a tool input can refer to. */
+export type ReferenceKind = 'node' | 'group' | 'edge';
+
+/** Maximum number of candidates listed in an error message. */
+const MAX_CANDIDATES = 10;
+
+/** Separators accepted in "Source → Target" edge references. */
+const EDGE_ARROW = /\s*(?:→|->)\s*/;
+
+interface Candidate {
+  id: string;
+  label: string;
+  detail?: string;
+}
+
+/**
+ * Resolves element references in tool input to real ids.
+ *
+ * `diagramflow_readDiagram` only shows labels, so every mutating tool accepts
+ * either an id or the element's exact label. Ids always win; a label must
+ * match exactly one element. Edges can also be named by their endpoints as
+ * "Source → Target" (or "Source -> Target"), the way readDiagram lists them.
+ *
+ * Unresolvable references are collected instead of thrown so a tool can
+ * report every problem at once; the reference is passed through unchanged.
+ *
+ * Usage:
+ *   const refs = new ReferenceResolver(this.diagramService.parseDocument(opened.doc));
+ *   const ops = input.nodeIds.map((ref) => ({ op: 'remove_node', id: refs.node(ref) }));
+ *   if (refs.error) return failure(refs.error);
+ */
+export class ReferenceResolver {
+  private readonly errors: string[] = [];
+
+  /** When `doc` is null (unparseable file) references pass through unchanged. */
+  constructor(private readonly doc: DiagramDocument | null) {}
+
+  node(ref: string): string {
+    return this.resolve('node', ref);
+  }
+
+  group(ref: string): string {
+    return this.resolve('group', ref);
+  }
+
+  edge(ref: string): string {
+    return this.resolve('edge', ref);
+  }
+
+  /** All resolution errors joined into one message, or undefined when every reference resolved. */
+  get error(): string | undefined {
+    return this.errors.length > 0 ? this.errors.join(' ') : undefined;
+  }
+
+  /** Empty strings are passed through: several tools use them to clear a reference. */
+  private resolve(kind: ReferenceKind, ref: string): string {
+    if (!this.doc || ref === '') return ref;
+    const result = resolveReference(this.doc, kind, ref);
+    if ('error' in result) {
+      this.errors.push(result.error);
+      return ref;
+    }
+    return result.id;
+  }
+}
+
+/**
+ * Resolves a single id-or-label reference. Returns the element id, or an
+ * error that names the candidates the agent can choose from.
+ */
+export function resolveReference(
+  doc: DiagramDocument,
+  kind: ReferenceKind,
+  ref: string,
+): { id: string } | { error: string } {
+  const candidates = listCandidates(doc, kind);
+  if (candidates.some((c) => c.id === ref)) return { id: ref };
+
+  const matches = candidates.filter((c) => c.label !== '' && c.label === ref);
+  if (matches.length === 1) return { id: matches[0].id };
+  if (matches.length > 1) {
+    return {
+      error: `${capitalize(kind)} label "${ref}" is ambiguous; it matches ${matches.length} ${kind}s: ` +
+        `${formatCandidates(matches)}. Use the id instead.`,
+    };
+  }
+
+  if (kind === 'edge' && EDGE_ARROW.test(ref)) return resolveEdgeByEndpoints(doc, ref);
+
+  const needle = ref.trim().toLowerCase();
+  const similar = candidates.filter((c) => {
+    const label = c.label.toLowerCase();
+    return needle.length > 0 && label.length > 0 && (label.includes(needle) || needle.includes(label));
+  });
+  if (similar.length > 0) {
+    return { error: `${capitalize(kind)} "${ref}" not found. Did you mean: ${formatCandidates(similar)}?` };
+  }
+  return {
+    error: candidates.length > 0
+      ? `${capitalize(kind)} "${ref}" not found. Known ${kind}s: ${formatCandidates(candidates)}.`
+      : `${capitalize(kind)} "${ref}" not found: the diagram has no ${kind}s.`,
+  };
+}
+
+function resolveEdgeByEndpoints(doc: DiagramDocument, ref: string): { id: string } | { error: string } {
+  const [from, to] = ref.split(EDGE_ARROW, 2);
+  const source = resolveReference(doc, 'node', from);
+  if ('error' in source) return { error: `Edge "${ref}": ${source.error}` };
+  const target = resolveReference(doc, 'node', to);
+  if ('error' in target) return { error: `Edge "${ref}": ${target.error}` };
+
+  const matches = doc.edges.filter((e) => e.source === source.id && e.target === target.id);
+  if (matches.length === 1) return { id: matches[0].id };
+  if (matches.length === 0) return { error: `Edge "${ref}" not found: there is no edge from "${from}" to "${to}".` };
+  const edges = listCandidates(doc, 'edge').filter((c) => matches.some((m) => m.id === c.id));
+  return {
+    error: `Edge "${ref}" is ambiguous; ${matches.length} edges connect these nodes: ` +
+      `${formatCandidates(edges)}. Use the id instead.`,
+  };
+}
+
+function listCandidates(doc: DiagramDocument, kind: ReferenceKind): Candidate[] {
+  const groupLabels = new Map((doc.groups ?? []).map((g) => [g.id, g.label]));
+  switch (kind) {
+    case 'node':
+      return doc.nodes.map((n) => ({
+        id: n.id,
+        label: n.label,
+        ...(n.group && groupLabels.has(n.group) && { detail: `in group "${groupLabels.get(n.group)}"` }),
+      }));
+    case 'group':
+      return (doc.groups ?? []).map((g) => ({
+        id: g.id,
+        label: g.label,
+        ...(g.parent && groupLabels.has(g.parent) && { detail: `inside "${groupLabels.get(g.parent)}"` }),
+      }));
+    case 'edge': {
+      const nodeLabels = new Map(doc.nodes.map((n) => [n.id, n.label]));
+      return doc.edges.map((e) => ({
+        id: e.id,
+        label: e.label ?? '',
+        detail: `${nodeLabels.get(e.source) ?? e.source} → ${nodeLabels.get(e.target) ?? e.target}`,
+      }));
+    }
+  }
+}
+
+function formatCandidates(candidates: Candidate[]): string {
+  const shown = candidates.slice(0, MAX_CANDIDATES).map((c) => {
+    const name = c.label ? `"${c.label}" (${c.id}` : `(${c.id}`;
+    return `${name}${c.detail ? `, ${c.detail}` : ''})`;
+  });
+  const more = candidates.length - shown.length;
+  return more > 0 ? `${shown.join(', ')} and ${more} more` : shown.join(', ');
+}
+
+function capitalize(kind: ReferenceKind): string {
+  return kind.charAt(0).toUpperCase() + kind.slice(1);
+}
@@ -14,9 +14,15 @@ import { AddGroupsTool } from './AddGroupsTool';
 import { RemoveGroupsTool } from './RemoveGroupsTool';
 import { UpdateGroupsTool } from './UpdateGroupsTool';
 import { SetLlmNotesTool } from './SetLlmNotesTool';
+import { ApplyOpsTool } from './ApplyOpsTool';
+import { LintDiagramTool } from './LintDiagramTool';
+import { SearchDiagramsTool } from './SearchDiagramsTool';
+import { ImportComposeTool } from './ImportComposeTool';
 import { registerDiagramTools } from './index';
 import { fileNameFromPath, openDiagramDocument } from './toolHelpers';
+import { ReferenceResolver } from './referenceResolver';
 import type { DiagramService } from '../DiagramService';
+import type { DiagramIndex, IndexedDiagram } from '../DiagramIndex';
 import type { DiagramDocument } from '../types/DiagramDocument';
 import * as vscode from 'vscode';
 
@@ -87,6 +93,7 @@ function makeMockDiagramService(
     getActiveDocument: vi.fn().mockReturnValue(null),
     autoLayoutAll: vi.fn().mockResolvedValue(undefined),
     emptyDocument: vi.fn(),
+    getRevision: vi.fn().mockReturnValue('rev1'),
     ...overrides,
   } as unknown as DiagramService;
 }
@@ -450,6 +457,30 @@ describe('UpdateNodesTool', () => {
 
     expect(resultText(result)).toContain('Updated 1 node(s)');
   });
+
+  it('sets drill-down links and removes them for an empty file', async () => {
+    const svc = makeMockDiagramService();
+    const tool = new UpdateNodesTool(svc);
+
+    await tool.invoke(
+      {
+        input: {
+          filePath: TEST_FILE_PATH,
+          updates: [
+            { id: 'n1', link: { file: 'detail.diagram.svg', node: 'API' } },
+            { id: 'n2', link: { file: '' } },
+          ],
+        },
+      } as any,
+      mockToken,
+    );
+
+    const ops = vi.mocked(svc.applySemanticOps).mock.calls[0][0];
+    expect(ops.map((o: any) => o.changes)).toEqual([
+      { link: { file: 'detail.diagram.svg', node: 'API' } },
+      { link: undefined },
+    ]);
+  });
 });
 
 describe('AddEdgesTool', () => {
@@ -516,6 +547,28 @@ describe('AddEdgesTool', () => {
       },
     });
     expect(vi.mocked(svc.applySemanticOps).mock.calls[0][1]).toBeDefined();
+    expect(vi.mocked(svc.applySemanticOps).mock.calls[0][2]).toEqual({ enforceRules: true });
+  });
+
+  it('passes named ports through to the add_edge op', async () => {
+    const svc = makeMockDiagramService();
+    const tool = new AddEdgesTool(svc);
+
+    await tool.invoke(
+      {
+        input: {
+          filePath: TEST_FILE_PATH,
+          edges: [{ source: 'n1', target: 'n2', sourcePort: 'dlq', targetPort: 'in' }],
+        },
+      } as any,
+      mockToken,
+    );
+
+    const ops = vi.mocked(svc.applySemanticOps).mock.calls[0][0];
+    expect(ops[0]).toEqual({
+      op: 'add_edge',
+      edge: { source: 'n1', target: 'n2', sourcePort: 'dlq', targetPort: 'in' },
+    });
   });
 
   it('returns failure message on error', async () => {
@@ -535,6 +588,244 @@ describe('AddEdgesTool', () => {
   });
 });
 
+describe('ApplyOpsTool', () => {
+  const ops = [
+    { op: 'add_node', key: 'api', node: { label: 'API' } },
+    { op: 'add_edge', edge: { source: 'api', target: 'n1' } },
+  ];
+
+  it('prepareInvocation shows op count and filename', async () => {
+    const tool = new ApplyOpsTool(makeMockDiagramService());
+
+    const result = await tool.prepareInvocation(
+      { input: { filePath: TEST_FILE_PATH, ops } } as any,
+      mockToken,
+    );
+
+    expect(result?.invocationMessage).toContain('2');
+    expect(result?.invocationMessage).toContain('test.diagram');
+  });
+
+  it('passes the ops through in one call and reports the key mapping', async () => {
+    const svc = makeMockDiagramService({
+      applySemanticOps: vi.fn().mockResolvedValue({ success: true, ids: { api: 'abc12345' } }),
+    });
+    const tool = new ApplyOpsTool(svc);
+
+    const result = await tool.invoke({ input: { filePath: TEST_FILE_PATH, ops } } as any, mockToken);
+
+    expect(svc.applySemanticOps).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(svc.applySemanticOps).mock.calls[0][0]).toEqual(ops);
+    expect(resultText(result)).toContain('Applied 2 operation(s)');
+    expect(resultText(result)).toContain('{"api":"abc12345"}');
+  });
+
+  it('forwards the revision and reports the new one', async () => {
+    const svc = makeMockDiagramService({
+      applySemanticOps: vi.fn().mockResolvedValue({ success: true, revision: 'rev2' }),
+    });
+    const tool = new ApplyOpsTool(svc);
+
+    const result = await tool.invoke(
+      { input: { filePath: TEST_FILE_PATH, ops, revision: 'rev1' } } as any,
+      mockToken,
+    );
+
+    expect(vi.mocked(svc.applySemanticOps).mock.calls[0][2]).toEqual({ revision: 'rev1', enforceRules: true });
+    expect(resultText(result)).toContain('Revision: rev2');
+  });
+
+  it('rejects unsupported ops without touching the file', async () => {
+    const svc = makeMockDiagramService();
+    const tool = new ApplyOpsTool(svc);
+
+    const result = await tool.invoke(
+      { input: { filePath: TEST_FILE_PATH, ops: [{ op: 'explode' }] } } as any,
+      mockToken,
+    );
+
+    expect(resultText(result)).toContain('ops[0] has unsupported op "explode"');
+    expect(svc.applySemanticOps).not.toHaveBeenCalled();
+  });
+
+  it('returns failure message on error', async () => {
+    const svc = makeMockDiagramService({
+      applySemanticOps: vi.fn().mockResolvedValue({ success: false, error: 'Node "x" not found' }),
+    });
+    const tool = new ApplyOpsTool(svc);
+
+    const result = await tool.invoke({ input: { filePath: TEST_FILE_PATH, ops } } as any, mockToken);
+
+    expect(resultText(result)).toContain('nothing was changed');
+    expect(resultText(result)).toContain('Node "x" not found');
+  });
+});
+
+describe('LintDiagramTool', () => {
+  it('returns findings with applyOps-ready fixes', async () => {
+    const tool = new LintDiagramTool(makeMockDiagramService());
+
+    const result = await tool.invoke({ input: { filePath: TEST_FILE_PATH } } as any, mockToken);
+    const parsed = JSON.parse(resultText(result));
+
+    expect(parsed.revision).toBe('rev1');
+    expect(parsed.findings).toEqual([
+      expect.objectContaining({
+        rule: 'edge-missing-protocol',
+        elementId: 'e1',
+        fix: { title: 'Add missing protocol', ops: [{ op: 'update_edge', id: 'e1', changes: {} }], needs: 'protocol' },
+      }),
+      expect.objectContaining({
+        rule: 'empty-group',
+        fix: { title: 'Remove empty group', ops: [{ op: 'remove_group', id: 'g1' }] },
+      }),
+    ]);
+  });
+
+  it('runs only the requested rules', async () => {
+    const tool = new LintDiagramTool(makeMockDiagramService());
+
+    const result = await tool.invoke(
+      { input: { filePath: TEST_FILE_PATH, rules: ['orphan-node'] } } as any,
+      mockToken,
+    );
+
+    expect(resultText(result)).toBe('No findings. Rules checked: orphan-node.');
+  });
+
+  it('rejects unknown rules', async () => {
+    const tool = new LintDiagramTool(makeMockDiagramService());
+
+    const result = await tool.invoke(
+      { input: { filePath: TEST_FILE_PATH, rules: ['no-such-rule'] } } as any,
+      mockToken,
+    );
+
+    expect(resultText(result)).toContain('Unknown rule(s): no-such-rule');
+  });
+
+  it('reports schema errors instead of linting an invalid diagram', async () => {
+    const doc = makeDoc();
+    doc.edges[0].target = 'missing';
+    const tool = new LintDiagramTool(makeMockDiagramService({ parseDocument: vi.fn().mockReturnValue(doc) }));
+
+    const result = await tool.invoke({ input: { filePath: TEST_FILE_PATH } } as any, mockToken);
+
+    expect(resultText(result)).toContain('fails schema validation');
+    expect(resultText(result)).toContain('edges[0].target must reference an existing node id');
+  });
+});
+
+describe('SearchDiagramsTool', () => {
+  function makeIndex(diagrams: IndexedDiagram[]): DiagramIndex {
+    return { getDiagrams: vi.fn().mockResolvedValue(diagrams) } as unknown as DiagramIndex;
+  }
+
+  it('returns hits from every indexed diagram with their file paths', async () => {
+    const other = makeDoc();
+    other.nodes[0].tags = ['deprecated'];
+    const tool = new SearchDiagramsTool(
+      makeIndex([
+        { uri: vscode.Uri.file(TEST_FILE_PATH), doc: makeDoc() },
+        { uri: vscode.Uri.file('/workspace/broken.diagram'), doc: null },
+        { uri: vscode.Uri.file('/workspace/other.diagram'), doc: other },
+      ]),
+    );
+
+    const result = await tool.invoke({ input: { text: 'node a' } } as any, mockToken);
+
+    expect(JSON.parse(resultText(result))).toEqual({
+      diagramsSearched: 3,
+      totalHits: 2,
+      hits: [
+        { file: TEST_FILE_PATH, nodeId: 'n1', label: 'Node A', matched: ['label'] },
+        { file: '/workspace/other.diagram', nodeId: 'n1', label: 'Node A', matched: ['label'] },
+      ],
+    });
+  });
+
+  it('caps the hits at maxResults', async () => {
+    const tool = new SearchDiagramsTool(makeIndex([{ uri: vscode.Uri.file(TEST_FILE_PATH), doc: makeDoc() }]));
+
+    const result = await tool.invoke({ input: { text: 'node', maxResults: 1 } } as any, mockToken);
+    const parsed = JSON.parse(resultText(result));
+
+    expect(parsed.totalHits).toBe(2);
+    expect(parsed.hits).toHaveLength(1);
+  });
+
+  it('reports when nothing matches', async () => {
+    const tool = new SearchDiagramsTool(makeIndex([{ uri: vscode.Uri.file(TEST_FILE_PATH), doc: makeDoc() }]));
+
+    const result = await tool.invoke({ input: { tags: ['pci'] } } as any, mockToken);
+
+    expect(resultText(result)).toBe('No matching nodes in 1 diagram(s).');
+  });
+
+  it('requires at least one criterion', async () => {
+    const index = makeIndex([]);
+    const tool = new SearchDiagramsTool(index);
+
+    const result = await tool.invoke({ input: { maxResults: 5 } } as any, mockToken);
+
+    expect(resultText(result)).toContain('Give at least one of');
+    expect(index.getDiagrams).not.toHaveBeenCalled();
+  });
+});
+
+describe('ImportComposeTool', () => {
+  const COMPOSE = [
+    'services:',
+    '  api:',
+    '    build: ./api',
+    '    depends_on: [db]',
+    '  db:',
+    '    image: postgres:16',
+  ].join('\n');
+  const input = { composePath: '/workspace/docker-compose.yml', filePath: '/workspace/stack.diagram.svg' };
+
+  it('writes a new diagram from the compose file', async () => {
+    vi.mocked(vscode.workspace.fs.stat).mockRejectedValueOnce(new Error('ENOENT'));
+    vi.mocked(vscode.workspace.fs.readFile).mockResolvedValueOnce(new TextEncoder().encode(COMPOSE));
+    vi.mocked(vscode.workspace.fs.writeFile).mockClear();
+
+    const result = await new ImportComposeTool().invoke({ input } as any, mockToken);
+
+    expect(resultText(result)).toBe(
+      'Created /workspace/stack.diagram.svg with 2 service(s), 0 network group(s) and 1 dependency edge(s).',
+    );
+    expect(vi.mocked(vscode.workspace.fs.writeFile).mock.calls[0][0].fsPath).toBe(input.filePath);
+  });
+
+  it('never overwrites an existing file', async () => {
+    vi.mocked(vscode.workspace.fs.stat).mockResolvedValueOnce({ type: 1 } as vscode.FileStat);
+    vi.mocked(vscode.workspace.fs.writeFile).mockClear();
+
+    const result = await new ImportComposeTool().invoke({ input } as any, mockToken);
+
+    expect(resultText(result)).toContain('already exists');
+    expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('reports compose files without services', async () => {
+    vi.mocked(vscode.workspace.fs.stat).mockRejectedValueOnce(new Error('ENOENT'));
+    vi.mocked(vscode.workspace.fs.readFile).mockResolvedValueOnce(new TextEncoder().encode('version: "3"'));
+
+    const result = await new ImportComposeTool().invoke({ input } as any, mockToken);
+
+    expect(resultText(result)).toContain('Failed to import /workspace/docker-compose.yml (nothing was written): No services');
+  });
+
+  it('only creates .diagram.svg files', async () => {
+    const result = await new ImportComposeTool().invoke(
+      { input: { ...input, filePath: '/workspace/stack.diagram' } } as any,
+      mockToken,
+    );
+
+    expect(resultText(result)).toContain('must be a .diagram.svg file');
+  });
+});
+
 describe('RemoveEdgesTool', () => {
   it('prepareInvocation shows edge count and filename', async () => {
     const svc = makeMockDiagramService();
@@ -564,7 +855,9 @@ describe('RemoveEdgesTool', () => {
   });
 
   it('invokes remove_edge ops with the opened document', async () => {
-    const svc = makeMockDiagramService();
+    const doc = makeDoc();
+    doc.edges.push({ ...doc.edges[0], id: 'e2' });
+    const svc = makeMockDiagramService({ parseDocument: vi.fn().mockReturnValue(doc) });
     const tool = new RemoveEdgesTool(svc);
 
     await tool.invoke(
@@ -675,6 +968,19 @@ describe('UpdateEdgesTool', () => {
     expect(vi.mocked(svc.applySemanticOps).mock.calls[0][1]).toBeDefined();
   });
 
+  it('passes the routing mode through to update_edge', async () => {
+    const svc = makeMockDiagramService();
+    const tool = new UpdateEdgesTool(svc);
+
+    await tool.invoke(
+      { input: { filePath: TEST_FILE_PATH, updates: [{ id: 'e1', routing: 'curved' }] } } as any,
+      mockToken,
+    );
+
+    const ops = vi.mocked(svc.applySemanticOps).mock.calls[0][0];
+    expect(ops[0]).toEqual({ op: 'update_edge', id: 'e1', changes: { routing: 'curved' } });
+  });
+
   it('returns failure on error', async () => {
     const svc = makeMockDiagramService({
       applySemanticOps: vi
@@ -750,6 +1056,20 @@ describe('ReadDiagramTool', () => {
     expect(text).toContain('Node A');
     expect(text).toContain('Node B');
   });
+
+  it('lists drill-down links with paths resolved against the diagram file', async () => {
+    const doc = makeDoc();
+    doc.nodes[0].link = { file: 'detail/node-a.diagram.svg', node: 'Handler' };
+    const svc = makeMockDiagramService({ parseDocument: vi.fn().mockReturnValue(doc) });
+    const tool = new ReadDiagramTool(svc);
+
+    const result = await tool.invoke(
+      { input: { filePath: TEST_FILE_PATH } } as any,
+      mockToken,
+    );
+
+    expect(resultText(result)).toContain('  - drill down: /workspace/detail/node-a.diagram.svg (node "Handler")');
+  });
 });
 
 describe('buildReadableText', () => {
@@ -1086,7 +1406,9 @@ describe('RemoveGroupsTool', () => {
   });
 
   it('maps groupIds to remove_group ops and passes the document', async () => {
-    const svc = makeMockDiagramService();
+    const doc = makeDoc();
+    doc.groups!.push({ id: 'g2', label: 'Group 2' });
+    const svc = makeMockDiagramService({ parseDocument: vi.fn().mockReturnValue(doc) });
     const tool = new RemoveGroupsTool(svc);
 
     await tool.invoke(
@@ -1263,16 +1585,16 @@ describe('SetLlmNotesTool', () => {
 });
 
 describe('registerDiagramTools', () => {
-  it('registers all 12 tools', () => {
+  it('registers all 16 tools', () => {
     const svc = makeMockDiagramService();
     const context = {
       subscriptions: [] as any[],
       push: vi.fn(),
     } as unknown as vscode.ExtensionContext;
 
-    registerDiagramTools(context, svc as any);
+    registerDiagramTools(context, svc as any, {} as DiagramIndex);
 
-    expect(vscode.lm.registerTool).toHaveBeenCalledTimes(12);
+    expect(vscode.lm.registerTool).toHaveBeenCalledTimes(16);
     const toolNames = vi
       .mocked(vscode.lm.registerTool)
       .mock.calls.map((c) => c[0]);
@@ -1288,6 +1610,10 @@ describe('registerDiagramTools', () => {
     expect(toolNames).toContain('diagramflow_removeGroups');
     expect(toolNames).toContain('diagramflow_updateGroups');
     expect(toolNames).toContain('diagramflow_setLlmNotes');
+    expect(toolNames).toContain('diagramflow_applyOps');
+    expect(toolNames).toContain('diagramflow_lintDiagram');
+    expect(toolNames).toContain('diagramflow_searchDiagrams');
+    expect(toolNames).toContain('diagramflow_importCompose');
   });
 });
 
@@ -1351,3 +1677,70 @@ describe('openDiagramDocument', () => {
     );
   });
 });
+
+describe('ReferenceResolver', () => {
+  function makeLabelledDoc(): DiagramDocument {
+    const doc = makeDoc();
+    doc.nodes.push({ ...doc.nodes[0], id: 'n3', label: 'Node A', group: 'g1' });
+    return doc;
+  }
+
+  it('prefers ids and resolves unique exact labels', () => {
+    const refs = new ReferenceResolver(makeLabelledDoc());
+    expect(refs.node('n1')).toBe('n1');
+    expect(refs.node('Node B')).toBe('n2');
+    expect(refs.group('Group 1')).toBe('g1');
+    expect(refs.edge('connects')).toBe('e1');
+    expect(refs.edge('Node B -> n1')).toBe('Node B -> n1');
+    expect(refs.error).toBe('Edge "Node B -> n1" not found: there is no edge from "Node B" to "n1".');
+  });
+
+  it('resolves edges by their endpoints', () => {
+    const refs = new ReferenceResolver(makeDoc());
+    expect(refs.edge('Node A → Node B')).toBe('e1');
+    expect(refs.error).toBeUndefined();
+  });
+
+  it('lists the candidates of an ambiguous label', () => {
+    const refs = new ReferenceResolver(makeLabelledDoc());
+    expect(refs.node('Node A')).toBe('Node A');
+    expect(refs.error).toBe(
+      'Node label "Node A" is ambiguous; it matches 2 nodes: "Node A" (n1), "Node A" (n3, in group "Group 1"). Use the id instead.',
+    );
+  });
+
+  it('suggests similar labels, or lists all, for a missing reference', () => {
+    const similar = new ReferenceResolver(makeDoc());
+    similar.node('node b');
+    expect(similar.error).toBe('Node "node b" not found. Did you mean: "Node B" (n2)?');
+
+    const missing = new ReferenceResolver(makeDoc());
+    missing.group('Backend');
+    expect(missing.error).toBe('Group "Backend" not found. Known groups: "Group 1" (g1).');
+  });
+
+  it('passes references through when the document cannot be parsed', () => {
+    const refs = new ReferenceResolver(null);
+    expect(refs.node('Anything')).toBe('Anything');
+    expect(refs.error).toBeUndefined();
+  });
+
+  it('lets mutating tools take labels and stops before writing on a bad reference', async () => {
+    const svc = makeMockDiagramService();
+    await new AddEdgesTool(svc).invoke(
+      { input: { filePath: TEST_FILE_PATH, edges: [{ source: 'Node B', target: 'Node A' }] } } as any,
+      mockToken,
+    );
+    expect(vi.mocked(svc.applySemanticOps).mock.calls[0][0]).toEqual([
+      { op: 'add_edge', edge: { source: 'n2', target: 'n1' } },
+    ]);
+
+    const failing = makeMockDiagramService();
+    const result = await new UpdateNodesTool(failing).invoke(
+      { input: { filePath: TEST_FILE_PATH, updates: [{ id: 'Nope', label: 'X' }] } } as any,
+      mockToken,
+    );
+    expect(resultText(result)).toContain('Failed to update nodes: Node "Nope" not found. Known nodes:');
+    expect(failing.applySemanticOps).not.toHaveBeenCalled();
+  });
+});
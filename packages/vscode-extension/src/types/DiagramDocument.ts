@@ -1,4 +1,15 @@
-export type NodeShape = 'rectangle' | 'rounded' | 'diamond' | 'cylinder' | 'note';
+export type NodeShape =
+  | 'rectangle'
+  | 'rounded'
+  | 'diamond'
+  | 'cylinder'
+  | 'note'
+  | 'hexagon'
+  | 'cloud'
+  | 'actor'
+  | 'document'
+  | 'queue'
+  | 'parallelogram';
 
 export type LayoutDirection = 'TB' | 'LR' | 'BT' | 'RL';
 
@@ -6,6 +17,38 @@ export type EdgeStyle = 'solid' | 'dashed' | 'dotted';
 
 export type ArrowType = 'normal' | 'arrow' | 'open' | 'none';
 
+/**
+ * How an edge is drawn between its endpoints and waypoints.
+ *  - straight: straight segments through every waypoint
+ *  - orthogonal: horizontal/vertical segments with right-angle bends (default)
+ *  - curved: a smooth curve passing through every waypoint
+ */
+export type EdgeRouting = 'straight' | 'orthogonal' | 'curved';
+
+/** Side of a node a connection port sits on. */
+export type PortSide = 'top' | 'right' | 'bottom' | 'left';
+
+/**
+ * A named connection point on a node (e.g. an "inbound" port on the left of a
+ * queue and a "dead-letter" port on its bottom). Edges reference ports by id
+ * through `sourcePort` / `targetPort`.
+ */
+export interface NodePort {
+  /** Identifier unique within the node (e.g. "in", "dlq"). */
+  id: string;
+  side: PortSide;
+  /** Position along the side from 0 (top/left end) to 1 (bottom/right end). Defaults to 0.5. */
+  offset?: number;
+  /** Optional human-readable name shown on hover. */
+  label?: string;
+}
+
+/** Absolute canvas coordinate of a manual edge bend point. */
+export interface EdgePoint {
+  x: number;
+  y: number;
+}
+
 export type NodeColor =
   | 'default'
   | 'blue'
@@ -15,6 +58,46 @@ export type NodeColor =
   | 'purple'
   | 'gray';
 
+/**
+ * Colour of a node or group: a built-in {@link NodeColor}, a key defined in
+ * `meta.theme.palette`, or a hex colour such as "#1e88e5".
+ */
+export type ColorValue = string;
+
+/** Which variant of the palette a diagram is drawn with. */
+export type ThemeMode = 'light' | 'dark';
+
+/** Fill, border and label colour used to draw one palette entry. */
+export interface ThemeSwatch {
+  fill: string;
+  stroke: string;
+  text: string;
+}
+
+/**
+ * A palette entry with a swatch per theme mode. When one mode is missing the
+ * other is used for both.
+ */
+export interface ThemePaletteEntry {
+  light?: ThemeSwatch;
+  dark?: ThemeSwatch;
+}
+
+/**
+ * Diagram-level theme. The canvas and the SVG exporters all render from it,
+ * so a diagram saved with `mode: 'light'` looks the same in docs and editor.
+ */
+export interface DiagramTheme {
+  /** Display name of the theme, e.g. "Docs (light)". */
+  name?: string;
+  /** Palette variant to draw with. Default: 'dark'. */
+  mode?: ThemeMode;
+  /** Font family for node, group and edge labels. */
+  font?: string;
+  /** Named colours. Keys override or extend the built-in {@link NodeColor} palette. */
+  palette?: Record<string, ThemePaletteEntry>;
+}
+
 /**
  * C4-inspired node type classification.
  * Helps AI agents reason about the role and constraints of a component.
@@ -37,6 +120,25 @@ export type NodeType =
   | 'Cache'
   | 'Function';
 
+/**
+ * Built-in icon shown in the corner of a node. Every {@link NodeType} has a
+ * default icon; 'none' suppresses it.
+ */
+export type NodeIcon =
+  | 'person'
+  | 'globe'
+  | 'box'
+  | 'gear'
+  | 'database'
+  | 'queue'
+  | 'bolt'
+  | 'lambda'
+  | 'server'
+  | 'cloud'
+  | 'lock'
+  | 'document'
+  | 'none';
+
 /**
  * PII / trust-boundary classification for security-aware agents.
  */
@@ -74,10 +176,27 @@ export interface NodeProperties {
    * Use "deprecated" or "being-replaced-by:<successor-label>" so agents avoid investing in this node.
    */
   status?: string;
+  /**
+   * Ids of the nodes that already depended on this node when it was
+   * deprecated. Recorded on write; the deprecated-inbound-edge lint rule only
+   * reports dependents added later.
+   */
+  deprecatedDependents?: string[];
   /** Any other key/value metadata relevant to agents or tooling */
   [key: string]: unknown;
 }
 
+/**
+ * Drill-down link from a node or group to another diagram, e.g. from a
+ * container on the context diagram to that container's own diagram.
+ */
+export interface DiagramLink {
+  /** Path of the target .diagram or .diagram.svg file, relative to this diagram's file. */
+  file: string;
+  /** Id or label of the node in the target diagram to focus after opening it. */
+  node?: string;
+}
+
 export interface DiagramNode {
   id: string;
   label: string;
@@ -86,12 +205,14 @@ export interface DiagramNode {
   width: number;
   height: number;
   shape: NodeShape;
-  color: NodeColor;
+  color: ColorValue;
   pinned: boolean;
   notes?: string;
   group?: string;
   /** C4-inspired component type — tells agents the role of this node */
   type?: NodeType;
+  /** Icon override. Omitted = the default icon for `type` (if any). */
+  icon?: NodeIcon;
   /** Classification tags for agent reasoning (e.g. ["deprecated", "external-facing"]) */
   tags?: string[];
   /** Source-code linkage, ownership, and architectural metadata */
@@ -100,6 +221,12 @@ export interface DiagramNode {
   securityClassification?: SecurityClassification;
   /** Which environment(s) this node exists in */
   deploymentEnvironment?: DeploymentEnvironment;
+  /** Named connection ports. Edges without a port attach to the closest face. */
+  ports?: NodePort[];
+  /** Id of the {@link DiagramLayer} this node belongs to. Omitted = always shown. */
+  layer?: string;
+  /** Diagram that shows this node in more detail; double-clicking the node opens it. */
+  link?: DiagramLink;
 }
 
 export interface DiagramEdge {
@@ -121,12 +248,25 @@ export interface DiagramEdge {
   protocol?: string;
   /** Data types or schema names flowing over this edge (e.g. ["OrderDTO", "CustomerPII"]) */
   dataTypes?: string[];
+  /** Id of the port on the source node the edge leaves from. */
+  sourcePort?: string;
+  /** Id of the port on the target node the edge enters. */
+  targetPort?: string;
+  /** Path routing mode. Defaults to 'orthogonal' when omitted. */
+  routing?: EdgeRouting;
+  /**
+   * Manual bend points in absolute canvas coordinates, ordered from source to
+   * target. The edge is routed through every point. Omitted when empty.
+   */
+  waypoints?: EdgePoint[];
+  /** Id of the {@link DiagramLayer} this edge belongs to. Omitted = always shown. */
+  layer?: string;
 }
 
 export interface DiagramGroup {
   id: string;
   label: string;
-  color?: NodeColor;
+  color?: ColorValue;
   /**
    * Absolute X coordinate of the group container's top-left corner (including padding).
    * Set on first drag; computed from children's bounding box when absent.
@@ -139,6 +279,69 @@ export interface DiagramGroup {
   y?: number;
   /** When true the group is collapsed into a compact header; child nodes are hidden. */
   collapsed?: boolean;
+  /**
+   * Id of the enclosing group when this group is nested inside another one
+   * (e.g. "Region > VPC > Subnet"). Omitted for top-level groups.
+   */
+  parent?: string;
+  /** Diagram that shows this group in more detail; double-clicking the group opens it. */
+  link?: DiagramLink;
+}
+
+/**
+ * A named layer that separates concerns on a large diagram (e.g.
+ * "Infrastructure", "Data flow", "Annotations"). Nodes, edges, text and image
+ * elements opt in via their `layer` field; elements without one are always shown.
+ */
+export interface DiagramLayer {
+  id: string;
+  label: string;
+  /** When true the layer's elements are hidden on the canvas and in exports. */
+  hidden?: boolean;
+  /** When true the layer's elements cannot be moved or deleted on the canvas. */
+  locked?: boolean;
+}
+
+/**
+ * Selects the nodes a {@link FitnessRule} applies to. Every field that is set
+ * must match; an empty matcher matches every node.
+ */
+export interface NodeMatcher {
+  /** Node id or label (labels compare case-insensitively). */
+  node?: string;
+  type?: NodeType;
+  tag?: string;
+  /** Group id or label. Nodes in groups nested inside it match too. */
+  group?: string;
+  /** When true the matcher selects the nodes that do NOT match the other fields. */
+  not?: boolean;
+}
+
+export type FitnessRuleSeverity = 'error' | 'warning';
+
+/**
+ * A team-specific architecture constraint stored in the diagram: edges from a
+ * node matching `from` to a node matching `to` are forbidden, optionally only
+ * over `protocol`. Bidirectional edges are checked in both directions.
+ *
+ * Example — "nothing outside the Payments group may call the Ledger":
+ * `{ id: "ledger-access", description: "...", from: { group: "Payments", not: true }, to: { node: "Ledger" } }`
+ */
+export interface FitnessRule {
+  id: string;
+  /** Plain-language statement of the constraint, shown with every violation. */
+  description: string;
+  /** Omitted = any node. */
+  from?: NodeMatcher;
+  /** Omitted = any node. */
+  to?: NodeMatcher;
+  /** Edge protocol (case-insensitive). Omitted = any protocol. */
+  protocol?: string;
+  /**
+   * `error` (default): agent tools refuse changes that break the rule.
+   * `warning`: violations are only reported.
+   */
+  severity?: FitnessRuleSeverity;
 }
 
 export interface DiagramMeta {
@@ -172,6 +375,10 @@ export interface DiagramMeta {
    * Example: "Auth service is stateless; session state lives in Redis only."
    */
   llmNotes?: string;
+  /** Palette, light/dark mode and font used to draw the diagram. */
+  theme?: DiagramTheme;
+  /** Architecture fitness rules, checked on every change. See {@link FitnessRule}. */
+  rules?: FitnessRule[];
 }
 
 /**
@@ -210,6 +417,8 @@ export interface AgentContext {
     securityClassification?: SecurityClassification;
     /** Environment scope */
     deploymentEnvironment?: DeploymentEnvironment;
+    /** Diagram that details this node (path relative to this file) — follow it to drill down */
+    link?: DiagramLink;
   }[];
   /**
    * Compact edge list using human-readable labels (not IDs).
@@ -228,7 +437,7 @@ export interface AgentContext {
     dataTypes?: string[];
   }[];
   /** Group membership map: groupLabel → nodeLabels[] */
-  groupIndex: { group: string; members: string[] }[];
+  groupIndex: { group: string; members: string[]; link?: DiagramLink }[];
   /**
    * Domain glossary from meta.glossary.
    * Agents use this to interpret ambiguous domain terms in node labels.
@@ -282,6 +491,8 @@ export interface TextElement {
   href?: string;
   /** When true the layout engine will not reposition this element. */
   pinned?: boolean;
+  /** Id of the {@link DiagramLayer} this element belongs to. */
+  layer?: string;
 }
 
 /**
@@ -305,6 +516,8 @@ export interface ImageElement {
   href?: string;
   /** When true the layout engine will not reposition this element. */
   pinned?: boolean;
+  /** Id of the {@link DiagramLayer} this element belongs to. */
+  layer?: string;
 }
 
 export interface DiagramDocument {
@@ -312,6 +525,8 @@ export interface DiagramDocument {
   nodes: DiagramNode[];
   edges: DiagramEdge[];
   groups?: DiagramGroup[];
+  /** Layers elements can be assigned to, in panel order. */
+  layers?: DiagramLayer[];
   /** Free-floating text annotations on the canvas. */
   textElements?: TextElement[];
   /** Free-floating image elements on the canvas. */
@@ -331,6 +546,12 @@ export const NODE_SHAPES: readonly NodeShape[] = [
   'diamond',
   'cylinder',
   'note',
+  'hexagon',
+  'cloud',
+  'actor',
+  'document',
+  'queue',
+  'parallelogram',
 ] as const;
 
 export const NODE_TYPES: readonly NodeType[] = [
@@ -344,6 +565,22 @@ export const NODE_TYPES: readonly NodeType[] = [
   'Function',
 ] as const;
 
+export const NODE_ICONS: readonly NodeIcon[] = [
+  'person',
+  'globe',
+  'box',
+  'gear',
+  'database',
+  'queue',
+  'bolt',
+  'lambda',
+  'server',
+  'cloud',
+  'lock',
+  'document',
+  'none',
+] as const;
+
 export const SECURITY_CLASSIFICATIONS: readonly SecurityClassification[] = [
   'public',
   'internal',
@@ -364,6 +601,19 @@ export const EDGE_STYLES: readonly EdgeStyle[] = [
   'dotted',
 ] as const;
 
+export const PORT_SIDES: readonly PortSide[] = [
+  'top',
+  'right',
+  'bottom',
+  'left',
+] as const;
+
+export const EDGE_ROUTINGS: readonly EdgeRouting[] = [
+  'straight',
+  'orthogonal',
+  'curved',
+] as const;
+
 export const ARROW_TYPES: readonly ArrowType[] = [
   'normal',
   'arrow',
@@ -381,6 +631,10 @@ export const NODE_COLORS: readonly NodeColor[] = [
   'gray',
 ] as const;
 
+export const THEME_MODES: readonly ThemeMode[] = ['light', 'dark'] as const;
+
+export const FITNESS_RULE_SEVERITIES: readonly FitnessRuleSeverity[] = ['error', 'warning'] as const;
+
 export const DEFAULT_NODE_WIDTH = 160;
 export const DEFAULT_NODE_HEIGHT = 48;
 
@@ -3,6 +3,7 @@ import type {
   DiagramNode,
   DiagramEdge,
   DiagramGroup,
+  DiagramLayer,
   NodeShape,
   EdgeStyle,
   ArrowType,
@@ -10,8 +11,14 @@ import type {
   LayoutDirection,
 } from '../types/DiagramDocument';
 
+/**
+ * Ops that create an element may carry a client `key`. Later ops in the same
+ * batch can use that key anywhere an id of an existing element is expected
+ * (op ids, node.group, group.parent, edge source/target, layer), and
+ * `OpResult.ids` maps each key to the id that was generated for it.
+ */
 export type SemanticOp =
-  | { op: 'add_node'; node: Partial<DiagramNode> & { label: string } }
+  | { op: 'add_node'; node: Partial<DiagramNode> & { label: string }; key?: string }
   | { op: 'remove_node'; id: string }
   | {
       op: 'update_node';
@@ -22,6 +29,7 @@ export type SemanticOp =
   | {
       op: 'add_edge';
       edge: Partial<DiagramEdge> & { source: string; target: string };
+      key?: string;
     }
   | { op: 'remove_edge'; id: string }
   | {
@@ -29,19 +37,28 @@ export type SemanticOp =
       id: string;
       changes: Partial<Omit<DiagramEdge, 'id'>>;
     }
-  | { op: 'add_group'; group: Partial<DiagramGroup> & { label: string } }
+  | { op: 'add_group'; group: Partial<DiagramGroup> & { label: string }; key?: string }
   | { op: 'remove_group'; id: string }
   | {
       op: 'update_group';
       id: string;
       changes: Partial<Omit<DiagramGroup, 'id'>>;
+    }
+  | { op: 'add_layer'; layer: Partial<DiagramLayer> & { label: string }; key?: string }
+  | { op: 'remove_layer'; id: string }
+  | {
+      op: 'update_layer';
+      id: string;
+      changes: Partial<Omit<DiagramLayer, 'id'>>;
     };
 
 export interface OpResult {
   success: boolean;
   document?: DiagramDocument;
   error?: string;
+  /** Generated ids keyed by the client `key` of the ops that created them. */
+  ids?: Record<string, string>;
 }
 
-export { type DiagramDocument, type DiagramNode, type DiagramEdge, type DiagramGroup };
+export { type DiagramDocument, type DiagramNode, type DiagramEdge, type DiagramGroup, type DiagramLayer };
 export { type NodeShape, type EdgeStyle, type ArrowType, type NodeColor };
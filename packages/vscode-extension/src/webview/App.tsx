@@ -1,14 +1,48 @@
 import { useState } from 'react';
 import { CanvasPanel } from './components/CanvasPanel';
+import { DocumentError } from './components/DocumentError';
 import { useVSCodeBridge } from './hooks/useVSCodeBridge';
 import { useGraphState } from './hooks/useGraphState';
 import type { DiagramDocument } from '../types/DiagramDocument';
+import { EMPTY_HISTORY, type HistorySummary } from '../lib/history';
+import type { Breadcrumb, DocumentProblem } from '../messages/protocol';
+import type { LintFinding } from '../lib/lint';
 
 export function App() {
   const [doc, setDoc] = useState<DiagramDocument | null>(null);
 
-  const bridge = useVSCodeBridge({ onDocumentUpdated: setDoc });
-  const graph = useGraphState(doc, bridge);
+  const [history, setHistory] = useState<HistorySummary>(EMPTY_HISTORY);
+  const [readOnly, setReadOnly] = useState(false);
+  // Set while the file cannot be loaded; cleared by the next valid document.
+  const [problems, setProblems] = useState<DocumentProblem[] | null>(null);
+  const [lint, setLint] = useState<LintFinding[]>([]);
+  const [breadcrumbs, setBreadcrumbs] = useState<Breadcrumb[]>([]);
+  // Node a drill-down asked to focus; cleared once it is in view.
+  const [focusNodeId, setFocusNodeId] = useState<string | null>(null);
+
+  const bridge = useVSCodeBridge({
+    onDocumentUpdated: (updated, isReadOnly, findings) => {
+      setDoc(updated);
+      setReadOnly(isReadOnly);
+      setLint(findings);
+      setProblems(null);
+    },
+    onDocumentInvalid: setProblems,
+    onHistoryUpdated: setHistory,
+    onBreadcrumbsUpdated: setBreadcrumbs,
+    onFocusNode: setFocusNodeId,
+  });
+  const graph = useGraphState(doc, bridge, history);
+
+  if (problems) {
+    return (
+      <DocumentError
+        problems={problems}
+        onShowProblems={() => bridge.postMessage({ type: 'SHOW_PROBLEMS' })}
+        onOpenAsText={() => bridge.postMessage({ type: 'OPEN_AS_TEXT' })}
+      />
+    );
+  }
 
   if (!doc) {
     return (
@@ -18,5 +52,15 @@ export function App() {
     );
   }
 
-  return <CanvasPanel graph={graph} />;
+  return (
+    <CanvasPanel
+      graph={graph}
+      readOnly={readOnly}
+      lint={lint}
+      title={doc.meta.title}
+      breadcrumbs={breadcrumbs}
+      focusNodeId={focusNodeId}
+      onFocusDone={() => setFocusNodeId(null)}
+    />
+  );
 }
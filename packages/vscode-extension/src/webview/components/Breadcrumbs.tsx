@@ -0,0 +1,33 @@
+import { Fragment } from 'react';
+import type { Breadcrumb } from '../../messages/protocol';
+
+interface BreadcrumbsProps {
+  /** Diagrams the user drilled down from, outermost first. */
+  crumbs: Breadcrumb[];
+  /** Title of the diagram on the canvas. */
+  title: string;
+  onOpen: (index: number) => void;
+}
+
+/** Leads back up the drill-down trail; hidden when the diagram was opened directly. */
+export function Breadcrumbs({ crumbs, title, onOpen }: BreadcrumbsProps) {
+  if (crumbs.length === 0) return null;
+  return (
+    <nav className="breadcrumbs" aria-label="Drill-down trail" data-testid="breadcrumbs">
+      {crumbs.map((crumb, index) => (
+        <Fragment key={index}>
+          <button
+            className="breadcrumb"
+            onClick={() => onOpen(index)}
+            title={crumb.file}
+            data-testid={`breadcrumb-${index}`}
+          >
+            {crumb.title}
+          </button>
+          <span className="breadcrumb-separator">›</span>
+        </Fragment>
+      ))}
+      <span className="breadcrumb breadcrumb--current">{title}</span>
+    </nav>
+  );
+}
@@ -23,9 +23,13 @@ import { PanningHint } from './PanningHint';
 import { NoteColorPicker } from './NoteColorPicker';
 import { ContextMenu, type ContextMenuItem } from './ContextMenu';
 import { ImageInputPanel } from './ImageInputPanel';
+import { Breadcrumbs } from './Breadcrumbs';
 import type { GraphState } from '../hooks/useGraphState';
 import type { NodeColor } from '../../types/DiagramDocument';
-import type { DiagramEdgeData } from '../lib/docToFlow';
+import type { DiagramEdgeData, DiagramNodeData } from '../lib/docToFlow';
+import { resolveTheme } from '../../lib/theme';
+import type { LintFinding } from '../../lib/lint';
+import type { Breadcrumb } from '../../messages/protocol';
 
 const nodeTypes = {
   diagramNode: DiagramNode,
@@ -46,10 +50,32 @@ const MINIMAP_NODE_COLORS: Record<string, string> = {
 
 interface CanvasPanelProps {
   graph: GraphState;
+  /** Editing is disabled; the extension refuses writes to this file anyway. */
+  readOnly?: boolean;
+  /** Findings of the enabled lint rules, shown as badges on their elements. */
+  lint?: LintFinding[];
+  /** Diagram title, shown at the end of the breadcrumb trail. */
+  title?: string;
+  /** Diagrams the user drilled down from, outermost first. */
+  breadcrumbs?: Breadcrumb[];
+  /** Node to select and bring into view, e.g. the target of a drill-down link. */
+  focusNodeId?: string | null;
+  onFocusDone?: () => void;
 }
 
+const NO_FINDINGS: LintFinding[] = [];
+const NO_CRUMBS: Breadcrumb[] = [];
+
 /** Inner component that has access to the ReactFlow instance. */
-function CanvasPanelInner({ graph }: CanvasPanelProps) {
+function CanvasPanelInner({
+  graph,
+  readOnly = false,
+  lint = NO_FINDINGS,
+  title = '',
+  breadcrumbs = NO_CRUMBS,
+  focusNodeId = null,
+  onFocusDone,
+}: CanvasPanelProps) {
   const { fitView, screenToFlowPosition } = useReactFlow();
   const [showSearch, setShowSearch] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
@@ -76,6 +102,25 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
     }
   }, [graph.layoutPending, fitView, graph.onFitViewDone]);
 
+  // Select the focused node and centre it once it is on the canvas. The ref stops
+  // the selection change, which updates the nodes, from focusing it again.
+  const focusedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusNodeId) {
+      focusedRef.current = null;
+      return;
+    }
+    if (focusedRef.current === focusNodeId || !graph.allNodes.some((n) => n.id === focusNodeId)) return;
+    focusedRef.current = focusNodeId;
+    graph.onNodesChange(
+      graph.allNodes.map((n) => ({ type: 'select' as const, id: n.id, selected: n.id === focusNodeId })),
+    );
+    requestAnimationFrame(() => {
+      void fitView({ nodes: [{ id: focusNodeId }], padding: 0.5, maxZoom: 1.5, duration: 300 });
+      onFocusDone?.();
+    });
+  }, [focusNodeId, graph.allNodes, graph.onNodesChange, fitView, onFocusDone]);
+
   // Handle toolbox mode changes — G9: image tool shows inline panel instead of window.prompt.
   const handleSetToolboxMode = useCallback((mode: ToolboxMode) => {
     if (mode === 'image') {
@@ -413,6 +458,12 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
 
   const searchMatchCount = highlightedNodeIds?.size ?? 0;
 
+  const lintByElement = useMemo(() => {
+    const byId = new Map<string, LintFinding[]>();
+    for (const finding of lint) byId.set(finding.elementId, [...(byId.get(finding.elementId) ?? []), finding]);
+    return byId;
+  }, [lint]);
+
   const nodesWithCallbacks = useMemo(
     () =>
       graph.allNodes.map((node) => {
@@ -422,6 +473,8 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
             data: {
               ...node.data,
               onToggleCollapse: graph.onToggleGroupCollapse,
+              onOpenLink: graph.onOpenLink,
+              lint: lintByElement.get(node.id),
             },
           };
         }
@@ -446,6 +499,8 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
             onLabelChange: graph.onNodeLabelChange,
             onUnpin: graph.onUnpinNode,
             onRemoveFromGroup: node.parentId ? graph.onRemoveFromGroup : undefined,
+            onOpenLink: graph.onOpenLink,
+            lint: lintByElement.get(node.id),
           },
           style: {
             ...node.style,
@@ -453,7 +508,7 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           },
         };
       }),
-    [graph.allNodes, graph.onNodeLabelChange, graph.onUnpinNode, graph.onRemoveFromGroup, graph.onToggleGroupCollapse, graph.onTextContentChange, highlightedNodeIds],
+    [graph.allNodes, graph.onNodeLabelChange, graph.onUnpinNode, graph.onRemoveFromGroup, graph.onToggleGroupCollapse, graph.onTextContentChange, graph.onOpenLink, highlightedNodeIds, lintByElement],
   );
 
   // G2: Inject onLabelChange into every edge so DiagramEdge can dispatch label edits.
@@ -461,9 +516,14 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
     () =>
       graph.edges.map((edge) => ({
         ...edge,
-        data: { ...edge.data, onLabelChange: graph.onEdgeLabelChange },
+        data: {
+          ...edge.data,
+          onLabelChange: graph.onEdgeLabelChange,
+          onWaypointsChange: graph.onEdgeWaypointsChange,
+          lint: lintByElement.get(edge.id),
+        },
       } as RFEdge<DiagramEdgeData>)),
-    [graph.edges, graph.onEdgeLabelChange],
+    [graph.edges, graph.onEdgeLabelChange, graph.onEdgeWaypointsChange, lintByElement],
   );
 
   // Determine what the PropertiesPanel should display.
@@ -471,7 +531,7 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
     if (graph.selectedGroupId) {
       const group = graph.groups.find((g) => g.id === graph.selectedGroupId);
       if (group) {
-        return { kind: 'group' as const, group, onUpdateGroup: graph.onUpdateGroupProps };
+        return { kind: 'group' as const, group, groups: graph.groups, onUpdateGroup: graph.onUpdateGroupProps };
       }
     }
     if (graph.selectedNodeId) {
@@ -481,14 +541,16 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           kind: 'node' as const,
           node,
           groups: graph.groups,
+          layers: graph.layers,
           onUpdateNode: graph.onUpdateNodeProps,
+          onOpenEntrypoint: graph.onOpenEntrypoint,
         };
       }
     }
     if (graph.selectedEdgeId) {
       const edge = graph.edges.find((e) => e.id === graph.selectedEdgeId);
       if (edge) {
-        return { kind: 'edge' as const, edge, onUpdateEdge: graph.onUpdateEdgeProps };
+        return { kind: 'edge' as const, edge, layers: graph.layers, onUpdateEdge: graph.onUpdateEdgeProps };
       }
     }
     if (graph.selectedTextElementId) {
@@ -498,6 +560,7 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           kind: 'textElement' as const,
           element: textNode.data as Record<string, unknown>,
           id: graph.selectedTextElementId,
+          layers: graph.layers,
           onUpdateTextElement: graph.onUpdateTextElementProps,
         };
       }
@@ -509,6 +572,7 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           kind: 'imageElement' as const,
           element: imageNode.data as Record<string, unknown>,
           id: graph.selectedImageElementId,
+          layers: graph.layers,
           onUpdateImageElement: graph.onUpdateImageElementProps,
         };
       }
@@ -521,10 +585,12 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
     graph.selectedTextElementId,
     graph.selectedImageElementId,
     graph.groups,
+    graph.layers,
     graph.nodes,
     graph.edges,
     graph.allNodes,
     graph.onUpdateNodeProps,
+    graph.onOpenEntrypoint,
     graph.onUpdateEdgeProps,
     graph.onUpdateGroupProps,
     graph.onUpdateTextElementProps,
@@ -538,16 +604,35 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
     onSortNodes: graph.onSortNodes,
     onUndo: graph.onUndo,
     onRedo: graph.onRedo,
+    history: graph.history,
+    onHistoryJump: graph.onHistoryJump,
     onToggleSearch: () => setShowSearch((v) => !v),
     onToggleShortcuts: () => setShowShortcuts((v) => !v),
     onViewMetadata: graph.onViewMetadata,
     layoutDirection: graph.layoutDirection,
     onSetLayoutDirection: graph.onSetLayoutDirection,
     selectedGroupId: graph.selectedGroupId,
+    layers: graph.layers,
+    onAddLayer: graph.onAddLayer,
+    onUpdateLayer: graph.onUpdateLayerProps,
+    onDeleteLayer: graph.onDeleteLayer,
   };
 
   const isPlacingMode = toolboxMode && toolboxMode !== 'hand';
 
+  // Without a diagram theme the canvas follows the VS Code colour theme.
+  const themeStyle = useMemo(() => {
+    if (!graph.theme) return undefined;
+    const theme = resolveTheme(graph.theme);
+    return {
+      '--rf-edge': theme.edge,
+      '--diagram-edge-label': theme.edgeLabel,
+      '--diagram-background': theme.background,
+      '--diagram-font': theme.font,
+      background: theme.background,
+    } as React.CSSProperties;
+  }, [graph.theme]);
+
   return (
     <div className={`canvas-container${isPlacingMode ? ' canvas-container--placing' : ''}`} data-testid="canvas-container">
       {showSearch && (
@@ -562,7 +647,19 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
         />
       )}
 
-      <div className="canvas-main" data-testid="canvas-main" onDoubleClick={handlePaneDoubleClick}>
+      <Breadcrumbs crumbs={breadcrumbs} title={title} onOpen={graph.onOpenBreadcrumb} />
+
+      {readOnly && (
+        <div className="read-only-banner" data-testid="read-only-banner">
+          Read-only: this diagram was saved by a newer version of DiagramFlow.
+        </div>
+      )}
+
+      <div
+        className="canvas-main"
+        data-testid="canvas-main"
+        onDoubleClick={readOnly ? undefined : handlePaneDoubleClick}
+      >
         <ReactFlow
           nodes={nodesWithCallbacks}
           edges={edgesWithCallbacks}
@@ -579,8 +676,11 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           onSelectionChange={graph.onSelectionChange}
           onPaneClick={handlePaneClick}
           onNodeClick={handleNodeClick}
-          onNodeContextMenu={handleNodeContextMenu}
-          onEdgeContextMenu={handleEdgeContextMenu}
+          onNodeContextMenu={readOnly ? undefined : handleNodeContextMenu}
+          onEdgeContextMenu={readOnly ? undefined : handleEdgeContextMenu}
+          nodesDraggable={!readOnly}
+          nodesConnectable={!readOnly}
+          edgesReconnectable={!readOnly}
           connectionMode={ConnectionMode.Loose}
           fitView
           defaultEdgeOptions={{ type: 'diagramEdge' }}
@@ -589,12 +689,13 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           panOnScroll
           snapToGrid
           snapGrid={[20, 20]}
-          deleteKeyCode={['Backspace', 'Delete']}
+          deleteKeyCode={readOnly ? null : ['Backspace', 'Delete']}
           multiSelectionKeyCode="Shift"
+          style={themeStyle}
           data-testid="react-flow-canvas"
         >
           <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
-          <Toolbar {...toolbarProps} />
+          {!readOnly && <Toolbar {...toolbarProps} />}
           {/* G3: Color picker shown when note tool is active. */}
           {toolboxMode === 'note' && (
             <NoteColorPicker selectedColor={pendingNoteColor} onSelect={setPendingNoteColor} />
@@ -605,7 +706,9 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           )}
           <MiniMap
             nodeColor={(n) =>
-              MINIMAP_NODE_COLORS[n.data?.color as string] ?? '#555'
+              (n.data as Partial<DiagramNodeData> | undefined)?.swatch?.stroke
+              ?? MINIMAP_NODE_COLORS[n.data?.color as string]
+              ?? '#555'
             }
             maskColor="rgba(0,0,0,0.5)"
             pannable
@@ -641,7 +744,7 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
           </svg>
         </ReactFlow>
 
-        <PropertiesPanel {...propertiesPanelInput} />
+        {!readOnly && <PropertiesPanel {...propertiesPanelInput} />}
         {/* G5/G6: Right-click context menu for nodes and edges. */}
         {contextMenu && (
           <ContextMenu
@@ -662,10 +765,10 @@ function CanvasPanelInner({ graph }: CanvasPanelProps) {
   );
 }
 
-export function CanvasPanel({ graph }: CanvasPanelProps) {
+export function CanvasPanel(props: CanvasPanelProps) {
   return (
     <ReactFlowProvider>
-      <CanvasPanelInner graph={graph} />
+      <CanvasPanelInner {...props} />
     </ReactFlowProvider>
   );
 }
@@ -1,7 +1,11 @@
-import { memo, useState, useCallback } from 'react';
-import { BaseEdge, getSmoothStepPath, EdgeLabelRenderer, Position, useInternalNode } from '@xyflow/react';
+import { memo, useState, useCallback, useEffect, useRef } from 'react';
+import { BaseEdge, getSmoothStepPath, EdgeLabelRenderer, Position, useInternalNode, useReactFlow } from '@xyflow/react';
 import type { EdgeProps, InternalNode } from '@xyflow/react';
-import type { DiagramEdgeData } from '../lib/docToFlow';
+import type { DiagramEdgeData, DiagramNodeData } from '../lib/docToFlow';
+import type { EdgePoint, PortSide } from '../../types/DiagramDocument';
+import { computeEdgeRoute, computePortAnchor, resolveEdgePorts } from '../../lib/edgeRouting';
+import type { EdgeRect } from '../../lib/edgeRouting';
+import { LintBadge } from './LintBadge';
 
 const DASH_MAP: Record<string, string> = {
   solid: 'none',
@@ -79,6 +83,28 @@ function computeFloatingHandles(
   return { sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition };
 }
 
+/** Absolute rect of a node, or null before React Flow has measured it. */
+function toEdgeRect(node: InternalNode | undefined): EdgeRect | null {
+  if (!node?.internals?.positionAbsolute) return null;
+  return {
+    x: node.internals.positionAbsolute.x,
+    y: node.internals.positionAbsolute.y,
+    width: node.measured?.width ?? 160,
+    height: node.measured?.height ?? 48,
+  };
+}
+
+const SIDE_POSITIONS: Record<PortSide, Position> = {
+  top: Position.Top,
+  right: Position.Right,
+  bottom: Position.Bottom,
+  left: Position.Left,
+};
+
+function nodePorts(node: InternalNode | undefined): DiagramNodeData['ports'] {
+  return (node?.data as DiagramNodeData | undefined)?.ports;
+}
+
 export const DiagramEdge = memo(
   ({
     id,
@@ -92,9 +118,20 @@ export const DiagramEdge = memo(
     targetPosition: defaultTargetPosition,
     data,
     label,
+    selected,
   }: EdgeProps & { data?: DiagramEdgeData }) => {
     const sourceNode = useInternalNode(source);
     const targetNode = useInternalNode(target);
+    const { screenToFlowPosition } = useReactFlow();
+
+    // Bend points being dragged; kept until the document round-trip replaces them.
+    const [draftWaypoints, setDraftWaypoints] = useState<EdgePoint[] | null>(null);
+    const dragIndex = useRef<number | null>(null);
+    const waypoints = draftWaypoints ?? data?.waypoints ?? [];
+
+    useEffect(() => {
+      setDraftWaypoints(null);
+    }, [data?.waypoints]);
 
     // Inline label editing state — Miro-style double-click on edge to add/edit label.
     const [editingLabel, setEditingLabel] = useState(false);
@@ -131,18 +168,86 @@ export const DiagramEdge = memo(
       [commitLabel],
     );
 
-    // Prefer dynamically computed floating handles; fall back to ReactFlow defaults
-    const floating = computeFloatingHandles(sourceNode, targetNode);
+    const beginWaypointDrag = useCallback(
+      (index: number, next: EdgePoint[]) => (e: React.PointerEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragIndex.current = index;
+        setDraftWaypoints(next);
+      },
+      [],
+    );
+
+    const handleWaypointPointerMove = useCallback(
+      (e: React.PointerEvent<HTMLDivElement>) => {
+        const index = dragIndex.current;
+        if (index === null) return;
+        const p = screenToFlowPosition({ x: e.clientX, y: e.clientY });
+        const point = { x: Math.round(p.x), y: Math.round(p.y) };
+        setDraftWaypoints((prev) => prev?.map((w, i) => (i === index ? point : w)) ?? null);
+      },
+      [screenToFlowPosition],
+    );
 
-    const [edgePath, labelX, labelY] = getSmoothStepPath({
-      sourceX: floating?.sourceX ?? defaultSourceX,
-      sourceY: floating?.sourceY ?? defaultSourceY,
-      targetX: floating?.targetX ?? defaultTargetX,
-      targetY: floating?.targetY ?? defaultTargetY,
-      sourcePosition: floating?.sourcePosition ?? defaultSourcePosition,
-      targetPosition: floating?.targetPosition ?? defaultTargetPosition,
-      borderRadius: 8,
-    });
+    const handleWaypointPointerUp = useCallback(() => {
+      if (dragIndex.current === null) return;
+      dragIndex.current = null;
+      if (draftWaypoints) data?.onWaypointsChange?.(id, draftWaypoints);
+    }, [draftWaypoints, data, id]);
+
+    const removeWaypoint = useCallback(
+      (index: number) => (e: React.MouseEvent) => {
+        e.stopPropagation();
+        data?.onWaypointsChange?.(id, waypoints.filter((_, i) => i !== index));
+      },
+      [data, id, waypoints],
+    );
+
+    const sourceRect = toEdgeRect(sourceNode);
+    const targetRect = toEdgeRect(targetNode);
+    const ports = resolveEdgePorts(
+      { sourcePort: data?.sourcePort, targetPort: data?.targetPort },
+      { ports: nodePorts(sourceNode) },
+      { ports: nodePorts(targetNode) },
+    );
+    // Plain orthogonal edges keep React Flow's smooth-step look; everything else
+    // follows the shared route so the canvas matches the SVG exporters.
+    const useSmoothStep = waypoints.length === 0 && (data?.routing ?? 'orthogonal') === 'orthogonal';
+
+    let edgePath: string;
+    let labelX: number;
+    let labelY: number;
+    if (!useSmoothStep && sourceRect && targetRect) {
+      const route = computeEdgeRoute(sourceRect, targetRect, data?.routing, waypoints, ports);
+      edgePath = route.path;
+      labelX = route.label.x;
+      labelY = route.label.y;
+    } else {
+      // Prefer dynamically computed floating handles; fall back to ReactFlow defaults
+      const floating = computeFloatingHandles(sourceNode, targetNode);
+      // Named ports pin their end of the edge; the other end keeps floating.
+      const sourcePort = ports.source && sourceRect ? computePortAnchor(sourceRect, ports.source) : null;
+      const targetPort = ports.target && targetRect ? computePortAnchor(targetRect, ports.target) : null;
+      [edgePath, labelX, labelY] = getSmoothStepPath({
+        sourceX: sourcePort?.x ?? floating?.sourceX ?? defaultSourceX,
+        sourceY: sourcePort?.y ?? floating?.sourceY ?? defaultSourceY,
+        targetX: targetPort?.x ?? floating?.targetX ?? defaultTargetX,
+        targetY: targetPort?.y ?? floating?.targetY ?? defaultTargetY,
+        sourcePosition: sourcePort
+          ? SIDE_POSITIONS[sourcePort.side]
+          : floating?.sourcePosition ?? defaultSourcePosition,
+        targetPosition: targetPort
+          ? SIDE_POSITIONS[targetPort.side]
+          : floating?.targetPosition ?? defaultTargetPosition,
+        borderRadius: 8,
+      });
+    }
+
+    // Points the bend handles sit between: source anchor, waypoints, target anchor.
+    const handlePoints: EdgePoint[] | null = sourceRect && targetRect
+      ? computeEdgeRoute(sourceRect, targetRect, 'straight', waypoints, ports).points
+      : null;
 
     const dasharray = DASH_MAP[data?.style ?? 'solid'] ?? 'none';
     const hasArrow = data?.arrow !== 'none';
@@ -178,6 +283,55 @@ export const DiagramEdge = memo(
           onDoubleClick={startLabelEdit}
         />
 
+        {selected && handlePoints && data?.onWaypointsChange && (
+          <EdgeLabelRenderer>
+            {waypoints.map((w, i) => (
+              <div
+                key={`waypoint-${i}`}
+                className="edge-waypoint-handle nodrag nopan"
+                style={{ transform: `translate(-50%, -50%) translate(${w.x}px,${w.y}px)` }}
+                title="Drag to move the bend point, double-click to remove it"
+                data-testid={`edge-waypoint-${id}-${i}`}
+                onPointerDown={beginWaypointDrag(i, waypoints)}
+                onPointerMove={handleWaypointPointerMove}
+                onPointerUp={handleWaypointPointerUp}
+                onDoubleClick={removeWaypoint(i)}
+              />
+            ))}
+            {handlePoints.slice(1).map((q, i) => {
+              const p = handlePoints[i];
+              const mid = { x: Math.round((p.x + q.x) / 2), y: Math.round((p.y + q.y) / 2) };
+              return (
+                <div
+                  key={`add-${i}`}
+                  className="edge-waypoint-handle edge-waypoint-handle--add nodrag nopan"
+                  style={{ transform: `translate(-50%, -50%) translate(${mid.x}px,${mid.y}px)` }}
+                  title="Drag to add a bend point"
+                  data-testid={`edge-waypoint-add-${id}-${i}`}
+                  onPointerDown={beginWaypointDrag(i, [...waypoints.slice(0, i), mid, ...waypoints.slice(i)])}
+                  onPointerMove={handleWaypointPointerMove}
+                  onPointerUp={handleWaypointPointerUp}
+                />
+              );
+            })}
+          </EdgeLabelRenderer>
+        )}
+
+        {data?.lint && data.lint.length > 0 && (
+          <EdgeLabelRenderer>
+            {/* Sits just above the label position so both stay readable. */}
+            <LintBadge
+              findings={data.lint}
+              elementId={id}
+              style={{
+                top: 0,
+                left: 0,
+                transform: `translate(-50%, -50%) translate(${labelX}px,${labelY - 20}px)`,
+              }}
+            />
+          </EdgeLabelRenderer>
+        )}
+
         {showLabel && (
           <EdgeLabelRenderer>
             <div
@@ -1,6 +1,7 @@
 import { memo } from 'react';
 import type { NodeProps } from '@xyflow/react';
 import type { DiagramGroupNodeData } from '../lib/docToFlow';
+import { LintBadge } from './LintBadge';
 
 type DiagramGroupNodeProps = NodeProps & {
   data: DiagramGroupNodeData & {
@@ -11,20 +12,31 @@ type DiagramGroupNodeProps = NodeProps & {
 export const DiagramGroupNode = memo(({ id, data, selected }: DiagramGroupNodeProps) => {
   const colorClass = data.color && data.color !== 'default' ? `group-color--${data.color}` : '';
   const collapsedClass = data.collapsed ? ' diagram-group--collapsed' : '';
+  const swatch = data.swatch;
+  const { link, onOpenLink } = data;
 
   return (
     <div
       className={`diagram-group ${colorClass}${selected ? ' diagram-group--selected' : ''}${collapsedClass}`}
+      style={swatch ? { background: swatch.fill, borderColor: swatch.stroke } : undefined}
+      onDoubleClick={link && onOpenLink ? () => onOpenLink(link) : undefined}
       data-testid="diagram-group-node"
     >
       <span
         className="diagram-group-label"
+        style={swatch ? { color: swatch.text } : undefined}
         onClick={(e) => { e.stopPropagation(); data.onToggleCollapse?.(id); }}
         title={data.collapsed ? 'Click to expand group' : 'Click to collapse group'}
       >
         {data.collapsed ? '▶ ' : '▼ '}
         {data.label}
       </span>
+      {link && (
+        <span className="link-indicator" title={`Double-click to open ${link.file}`} data-testid={`group-link-${id}`}>
+          ⤵
+        </span>
+      )}
+      <LintBadge findings={data.lint} elementId={id} />
     </div>
   );
 });
@@ -1,7 +1,13 @@
-import { memo, useState, useCallback } from 'react';
+import { Fragment, memo, useState, useCallback } from 'react';
 import { Handle, Position, NodeToolbar } from '@xyflow/react';
 import type { NodeProps } from '@xyflow/react';
 import type { DiagramNodeData } from '../lib/docToFlow';
+import { portHandleId } from '../lib/docToFlow';
+import type { NodePort } from '../../types/DiagramDocument';
+import { nodeOutlinePath } from '../../lib/nodeShapes';
+import { NODE_ICON_PATHS, NODE_ICON_SIZE, resolveNodeIcon } from '../../lib/nodeIcons';
+import { isPaletteColor } from '../../lib/theme';
+import { LintBadge } from './LintBadge';
 
 type DiagramNodeProps = NodeProps & {
   data: DiagramNodeData & {
@@ -11,6 +17,19 @@ type DiagramNodeProps = NodeProps & {
   };
 };
 
+const PORT_POSITIONS: Record<NodePort['side'], Position> = {
+  top: Position.Top,
+  right: Position.Right,
+  bottom: Position.Bottom,
+  left: Position.Left,
+};
+
+/** Places a port handle along its side; `offset` runs left→right or top→bottom. */
+function portStyle(port: NodePort): React.CSSProperties {
+  const percent = `${(port.offset ?? 0.5) * 100}%`;
+  return port.side === 'top' || port.side === 'bottom' ? { left: percent } : { top: percent };
+}
+
 export const DiagramNode = memo(({ id, data, selected }: DiagramNodeProps) => {
   const [editing, setEditing] = useState(false);
   const [editValue, setEditValue] = useState(data.label);
@@ -27,8 +46,22 @@ export const DiagramNode = memo(({ id, data, selected }: DiagramNodeProps) => {
     setEditing(true);
   }, [data.label]);
 
+  // Double-clicking a linked node drills down; its label is edited from the toolbar.
+  const { link, onOpenLink } = data;
+  const onDoubleClick = useCallback(() => {
+    if (link && onOpenLink) onOpenLink(link);
+    else startEdit();
+  }, [link, onOpenLink, startEdit]);
+
   const isNote = data.shape === 'note';
-  const shapeClass = `diagram-node shape-${data.shape} color-${data.color}`;
+  const outline = nodeOutlinePath(data.shape, data.width, data.height);
+  const icon = resolveNodeIcon(data);
+  const colorClass = isPaletteColor(data.color) ? `color-${data.color}` : 'color-custom';
+  const shapeClass = `diagram-node shape-${data.shape} ${colorClass}${outline ? ' shape-outlined' : ''}`;
+  // Themed and hex colours override the palette class through its CSS variables.
+  const swatchStyle = data.swatch
+    ? { '--node-fill': data.swatch.fill, '--node-stroke': data.swatch.stroke, color: data.swatch.text }
+    : {};
 
   return (
     <>
@@ -44,16 +77,59 @@ export const DiagramNode = memo(({ id, data, selected }: DiagramNodeProps) => {
           <Handle type="target" position={Position.Bottom} id="bottom-t" />
           <Handle type="source" position={Position.Left} id="left-s" />
           <Handle type="target" position={Position.Left} id="left-t" />
+          {data.ports?.map((port) => (
+            <Fragment key={port.id}>
+              <Handle
+                type="source"
+                position={PORT_POSITIONS[port.side]}
+                id={portHandleId(port.id, 'source')}
+                className="port-handle"
+                style={portStyle(port)}
+                title={port.label ?? port.id}
+              />
+              <Handle
+                type="target"
+                position={PORT_POSITIONS[port.side]}
+                id={portHandleId(port.id, 'target')}
+                className="port-handle"
+                style={portStyle(port)}
+                title={port.label ?? port.id}
+              />
+            </Fragment>
+          ))}
         </>
       )}
 
       <div
         className={shapeClass}
-        style={{ width: data.width, height: data.height }}
-        onDoubleClick={startEdit}
+        style={{ width: data.width, height: data.height, ...swatchStyle } as React.CSSProperties}
+        onDoubleClick={onDoubleClick}
         data-testid={`node-${id}`}
       >
+        {outline && (
+          <svg className="node-shape-outline" width={data.width} height={data.height} aria-hidden="true">
+            <path d={outline} />
+          </svg>
+        )}
+        {icon && (
+          <svg
+            className="node-icon"
+            width={NODE_ICON_SIZE}
+            height={NODE_ICON_SIZE}
+            viewBox="0 0 24 24"
+            data-testid={`node-icon-${id}`}
+          >
+            <title>{icon}</title>
+            <path d={NODE_ICON_PATHS[icon]} />
+          </svg>
+        )}
         {data.pinned && <span className="pin-indicator">📌</span>}
+        {link && (
+          <span className="link-indicator" title={`Double-click to open ${link.file}`} data-testid={`node-link-${id}`}>
+            ⤵
+          </span>
+        )}
+        <LintBadge findings={data.lint} elementId={id} />
 
         {editing ? (
           <input
@@ -82,6 +158,15 @@ export const DiagramNode = memo(({ id, data, selected }: DiagramNodeProps) => {
           >
             ✏️
           </button>
+          {link && onOpenLink && (
+            <button
+              className="toolbar-action-btn"
+              onClick={() => onOpenLink(link)}
+              title={`Open linked diagram (${link.file})`}
+            >
+              ⤵
+            </button>
+          )}
           {data.pinned && (
             <button
               className="toolbar-action-btn"
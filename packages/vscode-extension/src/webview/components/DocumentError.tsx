@@ -0,0 +1,35 @@
+import type { DocumentProblem } from '../../messages/protocol';
+
+interface DocumentErrorProps {
+  problems: DocumentProblem[];
+  onShowProblems: () => void;
+  onOpenAsText: () => void;
+}
+
+/** Shown in place of the canvas when the file cannot be loaded. */
+export function DocumentError({ problems, onShowProblems, onOpenAsText }: DocumentErrorProps) {
+  return (
+    <div className="document-error" data-testid="document-error">
+      <h2 className="document-error-title">This diagram cannot be displayed</h2>
+      <p className="document-error-hint">
+        Fix the {problems.length === 1 ? 'problem' : `${problems.length} problems`} below in a text editor and
+        the canvas will reload.
+      </p>
+      <ul className="document-error-list">
+        {problems.map((problem, index) => (
+          <li key={index}>
+            <span className="document-error-line">Line {problem.line}</span> {problem.message}
+          </li>
+        ))}
+      </ul>
+      <div className="document-error-actions">
+        <button className="prop-chip prop-chip--active" onClick={onShowProblems} data-testid="btn-show-problems">
+          Show Problems
+        </button>
+        <button className="prop-chip" onClick={onOpenAsText} data-testid="btn-open-as-text">
+          Open as Text
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { HistorySummary } from '../../lib/history';
+
+interface HistoryPanelProps {
+  history: HistorySummary;
+  /** Called with the number of past entries that should remain applied. */
+  onJump: (index: number) => void;
+}
+
+export function HistoryPanel({ history, onJump }: HistoryPanelProps) {
+  const current = history.past.length;
+  const rows = ['Initial state', ...history.past, ...history.future];
+
+  return (
+    <div className="toolbox-dropdown history-panel" data-testid="history-panel">
+      {rows.map((label, index) => (
+        <button
+          key={index}
+          className={[
+            'toolbox-dropdown-item',
+            index === current ? 'toolbox-dropdown-item--active' : '',
+            index > current ? 'history-panel-item--undone' : '',
+          ].join(' ').trim()}
+          onClick={() => onJump(index)}
+          title={index > current ? 'Redo up to here' : index < current ? 'Undo back to here' : 'Current state'}
+          data-testid={`history-entry-${index}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import type { DiagramLayer } from '../../types/DiagramDocument';
+
+interface LayerPanelProps {
+  layers: DiagramLayer[];
+  onAddLayer: () => void;
+  onUpdateLayer: (id: string, changes: { label?: string; hidden?: boolean; locked?: boolean }) => void;
+  onDeleteLayer: (id: string) => void;
+}
+
+export function LayerPanel({ layers, onAddLayer, onUpdateLayer, onDeleteLayer }: LayerPanelProps) {
+  return (
+    <div className="toolbox-dropdown layer-panel" data-testid="layer-panel">
+      {layers.length === 0 && (
+        <span className="layer-panel-empty">No layers yet</span>
+      )}
+      {layers.map((layer) => (
+        <div key={layer.id} className="layer-panel-row" data-testid={`layer-row-${layer.id}`}>
+          <button
+            className={`layer-panel-toggle${layer.hidden ? '' : ' layer-panel-toggle--on'}`}
+            onClick={() => onUpdateLayer(layer.id, { hidden: !layer.hidden })}
+            title={layer.hidden ? 'Show layer' : 'Hide layer'}
+            data-testid={`layer-visibility-${layer.id}`}
+          >
+            👁
+          </button>
+          <button
+            className={`layer-panel-toggle${layer.locked ? ' layer-panel-toggle--on' : ''}`}
+            onClick={() => onUpdateLayer(layer.id, { locked: !layer.locked })}
+            title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+            data-testid={`layer-lock-${layer.id}`}
+          >
+            🔒
+          </button>
+          <input
+            className="layer-panel-label"
+            defaultValue={layer.label}
+            key={layer.label}
+            onBlur={(e) => {
+              const label = e.target.value.trim();
+              if (label && label !== layer.label) onUpdateLayer(layer.id, { label });
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+          />
+          <button
+            className="layer-panel-delete"
+            onClick={() => onDeleteLayer(layer.id)}
+            title="Delete layer (elements are kept)"
+            data-testid={`layer-delete-${layer.id}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button className="toolbox-dropdown-item" onClick={onAddLayer} data-testid="btn-add-layer">
+        ＋ Add layer
+      </button>
+    </div>
+  );
+}
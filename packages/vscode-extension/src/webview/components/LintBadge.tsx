@@ -0,0 +1,35 @@
+import type { CSSProperties } from 'react';
+import type { LintFinding, LintSeverity } from '../../lib/lint';
+
+const ICONS: Record<LintSeverity, string> = { error: '✖', warning: '⚠', info: 'ℹ' };
+const RANK: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+interface LintBadgeProps {
+  findings?: LintFinding[];
+  /** Id of the node, edge or group, used for the test id. */
+  elementId: string;
+  style?: CSSProperties;
+}
+
+/**
+ * Marks a canvas element that has lint findings. Shows the most severe one's
+ * icon, a count when there are several, and every message on hover.
+ */
+export function LintBadge({ findings, elementId, style }: LintBadgeProps) {
+  if (!findings || findings.length === 0) return null;
+  const severity = findings.reduce<LintSeverity>(
+    (worst, f) => (RANK[f.severity] < RANK[worst] ? f.severity : worst),
+    'info',
+  );
+  return (
+    <span
+      className={`lint-badge lint-badge--${severity}`}
+      style={style}
+      title={findings.map((f) => `${f.message} (${f.rule})`).join('\n')}
+      data-testid={`lint-badge-${elementId}`}
+    >
+      {ICONS[severity]}
+      {findings.length > 1 && <span className="lint-badge-count">{findings.length}</span>}
+    </span>
+  );
+}
@@ -3,11 +3,17 @@ import type { Node, Edge } from '@xyflow/react';
 import type { DiagramNodeData } from '../lib/docToFlow';
 import type {
   DiagramGroup,
+  DiagramLayer,
+  DiagramLink,
   NodeShape,
   NodeColor,
+  ColorValue,
   EdgeStyle,
   ArrowType,
+  EdgeRouting,
+  EdgePoint,
   NodeType,
+  NodeIcon,
   SecurityClassification,
   DeploymentEnvironment,
   NodeProperties,
@@ -16,55 +22,69 @@ import {
   NODE_SHAPES,
   NODE_COLORS,
   EDGE_STYLES,
+  EDGE_ROUTINGS,
   ARROW_TYPES,
   NODE_TYPES,
+  NODE_ICONS,
   SECURITY_CLASSIFICATIONS,
   DEPLOYMENT_ENVIRONMENTS,
 } from '../../types/DiagramDocument';
+import { getGroupDescendantIds } from '../../lib/groupHierarchy';
+import { isHexColor, isPaletteColor } from '../../lib/theme';
 
 interface NodeProps {
   kind: 'node';
   node: Node<DiagramNodeData>;
   groups: DiagramGroup[];
+  layers: DiagramLayer[];
   onUpdateNode: (
     id: string,
     changes: {
       label?: string;
       shape?: NodeShape;
-      color?: NodeColor;
+      color?: ColorValue;
       notes?: string;
       group?: string | null;
       pinned?: boolean;
       type?: NodeType;
+      icon?: NodeIcon | null;
       tags?: string[];
       properties?: NodeProperties;
       securityClassification?: SecurityClassification;
       deploymentEnvironment?: DeploymentEnvironment;
+      layer?: string | null;
+      link?: DiagramLink | null;
     },
   ) => void;
+  /** Opens the `properties.entrypoint` file in an editor. */
+  onOpenEntrypoint: (entrypoint: string) => void;
 }
 
 interface EdgeProps {
   kind: 'edge';
   edge: Edge;
+  layers: DiagramLayer[];
   onUpdateEdge: (
     id: string,
-    changes: { label?: string; style?: EdgeStyle; arrow?: ArrowType; animated?: boolean; bidirectional?: boolean; protocol?: string; dataTypes?: string[] },
+    changes: { label?: string; style?: EdgeStyle; arrow?: ArrowType; animated?: boolean; bidirectional?: boolean; protocol?: string; dataTypes?: string[]; routing?: EdgeRouting; waypoints?: EdgePoint[]; layer?: string | null },
   ) => void;
 }
 
 interface GroupProps {
   kind: 'group';
   group: DiagramGroup;
-  onUpdateGroup: (id: string, changes: { label?: string; color?: NodeColor }) => void;
+  /** All groups in the document, used to pick an enclosing parent group. */
+  groups: DiagramGroup[];
+  onUpdateGroup: (id: string, changes: { label?: string; color?: ColorValue; parent?: string | null; link?: DiagramLink | null }) => void;
 }
 
 interface TextElementProps {
   kind: 'textElement';
   id: string;
   element: Record<string, unknown>;
+  layers: DiagramLayer[];
   onUpdateTextElement: (id: string, changes: {
-    content?: string; fontSize?: number; color?: string; bold?: boolean; italic?: boolean; href?: string; pinned?: boolean;
+    content?: string; fontSize?: number; color?: string; bold?: boolean; italic?: boolean; href?: string; pinned?: boolean; layer?: string | null;
   }) => void;
 }
 
@@ -72,8 +92,9 @@ interface ImageElementProps {
   kind: 'imageElement';
   id: string;
   element: Record<string, unknown>;
+  layers: DiagramLayer[];
   onUpdateImageElement: (id: string, changes: {
-    src?: string; description?: string; href?: string; pinned?: boolean;
+    src?: string; description?: string; href?: string; pinned?: boolean; layer?: string | null;
   }) => void;
 }
 
@@ -92,6 +113,22 @@ const NODE_TYPE_LABELS: Record<NodeType, string> = {
   Function: 'Function',
 };
 
+const ICON_LABELS: Record<NodeIcon, string> = {
+  person: 'Person',
+  globe: 'Globe',
+  box: 'Box',
+  gear: 'Gear',
+  database: 'Database',
+  queue: 'Queue',
+  bolt: 'Bolt',
+  lambda: 'Lambda',
+  server: 'Server',
+  cloud: 'Cloud',
+  lock: 'Lock',
+  document: 'Document',
+  none: 'No icon',
+};
+
 const SECURITY_LABELS: Record<SecurityClassification, string> = {
   'public': 'Public',
   'internal': 'Internal',
@@ -112,6 +149,12 @@ const SHAPE_LABELS: Record<NodeShape, string> = {
   diamond: 'Diamond',
   cylinder: 'Cylinder',
   note: 'Note',
+  hexagon: 'Hexagon',
+  cloud: 'Cloud',
+  actor: 'Actor',
+  document: 'Document',
+  queue: 'Queue',
+  parallelogram: 'Parallelogram',
 };
 
 const COLOR_LABELS: Record<NodeColor, string> = {
@@ -130,6 +173,12 @@ const STYLE_LABELS: Record<EdgeStyle, string> = {
   dotted: 'Dotted',
 };
 
+const ROUTING_LABELS: Record<EdgeRouting, string> = {
+  straight: 'Straight',
+  orthogonal: 'Orthogonal',
+  curved: 'Curved',
+};
+
 const ARROW_LABELS: Record<ArrowType, string> = {
   normal: 'Arrow',
   arrow: 'Arrow (alt)',
@@ -165,16 +214,165 @@ export function PropertiesPanel(props: PropertiesPanelInput) {
   return <EdgePropertiesPanel {...props} />;
 }
 
+// ---------------------------------------------------------------------------
+// Layer picker
+// ---------------------------------------------------------------------------
+
+interface LayerSelectProps {
+  idPrefix: string;
+  layers: DiagramLayer[];
+  value: string | undefined;
+  onChange: (layer: string | null) => void;
+}
+
+/** Layer picker shared by every element panel; hidden until the diagram has layers. */
+function LayerSelect({ idPrefix, layers, value, onChange }: LayerSelectProps) {
+  if (layers.length === 0) return null;
+  return (
+    <div className="prop-group">
+      <label className="prop-label" htmlFor={`prop-${idPrefix}-layer`}>Layer</label>
+      <select
+        id={`prop-${idPrefix}-layer`}
+        className="prop-select"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        data-testid={`prop-${idPrefix}-layer`}
+      >
+        <option value="">(none)</option>
+        {layers.map((l) => (
+          <option key={l.id} value={l.id}>
+            {l.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Custom colour input
+// ---------------------------------------------------------------------------
+
+interface CustomColorInputProps {
+  idPrefix: string;
+  value: ColorValue | undefined;
+  onChange: (color: ColorValue) => void;
+}
+
+/**
+ * Free-form colour field next to the palette swatches. Accepts a hex colour
+ * or a key from the diagram theme palette; invalid input is discarded on blur.
+ */
+function CustomColorInput({ idPrefix, value, onChange }: CustomColorInputProps) {
+  const custom = value !== undefined && !isPaletteColor(value) ? value : '';
+  const [text, setText] = useState(custom);
+
+  useEffect(() => {
+    setText(custom);
+  }, [custom]);
+
+  const commit = () => {
+    const next = text.trim();
+    if (!next || next === value) return;
+    if (isHexColor(next) || /^[a-z][a-z0-9-]*$/i.test(next)) onChange(next);
+    else setText(custom);
+  };
+
+  return (
+    <input
+      id={`prop-${idPrefix}-custom-color`}
+      className="prop-input prop-color-custom"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      placeholder="#1e88e5 or theme key"
+      data-testid={`prop-${idPrefix}-custom-color`}
+    />
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Drill-down link
+// ---------------------------------------------------------------------------
+
+interface LinkInputProps {
+  idPrefix: string;
+  value: DiagramLink | undefined;
+  onChange: (link: DiagramLink | null) => void;
+}
+
+const DIAGRAM_FILE_RE = /\.diagram(\.svg)?$/;
+
+/**
+ * Diagram a node or group drills down into, relative to this file, and the
+ * node to focus there. Clearing the file removes the link; a path that is not
+ * a diagram file is discarded on blur.
+ */
+function LinkInput({ idPrefix, value, onChange }: LinkInputProps) {
+  const [file, setFile] = useState(value?.file ?? '');
+  const [target, setTarget] = useState(value?.node ?? '');
+
+  useEffect(() => {
+    setFile(value?.file ?? '');
+    setTarget(value?.node ?? '');
+  }, [value?.file, value?.node]);
+
+  const commit = () => {
+    const nextFile = file.trim();
+    const nextTarget = target.trim();
+    if (!nextFile) {
+      if (value) onChange(null);
+      return;
+    }
+    if (!DIAGRAM_FILE_RE.test(nextFile)) {
+      setFile(value?.file ?? '');
+      return;
+    }
+    if (nextFile === value?.file && nextTarget === (value.node ?? '')) return;
+    onChange(nextTarget ? { file: nextFile, node: nextTarget } : { file: nextFile });
+  };
+
+  return (
+    <div className="prop-group">
+      <label className="prop-label" htmlFor={`prop-${idPrefix}-link`}>Linked diagram</label>
+      <input
+        id={`prop-${idPrefix}-link`}
+        className="prop-input"
+        value={file}
+        onChange={(e) => setFile(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        placeholder="detail/service.diagram"
+        data-testid={`prop-${idPrefix}-link`}
+      />
+      {file.trim() && (
+        <input
+          className="prop-input"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+          placeholder="Node to focus (optional)"
+          aria-label="Node to focus in the linked diagram"
+          data-testid={`prop-${idPrefix}-link-node`}
+        />
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Node Properties
 // ---------------------------------------------------------------------------
 
-function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
+function NodePropertiesPanel({ node, groups, layers, onUpdateNode, onOpenEntrypoint }: NodeProps) {
   const [label, setLabel] = useState(node.data.label);
   const [notes, setNotes] = useState(node.data.notes ?? '');
   const [tags, setTags] = useState((node.data as Record<string, unknown>).tags as string[] ?? []);
   const [tagsInput, setTagsInput] = useState(tags.join(', '));
   const [repo, setRepo] = useState(((node.data as Record<string, unknown>).properties as NodeProperties)?.repo ?? '');
+  const [entrypoint, setEntrypoint] = useState(((node.data as Record<string, unknown>).properties as NodeProperties)?.entrypoint ?? '');
   const [team, setTeam] = useState(((node.data as Record<string, unknown>).properties as NodeProperties)?.team ?? '');
   const [adr, setAdr] = useState(((node.data as Record<string, unknown>).properties as NodeProperties)?.adr ?? '');
   const [status, setStatus] = useState(((node.data as Record<string, unknown>).properties as NodeProperties)?.status ?? '');
@@ -189,6 +387,7 @@ function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
     setTagsInput(nodeTags.join(', '));
     const props = (node.data as Record<string, unknown>).properties as NodeProperties | undefined;
     setRepo(props?.repo ?? '');
+    setEntrypoint(props?.entrypoint ?? '');
     setTeam(props?.team ?? '');
     setAdr(props?.adr ?? '');
     setStatus(props?.status ?? '');
@@ -266,6 +465,11 @@ function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
             />
           ))}
         </div>
+        <CustomColorInput
+          idPrefix="node"
+          value={node.data.color}
+          onChange={(color) => onUpdateNode(node.id, { color })}
+        />
       </div>
 
       {groups.length > 0 && (
@@ -288,6 +492,13 @@ function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
         </div>
       )}
 
+      <LayerSelect
+        idPrefix="node"
+        layers={layers}
+        value={node.data.layer}
+        onChange={(layer) => onUpdateNode(node.id, { layer })}
+      />
+
       <div className="prop-group">
         <label className="prop-label" htmlFor="prop-notes">Notes</label>
         <textarea
@@ -337,6 +548,24 @@ function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
         </select>
       </div>
 
+      <div className="prop-group">
+        <label className="prop-label" htmlFor="prop-node-icon">Icon</label>
+        <select
+          id="prop-node-icon"
+          className="prop-select"
+          value={node.data.icon ?? ''}
+          onChange={(e) => onUpdateNode(node.id, { icon: (e.target.value || null) as NodeIcon | null })}
+          data-testid="prop-node-icon"
+        >
+          <option value="">(type default)</option>
+          {NODE_ICONS.map((i) => (
+            <option key={i} value={i}>
+              {ICON_LABELS[i]}
+            </option>
+          ))}
+        </select>
+      </div>
+
       <div className="prop-group">
         <label className="prop-label" htmlFor="prop-node-tags">Tags</label>
         <input
@@ -414,6 +643,29 @@ function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
         />
       </div>
 
+      <div className="prop-group">
+        <label className="prop-label" htmlFor="prop-node-entrypoint">Entrypoint</label>
+        <input
+          id="prop-node-entrypoint"
+          className="prop-input"
+          value={entrypoint}
+          onChange={(e) => setEntrypoint(e.target.value)}
+          onBlur={() => onUpdateNode(node.id, { properties: { ...((node.data as Record<string, unknown>).properties as NodeProperties), entrypoint: entrypoint.trim() || undefined } })}
+          placeholder="src/main.ts"
+          data-testid="prop-node-entrypoint"
+        />
+        {entrypoint.trim() && (
+          <button
+            className="prop-chip prop-action"
+            onClick={() => onOpenEntrypoint(entrypoint.trim())}
+            title="Open the entrypoint file in an editor"
+            data-testid="prop-node-open-entrypoint"
+          >
+            Open entrypoint
+          </button>
+        )}
+      </div>
+
       <div className="prop-group">
         <label className="prop-label" htmlFor="prop-node-team">Team</label>
         <input
@@ -466,6 +718,12 @@ function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
           data-testid="prop-node-debt"
         />
       </div>
+
+      <LinkInput
+        idPrefix="node"
+        value={node.data.link}
+        onChange={(link) => onUpdateNode(node.id, { link })}
+      />
     </aside>
   );
 }
@@ -474,7 +732,7 @@ function NodePropertiesPanel({ node, groups, onUpdateNode }: NodeProps) {
 // Text Element Properties
 // ---------------------------------------------------------------------------
 
-function TextElementPropertiesPanel({ id, element, onUpdateTextElement }: TextElementProps) {
+function TextElementPropertiesPanel({ id, element, layers, onUpdateTextElement }: TextElementProps) {
   const [content, setContent] = useState(String(element.content ?? ''));
   const [href, setHref] = useState(String(element.href ?? ''));
   const [color, setColor] = useState(String(element.color ?? ''));
@@ -572,6 +830,12 @@ function TextElementPropertiesPanel({ id, element, onUpdateTextElement }: TextEl
           data-testid="prop-text-href"
         />
       </div>
+      <LayerSelect
+        idPrefix="text"
+        layers={layers}
+        value={element.layer as string | undefined}
+        onChange={(layer) => onUpdateTextElement(id, { layer })}
+      />
     </aside>
   );
 }
@@ -580,7 +844,7 @@ function TextElementPropertiesPanel({ id, element, onUpdateTextElement }: TextEl
 // Image Element Properties
 // ---------------------------------------------------------------------------
 
-function ImageElementPropertiesPanel({ id, element, onUpdateImageElement }: ImageElementProps) {
+function ImageElementPropertiesPanel({ id, element, layers, onUpdateImageElement }: ImageElementProps) {
   const [src, setSrc] = useState(String(element.src ?? ''));
   const [description, setDescription] = useState(String(element.description ?? ''));
   const [href, setHref] = useState(String(element.href ?? ''));
@@ -634,12 +898,21 @@ function ImageElementPropertiesPanel({ id, element, onUpdateImageElement }: Imag
           data-testid="prop-image-href"
         />
       </div>
+      <LayerSelect
+        idPrefix="image"
+        layers={layers}
+        value={element.layer as string | undefined}
+        onChange={(layer) => onUpdateImageElement(id, { layer })}
+      />
     </aside>
   );
 }
 
-function GroupPropertiesPanel({ group, onUpdateGroup }: GroupProps) {
+function GroupPropertiesPanel({ group, groups, onUpdateGroup }: GroupProps) {
   const [label, setLabel] = useState(group.label);
+  // A group cannot be nested inside itself or one of its own sub-groups.
+  const excludedParents = new Set([group.id, ...getGroupDescendantIds(groups, group.id)]);
+  const parentCandidates = groups.filter((g) => !excludedParents.has(g.id));
 
   useEffect(() => {
     setLabel(group.label);
@@ -683,7 +956,38 @@ function GroupPropertiesPanel({ group, onUpdateGroup }: GroupProps) {
             />
           ))}
         </div>
+        <CustomColorInput
+          idPrefix="group"
+          value={group.color}
+          onChange={(color) => onUpdateGroup(group.id, { color })}
+        />
       </div>
+
+      {parentCandidates.length > 0 && (
+        <div className="prop-group">
+          <label className="prop-label" htmlFor="prop-group-parent">Parent group</label>
+          <select
+            id="prop-group-parent"
+            className="prop-select"
+            value={group.parent ?? ''}
+            onChange={(e) => onUpdateGroup(group.id, { parent: e.target.value || null })}
+            data-testid="prop-group-parent"
+          >
+            <option value="">(none)</option>
+            {parentCandidates.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <LinkInput
+        idPrefix="group"
+        value={group.link}
+        onChange={(link) => onUpdateGroup(group.id, { link })}
+      />
     </aside>
   );
 }
@@ -692,8 +996,8 @@ function GroupPropertiesPanel({ group, onUpdateGroup }: GroupProps) {
 // Edge Properties
 // ---------------------------------------------------------------------------
 
-function EdgePropertiesPanel({ edge, onUpdateEdge }: EdgeProps) {
-  const data = edge.data as { style?: EdgeStyle; arrow?: ArrowType; bidirectional?: boolean; protocol?: string; dataTypes?: string[] } | undefined;
+function EdgePropertiesPanel({ edge, layers, onUpdateEdge }: EdgeProps) {
+  const data = edge.data as { style?: EdgeStyle; arrow?: ArrowType; bidirectional?: boolean; protocol?: string; dataTypes?: string[]; routing?: EdgeRouting; waypoints?: EdgePoint[]; layer?: string } | undefined;
   const [label, setLabel] = useState(String(edge.label ?? ''));
   const [animated, setAnimated] = useState(edge.animated ?? false);
   const [bidirectional, setBidirectional] = useState(data?.bidirectional ?? false);
@@ -777,6 +1081,32 @@ function EdgePropertiesPanel({ edge, onUpdateEdge }: EdgeProps) {
         </div>
       </div>
 
+      <div className="prop-group">
+        <span className="prop-label">Routing</span>
+        <div className="prop-radio-group" data-testid="prop-edge-routing">
+          {EDGE_ROUTINGS.map((r) => (
+            <button
+              key={r}
+              className={`prop-chip${(data?.routing ?? 'orthogonal') === r ? ' prop-chip--active' : ''}`}
+              onClick={() => onUpdateEdge(edge.id, { routing: r })}
+              data-testid={`prop-routing-${r}`}
+            >
+              {ROUTING_LABELS[r]}
+            </button>
+          ))}
+        </div>
+        {(data?.waypoints?.length ?? 0) > 0 && (
+          <button
+            className="prop-chip"
+            onClick={() => onUpdateEdge(edge.id, { waypoints: [] })}
+            title="Remove all manual bend points from this edge"
+            data-testid="prop-edge-clear-waypoints"
+          >
+            Clear bend points ({data?.waypoints?.length})
+          </button>
+        )}
+      </div>
+
       <div className="prop-group prop-group--row">
         <label className="prop-label" htmlFor="prop-edge-animated">Animated</label>
         <input
@@ -840,6 +1170,12 @@ function EdgePropertiesPanel({ edge, onUpdateEdge }: EdgeProps) {
           data-testid="prop-edge-data-types"
         />
       </div>
+      <LayerSelect
+        idPrefix="edge"
+        layers={layers}
+        value={data?.layer}
+        onChange={(layer) => onUpdateEdge(edge.id, { layer })}
+      />
     </aside>
   );
 }
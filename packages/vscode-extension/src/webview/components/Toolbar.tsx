@@ -1,6 +1,9 @@
 import { Panel, useReactFlow } from '@xyflow/react';
 import { useState, useRef, useEffect, type ReactNode } from 'react';
-import type { LayoutDirection } from '../../types/DiagramDocument';
+import type { DiagramLayer, LayoutDirection } from '../../types/DiagramDocument';
+import { LayerPanel } from './LayerPanel';
+import { HistoryPanel } from './HistoryPanel';
+import type { HistorySummary } from '../../lib/history';
 
 export type ToolboxMode = 'hand' | 'node' | 'note' | 'group' | 'text' | 'image' | null;
 
@@ -11,12 +14,18 @@ interface ToolbarProps {
   onSortNodes: (direction: LayoutDirection) => void;
   onUndo: () => void;
   onRedo: () => void;
+  history: HistorySummary;
+  onHistoryJump: (index: number) => void;
   onToggleSearch: () => void;
   onToggleShortcuts: () => void;
   onViewMetadata: () => void;
   layoutDirection: LayoutDirection;
   onSetLayoutDirection: (dir: LayoutDirection) => void;
   selectedGroupId: string | null;
+  layers: DiagramLayer[];
+  onAddLayer: () => void;
+  onUpdateLayer: (id: string, changes: { label?: string; hidden?: boolean; locked?: boolean }) => void;
+  onDeleteLayer: (id: string) => void;
 }
 
 const DIRECTION_LABEL: Record<LayoutDirection, string> = {
@@ -74,15 +83,23 @@ export function Toolbar({
   onSortNodes,
   onUndo,
   onRedo,
+  history,
+  onHistoryJump,
   onToggleSearch,
   onToggleShortcuts,
   onViewMetadata,
   layoutDirection,
   onSetLayoutDirection,
   selectedGroupId,
+  layers,
+  onAddLayer,
+  onUpdateLayer,
+  onDeleteLayer,
 }: ToolbarProps) {
   const { fitView } = useReactFlow();
   const sortDropdown = useDropdown();
+  const layerDropdown = useDropdown();
+  const historyDropdown = useDropdown();
 
   const toggleMode = (mode: ToolboxMode) => {
     onSetToolboxMode(toolboxMode === mode ? null : mode);
@@ -160,6 +177,26 @@ export function Toolbar({
           <span className="toolbox-btn-icon">↪</span>
           <span className="toolbox-btn-label">Redo</span>
         </button>
+        <div className="toolbox-split-btn" ref={historyDropdown.ref}>
+          <button
+            onClick={() => historyDropdown.setOpen(!historyDropdown.open)}
+            title="Show the change history and jump to any entry"
+            data-testid="btn-history"
+            className={`toolbox-btn${historyDropdown.open ? ' toolbox-btn--active' : ''}`}
+          >
+            <span className="toolbox-btn-icon">🕘</span>
+            <span className="toolbox-btn-label">History</span>
+          </button>
+          {historyDropdown.open && (
+            <HistoryPanel
+              history={history}
+              onJump={(index) => {
+                onHistoryJump(index);
+                historyDropdown.setOpen(false);
+              }}
+            />
+          )}
+        </div>
       </ToolSection>
 
       <div className="toolbox-divider" />
@@ -227,6 +264,25 @@ export function Toolbar({
           <span className="toolbox-btn-icon">{'{}'}</span>
           <span className="toolbox-btn-label">Metadata</span>
         </button>
+        <div className="toolbox-split-btn" ref={layerDropdown.ref}>
+          <button
+            onClick={() => layerDropdown.setOpen(!layerDropdown.open)}
+            title="Show, hide and lock layers"
+            data-testid="btn-layers"
+            className={`toolbox-btn${layerDropdown.open ? ' toolbox-btn--active' : ''}`}
+          >
+            <span className="toolbox-btn-icon">☰</span>
+            <span className="toolbox-btn-label">Layers</span>
+          </button>
+          {layerDropdown.open && (
+            <LayerPanel
+              layers={layers}
+              onAddLayer={onAddLayer}
+              onUpdateLayer={onUpdateLayer}
+              onDeleteLayer={onDeleteLayer}
+            />
+          )}
+        </div>
       </ToolSection>
     </Panel>
   );
@@ -14,28 +14,37 @@ import {
   docToFlowGroupNodes,
   docToFlowTextElements,
   docToFlowImageElements,
+  portIdFromHandle,
   type DiagramNodeData,
   type DiagramEdgeData,
 } from '../lib/docToFlow';
 import type {
   NodeType,
+  NodeIcon,
   SecurityClassification,
   DeploymentEnvironment,
   NodeProperties,
   DiagramDocument,
   DiagramGroup,
+  DiagramLayer,
+  DiagramLink,
+  DiagramTheme,
   NodeShape,
   NodeColor,
+  ColorValue,
   EdgeStyle,
+  EdgeRouting,
+  EdgePoint,
   ArrowType,
   LayoutDirection,
 } from '../../types/DiagramDocument';
 import type { VSCodeBridge } from './useVSCodeBridge';
+import { EMPTY_HISTORY, type HistorySummary } from '../../lib/history';
 
 export interface ClipboardNode {
   label: string;
   shape: NodeShape;
-  color: NodeColor;
+  color: ColorValue;
   notes?: string;
 }
 
@@ -44,6 +53,9 @@ export interface GraphState {
   allNodes: Node[];
   edges: Edge<DiagramEdgeData>[];
   groups: DiagramGroup[];
+  layers: DiagramLayer[];
+  theme: DiagramTheme | undefined;
+  history: HistorySummary;
   selectedNodeId: string | null;
   selectedEdgeId: string | null;
   selectedGroupId: string | null;
@@ -72,6 +84,7 @@ export interface GraphState {
   onAddImageAt: (x: number, y: number, src: string, description?: string) => void;
   onNodeLabelChange: (id: string, label: string) => void;
   onEdgeLabelChange: (id: string, label: string) => void;
+  onEdgeWaypointsChange: (id: string, waypoints: EdgePoint[]) => void;
   onDuplicateNodeAt: (id: string, x: number, y: number, originalX: number, originalY: number) => void;
   onTextContentChange: (nodeId: string, content: string) => void;
   onUnpinNode: (id: string) => void;
@@ -81,45 +94,60 @@ export interface GraphState {
     changes: {
       label?: string;
       shape?: NodeShape;
-      color?: NodeColor;
+      color?: ColorValue;
       notes?: string;
       group?: string | null;
       pinned?: boolean;
       type?: NodeType;
+      icon?: NodeIcon | null;
       tags?: string[];
       properties?: NodeProperties;
       securityClassification?: SecurityClassification;
       deploymentEnvironment?: DeploymentEnvironment;
+      layer?: string | null;
+      link?: DiagramLink | null;
     },
   ) => void;
   onUpdateEdgeProps: (
     id: string,
-    changes: { label?: string; style?: EdgeStyle; arrow?: ArrowType; animated?: boolean; bidirectional?: boolean; protocol?: string; dataTypes?: string[] },
+    changes: { label?: string; style?: EdgeStyle; arrow?: ArrowType; animated?: boolean; bidirectional?: boolean; protocol?: string; dataTypes?: string[]; routing?: EdgeRouting; waypoints?: EdgePoint[]; layer?: string | null },
   ) => void;
-  onUpdateGroupProps: (id: string, changes: { label?: string; color?: NodeColor; collapsed?: boolean }) => void;
+  onUpdateGroupProps: (id: string, changes: { label?: string; color?: ColorValue; collapsed?: boolean; parent?: string | null; link?: DiagramLink | null }) => void;
   onUpdateTextElementProps: (id: string, changes: {
-    content?: string; fontSize?: number; color?: string; bold?: boolean; italic?: boolean; href?: string; pinned?: boolean;
+    content?: string; fontSize?: number; color?: string; bold?: boolean; italic?: boolean; href?: string; pinned?: boolean; layer?: string | null;
   }) => void;
   onUpdateImageElementProps: (id: string, changes: {
-    src?: string; description?: string; href?: string; pinned?: boolean;
+    src?: string; description?: string; href?: string; pinned?: boolean; layer?: string | null;
   }) => void;
   onToggleGroupCollapse: (id: string) => void;
+  onAddLayer: () => void;
+  onUpdateLayerProps: (id: string, changes: { label?: string; hidden?: boolean; locked?: boolean }) => void;
+  onDeleteLayer: (id: string) => void;
   onSortNodes: (direction: LayoutDirection) => void;
   onRequestLayout: (direction?: LayoutDirection) => void;
   onRequestLayoutForce: (direction?: LayoutDirection) => void;
   onSetLayoutDirection: (direction: LayoutDirection) => void;
   onUndo: () => void;
   onRedo: () => void;
+  /** Jumps to a history position: the number of past entries left applied. */
+  onHistoryJump: (index: number) => void;
   onCopy: () => void;
   onPaste: () => void;
   onSetSearch: (query: string) => void;
   onFitViewDone: () => void;
   onViewMetadata: () => void;
+  /** Drills down into the diagram a node or group links to. */
+  onOpenLink: (link: DiagramLink) => void;
+  /** Goes back to the diagram at `index` in the breadcrumb trail. */
+  onOpenBreadcrumb: (index: number) => void;
+  /** Opens a node's entrypoint source file in an editor. */
+  onOpenEntrypoint: (entrypoint: string) => void;
 }
 
 export function useGraphState(
   doc: DiagramDocument | null,
   bridge: VSCodeBridge,
+  history: HistorySummary = EMPTY_HISTORY,
 ): GraphState {
   const [allNodes, setAllNodes, onNodesChange] = useNodesState<Node>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge<DiagramEdgeData>>([]);
@@ -131,6 +159,8 @@ export function useGraphState(
   const [selectedTextElementId, setSelectedTextElementId] = useState<string | null>(null);
   const [selectedImageElementId, setSelectedImageElementId] = useState<string | null>(null);
   const [groups, setGroups] = useState<DiagramGroup[]>([]);
+  const [layers, setLayers] = useState<DiagramLayer[]>([]);
+  const [theme, setTheme] = useState<DiagramTheme | undefined>(undefined);
   const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('TB');
   const [layoutPending, setLayoutPending] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -150,6 +180,8 @@ export function useGraphState(
     setAllNodes([...groupNodes, ...regularNodes, ...textNodes, ...imageNodes]);
     setEdges(docToFlowEdges(doc));
     setGroups(doc.groups ?? []);
+    setLayers(doc.layers ?? []);
+    setTheme(doc.meta.theme);
 
     if (doc.meta.layoutDirection) {
       setLayoutDirection(doc.meta.layoutDirection);
@@ -193,24 +225,22 @@ export function useGraphState(
 
   const onNodeDragStop = useCallback(
     (_event: React.MouseEvent, node: Node, nodes: Node[]) => {
-      // Helper: find the most up-to-date position of a node by id.
+      // Helper: find the most up-to-date version of a node by id.
       // Prefers the drag-event `nodes` array (has current positions) over allNodes (may be stale).
-      const findNodePosition = (id: string): { x: number; y: number } | null => {
-        const fromEvent = nodes.find((n) => n.id === id);
-        if (fromEvent) return fromEvent.position;
-        const fromState = allNodes.find((n) => n.id === id);
-        return fromState ? fromState.position : null;
-      };
+      const findNode = (id: string): Node | undefined =>
+        nodes.find((n) => n.id === id) ?? allNodes.find((n) => n.id === id);
 
+      // Walks the full parent chain so nodes inside nested groups resolve correctly.
       const toAbsolute = (n: Node): { x: number; y: number } => {
         let absX = Math.round(n.position.x);
         let absY = Math.round(n.position.y);
-        if (n.parentId) {
-          const parentPos = findNodePosition(n.parentId);
-          if (parentPos) {
-            absX += Math.round(parentPos.x);
-            absY += Math.round(parentPos.y);
-          }
+        const visited = new Set<string>([n.id]);
+        let parent = n.parentId ? findNode(n.parentId) : undefined;
+        while (parent && !visited.has(parent.id)) {
+          visited.add(parent.id);
+          absX += Math.round(parent.position.x);
+          absY += Math.round(parent.position.y);
+          parent = parent.parentId ? findNode(parent.parentId) : undefined;
         }
         return { x: absX, y: absY };
       };
@@ -221,10 +251,7 @@ export function useGraphState(
           bridge.postMessage({
             type: 'GROUP_DRAGGED',
             id: node.id,
-            position: {
-              x: Math.round(node.position.x),
-              y: Math.round(node.position.y),
-            },
+            position: toAbsolute(node),
           });
           return;
         }
@@ -257,7 +284,7 @@ export function useGraphState(
           bridge.postMessage({
             type: 'GROUP_DRAGGED',
             id: n.id,
-            position: { x: Math.round(n.position.x), y: Math.round(n.position.y) },
+            position: toAbsolute(n),
           });
           continue;
         }
@@ -290,7 +317,12 @@ export function useGraphState(
     (connection: Connection) => {
       bridge.postMessage({
         type: 'ADD_EDGE',
-        edge: { source: connection.source, target: connection.target },
+        edge: {
+          source: connection.source,
+          target: connection.target,
+          sourcePort: portIdFromHandle(connection.sourceHandle),
+          targetPort: portIdFromHandle(connection.targetHandle),
+        },
       });
     },
     [bridge],
@@ -303,6 +335,8 @@ export function useGraphState(
         id: oldEdge.id,
         newSource: newConnection.source,
         newTarget: newConnection.target,
+        sourcePort: portIdFromHandle(newConnection.sourceHandle),
+        targetPort: portIdFromHandle(newConnection.targetHandle),
       });
     },
     [bridge],
@@ -436,14 +470,14 @@ export function useGraphState(
   );
 
   const onUpdateTextElementProps = useCallback(
-    (id: string, changes: { content?: string; fontSize?: number; color?: string; bold?: boolean; italic?: boolean; href?: string; pinned?: boolean }) => {
+    (id: string, changes: { content?: string; fontSize?: number; color?: string; bold?: boolean; italic?: boolean; href?: string; pinned?: boolean; layer?: string | null }) => {
       bridge.postMessage({ type: 'UPDATE_TEXT_ELEMENT', id, changes });
     },
     [bridge],
   );
 
   const onUpdateImageElementProps = useCallback(
-    (id: string, changes: { src?: string; description?: string; href?: string; pinned?: boolean }) => {
+    (id: string, changes: { src?: string; description?: string; href?: string; pinned?: boolean; layer?: string | null }) => {
       bridge.postMessage({ type: 'UPDATE_IMAGE_ELEMENT', id, changes });
     },
     [bridge],
@@ -476,15 +510,18 @@ export function useGraphState(
       changes: {
         label?: string;
         shape?: NodeShape;
-        color?: NodeColor;
+        color?: ColorValue;
         notes?: string;
         group?: string | null;
         pinned?: boolean;
         type?: NodeType;
+        icon?: NodeIcon | null;
         tags?: string[];
         properties?: NodeProperties;
         securityClassification?: SecurityClassification;
         deploymentEnvironment?: DeploymentEnvironment;
+        layer?: string | null;
+        link?: DiagramLink | null;
       },
     ) => {
       bridge.postMessage({ type: 'UPDATE_NODE_PROPS', id, changes });
@@ -495,7 +532,7 @@ export function useGraphState(
   const onUpdateEdgeProps = useCallback(
     (
       id: string,
-      changes: { label?: string; style?: EdgeStyle; arrow?: ArrowType; animated?: boolean; bidirectional?: boolean; protocol?: string; dataTypes?: string[] },
+      changes: { label?: string; style?: EdgeStyle; arrow?: ArrowType; animated?: boolean; bidirectional?: boolean; protocol?: string; dataTypes?: string[]; routing?: EdgeRouting; waypoints?: EdgePoint[]; layer?: string | null },
     ) => {
       bridge.postMessage({ type: 'UPDATE_EDGE_PROPS', id, changes });
     },
@@ -503,7 +540,7 @@ export function useGraphState(
   );
 
   const onUpdateGroupProps = useCallback(
-    (id: string, changes: { label?: string; color?: NodeColor; collapsed?: boolean }) => {
+    (id: string, changes: { label?: string; color?: ColorValue; collapsed?: boolean; parent?: string | null; link?: DiagramLink | null }) => {
       bridge.postMessage({ type: 'UPDATE_GROUP_PROPS', id, changes });
     },
     [bridge],
@@ -522,6 +559,24 @@ export function useGraphState(
     [bridge, groups],
   );
 
+  const onAddLayer = useCallback(() => {
+    bridge.postMessage({ type: 'ADD_LAYER', label: `Layer ${layers.length + 1}` });
+  }, [bridge, layers.length]);
+
+  const onUpdateLayerProps = useCallback(
+    (id: string, changes: { label?: string; hidden?: boolean; locked?: boolean }) => {
+      bridge.postMessage({ type: 'UPDATE_LAYER_PROPS', id, changes });
+    },
+    [bridge],
+  );
+
+  const onDeleteLayer = useCallback(
+    (id: string) => {
+      bridge.postMessage({ type: 'DELETE_LAYER', id });
+    },
+    [bridge],
+  );
+
   const onSortNodes = useCallback(
     (direction: LayoutDirection) => {
       bridge.postMessage({
@@ -562,6 +617,13 @@ export function useGraphState(
     bridge.postMessage({ type: 'REDO' });
   }, [bridge]);
 
+  const onHistoryJump = useCallback(
+    (index: number) => {
+      bridge.postMessage({ type: 'HISTORY_JUMP', index });
+    },
+    [bridge],
+  );
+
   const onCopy = useCallback(() => {
     const selected = nodes.filter((n) => n.selected);
     if (selected.length === 0) return;
@@ -601,6 +663,13 @@ export function useGraphState(
     [bridge],
   );
 
+  const onEdgeWaypointsChange = useCallback(
+    (id: string, waypoints: EdgePoint[]) => {
+      bridge.postMessage({ type: 'UPDATE_EDGE_PROPS', id, changes: { waypoints } });
+    },
+    [bridge],
+  );
+
   const onDuplicateNodeAt = useCallback(
     (id: string, x: number, y: number, originalX: number, originalY: number) => {
       bridge.postMessage({ type: 'DUPLICATE_NODE', id, x, y, originalX, originalY });
@@ -612,11 +681,35 @@ export function useGraphState(
     bridge.postMessage({ type: 'VIEW_METADATA' });
   }, [bridge]);
 
+  const onOpenLink = useCallback(
+    (link: DiagramLink) => {
+      bridge.postMessage({ type: 'OPEN_LINK', link });
+    },
+    [bridge],
+  );
+
+  const onOpenEntrypoint = useCallback(
+    (entrypoint: string) => {
+      bridge.postMessage({ type: 'OPEN_ENTRYPOINT', entrypoint });
+    },
+    [bridge],
+  );
+
+  const onOpenBreadcrumb = useCallback(
+    (index: number) => {
+      bridge.postMessage({ type: 'OPEN_BREADCRUMB', index });
+    },
+    [bridge],
+  );
+
   return {
     nodes,
     allNodes,
     edges,
     groups,
+    layers,
+    theme,
+    history,
     selectedNodeId,
     selectedEdgeId,
     selectedGroupId,
@@ -645,6 +738,7 @@ export function useGraphState(
     onAddImageAt,
     onNodeLabelChange,
     onEdgeLabelChange,
+    onEdgeWaypointsChange,
     onDuplicateNodeAt,
     onTextContentChange,
     onUnpinNode,
@@ -655,16 +749,23 @@ export function useGraphState(
     onUpdateTextElementProps,
     onUpdateImageElementProps,
     onToggleGroupCollapse,
+    onAddLayer,
+    onUpdateLayerProps,
+    onDeleteLayer,
     onSortNodes,
     onRequestLayout,
     onRequestLayoutForce,
     onSetLayoutDirection,
     onUndo,
     onRedo,
+    onHistoryJump,
     onCopy,
     onPaste,
     onSetSearch,
     onFitViewDone,
     onViewMetadata,
+    onOpenLink,
+    onOpenBreadcrumb,
+    onOpenEntrypoint,
   };
 }
@@ -1,5 +1,8 @@
 import { useEffect, useRef, useCallback } from 'react';
 import type { DiagramDocument } from '../../types/DiagramDocument';
+import type { HistorySummary } from '../../lib/history';
+import type { Breadcrumb, DocumentProblem } from '../../messages/protocol';
+import type { LintFinding } from '../../lib/lint';
 
 declare function acquireVsCodeApi(): {
   postMessage(msg: unknown): void;
@@ -8,8 +11,12 @@ declare function acquireVsCodeApi(): {
 };
 
 interface BridgeOptions {
-  onDocumentUpdated: (doc: DiagramDocument) => void;
+  onDocumentUpdated: (doc: DiagramDocument, readOnly: boolean, lint: LintFinding[]) => void;
+  onDocumentInvalid?: (problems: DocumentProblem[]) => void;
   onSvgResult?: (svgContent: string) => void;
+  onHistoryUpdated?: (history: HistorySummary) => void;
+  onBreadcrumbsUpdated?: (crumbs: Breadcrumb[]) => void;
+  onFocusNode?: (id: string) => void;
 }
 
 export interface VSCodeBridge {
@@ -28,6 +35,8 @@ function getVSCodeApi(): ReturnType<typeof acquireVsCodeApi> {
 export function useVSCodeBridge(options: BridgeOptions): VSCodeBridge {
   const optionsRef = useRef(options);
   optionsRef.current = options;
+  // Revision of the last document received; sent back with every message.
+  const revisionRef = useRef<string | undefined>(undefined);
 
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
@@ -35,9 +44,18 @@ export function useVSCodeBridge(options: BridgeOptions): VSCodeBridge {
       if (!msg?.type) return;
 
       if (msg.type === 'DOCUMENT_UPDATED') {
-        optionsRef.current.onDocumentUpdated(msg.doc);
+        revisionRef.current = msg.revision;
+        optionsRef.current.onDocumentUpdated(msg.doc, msg.readOnly === true, msg.lint ?? []);
+      } else if (msg.type === 'DOCUMENT_INVALID') {
+        optionsRef.current.onDocumentInvalid?.(msg.problems);
       } else if (msg.type === 'OPEN_SVG_RESULT') {
         optionsRef.current.onSvgResult?.(msg.svgContent);
+      } else if (msg.type === 'HISTORY_UPDATED') {
+        optionsRef.current.onHistoryUpdated?.(msg.history);
+      } else if (msg.type === 'BREADCRUMBS_UPDATED') {
+        optionsRef.current.onBreadcrumbsUpdated?.(msg.crumbs);
+      } else if (msg.type === 'FOCUS_NODE') {
+        optionsRef.current.onFocusNode?.(msg.id);
       }
     };
 
@@ -48,7 +66,8 @@ export function useVSCodeBridge(options: BridgeOptions): VSCodeBridge {
   }, []);
 
   const postMessage = useCallback((msg: unknown) => {
-    getVSCodeApi().postMessage(msg);
+    const revision = revisionRef.current;
+    getVSCodeApi().postMessage(revision ? { ...(msg as object), revision } : msg);
   }, []);
 
   return { postMessage };
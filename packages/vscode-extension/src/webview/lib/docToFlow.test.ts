@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { docToFlowNodes, docToFlowEdges, docToFlowGroupNodes, resolveGroupOrigin } from './docToFlow';
+import {
+  docToFlowNodes,
+  docToFlowEdges,
+  docToFlowGroupNodes,
+  portIdFromHandle,
+  resolveGroupOrigin,
+} from './docToFlow';
 import type { DiagramDocument } from '../../types/DiagramDocument';
 import { GROUP_PADDING, GROUP_LABEL_HEIGHT } from '../../types/DiagramDocument';
 
@@ -190,6 +196,45 @@ describe('docToFlowEdges', () => {
     });
   });
 
+  it('attaches edges with ports to the matching port handles', () => {
+    const doc = makeDoc({
+      edges: [
+        {
+          id: 'e1',
+          source: 'n1',
+          target: 'n2',
+          sourcePort: 'out',
+          style: 'solid',
+          arrow: 'arrow',
+        },
+      ],
+    });
+
+    const [edge] = docToFlowEdges(doc);
+    expect(edge.sourceHandle).toBe('port-out-s');
+    expect(edge).not.toHaveProperty('targetHandle');
+    expect(edge.data).toMatchObject({ sourcePort: 'out' });
+  });
+
+  it('passes routing and waypoints through to edge data', () => {
+    const doc = makeDoc({
+      edges: [
+        {
+          id: 'e1',
+          source: 'n1',
+          target: 'n2',
+          style: 'solid',
+          arrow: 'normal',
+          routing: 'curved',
+          waypoints: [{ x: 10, y: 20 }],
+        },
+      ],
+    });
+
+    const [edge] = docToFlowEdges(doc);
+    expect(edge.data).toMatchObject({ routing: 'curved', waypoints: [{ x: 10, y: 20 }] });
+  });
+
   it('maps edge without label as empty string', () => {
     const doc = makeDoc({
       edges: [
@@ -439,4 +484,111 @@ describe('docToFlowGroupNodes – group renders at bounds-derived position', ()
     expect(n1.position.x).toBe(200 - expectedOriginX);
     expect(n1.position.y).toBe(300 - expectedOriginY);
   });
-});
\ No newline at end of file
+});
+describe('docToFlowGroupNodes – nested groups', () => {
+  function makeNestedDoc(): DiagramDocument {
+    const doc = makeGroupDoc();
+    doc.groups = [
+      { id: 'g1', label: 'Subnet', parent: 'g0' },
+      { id: 'g0', label: 'VPC' },
+    ];
+    return doc;
+  }
+
+  it('orders parents before children and sets parentId on nested groups', () => {
+    const groupNodes = docToFlowGroupNodes(makeNestedDoc());
+    expect(groupNodes.map((g) => g.id)).toEqual(['g0', 'g1']);
+    expect(groupNodes[0].parentId).toBeUndefined();
+    expect(groupNodes[1].parentId).toBe('g0');
+  });
+
+  it('positions nested groups relative to the enclosing group', () => {
+    const groupNodes = docToFlowGroupNodes(makeNestedDoc());
+    const outer = groupNodes.find((g) => g.id === 'g0')!;
+    const inner = groupNodes.find((g) => g.id === 'g1')!;
+    expect(outer.position.x).toBe(200 - 2 * GROUP_PADDING);
+    expect(outer.position.y).toBe(300 - 2 * (GROUP_PADDING + GROUP_LABEL_HEIGHT));
+    expect(inner.position).toEqual({ x: GROUP_PADDING, y: GROUP_PADDING + GROUP_LABEL_HEIGHT });
+  });
+
+  it('hides sub-groups, nodes and edges inside a collapsed ancestor', () => {
+    const doc = makeNestedDoc();
+    doc.groups![1].collapsed = true;
+    doc.nodes.push({ id: 'n3', label: 'C', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false });
+    doc.edges = [{ id: 'e1', source: 'n1', target: 'n3', style: 'solid', arrow: 'arrow' }];
+    expect(docToFlowGroupNodes(doc).map((g) => g.id)).toEqual(['g0']);
+    expect(docToFlowNodes(doc).map((n) => n.id)).toEqual(['n3']);
+    expect(docToFlowEdges(doc)).toHaveLength(0);
+  });
+});
+
+describe('portIdFromHandle', () => {
+  it('extracts the port id from port handles only', () => {
+    expect(portIdFromHandle('port-dead-letter-s')).toBe('dead-letter');
+    expect(portIdFromHandle('port-in-t')).toBe('in');
+    expect(portIdFromHandle('left-t')).toBeUndefined();
+    expect(portIdFromHandle(null)).toBeUndefined();
+  });
+});
+
+describe('docToFlow – layers', () => {
+  const node = (id: string, layer?: string) => ({
+    id, label: id, x: 0, y: 0, width: 160, height: 48,
+    shape: 'rectangle' as const, color: 'default' as const, pinned: false, layer,
+  });
+
+  it('hides elements on hidden layers and locks elements on locked layers', () => {
+    const doc = makeDoc({
+      layers: [
+        { id: 'infra', label: 'Infra', hidden: true },
+        { id: 'core', label: 'Core', locked: true },
+      ],
+      nodes: [node('n1', 'infra'), node('n2', 'core'), node('n3')],
+      edges: [{ id: 'e1', source: 'n2', target: 'n3', style: 'solid', arrow: 'normal', layer: 'core' }],
+    });
+
+    const [hidden, locked, free] = docToFlowNodes(doc);
+    expect(hidden).toMatchObject({ hidden: true, data: { layer: 'infra' } });
+    expect(locked).toMatchObject({ draggable: false, deletable: false });
+    expect(locked.hidden).toBeUndefined();
+    expect(free).toMatchObject({ draggable: true });
+    expect(free.deletable).toBeUndefined();
+
+    const [edge] = docToFlowEdges(doc);
+    expect(edge).toMatchObject({ reconnectable: false, deletable: false, data: { layer: 'core' } });
+  });
+});
+
+describe('docToFlow – theme colours', () => {
+  const node = (id: string, color: string) => ({
+    id, label: id, x: 0, y: 0, width: 160, height: 48,
+    shape: 'rectangle' as const, color, pinned: false,
+  });
+
+  it('only attaches a swatch for hex colours or themed diagrams', () => {
+    const [palette, hex] = docToFlowNodes(makeDoc({ nodes: [node('n1', 'blue'), node('n2', '#ffffff')] }));
+    expect(palette.data.swatch).toBeUndefined();
+    expect(hex.data.swatch).toEqual({ fill: '#ffffff', stroke: '#a6a6a6', text: '#1e1e1e' });
+
+    const themed = makeDoc({ nodes: [node('n1', 'blue')] });
+    themed.meta.theme = { mode: 'light' };
+    expect(docToFlowNodes(themed)[0].data.swatch?.fill).toBe('#e3f0fc');
+  });
+});
+
+describe('docToFlow – drill-down links', () => {
+  it('passes node and group links through to their data', () => {
+    const link = { file: 'detail/api.diagram', node: 'Handler' };
+    const doc = makeDoc({
+      nodes: [
+        { id: 'n1', label: 'API', x: 0, y: 0, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false, link },
+        { id: 'n2', label: 'DB', x: 0, y: 100, width: 160, height: 48, shape: 'rectangle', color: 'default', pinned: false },
+      ],
+      groups: [{ id: 'g1', label: 'Backend', link: { file: 'backend.diagram' } }],
+    });
+    const [api, db] = docToFlowNodes(doc);
+    expect(api.data.link).toEqual(link);
+    expect('link' in db.data).toBe(false);
+    expect(docToFlowGroupNodes(doc)[0].data.link).toEqual({ file: 'backend.diagram' });
+  });
+});
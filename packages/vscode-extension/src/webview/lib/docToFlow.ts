@@ -1,10 +1,16 @@
 import type { Node, Edge } from '@xyflow/react';
 import type {
+  ColorValue,
   DiagramDocument,
+  DiagramLink,
   DiagramNode as DocNode,
   DiagramGroup,
+  EdgePoint,
+  EdgeRouting,
+  NodePort,
   TextElement,
   ImageElement,
+  ThemeSwatch,
 } from '../../types/DiagramDocument';
 import {
   DEFAULT_NODE_WIDTH,
@@ -13,8 +19,15 @@ import {
   GROUP_LABEL_HEIGHT,
   GROUP_MIN_WIDTH,
   GROUP_MIN_HEIGHT,
-  type NodeColor,
 } from '../../types/DiagramDocument';
+import {
+  computeGroupBounds,
+  getGroupAncestorIds,
+  sortGroupsParentFirst,
+} from '../../lib/groupHierarchy';
+import { getHiddenLayerIds, getLockedLayerIds, isOnLayer } from '../../lib/layers';
+import { isHexColor, resolveColor, resolveGroupColor } from '../../lib/theme';
+import type { LintFinding } from '../../lib/lint';
 
 export interface DiagramNodeData extends Record<string, unknown> {
   label: string;
@@ -25,10 +38,21 @@ export interface DiagramNodeData extends Record<string, unknown> {
   width: number;
   height: number;
   type?: DocNode['type'];
+  icon?: DocNode['icon'];
   tags?: string[];
   properties?: DocNode['properties'];
   securityClassification?: DocNode['securityClassification'];
   deploymentEnvironment?: DocNode['deploymentEnvironment'];
+  ports?: NodePort[];
+  layer?: string;
+  /** Resolved colours when the diagram has a theme or the colour is a hex value. */
+  swatch?: ThemeSwatch;
+  /** Diagram this node drills down into. */
+  link?: DiagramLink;
+  /** Injected by CanvasPanel — lint findings about this node. */
+  lint?: LintFinding[];
+  /** Injected by CanvasPanel — opens the linked diagram. */
+  onOpenLink?: (link: DiagramLink) => void;
 }
 
 export interface DiagramEdgeData extends Record<string, unknown> {
@@ -38,14 +62,32 @@ export interface DiagramEdgeData extends Record<string, unknown> {
   bidirectional?: boolean;
   protocol?: string;
   dataTypes?: string[];
+  sourcePort?: string;
+  targetPort?: string;
+  routing?: EdgeRouting;
+  /** Manual bend points in absolute canvas coordinates. */
+  waypoints?: EdgePoint[];
+  layer?: string;
   /** Injected by CanvasPanel — not persisted in the document. */
   onLabelChange?: (id: string, label: string) => void;
+  /** Injected by CanvasPanel — called when the user drags, adds or removes a bend point. */
+  onWaypointsChange?: (id: string, waypoints: EdgePoint[]) => void;
+  /** Injected by CanvasPanel — lint findings about this edge. */
+  lint?: LintFinding[];
 }
 
 export interface DiagramGroupNodeData extends Record<string, unknown> {
   label: string;
-  color?: NodeColor;
+  color?: ColorValue;
   collapsed?: boolean;
+  /** Resolved colours when the diagram has a theme or the colour is a hex value. */
+  swatch?: ThemeSwatch;
+  /** Diagram this group drills down into. */
+  link?: DiagramLink;
+  /** Injected by CanvasPanel — lint findings about this group. */
+  lint?: LintFinding[];
+  /** Injected by CanvasPanel — opens the linked diagram. */
+  onOpenLink?: (link: DiagramLink) => void;
 }
 
 export interface TextElementNodeData extends Record<string, unknown> {
@@ -55,6 +97,7 @@ export interface TextElementNodeData extends Record<string, unknown> {
   bold?: boolean;
   italic?: boolean;
   href?: string;
+  layer?: string;
   onContentChange?: (id: string, content: string) => void;
 }
 
@@ -62,94 +105,153 @@ export interface ImageElementNodeData extends Record<string, unknown> {
   src: string;
   description?: string;
   href?: string;
-}
-
-/**
- * Computes the bounding box of all child nodes belonging to a group.
- * Returns null if the group has no children.
- */
-function computeGroupBounds(
-  nodes: DocNode[],
-  groupId: string,
-): { x: number; y: number; width: number; height: number } | null {
-  const children = nodes.filter((n) => n.group === groupId);
-  if (children.length === 0) return null;
-
-  const minX = Math.min(...children.map((n) => n.x));
-  const minY = Math.min(...children.map((n) => n.y));
-  const maxX = Math.max(
-    ...children.map((n) => n.x + (n.width > 0 ? n.width : DEFAULT_NODE_WIDTH)),
-  );
-  const maxY = Math.max(
-    ...children.map((n) => n.y + (n.height > 0 ? n.height : DEFAULT_NODE_HEIGHT)),
-  );
-
-  return {
-    x: minX - GROUP_PADDING,
-    y: minY - GROUP_PADDING - GROUP_LABEL_HEIGHT,
-    width: Math.max(maxX - minX + 2 * GROUP_PADDING, GROUP_MIN_WIDTH),
-    height: Math.max(maxY - minY + 2 * GROUP_PADDING + GROUP_LABEL_HEIGHT, GROUP_MIN_HEIGHT),
-  };
+  layer?: string;
 }
 
 /**
  * Resolves the absolute top-left position of a group.
  *
- * Always derives from the child nodes' bounding box when the group has children.
- * This guarantees the group rectangle tracks child positions correctly even when
- * children are moved independently after the group was dragged.
+ * Always derives from the bounding box of the group's content (child nodes and
+ * nested sub-groups) when it has any. This guarantees the group rectangle tracks
+ * child positions correctly even when children are moved independently after the
+ * group was dragged.
  * Falls back to the stored x/y only for empty groups (no children yet).
  */
 export function resolveGroupOrigin(
   group: DiagramGroup,
   nodes: DocNode[],
+  groups: DiagramGroup[] = [group],
 ): { x: number; y: number } {
-  const bounds = computeGroupBounds(nodes, group.id);
+  const bounds = computeGroupBounds(groups, nodes, group.id);
   // Prefer bounds-derived origin so the visual group always wraps its children.
   if (bounds) return { x: bounds.x, y: bounds.y };
   // Empty group: fall back to stored position.
   return { x: group.x ?? 0, y: group.y ?? 0 };
 }
 
+/**
+ * Splits groups affected by collapsing: `collapsed` holds every group whose
+ * content is hidden (collapsed itself or inside a collapsed ancestor), `hidden`
+ * holds groups that are not rendered at all because an ancestor is collapsed.
+ */
+function collectCollapsedGroupIds(groups: DiagramGroup[]): {
+  collapsed: Set<string>;
+  hidden: Set<string>;
+} {
+  const collapsedIds = new Set(groups.filter((g) => g.collapsed).map((g) => g.id));
+  const collapsed = new Set<string>();
+  const hidden = new Set<string>();
+  for (const group of groups) {
+    const insideCollapsed = getGroupAncestorIds(groups, group.id).some((a) => collapsedIds.has(a));
+    if (insideCollapsed) hidden.add(group.id);
+    if (insideCollapsed || group.collapsed) collapsed.add(group.id);
+  }
+  return { collapsed, hidden };
+}
+
+/**
+ * Without a theme the canvas keeps its VS Code–aware CSS colour classes;
+ * themed diagrams and hex colours are drawn from the resolved swatch instead.
+ */
+function needsSwatch(doc: DiagramDocument, color: string | undefined): boolean {
+  return doc.meta.theme !== undefined || (color !== undefined && isHexColor(color));
+}
+
 export function docToFlowGroupNodes(doc: DiagramDocument): Node<DiagramGroupNodeData>[] {
   if (!doc.groups || doc.groups.length === 0) return [];
 
-  return doc.groups.map((group) => {
-    const bounds = computeGroupBounds(doc.nodes, group.id);
-    const origin = resolveGroupOrigin(group, doc.nodes);
-    const width = bounds?.width ?? GROUP_MIN_WIDTH;
-    const height = group.collapsed
-      ? GROUP_LABEL_HEIGHT + GROUP_PADDING
-      : (bounds?.height ?? GROUP_MIN_HEIGHT);
+  const groups = doc.groups;
+  const groupIds = new Set(groups.map((g) => g.id));
+  const { hidden } = collectCollapsedGroupIds(groups);
 
-    return {
-      id: group.id,
-      type: 'diagramGroup',
-      position: { x: origin.x, y: origin.y },
-      data: { label: group.label, color: group.color, collapsed: group.collapsed },
-      style: { width, height },
-      // Group nodes render behind child nodes.
-      zIndex: -1,
-      selectable: true,
-      draggable: true,
-    } as Node<DiagramGroupNodeData>;
+  // Parents must precede their children for React Flow's `parentId` to resolve.
+  return sortGroupsParentFirst(groups)
+    .filter((group) => !hidden.has(group.id))
+    .map((group) => {
+      const bounds = computeGroupBounds(groups, doc.nodes, group.id);
+      const origin = resolveGroupOrigin(group, doc.nodes, groups);
+      const width = bounds?.width ?? GROUP_MIN_WIDTH;
+      const height = group.collapsed
+        ? GROUP_LABEL_HEIGHT + GROUP_PADDING
+        : (bounds?.height ?? GROUP_MIN_HEIGHT);
+
+      const parent = group.parent && groupIds.has(group.parent)
+        ? groups.find((g) => g.id === group.parent)
+        : undefined;
+      // Nested groups use parent-relative positions in React Flow.
+      const parentOrigin = parent ? resolveGroupOrigin(parent, doc.nodes, groups) : undefined;
+      const position = parentOrigin
+        ? { x: origin.x - parentOrigin.x, y: origin.y - parentOrigin.y }
+        : { x: origin.x, y: origin.y };
+
+      return {
+        id: group.id,
+        type: 'diagramGroup',
+        position,
+        data: {
+          label: group.label,
+          color: group.color,
+          collapsed: group.collapsed,
+          ...(group.link ? { link: group.link } : {}),
+          ...(needsSwatch(doc, group.color) ? { swatch: resolveGroupColor(group.color, doc.meta.theme) } : {}),
+        },
+        style: { width, height },
+        // Top-level groups render behind everything; nested groups sit above their parent.
+        zIndex: parent ? 0 : -1,
+        selectable: true,
+        draggable: true,
+        ...(parent ? { parentId: parent.id } : {}),
+      } as Node<DiagramGroupNodeData>;
+    });
+}
+
+/**
+ * Returns a function mapping an element to the React Flow props its layer
+ * implies: hidden layers hide it, locked layers make it immovable and
+ * undeletable. Elements on normal layers get no extra props.
+ */
+function layerPropsFor(doc: DiagramDocument): (el: { layer?: string }) => {
+  hidden?: boolean;
+  draggable?: boolean;
+  deletable?: boolean;
+} {
+  const hidden = getHiddenLayerIds(doc.layers);
+  const locked = getLockedLayerIds(doc.layers);
+  return (el) => ({
+    ...(isOnLayer(el, hidden) ? { hidden: true } : {}),
+    ...(isOnLayer(el, locked) ? { draggable: false, deletable: false } : {}),
   });
 }
 
+/** React Flow handle id for one direction of a named node port. */
+export function portHandleId(portId: string, type: 'source' | 'target'): string {
+  return `port-${portId}-${type === 'source' ? 's' : 't'}`;
+}
+
+/**
+ * Returns the port id encoded in a handle id, or undefined for the generic
+ * side handles (`top-s`, `left-t`, …) that are not tied to a port.
+ */
+export function portIdFromHandle(handleId: string | null | undefined): string | undefined {
+  const match = handleId ? /^port-(.+)-[st]$/.exec(handleId) : null;
+  return match ? match[1] : undefined;
+}
+
 export function docToFlowNodes(doc: DiagramDocument): Node<DiagramNodeData>[] {
-  // Build set of collapsed group IDs so child nodes can be hidden.
-  const collapsedGroupIds = new Set(
-    (doc.groups ?? []).filter((g) => g.collapsed).map((g) => g.id),
-  );
+  // Build set of collapsed group IDs (including groups nested in a collapsed
+  // ancestor) so child nodes can be hidden.
+  const { collapsed: collapsedGroupIds } = collectCollapsedGroupIds(doc.groups ?? []);
 
   // Pre-compute group origins for coordinate conversion.
   const groupOrigins = new Map<string, { x: number; y: number }>();
   if (doc.groups) {
     for (const group of doc.groups) {
-      groupOrigins.set(group.id, resolveGroupOrigin(group, doc.nodes));
+      groupOrigins.set(group.id, resolveGroupOrigin(group, doc.nodes, doc.groups));
     }
   }
 
+  const layerProps = layerPropsFor(doc);
+
   return doc.nodes
     .filter((n) => !n.group || !collapsedGroupIds.has(n.group))
     .map((n) => {
@@ -175,15 +277,21 @@ export function docToFlowNodes(doc: DiagramDocument): Node<DiagramNodeData>[] {
         width: w,
         height: h,
         type: n.type,
+        icon: n.icon,
         tags: n.tags,
         properties: n.properties,
         securityClassification: n.securityClassification,
         deploymentEnvironment: n.deploymentEnvironment,
+        ports: n.ports,
+        layer: n.layer,
+        ...(n.link ? { link: n.link } : {}),
+        ...(needsSwatch(doc, n.color) ? { swatch: resolveColor(n.color, doc.meta.theme) } : {}),
       },
       width: w,
       height: h,
       draggable: true,
       selectable: true,
+      ...layerProps(n),
       // Grouped nodes are children of their group node and render above it.
       ...(n.group ? { parentId: n.group, zIndex: 1 } : {}),
     };
@@ -192,28 +300,44 @@ export function docToFlowNodes(doc: DiagramDocument): Node<DiagramNodeData>[] {
 
 export function docToFlowEdges(doc: DiagramDocument): Edge<DiagramEdgeData>[] {
   // Hide edges whose source or target is inside a collapsed group.
-  const collapsedGroupIds = new Set(
-    (doc.groups ?? []).filter((g) => g.collapsed).map((g) => g.id),
-  );
+  const { collapsed: collapsedGroupIds } = collectCollapsedGroupIds(doc.groups ?? []);
   const hiddenNodeIds = new Set(
     doc.nodes.filter((n) => n.group && collapsedGroupIds.has(n.group)).map((n) => n.id),
   );
 
+  const layerProps = layerPropsFor(doc);
+  const lockedLayerIds = getLockedLayerIds(doc.layers);
+
   return doc.edges
     .filter((e) => !hiddenNodeIds.has(e.source) && !hiddenNodeIds.has(e.target))
     .map((e) => ({
       id: e.id,
       source: e.source,
       target: e.target,
+      ...(e.sourcePort ? { sourceHandle: portHandleId(e.sourcePort, 'source') } : {}),
+      ...(e.targetPort ? { targetHandle: portHandleId(e.targetPort, 'target') } : {}),
       type: 'diagramEdge',
       label: e.label ?? '',
       animated: e.animated ?? false,
-      reconnectable: true,
-      data: { style: e.style, arrow: e.arrow, bidirectional: e.bidirectional, protocol: e.protocol, dataTypes: e.dataTypes },
+      reconnectable: !isOnLayer(e, lockedLayerIds),
+      ...layerProps(e),
+      data: {
+        style: e.style,
+        arrow: e.arrow,
+        bidirectional: e.bidirectional,
+        protocol: e.protocol,
+        dataTypes: e.dataTypes,
+        sourcePort: e.sourcePort,
+        targetPort: e.targetPort,
+        routing: e.routing,
+        waypoints: e.waypoints,
+        layer: e.layer,
+      },
     }));
 }
 
 export function docToFlowTextElements(doc: DiagramDocument): Node<TextElementNodeData>[] {
+  const layerProps = layerPropsFor(doc);
   return (doc.textElements ?? []).map((el: TextElement) => ({
     id: `text-${el.id}`,
     type: 'textElementNode',
@@ -227,14 +351,17 @@ export function docToFlowTextElements(doc: DiagramDocument): Node<TextElementNod
       bold: el.bold,
       italic: el.italic,
       href: el.href,
+      layer: el.layer,
     },
     draggable: true,
     selectable: true,
+    ...layerProps(el),
     style: { width: el.width, height: el.height, background: 'transparent', border: 'none' },
   }));
 }
 
 export function docToFlowImageElements(doc: DiagramDocument): Node<ImageElementNodeData>[] {
+  const layerProps = layerPropsFor(doc);
   return (doc.imageElements ?? []).map((el: ImageElement) => ({
     id: `image-${el.id}`,
     type: 'imageElementNode',
@@ -245,9 +372,11 @@ export function docToFlowImageElements(doc: DiagramDocument): Node<ImageElementN
       src: el.src,
       description: el.description,
       href: el.href,
+      layer: el.layer,
     },
     draggable: true,
     selectable: true,
+    ...layerProps(el),
     style: { width: el.width, height: el.height },
   }));
 }
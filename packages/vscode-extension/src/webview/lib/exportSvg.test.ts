@@ -214,6 +214,34 @@ describe('buildExportSvg', () => {
     expect(svg).toContain('connects');
   });
 
+  it('renders routed edges through their waypoints', () => {
+    const doc = makeDoc({
+      nodes: [
+        {
+          id: 'n1', label: 'A', x: 0, y: 0,
+          width: 160, height: 48, shape: 'rectangle',
+          color: 'default', pinned: false,
+        },
+        {
+          id: 'n2', label: 'B', x: 300, y: 0,
+          width: 160, height: 48, shape: 'rectangle',
+          color: 'default', pinned: false,
+        },
+      ],
+      edges: [{
+        id: 'e1', source: 'n1', target: 'n2',
+        style: 'solid', arrow: 'normal',
+        routing: 'orthogonal', waypoints: [{ x: 230, y: 250 }],
+      }],
+    });
+
+    const svg = buildExportSvg(doc)!;
+    expect(svg).not.toContain('<line');
+    expect(svg).toContain('<path d="M 80 48 L 80 250 L 230 250 L 380 250 L 380 48"');
+    // The bend point lies below both nodes, so the viewBox grows to include it.
+    expect(svg).toContain('viewBox="-40 -40 540 330"');
+  });
+
   it('skips edges with missing source/target nodes', () => {
     const doc = makeDoc({
       nodes: [{
@@ -356,6 +384,32 @@ describe('buildExportSvg', () => {
     const svg = buildExportSvg(doc)!;
     expect(svg).toContain('fill="#2d2d2d"');
   });
+
+  it('renders from the diagram theme', () => {
+    const doc = makeDoc({
+      nodes: [{
+        id: 'n1', label: 'A', x: 0, y: 0,
+        width: 160, height: 48, shape: 'rectangle',
+        color: 'brand', pinned: false,
+      }, {
+        id: 'n2', label: 'B', x: 200, y: 0,
+        width: 160, height: 48, shape: 'rectangle',
+        color: '#ffcc00', pinned: false,
+      }],
+    });
+    doc.meta.theme = {
+      mode: 'light',
+      font: 'Inter',
+      palette: { brand: { light: { fill: '#102030', stroke: '#405060', text: '#f0f0f0' } } },
+    };
+
+    const svg = buildExportSvg(doc)!;
+    expect(svg).toContain('font-family="Inter"');
+    expect(svg).toContain('fill="#ffffff"');
+    expect(svg).toContain('fill="#102030"');
+    expect(svg).toContain('stroke="#405060"');
+    expect(svg).toContain('fill="#ffcc00"');
+  });
 });
 
 describe('rasterizeSvgToPng', () => {
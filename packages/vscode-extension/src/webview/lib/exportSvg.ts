@@ -1,17 +1,12 @@
-import type { DiagramDocument } from '../../types/DiagramDocument';
+import type { DiagramDocument, DiagramTheme, ThemeSwatch } from '../../types/DiagramDocument';
+import { computeEdgeRoute, resolveEdgePorts } from '../../lib/edgeRouting';
+import { filterDocumentByLayers } from '../../lib/layers';
+import { nodeLabelY, nodeOutlinePath } from '../../lib/nodeShapes';
+import { buildNodeIconSvg, resolveNodeIcon } from '../../lib/nodeIcons';
+import { resolveColor, resolveTheme, type ResolvedTheme } from '../../lib/theme';
 
 const DIAGRAM_NS = 'https://diagramflow.vscode/schema';
 
-const NODE_COLORS: Record<string, { fill: string; stroke: string; text: string }> = {
-  default: { fill: '#2d2d2d', stroke: '#555', text: '#ccc' },
-  blue: { fill: '#1e3a5f', stroke: '#4a90d9', text: '#90c4f9' },
-  green: { fill: '#1a3a1a', stroke: '#4a9a4a', text: '#90d490' },
-  red: { fill: '#3a1a1a', stroke: '#c84040', text: '#f09090' },
-  yellow: { fill: '#3a3a1a', stroke: '#c8a840', text: '#f0d490' },
-  purple: { fill: '#2a1a3a', stroke: '#8040c8', text: '#c090f0' },
-  gray: { fill: '#333', stroke: '#666', text: '#aaa' },
-};
-
 export function escapeXml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
@@ -24,30 +19,34 @@ export function buildExportSvg(doc: DiagramDocument | null): string | null {
   if (!doc) return null;
 
   const pad = 40;
-  const { nodes, edges } = doc;
+  // Export what the canvas shows: elements on hidden layers are left out.
+  const { nodes, edges } = filterDocumentByLayers(doc);
 
   if (nodes.length === 0) return null;
 
-  const minX = Math.min(...nodes.map((n) => n.x)) - pad;
-  const minY = Math.min(...nodes.map((n) => n.y)) - pad;
-  const maxRight = Math.max(...nodes.map((n) => n.x + n.width)) + pad;
-  const maxBottom = Math.max(...nodes.map((n) => n.y + n.height)) + pad;
+  // Manual bend points may lie outside every node.
+  const waypoints = edges.flatMap((e) => e.waypoints ?? []);
+  const minX = Math.min(...nodes.map((n) => n.x), ...waypoints.map((p) => p.x)) - pad;
+  const minY = Math.min(...nodes.map((n) => n.y), ...waypoints.map((p) => p.y)) - pad;
+  const maxRight = Math.max(...nodes.map((n) => n.x + n.width), ...waypoints.map((p) => p.x)) + pad;
+  const maxBottom = Math.max(...nodes.map((n) => n.y + n.height), ...waypoints.map((p) => p.y)) + pad;
   const vbWidth = maxRight - minX;
   const vbHeight = maxBottom - minY;
 
   const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const theme = resolveTheme(doc.meta.theme);
 
-  const edgeSvg = buildEdgeSvg(edges, nodeMap);
-  const nodeSvg = buildNodeSvg(nodes);
+  const edgeSvg = buildEdgeSvg(edges, nodeMap, theme);
+  const nodeSvg = buildNodeSvg(nodes, doc.meta.theme);
   const metadataXml = `<metadata><diagramflow:source xmlns:diagramflow="${DIAGRAM_NS}">${escapeXml(JSON.stringify(doc))}</diagramflow:source></metadata>`;
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" viewBox="${minX} ${minY} ${vbWidth} ${vbHeight}" width="${vbWidth}" height="${vbHeight}">
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="${minX} ${minY} ${vbWidth} ${vbHeight}" width="${vbWidth}" height="${vbHeight}" font-family="${escapeXml(theme.font)}">
 ${metadataXml}
-<rect width="100%" height="100%" fill="#1e1e1e"/>
+<rect width="100%" height="100%" fill="${theme.background}"/>
 <defs>
-  <marker id="arrow-normal" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polygon points="0 0, 10 3.5, 0 7" fill="#888"/></marker>
-  <marker id="arrow-open" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polyline points="0 0, 10 3.5, 0 7" fill="none" stroke="#888" stroke-width="1.5"/></marker>
+  <marker id="arrow-normal" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polygon points="0 0, 10 3.5, 0 7" fill="${theme.edge}"/></marker>
+  <marker id="arrow-open" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polyline points="0 0, 10 3.5, 0 7" fill="none" stroke="${theme.edge}" stroke-width="1.5"/></marker>
 </defs>
 <g id="edge-layer">${edgeSvg}</g>
 <g id="node-layer">${nodeSvg}</g>
@@ -57,6 +56,7 @@ ${metadataXml}
 function buildEdgeSvg(
   edges: DiagramDocument['edges'],
   nodeMap: Map<string, DiagramDocument['nodes'][number]>,
+  theme: ResolvedTheme,
 ): string {
   let svg = '';
   for (const edge of edges) {
@@ -79,31 +79,52 @@ function buildEdgeSvg(
           ? 'marker-end="url(#arrow-open)"'
           : '';
 
-    svg += `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#888" stroke-width="2" ${dash} ${marker}/>\n`;
+    // Edges with a routing mode, bend points or ports follow the same route as on the canvas.
+    if (
+      edge.routing !== undefined
+      || (edge.waypoints?.length ?? 0) > 0
+      || edge.sourcePort !== undefined
+      || edge.targetPort !== undefined
+    ) {
+      const route = computeEdgeRoute(src, tgt, edge.routing, edge.waypoints, resolveEdgePorts(edge, src, tgt));
+      svg += `<path d="${route.path}" fill="none" stroke="${theme.edge}" stroke-width="2" ${dash} ${marker}/>\n`;
+      if (edge.label) {
+        svg += `<text x="${route.label.x}" y="${route.label.y - 6}" text-anchor="middle" fill="${theme.edgeLabel}" font-size="11">${escapeXml(edge.label)}</text>\n`;
+      }
+      continue;
+    }
+
+    svg += `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${theme.edge}" stroke-width="2" ${dash} ${marker}/>\n`;
 
     if (edge.label) {
-      svg += `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 6}" text-anchor="middle" fill="#aaa" font-size="11">${escapeXml(edge.label)}</text>\n`;
+      svg += `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 6}" text-anchor="middle" fill="${theme.edgeLabel}" font-size="11">${escapeXml(edge.label)}</text>\n`;
     }
   }
   return svg;
 }
 
-function buildNodeSvg(nodes: DiagramDocument['nodes']): string {
+function buildNodeSvg(nodes: DiagramDocument['nodes'], theme: DiagramTheme | undefined): string {
   let svg = '';
   for (const node of nodes) {
-    const colors = NODE_COLORS[node.color] ?? NODE_COLORS.default;
+    const colors = resolveColor(node.color, theme);
     const shape = renderNodeShape(node, colors);
-    const label = `<text x="${node.width / 2}" y="${node.height / 2 + 1}" text-anchor="middle" dominant-baseline="middle" fill="${colors.text}" font-size="13">${escapeXml(node.label)}</text>`;
-    svg += `<g transform="translate(${node.x},${node.y})">${shape}${label}</g>\n`;
+    const label = `<text x="${node.width / 2}" y="${nodeLabelY(node.shape, node.height) + 1}" text-anchor="middle" dominant-baseline="middle" fill="${colors.text}" font-size="13">${escapeXml(node.label)}</text>`;
+    const icon = resolveNodeIcon(node);
+    const iconSvg = icon ? buildNodeIconSvg(icon, 6, 6, colors.text) : '';
+    svg += `<g transform="translate(${node.x},${node.y})">${shape}${iconSvg}${label}</g>\n`;
   }
   return svg;
 }
 
 function renderNodeShape(
   node: DiagramDocument['nodes'][number],
-  colors: { fill: string; stroke: string },
+  colors: ThemeSwatch,
 ): string {
   const { width, height } = node;
+  const outline = nodeOutlinePath(node.shape, width, height);
+  if (outline) {
+    return `<path d="${outline}" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2"/>`;
+  }
 
   switch (node.shape) {
     case 'diamond': {